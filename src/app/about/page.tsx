@@ -6,7 +6,7 @@ import { Button } from '@/components/ui/button';
 import Link from 'next/link';
 import { Sparkles, Target, Heart, ShieldCheck, Zap, Award, ArrowRight } from 'lucide-react';
 import { useRef, useEffect, useState } from 'react';
-import api from '@/lib/api';
+import { coreService } from '@/services/core';
 import { TeamMember } from '@/types/core';
 
 // --- ANIMATION VARIANTS ---
@@ -39,8 +39,7 @@ export default function AboutPage() {
     useEffect(() => {
         const fetchTeam = async () => {
             try {
-                const response = await api.get('/core/team/');
-                setTeamMembers(response.data.results || response.data);
+                setTeamMembers(await coreService.getTeam());
             } catch (error) {
                 console.error('Failed to fetch team members', error);
             }
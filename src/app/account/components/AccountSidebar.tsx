@@ -1,13 +1,13 @@
 'use client';
 
-import { User as UserIcon, ShoppingBag, Lock, LogOut, Camera } from 'lucide-react';
+import { User as UserIcon, ShoppingBag, Heart, Lock, LogOut, Camera } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useRouter } from 'next/navigation';
 import { useAuthStore, type User } from '@/store/auth-store';
 
 interface AccountSidebarProps {
-    activeTab: 'profile' | 'password' | 'orders';
-    setActiveTab: (tab: 'profile' | 'password' | 'orders') => void;
+    activeTab: 'profile' | 'password' | 'orders' | 'wishlist';
+    setActiveTab: (tab: 'profile' | 'password' | 'orders' | 'wishlist') => void;
     user: User | null;
 }
 
@@ -75,6 +75,18 @@ export function AccountSidebar({ activeTab, setActiveTab, user }: AccountSidebar
                     <ShoppingBag size={18} className={cn("transition-colors", activeTab === 'orders' ? "text-purple-400" : "text-neutral-500 group-hover:text-white")} />
                     Lịch sử đơn hàng
                 </button>
+                <button
+                    onClick={() => setActiveTab('wishlist')}
+                    className={cn(
+                        "w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all font-medium text-sm group",
+                        activeTab === 'wishlist'
+                            ? "bg-white/10 text-white shadow-lg shadow-purple-900/10 border border-white/5"
+                            : "text-neutral-400 hover:bg-white/5 hover:text-white"
+                    )}
+                >
+                    <Heart size={18} className={cn("transition-colors", activeTab === 'wishlist' ? "text-purple-400" : "text-neutral-500 group-hover:text-white")} />
+                    Yêu thích
+                </button>
                 <button
                     onClick={() => setActiveTab('password')}
                     className={cn(
@@ -4,21 +4,14 @@ import { useState, useEffect } from 'react';
 import { ShoppingBag, Loader2, Package, ChevronRight, Calendar, CheckCircle, Clock, Truck, XCircle } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
+import { CancelOrderModal } from '@/components/modals/CancelOrderModal';
 import { formatPrice, cn } from '@/lib/utils';
-import api from '@/lib/api';
+import { unwrapList } from '@/lib/list';
+import { canCancelOrder } from '@/lib/orders';
+import { ordersService } from '@/services/orders';
+import type { OrderSummary } from '@/types/order';
 import toast from 'react-hot-toast';
 
-interface OrderSummary {
-    id: number;
-    order_number: string;
-    total: number;
-    status: string;
-    status_display: string;
-    payment_status: string;
-    created_at: string;
-    item_count: number;
-}
-
 const StatusBadge = ({ status, label }: { status: string; label: string }) => {
     const getStyles = () => {
         const s = status?.toLowerCase();
@@ -49,13 +42,13 @@ const StatusBadge = ({ status, label }: { status: string; label: string }) => {
 export function OrdersTab() {
     const [orders, setOrders] = useState<OrderSummary[]>([]);
     const [isLoadingOrders, setIsLoadingOrders] = useState(false);
+    const [cancellingOrder, setCancellingOrder] = useState<OrderSummary | null>(null);
 
     useEffect(() => {
         const fetchOrders = async () => {
             setIsLoadingOrders(true);
             try {
-                const response = await api.get('/orders/');
-                setOrders(response.data.results || response.data);
+                setOrders(unwrapList(await ordersService.getOrders()));
             } catch (error) {
                 console.error('Failed to fetch orders:', error);
                 toast.error('Không thể tải lịch sử đơn hàng');
@@ -68,6 +61,17 @@ export function OrdersTab() {
 
     return (
         <div className="bg-white/5 border border-white/10 rounded-3xl p-8 backdrop-blur-xl shadow-2xl shadow-purple-900/5 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <CancelOrderModal
+                isOpen={!!cancellingOrder}
+                onClose={() => setCancellingOrder(null)}
+                orderNumber={cancellingOrder?.order_number ?? ''}
+                isPaid={cancellingOrder?.payment_status === 'paid'}
+                onCancelled={(updated) => setOrders(prev => prev.map(o => o.order_number === updated.order_number
+                    ? { ...o, status: updated.status, status_display: updated.status_display, payment_status: updated.payment_status }
+                    : o
+                ))}
+            />
+
             <h2 className="text-xl font-bold text-white mb-8 border-b border-white/10 pb-4 flex items-center gap-3">
                 <div className="p-2 bg-purple-500/10 rounded-xl">
                     <ShoppingBag className="text-purple-400" size={20} />
@@ -122,7 +126,19 @@ export function OrdersTab() {
                                 <div className="flex items-center justify-between md:justify-end gap-4 w-full md:w-auto pt-4 md:pt-0 border-t border-white/5 md:border-none">
                                     <div className="flex flex-col items-start md:items-end gap-1.5">
                                         <StatusBadge status={order.status} label={order.status_display} />
-
+                                        {canCancelOrder(order) && (
+                                            <button
+                                                type="button"
+                                                onClick={(e) => {
+                                                    // The whole row is a link to the order
+                                                    e.preventDefault();
+                                                    setCancellingOrder(order);
+                                                }}
+                                                className="text-[10px] font-bold uppercase tracking-wider text-neutral-500 hover:text-rose-400 transition-colors"
+                                            >
+                                                Hủy đơn
+                                            </button>
+                                        )}
                                     </div>
                                     <div className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center group-hover:bg-purple-500 group-hover:text-white transition-all duration-300">
                                         <ChevronRight className="text-neutral-500 group-hover:text-white" size={16} />
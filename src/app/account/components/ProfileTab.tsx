@@ -8,25 +8,11 @@ import { User as UserIcon, Mail, Phone, MapPin, Save, Loader2, ChevronDown } fro
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import toast from 'react-hot-toast';
-import api from '@/lib/api';
+import { handleFormError } from '@/lib/form-errors';
+import { shippingService } from '@/services/shipping';
+import type { GHNDistrict, GHNProvince, GHNWard } from '@/types/shipping';
 import { useAuthStore, type User } from '@/store/auth-store';
 
-// GHN Address types
-interface GHNProvince {
-    ProvinceID: number;
-    ProvinceName: string;
-}
-
-interface GHNDistrict {
-    DistrictID: number;
-    DistrictName: string;
-}
-
-interface GHNWard {
-    WardCode: string;
-    WardName: string;
-}
-
 const profileSchema = z.object({
     first_name: z.string().optional(),
     last_name: z.string().optional(),
@@ -82,8 +68,7 @@ export function ProfileTab({ user }: ProfileTabProps) {
             // Load Provinces
             setIsLoadingProvinces(true);
             try {
-                const res = await api.get('/shipping/ghn/provinces/');
-                setProvinces(res.data || []);
+                setProvinces(await shippingService.getProvinces());
             } catch (error) {
                 console.error('Failed to fetch provinces', error);
             } finally {
@@ -122,8 +107,7 @@ export function ProfileTab({ user }: ProfileTabProps) {
         const fetchDistricts = async () => {
             setIsLoadingDistricts(true);
             try {
-                const response = await api.get(`/shipping/ghn/districts/${selectedProvinceId}/`);
-                setDistricts(response.data || []);
+                setDistricts(await shippingService.getDistricts(selectedProvinceId));
 
                 if (user?.district_id && user?.province_id === selectedProvinceId && !selectedDistrictId) {
                     setSelectedDistrictId(user.district_id);
@@ -147,8 +131,7 @@ export function ProfileTab({ user }: ProfileTabProps) {
         const fetchWards = async () => {
             setIsLoadingWards(true);
             try {
-                const response = await api.get(`/shipping/ghn/wards/${selectedDistrictId}/`);
-                setWards(response.data || []);
+                setWards(await shippingService.getWards(selectedDistrictId));
 
                 if (user?.ward_code && user?.district_id === selectedDistrictId && !selectedWardCode) {
                     setSelectedWardCode(user.ward_code);
@@ -223,12 +206,14 @@ export function ProfileTab({ user }: ProfileTabProps) {
 
             await updateProfile(payload);
             toast.success('Cập nhật thành công!');
-        } catch (error: any) {
+        } catch (error) {
             console.error('Update profile error:', error);
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const err = error as any;
-
-            toast.error(err.response?.data?.error || 'Cập nhật thất bại');
+            handleFormError(error, {
+                fallback: 'Cập nhật thất bại',
+                setError: profileForm.setError,
+                fields: Object.keys(profileSchema.shape),
+                fieldMap: { province_id: 'city', district_id: 'district', ward_code: 'ward' },
+            });
         } finally {
             setIsSubmitting(false);
         }
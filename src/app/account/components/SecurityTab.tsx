@@ -9,7 +9,9 @@ import { Save, Loader2, Shield, Trash2, AlertTriangle, Check, ShieldAlert, Key,
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
-import api from '@/lib/api';
+import { getApiError } from '@/lib/api';
+import { handleFormError } from '@/lib/form-errors';
+import { authService } from '@/services/auth';
 import toast from 'react-hot-toast';
 import { useRouter } from 'next/navigation';
 import { useAuthStore, type User } from '@/store/auth-store';
@@ -71,14 +73,15 @@ export function SecurityTab({ user }: SecurityTabProps) {
     const onChangePassword = async (data: PasswordForm) => {
         setIsSubmitting(true);
         try {
-            await api.put('/auth/change-password/', data);
+            await authService.changePassword(data);
             toast.success('Password changed successfully!');
             passwordForm.reset();
-        } catch (error: any) {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const err = error as any;
-            const errorMsg = err.response?.data?.old_password || err.response?.data?.new_password || 'Failed to change password';
-            toast.error(Array.isArray(errorMsg) ? errorMsg[0] : errorMsg);
+        } catch (error) {
+            handleFormError(error, {
+                fallback: 'Failed to change password',
+                setError: passwordForm.setError,
+                fields: Object.keys(passwordSchema.shape),
+            });
         } finally {
             setIsSubmitting(false);
         }
@@ -91,17 +94,13 @@ export function SecurityTab({ user }: SecurityTabProps) {
         }
         setIsDeleting(true);
         try {
-            await api.delete('/auth/delete-account/', {
-                data: { password: deletePassword }
-            });
+            await authService.deleteAccount(deletePassword);
             toast.success('Account deleted successfully');
             logout();
             router.push('/');
-        } catch (error: any) {
+        } catch (error) {
             console.error(error);
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const err = error as any;
-            toast.error(err.response?.data?.error || 'Failed to delete account');
+            toast.error(getApiError(error, 'Failed to delete account').message);
         } finally {
             setIsDeleting(false);
         }
@@ -356,8 +355,7 @@ export function SecurityTab({ user }: SecurityTabProps) {
                                 onClick={async () => {
                                     setIs2FALoading(true);
                                     try {
-                                        const res = await api.get('/auth/2fa/enable/');
-                                        setQrData(res.data);
+                                        setQrData(await authService.start2FASetup());
                                         setSetupStep('qr');
                                     } catch {
                                         toast.error("Không thể bắt đầu thiết lập 2FA");
@@ -412,17 +410,15 @@ export function SecurityTab({ user }: SecurityTabProps) {
                                             <Button
                                                 onClick={async () => {
                                                     try {
-                                                        await api.post('/auth/2fa/confirm/', { code: otpCode });
+                                                        await authService.confirm2FA(otpCode);
                                                         toast.success("Đã bật 2FA thành công!");
                                                         setSetupStep('idle');
                                                         setQrData(null);
                                                         setOtpCode("");
                                                         // Refresh user profile
                                                         updateProfile({ is_2fa_enabled: true });
-                                                    } catch (error: any) {
-                                                        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                                                        const err = error as any;
-                                                        toast.error(err.response?.data?.error || "Mã không hợp lệ");
+                                                    } catch (error) {
+                                                        toast.error(getApiError(error, "Mã không hợp lệ").message);
                                                     }
                                                 }}
                                                 className="bg-emerald-500 hover:bg-emerald-600 text-white min-w-[100px]"
@@ -455,15 +451,13 @@ export function SecurityTab({ user }: SecurityTabProps) {
                                 <Button
                                     onClick={async () => {
                                         try {
-                                            await api.post('/auth/2fa/disable/', { password: deletePassword });
+                                            await authService.disable2FA(deletePassword);
                                             toast.success("Đã tắt 2FA");
                                             setSetupStep('idle');
                                             setDeletePassword("");
                                             updateProfile({ is_2fa_enabled: false });
-                                        } catch (error: any) {
-                                            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                                            const err = error as any;
-                                            toast.error(err.response?.data?.error || "Mật khẩu không đúng");
+                                        } catch (error) {
+                                            toast.error(getApiError(error, "Mật khẩu không đúng").message);
                                         }
                                     }}
                                     className="bg-red-600 hover:bg-red-700 text-white"
@@ -580,16 +574,11 @@ function BackupCodesManager({ onClose }: { onClose: () => void }) {
         e?.preventDefault();
         setLoading(true);
         try {
-            const res = await api.post('/auth/2fa/backup-codes/', {
-                password,
-                action: forceRegenerate ? 'regenerate' : 'view'
-            });
-            setCodes(res.data.backup_codes);
+            setCodes(await authService.getBackupCodes(password, forceRegenerate));
             setIsVerified(true);
             if (forceRegenerate) toast.success("Đã tạo mới mã dự phòng");
-        } catch (error: any) {
-            const err = error as any;
-            toast.error(err.response?.data?.error || "Mật khẩu không đúng");
+        } catch (error) {
+            toast.error(getApiError(error, "Mật khẩu không đúng").message);
         } finally {
             setLoading(false);
         }
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { Heart, Loader2, ShoppingBag, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/button';
+import { formatPrice } from '@/lib/utils';
+import { useWishlistStore } from '@/store/wishlist-store';
+
+export function WishlistTab() {
+    const { items, isLoading, fetchWishlist, removeFromWishlist, moveToCart } = useWishlistStore();
+    const [movingId, setMovingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchWishlist();
+    }, [fetchWishlist]);
+
+    const handleMoveToCart = async (productId: string) => {
+        setMovingId(productId);
+        try {
+            await moveToCart(productId);
+            toast.success('Đã chuyển vào giỏ hàng');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Không thể thêm vào giỏ hàng');
+        } finally {
+            setMovingId(null);
+        }
+    };
+
+    const handleRemove = async (productId: string) => {
+        try {
+            await removeFromWishlist(productId);
+            toast.success('Đã xóa khỏi danh sách yêu thích');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Không thể xóa sản phẩm');
+        }
+    };
+
+    return (
+        <div className="bg-white/5 border border-white/10 rounded-3xl p-8 backdrop-blur-xl shadow-2xl shadow-purple-900/5 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <h2 className="text-xl font-bold text-white mb-8 border-b border-white/10 pb-4 flex items-center gap-3">
+                <div className="p-2 bg-purple-500/10 rounded-xl">
+                    <Heart className="text-purple-400" size={20} />
+                </div>
+                Danh sách yêu thích
+            </h2>
+
+            {isLoading && items.length === 0 ? (
+                <div className="flex justify-center py-20">
+                    <Loader2 className="animate-spin text-purple-500" size={32} />
+                </div>
+            ) : items.length === 0 ? (
+                <div className="text-center py-20 px-6 bg-black/20 rounded-2xl border border-white/5 flex flex-col items-center">
+                    <div className="w-16 h-16 bg-white/5 rounded-full flex items-center justify-center mb-4">
+                        <Heart size={32} className="text-neutral-500" />
+                    </div>
+                    <h3 className="text-lg font-bold text-white mb-1">Chưa có sản phẩm yêu thích</h3>
+                    <p className="text-neutral-400 font-medium mb-6">Nhấn vào biểu tượng trái tim để lưu sản phẩm bạn thích.</p>
+                    <Link href="/products">
+                        <Button variant="default" className="bg-white text-black hover:bg-neutral-200 rounded-xl font-bold">
+                            Khám phá sản phẩm
+                        </Button>
+                    </Link>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {items.map(({ product }) => (
+                        <div
+                            key={product.id}
+                            className="bg-black/20 border border-white/5 rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center gap-4 hover:bg-white/5 hover:border-purple-500/30 transition-all duration-300 group"
+                        >
+                            <Link
+                                href={`/products/${product.slug}`}
+                                className="w-20 h-20 bg-black/40 rounded-xl overflow-hidden flex-shrink-0 border border-white/5 relative"
+                            >
+                                {product.primary_image ? (
+                                    <Image
+                                        src={product.primary_image}
+                                        alt={product.name}
+                                        fill
+                                        sizes="80px"
+                                        className="object-cover"
+                                    />
+                                ) : (
+                                    <div className="w-full h-full flex items-center justify-center text-neutral-600 text-[10px]">IMG</div>
+                                )}
+                            </Link>
+
+                            <div className="flex-1 min-w-0 space-y-1">
+                                <Link href={`/products/${product.slug}`}>
+                                    <p className="font-bold text-white truncate group-hover:text-purple-400 transition-colors">{product.name}</p>
+                                </Link>
+                                <div className="flex items-baseline gap-2">
+                                    <span className="text-white font-bold font-mono">{formatPrice(product.current_price)}</span>
+                                    {product.sale_price && (
+                                        <span className="text-xs text-neutral-500 line-through font-mono">{formatPrice(product.price)}</span>
+                                    )}
+                                </div>
+                                {product.stock <= 0 && (
+                                    <p className="text-xs text-red-400 font-medium">Hết hàng</p>
+                                )}
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                                {product.has_variants ? (
+                                    // The option (color, storage) has to be picked on the product page
+                                    <Button asChild className="bg-white text-black hover:bg-neutral-200 rounded-xl font-bold">
+                                        <Link href={`/products/${product.slug}`}>Chọn phiên bản</Link>
+                                    </Button>
+                                ) : (
+                                    <Button
+                                        onClick={() => handleMoveToCart(product.id)}
+                                        disabled={product.stock <= 0 || movingId === product.id}
+                                        className="bg-white text-black hover:bg-neutral-200 rounded-xl font-bold"
+                                    >
+                                        {movingId === product.id ? (
+                                            <Loader2 size={16} className="animate-spin mr-2" />
+                                        ) : (
+                                            <ShoppingBag size={16} className="mr-2" />
+                                        )}
+                                        Thêm vào giỏ
+                                    </Button>
+                                )}
+                                <button
+                                    onClick={() => handleRemove(product.id)}
+                                    className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 text-neutral-400 hover:text-red-400 hover:bg-red-500/10 transition-all"
+                                    title="Xóa khỏi danh sách"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -11,8 +11,9 @@ import { AccountSidebar } from './components/AccountSidebar';
 import { ProfileTab } from './components/ProfileTab';
 import { OrdersTab } from './components/OrdersTab';
 import { SecurityTab } from './components/SecurityTab';
+import { WishlistTab } from './components/WishlistTab';
 
-type Tab = 'profile' | 'password' | 'orders';
+type Tab = 'profile' | 'password' | 'orders' | 'wishlist';
 
 export default function AccountPage() {
     const router = useRouter();
@@ -64,7 +65,7 @@ export default function AccountPage() {
                             </h1>
                         </div>
                         <p className="text-neutral-400 text-sm md:text-right max-w-xs">
-                            Quản lý thông tin cá nhân, đơn hàng và bảo mật tài khoản của bạn tại đây.
+                            Quản lý thông tin cá nhân, đơn hàng, sản phẩm yêu thích và bảo mật tài khoản của bạn tại đây.
                         </p>
                     </div>
 
@@ -90,6 +91,7 @@ export default function AccountPage() {
                                 >
                                     {activeTab === 'profile' && <ProfileTab user={user} />}
                                     {activeTab === 'orders' && <OrdersTab />}
+                                    {activeTab === 'wishlist' && <WishlistTab />}
                                     {activeTab === 'password' && <SecurityTab user={user} />}
                                 </motion.div>
                             </AnimatePresence>
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, Upload, X, AlertCircle } from "lucide-react";
+import toast from "react-hot-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { handleFormError } from "@/lib/form-errors";
+import { categoryOptionLabel, flattenCategoryTree, getDescendantIds } from "@/lib/categories";
+import { catalogService } from "@/services/catalog";
+import type { CategoryNode } from "@/types/product";
+
+const categorySchema = z.object({
+    name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+    // Left blank, the backend derives it from the name
+    slug: z.string().trim().regex(/^[a-z0-9-]*$/, "Use lowercase letters, numbers and dashes"),
+    parent: z.string(),
+    description: z.string(),
+    is_active: z.boolean(),
+});
+
+type CategoryFormValues = z.infer<typeof categorySchema>;
+
+interface CategoryFormDialogProps {
+    open: boolean;
+    // null creates a new category
+    category: CategoryNode | null;
+    defaultParent: number | null;
+    tree: CategoryNode[];
+    onClose: () => void;
+    onSaved: () => void;
+}
+
+const inputClass = "w-full px-4 py-2.5 bg-black/20 border border-white/10 rounded-xl focus:outline-none focus:border-purple-500/50 text-white placeholder:text-zinc-600 text-sm";
+
+export function CategoryFormDialog({ open, category, defaultParent, tree, onClose, onSaved }: CategoryFormDialogProps) {
+    const [imageFile, setImageFile] = useState<File | null>(null);
+    const [imagePreview, setImagePreview] = useState<string | null>(category?.image ?? null);
+
+    // The page remounts the dialog (via key) for each category, so defaults are read once
+    const { register, handleSubmit, setError, formState: { errors, isSubmitting } } = useForm<CategoryFormValues>({
+        resolver: zodResolver(categorySchema),
+        defaultValues: {
+            name: category?.name ?? "",
+            slug: category?.slug ?? "",
+            parent: String(category ? category.parent ?? "" : defaultParent ?? ""),
+            description: category?.description ?? "",
+            is_active: category?.is_active ?? true,
+        },
+    });
+
+    // Can't nest a category under itself or its own subtree
+    const excluded = new Set(category ? [category.id, ...getDescendantIds(category)] : []);
+    const parentOptions = flattenCategoryTree(tree).filter(node => !excluded.has(node.id));
+
+    const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setImageFile(file);
+        setImagePreview(URL.createObjectURL(file));
+    };
+
+    const onSubmit = async (data: CategoryFormValues) => {
+        const formData = new FormData();
+        formData.append("name", data.name);
+        if (data.slug) formData.append("slug", data.slug);
+        formData.append("parent", data.parent);
+        formData.append("description", data.description);
+        formData.append("is_active", String(data.is_active));
+        if (imageFile) formData.append("image", imageFile);
+
+        try {
+            if (category) {
+                await catalogService.updateCategory(category.id, formData);
+                toast.success("Category updated");
+            } else {
+                await catalogService.createCategory(formData);
+                toast.success("Category created");
+            }
+            onSaved();
+            onClose();
+        } catch (error) {
+            handleFormError(error, {
+                fallback: "Failed to save category",
+                setError,
+                fields: Object.keys(categorySchema.shape),
+            });
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(value) => !value && !isSubmitting && onClose()}>
+            <DialogContent className="sm:max-w-lg bg-zinc-950 border-white/10 text-white">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-bold text-white">{category ? "Edit Category" : "New Category"}</DialogTitle>
+                    <DialogDescription className="text-zinc-400">
+                        {category ? `Changes apply to the ${category.product_count ?? 0} products in this category.` : "Top-level categories appear as columns in the store menu."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500 ml-1">Name</label>
+                            <input {...register("name")} className={inputClass} placeholder="e.g. Gaming Laptops" />
+                            {errors.name && <p className="text-red-400 text-xs ml-1 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {errors.name.message}</p>}
+                        </div>
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500 ml-1">Slug</label>
+                            <input {...register("slug")} className={`${inputClass} font-mono`} placeholder="auto" />
+                            {errors.slug && <p className="text-red-400 text-xs ml-1 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {errors.slug.message}</p>}
+                        </div>
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500 ml-1">Parent</label>
+                        <select {...register("parent")} className={`${inputClass} appearance-none`}>
+                            <option value="" className="bg-neutral-900">None (top level)</option>
+                            {parentOptions.map(node => (
+                                <option key={node.id} value={node.id} className="bg-neutral-900">{categoryOptionLabel(node)}</option>
+                            ))}
+                        </select>
+                        {errors.parent && <p className="text-red-400 text-xs ml-1">{errors.parent.message}</p>}
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500 ml-1">Description</label>
+                        <textarea {...register("description")} className={`${inputClass} h-24 resize-none`} placeholder="Shown on the category page and in search results" />
+                    </div>
+
+                    <div className="flex items-center gap-4">
+                        <label className="relative w-20 h-20 shrink-0 rounded-xl border-2 border-dashed border-white/10 hover:border-purple-500/30 bg-black/20 flex items-center justify-center overflow-hidden cursor-pointer group">
+                            {imagePreview ? (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img src={imagePreview} alt="Category" className="w-full h-full object-cover" />
+                            ) : (
+                                <Upload className="w-5 h-5 text-zinc-500 group-hover:text-purple-400" />
+                            )}
+                            <input type="file" accept="image/*" className="hidden" onChange={handleImageChange} />
+                        </label>
+                        <div className="flex-1 text-xs text-zinc-500">
+                            Image for the store menu. Square images work best.
+                            {imageFile && (
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setImageFile(null);
+                                        setImagePreview(category?.image ?? null);
+                                    }}
+                                    className="flex items-center gap-1 mt-1 text-zinc-400 hover:text-white"
+                                >
+                                    <X className="w-3 h-3" /> Discard new image
+                                </button>
+                            )}
+                        </div>
+                    </div>
+
+                    <label className="flex items-center gap-3 cursor-pointer w-fit">
+                        <input
+                            type="checkbox"
+                            {...register("is_active")}
+                            className="w-4 h-4 rounded border-white/20 bg-black/40 text-purple-600 focus:ring-purple-500 focus:ring-offset-0"
+                        />
+                        <span className="text-sm text-zinc-300">Visible in the store</span>
+                    </label>
+
+                    <div className="flex justify-end gap-3 pt-2">
+                        <Button type="button" variant="ghost" onClick={onClose} disabled={isSubmitting} className="text-zinc-400 hover:text-white">
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting} className="bg-purple-600 hover:bg-purple-700 text-white rounded-xl font-bold">
+                            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            {category ? "Save Changes" : "Create Category"}
+                        </Button>
+                    </div>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
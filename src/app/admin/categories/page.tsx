@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+    FolderTree, Plus, Pencil, Trash2, ChevronUp, ChevronDown, Loader2, ImageIcon, CornerDownRight
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { AuroraBackground } from "@/components/ui/aurora-background";
+import { Button } from "@/components/ui/button";
+import { getApiError } from "@/lib/api";
+import { buildCategoryTree, flattenCategoryTree, moveCategory } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+import { catalogService } from "@/services/catalog";
+import type { Category, CategoryNode } from "@/types/product";
+import { CategoryFormDialog } from "./components/CategoryFormDialog";
+
+interface DialogState {
+    category: CategoryNode | null;
+    parent: number | null;
+}
+
+export default function AdminCategoriesPage() {
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [refreshKey, setRefreshKey] = useState(0);
+    const [dialog, setDialog] = useState<DialogState | null>(null);
+    const [busyId, setBusyId] = useState<number | null>(null);
+
+    useEffect(() => {
+        const fetchCategories = async () => {
+            setLoading(true);
+            try {
+                setCategories(await catalogService.getAdminCategories());
+            } catch (error) {
+                console.error("Failed to fetch categories:", error);
+                toast.error("Could not load categories");
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchCategories();
+    }, [refreshKey]);
+
+    const tree = buildCategoryTree(categories);
+    const rows = flattenCategoryTree(tree);
+
+    const handleMove = async (node: CategoryNode, direction: -1 | 1) => {
+        const positions = moveCategory(tree, node.id, direction);
+        if (!positions) return;
+
+        const previous = categories;
+        const orderById = new Map(positions.map(p => [p.id, p.order]));
+        setCategories(prev => prev.map(c => orderById.has(c.id) ? { ...c, order: orderById.get(c.id) } : c));
+        setBusyId(node.id);
+        try {
+            await catalogService.reorderCategories(positions);
+        } catch (error) {
+            setCategories(previous);
+            toast.error(getApiError(error, "Failed to reorder categories").message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = async (node: CategoryNode) => {
+        const products = node.product_count ?? 0;
+        const children = node.children.length;
+        const warnings = [
+            children > 0 ? `It has ${children} subcategor${children === 1 ? "y" : "ies"}.` : "",
+            products > 0 ? `Its ${products} product${products === 1 ? "" : "s"} will be left without a category.` : "",
+        ].filter(Boolean);
+        if (!confirm([`Delete "${node.name}"?`, ...warnings].join(" "))) return;
+
+        setBusyId(node.id);
+        try {
+            await catalogService.deleteCategory(node.id);
+            toast.success("Category deleted");
+            // Reload rather than patch locally: the backend decides what happens to its subcategories
+            setRefreshKey(k => k + 1);
+        } catch (error) {
+            toast.error(getApiError(error, "Failed to delete category").message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const isFirstSibling = (node: CategoryNode) => moveCategory(tree, node.id, -1) === null;
+    const isLastSibling = (node: CategoryNode) => moveCategory(tree, node.id, 1) === null;
+
+    return (
+        <div className="min-h-screen bg-black text-white font-sans selection:bg-purple-500/30">
+            {/* Background */}
+            <div className="fixed inset-0 z-0 pointer-events-none">
+                <AuroraBackground className="h-full w-full">
+                    <></>
+                </AuroraBackground>
+            </div>
+
+            <div className="relative z-10 w-full min-h-screen pb-20 pt-32 px-4 md:px-6">
+                <div className="container mx-auto max-w-5xl">
+
+                    {/* Header */}
+                    <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-8">
+                        <div>
+                            <h1 className="text-3xl md:text-5xl font-display font-bold text-white mb-2 tracking-tight">Categories</h1>
+                            <p className="text-neutral-400 text-lg">Organize the catalog and the store menu.</p>
+                        </div>
+                        <Button
+                            onClick={() => setDialog({ category: null, parent: null })}
+                            className="bg-white text-black hover:bg-neutral-200 rounded-full px-6 font-bold"
+                        >
+                            <Plus className="w-4 h-4 mr-2" /> New Category
+                        </Button>
+                    </div>
+
+                    {/* Tree Card */}
+                    <div className="bg-white/5 border border-white/10 rounded-3xl backdrop-blur-xl shadow-2xl overflow-hidden min-h-[400px]">
+                        {loading ? (
+                            <div className="flex items-center justify-center h-[400px]">
+                                <Loader2 className="w-8 h-8 text-purple-500 animate-spin" />
+                            </div>
+                        ) : rows.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center h-[400px] text-neutral-500">
+                                <FolderTree className="w-12 h-12 mb-3 text-neutral-700" />
+                                <p className="font-medium">No categories yet</p>
+                                <p className="text-sm text-neutral-600 mt-1">Create one to start organizing products.</p>
+                            </div>
+                        ) : (
+                            <ul className="divide-y divide-white/5">
+                                {rows.map(node => (
+                                    <li
+                                        key={node.id}
+                                        className={cn("flex items-center gap-4 px-6 py-4 hover:bg-white/[0.02] transition-colors", busyId === node.id && "opacity-60")}
+                                    >
+                                        {/* Reorder among siblings */}
+                                        <div className="flex flex-col">
+                                            <button
+                                                type="button"
+                                                onClick={() => handleMove(node, -1)}
+                                                disabled={busyId !== null || isFirstSibling(node)}
+                                                className="p-0.5 text-neutral-500 hover:text-white disabled:opacity-20 disabled:pointer-events-none"
+                                                aria-label="Move up"
+                                            >
+                                                <ChevronUp className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => handleMove(node, 1)}
+                                                disabled={busyId !== null || isLastSibling(node)}
+                                                className="p-0.5 text-neutral-500 hover:text-white disabled:opacity-20 disabled:pointer-events-none"
+                                                aria-label="Move down"
+                                            >
+                                                <ChevronDown className="w-4 h-4" />
+                                            </button>
+                                        </div>
+
+                                        <div className="flex items-center gap-3 flex-1 min-w-0" style={{ paddingLeft: `${node.depth * 2}rem` }}>
+                                            {node.depth > 0 && <CornerDownRight className="w-4 h-4 text-neutral-600 shrink-0" />}
+                                            <div className="w-10 h-10 rounded-lg bg-black/40 border border-white/10 overflow-hidden flex items-center justify-center shrink-0">
+                                                {node.image ? (
+                                                    // eslint-disable-next-line @next/next/no-img-element
+                                                    <img src={node.image} alt={node.name} className="w-full h-full object-cover" />
+                                                ) : (
+                                                    <ImageIcon className="w-4 h-4 text-neutral-600" />
+                                                )}
+                                            </div>
+                                            <div className="min-w-0">
+                                                <p className="font-medium text-white truncate">{node.name}</p>
+                                                <p className="text-xs text-neutral-500 font-mono truncate">/{node.slug}</p>
+                                            </div>
+                                        </div>
+
+                                        <span className="hidden sm:block text-sm text-neutral-400 font-mono w-24 text-right">
+                                            {node.product_count ?? 0} items
+                                        </span>
+                                        <span className={cn(
+                                            "px-2.5 py-0.5 rounded-full text-xs font-medium border",
+                                            node.is_active === false
+                                                ? "bg-neutral-500/10 text-neutral-400 border-neutral-500/20"
+                                                : "bg-emerald-500/10 text-emerald-400 border-emerald-500/20"
+                                        )}>
+                                            {node.is_active === false ? "Hidden" : "Visible"}
+                                        </span>
+
+                                        <div className="flex items-center gap-1">
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => setDialog({ category: null, parent: node.id })}
+                                                className="h-8 w-8 text-neutral-400 hover:text-white hover:bg-white/10 rounded-full"
+                                                title="Add subcategory"
+                                            >
+                                                <Plus className="w-4 h-4" />
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => setDialog({ category: node, parent: node.parent ?? null })}
+                                                className="h-8 w-8 text-neutral-400 hover:text-white hover:bg-white/10 rounded-full"
+                                                title="Edit"
+                                            >
+                                                <Pencil className="w-4 h-4" />
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => handleDelete(node)}
+                                                disabled={busyId !== null || node.children.length > 0}
+                                                className="h-8 w-8 text-neutral-400 hover:text-red-400 hover:bg-red-500/10 rounded-full"
+                                                title={node.children.length > 0 ? "Move or delete its subcategories first" : "Delete"}
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <CategoryFormDialog
+                key={dialog ? `${dialog.category?.id ?? "new"}-${dialog.parent}` : "closed"}
+                open={!!dialog}
+                category={dialog?.category ?? null}
+                defaultParent={dialog?.parent ?? null}
+                tree={tree}
+                onClose={() => setDialog(null)}
+                onSaved={() => setRefreshKey(k => k + 1)}
+            />
+        </div>
+    );
+}
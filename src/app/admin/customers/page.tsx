@@ -1,75 +1,75 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import api from "@/lib/api";
-import { Search, Mail, Phone, Calendar, Trash2, ChevronLeft, ChevronRight, User as UserIcon, Loader2, ShieldCheck, UserCheck } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { authService } from "@/services/auth";
+import { Search, Mail, Phone, Calendar, Trash2, ChevronLeft, ChevronRight, User as UserIcon, Loader2, ShieldCheck, UserCheck, Download } from "lucide-react";
 import { format } from "date-fns";
 import toast from "react-hot-toast";
 import { AuroraBackground } from "@/components/ui/aurora-background";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { ExportModal, type ExportColumn } from "@/components/modals/ExportModal";
+import type { AdminUserQuery, User } from "@/types/auth";
 
-interface User {
-    id: string;
-    email: string;
-    full_name: string;
-    phone: string;
-    date_joined: string;
-    is_staff: boolean;
-    avatar: string | null;
-}
-
-interface PaginatedResponse {
-    count: number;
-    next: string | null;
-    previous: string | null;
-    results: User[];
-}
+const EXPORT_COLUMNS: ExportColumn[] = [
+    { key: "id", label: "ID" },
+    { key: "full_name", label: "Full name" },
+    { key: "email", label: "Email" },
+    { key: "phone", label: "Phone" },
+    { key: "is_staff", label: "Role" },
+    { key: "date_joined", label: "Join date" },
+    { key: "order_count", label: "Orders" },
+    { key: "total_spent", label: "Total spent" },
+];
 
 export default function CustomersPage() {
     const [customers, setCustomers] = useState<User[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [search, setSearch] = useState("");
+    const [debouncedSearch, setDebouncedSearch] = useState("");
     const [page, setPage] = useState(1);
     const [totalPages, setTotalPages] = useState(1);
     const [isDeleting, setIsDeleting] = useState<string | null>(null);
+    const [showExport, setShowExport] = useState(false);
+    const [refreshKey, setRefreshKey] = useState(0);
 
     // Debounce search
     useEffect(() => {
         const timer = setTimeout(() => {
+            setDebouncedSearch(search);
             setPage(1); // Reset to page 1 on search change
-            fetchCustomers(1, search);
         }, 500);
 
         return () => clearTimeout(timer);
     }, [search]);
 
-    // Fetch on page change (only if searchQuery didn't trigger it)
-    const handlePageChange = (newPage: number) => {
-        if (newPage >= 1 && newPage <= totalPages) {
-            setPage(newPage);
-            fetchCustomers(newPage, search);
-        }
-    };
+    // Shared by the table and the export
+    const buildQuery = useCallback((): AdminUserQuery => ({
+        search: debouncedSearch || undefined,
+    }), [debouncedSearch]);
 
-    const fetchCustomers = async (currentPage: number, searchQuery: string) => {
-        setIsLoading(true);
-        try {
-            const params = new URLSearchParams();
-            params.append("page", currentPage.toString());
-            if (searchQuery) params.append("search", searchQuery);
+    useEffect(() => {
+        const fetchCustomers = async () => {
+            setIsLoading(true);
+            try {
+                const data = await authService.getAdminUsers({ ...buildQuery(), page });
+                setCustomers(data.results);
+                // Calculate total pages assuming default page size of 12 from backend
+                setTotalPages(Math.ceil(data.count / 12));
+            } catch (error) {
+                console.error("Failed to fetch customers:", error);
+                // toast.error("Failed to load customers."); // Squelch error toast for cleaner UI if empty
+            } finally {
+                setIsLoading(false);
+            }
+        };
 
-            const response = await api.get(`/auth/admin/users/?${params.toString()}`);
-            const data: PaginatedResponse = response.data;
+        fetchCustomers();
+    }, [page, buildQuery, refreshKey]);
 
-            setCustomers(data.results);
-            // Calculate total pages assuming default page size of 12 from backend
-            setTotalPages(Math.ceil(data.count / 12));
-        } catch (error) {
-            console.error("Failed to fetch customers:", error);
-            // toast.error("Failed to load customers."); // Squelch error toast for cleaner UI if empty
-        } finally {
-            setIsLoading(false);
+    const handlePageChange = (newPage: number) => {
+        if (newPage >= 1 && newPage <= totalPages) {
+            setPage(newPage);
         }
     };
 
@@ -78,9 +78,9 @@ export default function CustomersPage() {
 
         setIsDeleting(id);
         try {
-            await api.delete(`/auth/admin/users/${id}/`);
+            await authService.deleteAdminUser(id);
             toast.success("Customer deleted successfully.");
-            fetchCustomers(page, search); // Refresh
+            setRefreshKey(k => k + 1);
         } catch (error) {
             console.error("Failed to delete customer:", error);
             toast.error("Failed to delete customer.");
@@ -109,6 +109,16 @@ export default function CustomersPage() {
                         </div>
                     </div>
 
+                    <ExportModal
+                        isOpen={showExport}
+                        onClose={() => setShowExport(false)}
+                        title="Export Customers"
+                        description={debouncedSearch ? `Customers matching "${debouncedSearch}".` : "All registered customers."}
+                        columns={EXPORT_COLUMNS}
+                        filename="customers_export"
+                        onExport={(options) => authService.exportAdminUsers(buildQuery(), options)}
+                    />
+
                     {/* Main Card */}
                     <div className="bg-white/5 border border-white/10 rounded-3xl backdrop-blur-xl shadow-2xl shadow-purple-900/5 overflow-hidden">
 
@@ -125,8 +135,18 @@ export default function CustomersPage() {
                                 />
                             </div>
 
-                            <div className="text-xs text-neutral-500 font-mono">
-                                Total: <span className="text-white font-bold">{customers.length > 0 ? (page - 1) * 12 + customers.length : 0}</span> records displayed
+                            <div className="flex items-center gap-4">
+                                <div className="text-xs text-neutral-500 font-mono">
+                                    Total: <span className="text-white font-bold">{customers.length > 0 ? (page - 1) * 12 + customers.length : 0}</span> records displayed
+                                </div>
+                                <Button
+                                    variant="outline"
+                                    onClick={() => setShowExport(true)}
+                                    className="bg-white/5 border-white/10 text-white hover:bg-white/10 hover:text-white rounded-xl h-11"
+                                >
+                                    <Download className="w-4 h-4 mr-2" />
+                                    Export
+                                </Button>
                             </div>
                         </div>
 
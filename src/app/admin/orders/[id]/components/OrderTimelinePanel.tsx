@@ -0,0 +1,70 @@
+"use client";
+
+import { History, Truck, ExternalLink, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getGhnStatusLabel, getGhnTrackingUrl } from "@/lib/shipping";
+import { OrderTimeline } from "@/components/orders/OrderTimeline";
+import type { AdminOrderDetail } from "@/types/order";
+
+export function OrderTimelinePanel({ order }: { order: AdminOrderDetail }) {
+    return (
+        <OrderTimeline
+            statusHistory={order.status_history}
+            trackingCode={order.tracking_code}
+            emptyText="No status changes recorded yet."
+            showActor
+            header={({ tracking, isLoading, error, refresh }) => (
+                <>
+                    <div className="p-6 border-b border-white/10 flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 bg-purple-500/10 rounded-lg">
+                                <History className="w-5 h-5 text-purple-400" />
+                            </div>
+                            <h2 className="font-bold text-lg text-white">Timeline</h2>
+                        </div>
+                        {order.tracking_code && (
+                            <div className="flex items-center gap-3">
+                                <a
+                                    href={getGhnTrackingUrl(order.tracking_code)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-white/5 border border-white/10 text-xs font-mono text-white hover:border-purple-500/50 transition-colors"
+                                >
+                                    <Truck className="w-3.5 h-3.5 text-purple-400" />
+                                    {order.tracking_code}
+                                    <ExternalLink className="w-3 h-3 text-zinc-500" />
+                                </a>
+                                <button
+                                    type="button"
+                                    onClick={refresh}
+                                    disabled={isLoading}
+                                    className="text-zinc-500 hover:text-white transition-colors disabled:opacity-50"
+                                    aria-label="Refresh tracking"
+                                >
+                                    <RefreshCw className={cn("w-4 h-4", isLoading && "animate-spin")} />
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {tracking && (
+                        <div className="px-6 pt-6">
+                            <div className="flex justify-between items-center p-3 bg-black/20 rounded-xl border border-white/5 text-sm">
+                                <span className="text-zinc-400">
+                                    GHN: <span className="text-white font-medium">{getGhnStatusLabel(tracking.status)}</span>
+                                    <span className="ml-2 font-mono text-xs text-zinc-500">{tracking.status}</span>
+                                </span>
+                                {tracking.leadtime && (
+                                    <span className="text-xs text-zinc-500">ETA {new Date(tracking.leadtime).toLocaleDateString("vi-VN")}</span>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                    {error && !tracking && (
+                        <p className="px-6 pt-6 text-sm text-rose-400">Could not load GHN tracking for this shipment.</p>
+                    )}
+                </>
+            )}
+        />
+    );
+}
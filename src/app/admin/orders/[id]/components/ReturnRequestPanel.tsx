@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import { RotateCcw, CheckCircle, XCircle, Package, Wallet, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { getApiError } from "@/lib/api";
+import { getReturnReasonLabel } from "@/lib/orders";
+import { formatPrice, formatDate, cn } from "@/lib/utils";
+import { ordersService } from "@/services/orders";
+import type { OrderItem, ReturnRequest, ReturnRequestStatus } from "@/types/order";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { CurrencyInput } from "@/components/ui/currency-input";
+
+const STATUS_STYLES: Record<ReturnRequestStatus, { label: string; className: string }> = {
+    requested: { label: "Requested", className: "bg-amber-500/10 text-amber-400 border-amber-500/20" },
+    approved: { label: "Approved", className: "bg-blue-500/10 text-blue-400 border-blue-500/20" },
+    rejected: { label: "Rejected", className: "bg-rose-500/10 text-rose-400 border-rose-500/20" },
+    received: { label: "Item received", className: "bg-purple-500/10 text-purple-400 border-purple-500/20" },
+    refunded: { label: "Refunded", className: "bg-emerald-500/10 text-emerald-400 border-emerald-500/20" },
+};
+
+interface ReturnRequestPanelProps {
+    orderNumber: string;
+    orderItems: OrderItem[];
+    request: ReturnRequest;
+    onUpdated: () => void;
+}
+
+export function ReturnRequestPanel({ orderNumber, orderItems, request, onUpdated }: ReturnRequestPanelProps) {
+    // Default refund: what the customer paid for the returned units
+    const suggestedRefund = request.items.reduce((sum, item) => {
+        const orderItem = orderItems.find(i => i.id === item.order_item);
+        return sum + (orderItem ? orderItem.price * item.quantity : 0);
+    }, 0);
+
+    const [note, setNote] = useState("");
+    const [refundAmount, setRefundAmount] = useState<number>(request.refund_amount ?? suggestedRefund);
+    const [updating, setUpdating] = useState<ReturnRequestStatus | null>(null);
+
+    const update = async (status: ReturnRequestStatus) => {
+        if (status === "rejected" && !note.trim()) {
+            toast.error("Add a note so the customer knows why");
+            return;
+        }
+        if (status === "refunded" && !confirm(`Refund ${formatPrice(refundAmount)} and mark the payment as refunded?`)) return;
+
+        setUpdating(status);
+        try {
+            await ordersService.updateReturnRequest(orderNumber, {
+                status,
+                admin_note: note.trim() || undefined,
+                ...(status === "refunded" && { refund_amount: refundAmount }),
+            });
+            toast.success(`Return ${STATUS_STYLES[status].label.toLowerCase()}`);
+            setNote("");
+            onUpdated();
+        } catch (error) {
+            toast.error(getApiError(error, "Failed to update return request").message);
+        } finally {
+            setUpdating(null);
+        }
+    };
+
+    const isClosed = request.status === "rejected" || request.status === "refunded";
+
+    return (
+        <div className="bg-white/5 border border-white/10 rounded-3xl overflow-hidden backdrop-blur-xl">
+            <div className="p-6 border-b border-white/10 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-amber-500/10 rounded-lg">
+                        <RotateCcw className="w-5 h-5 text-amber-400" />
+                    </div>
+                    <div>
+                        <h2 className="font-bold text-lg text-white">Return Request</h2>
+                        <p className="text-xs text-zinc-500">Submitted {formatDate(request.created_at)}</p>
+                    </div>
+                </div>
+                <span className={cn("px-2.5 py-0.5 rounded-full text-xs font-medium border uppercase tracking-wider", STATUS_STYLES[request.status]?.className)}>
+                    {STATUS_STYLES[request.status]?.label ?? request.status}
+                </span>
+            </div>
+
+            <div className="p-6 space-y-6">
+                <div className="grid sm:grid-cols-2 gap-6 text-sm">
+                    <div>
+                        <p className="text-[10px] font-bold uppercase tracking-wider text-zinc-500 mb-1">Reason</p>
+                        <p className="text-white">{getReturnReasonLabel(request.reason)}</p>
+                    </div>
+                    <div>
+                        <p className="text-[10px] font-bold uppercase tracking-wider text-zinc-500 mb-1">Items</p>
+                        {request.items.map(item => (
+                            <p key={item.order_item} className="text-white">
+                                {item.product_name} <span className="text-zinc-500 font-mono">x{item.quantity}</span>
+                            </p>
+                        ))}
+                    </div>
+                </div>
+
+                {request.description && (
+                    <p className="text-sm text-zinc-300 italic bg-black/20 p-4 rounded-xl border border-white/5">&quot;{request.description}&quot;</p>
+                )}
+
+                {request.images.length > 0 && (
+                    <div className="flex flex-wrap gap-3">
+                        {request.images.map(img => (
+                            <a key={img.id} href={img.image} target="_blank" rel="noopener noreferrer" className="w-20 h-20 rounded-xl overflow-hidden border border-white/10 hover:border-purple-500/50 transition-colors">
+                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                <img src={img.image} alt="Return photo" className="w-full h-full object-cover" />
+                            </a>
+                        ))}
+                    </div>
+                )}
+
+                {request.history.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="text-[10px] font-bold uppercase tracking-wider text-zinc-500">History</p>
+                        {request.history.map(event => (
+                            <div key={`${event.status}-${event.created_at}`} className="flex items-start gap-3 text-xs">
+                                <span className="text-zinc-500 font-mono whitespace-nowrap">{new Date(event.created_at).toLocaleString("vi-VN")}</span>
+                                <span className="text-white font-medium">{STATUS_STYLES[event.status]?.label ?? event.status}</span>
+                                {event.note && <span className="text-zinc-400">— {event.note}</span>}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {request.refund_amount !== null && request.status === "refunded" && (
+                    <div className="flex justify-between items-center p-3 bg-emerald-500/10 rounded-xl border border-emerald-500/20 text-sm">
+                        <span className="text-emerald-300">Refunded</span>
+                        <span className="font-bold font-mono text-emerald-400">{formatPrice(request.refund_amount)}</span>
+                    </div>
+                )}
+
+                {!isClosed && (
+                    <div className="space-y-4 pt-4 border-t border-white/10">
+                        <Textarea
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder="Note to the customer (required when rejecting)"
+                            className="bg-black/20 border-white/10 text-white placeholder:text-zinc-600 rounded-xl resize-none"
+                        />
+
+                        {request.status === "requested" && (
+                            <div className="flex gap-3">
+                                <Button
+                                    onClick={() => update("approved")}
+                                    disabled={!!updating}
+                                    className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl h-11 font-bold"
+                                >
+                                    {updating === "approved" ? <Loader2 className="animate-spin w-4 h-4 mr-2" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+                                    Approve
+                                </Button>
+                                <Button
+                                    onClick={() => update("rejected")}
+                                    disabled={!!updating}
+                                    variant="outline"
+                                    className="flex-1 border-rose-500/20 text-rose-400 hover:bg-rose-500/10 hover:text-rose-300 rounded-xl h-11 bg-transparent"
+                                >
+                                    {updating === "rejected" ? <Loader2 className="animate-spin w-4 h-4 mr-2" /> : <XCircle className="w-4 h-4 mr-2" />}
+                                    Reject
+                                </Button>
+                            </div>
+                        )}
+
+                        {request.status === "approved" && (
+                            <Button
+                                onClick={() => update("received")}
+                                disabled={!!updating}
+                                className="w-full bg-purple-600 hover:bg-purple-700 text-white rounded-xl h-11 font-bold"
+                            >
+                                {updating === "received" ? <Loader2 className="animate-spin w-4 h-4 mr-2" /> : <Package className="w-4 h-4 mr-2" />}
+                                Mark Item Received
+                            </Button>
+                        )}
+
+                        {request.status === "received" && (
+                            <div className="flex flex-col sm:flex-row gap-3">
+                                <CurrencyInput
+                                    value={refundAmount}
+                                    onValueChange={(val) => setRefundAmount(val ?? 0)}
+                                    className="flex-1 px-4 h-11 bg-black/20 border border-white/10 rounded-xl focus:outline-none focus:border-purple-500/50 text-white font-mono"
+                                />
+                                <Button
+                                    onClick={() => update("refunded")}
+                                    disabled={!!updating || refundAmount <= 0}
+                                    className="bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl h-11 font-bold"
+                                >
+                                    {updating === "refunded" ? <Loader2 className="animate-spin w-4 h-4 mr-2" /> : <Wallet className="w-4 h-4 mr-2" />}
+                                    Refund
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
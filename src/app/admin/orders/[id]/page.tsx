@@ -3,7 +3,11 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import api from "@/lib/api";
+import { getApiError } from "@/lib/api";
+import { ordersService } from "@/services/orders";
+import { canTransitionOrder, getNextStatuses } from "@/lib/orders";
+import { getPrintUrl } from "@/lib/invoice";
+import type { AdminOrderDetail } from "@/types/order";
 import { formatPrice, formatDate, cn } from "@/lib/utils";
 import {
     ArrowLeft,
@@ -18,42 +22,19 @@ import {
     Box,
     Loader2,
     Calendar,
-    User
+    User,
+    Wallet,
+    FileText,
+    Printer,
+    AlertTriangle,
+    type LucideIcon
 } from "lucide-react";
 import toast from "react-hot-toast";
 import { AuroraBackground } from "@/components/ui/aurora-background";
 import { Button } from "@/components/ui/button";
 import React from "react";
-
-interface OrderDetail {
-    id: string;
-    order_number: string;
-    status: string;
-    payment_status: string;
-    payment_method: string;
-    payment_method_display: string;
-    recipient_name: string;
-    phone: string;
-    email: string;
-    address: string;
-    city: string;
-    district: string;
-    ward: string;
-    note: string;
-    subtotal: number;
-    shipping_fee: number;
-    discount: number;
-    total: number;
-    created_at: string;
-    items: Array<{
-        id: number;
-        product_name: string;
-        product_image: string;
-        quantity: number;
-        price: number;
-        subtotal: number;
-    }>;
-}
+import { ReturnRequestPanel } from "./components/ReturnRequestPanel";
+import { OrderTimelinePanel } from "./components/OrderTimelinePanel";
 
 // Helper component for badges to match Aurora style
 const StatusBadge = ({ status, type = 'order' }: { status: string; type?: 'order' | 'payment' }) => {
@@ -73,12 +54,22 @@ const StatusBadge = ({ status, type = 'order' }: { status: string; type?: 'order
     );
 };
 
+// One button per status the order can move to (see ORDER_STATUS_TRANSITIONS)
+const STATUS_ACTIONS: Record<string, { label: string; icon: LucideIcon; destructive?: boolean }> = {
+    confirmed: { label: "Confirm Order", icon: CheckCircle },
+    processing: { label: "Start Processing", icon: Package },
+    shipping: { label: "Mark Shipped", icon: Truck },
+    delivered: { label: "Mark Delivered", icon: Box },
+    failed: { label: "Mark Delivery Failed", icon: AlertTriangle, destructive: true },
+    cancelled: { label: "Cancel Order", icon: XCircle, destructive: true },
+};
+
 export default function AdminOrderDetailPage({ params }: { params: Promise<{ id: string }> }) {
     const router = useRouter();
     const resolvedParams = React.use(params);
     const orderId = resolvedParams.id;
 
-    const [order, setOrder] = useState<OrderDetail | null>(null);
+    const [order, setOrder] = useState<AdminOrderDetail | null>(null);
     const [loading, setLoading] = useState(true);
     const [updating, setUpdating] = useState(false);
 
@@ -90,8 +81,7 @@ export default function AdminOrderDetailPage({ params }: { params: Promise<{ id:
 
     const fetchOrder = async (id: string) => {
         try {
-            const { data } = await api.get(`/admin/orders/${id}/`);
-            setOrder(data);
+            setOrder(await ordersService.getAdminOrder(id));
         } catch (error) {
             console.error("Fetch order error:", error);
             toast.error("Could not fetch order details");
@@ -103,19 +93,34 @@ export default function AdminOrderDetailPage({ params }: { params: Promise<{ id:
 
     const updateStatus = async (newStatus: string) => {
         if (!order) return;
+        if (!canTransitionOrder(order.status, newStatus)) {
+            toast.error(`Cannot move a ${order.status} order to ${newStatus}`);
+            return;
+        }
         setUpdating(true);
         try {
             // Use the status endpoint which triggers OrderService.update_order_status()
             // This will send confirmation email and create GHN shipping order for COD
-            await api.post(`/admin/orders/${order.order_number}/status/`, {
-                status: newStatus
-            });
+            await ordersService.updateStatus(order.order_number, newStatus);
             toast.success(`Order updated to ${newStatus}`);
             fetchOrder(order.order_number);
-        } catch (error: any) {
+        } catch (error) {
             console.error(error);
-            const errorMsg = error.response?.data?.error || "Failed to update status";
-            toast.error(errorMsg);
+            toast.error(getApiError(error, "Failed to update status").message);
+        } finally {
+            setUpdating(false);
+        }
+    };
+
+    const markRefunded = async () => {
+        if (!order || !confirm("Mark this payment as refunded? Do this once the money has been sent back.")) return;
+        setUpdating(true);
+        try {
+            await ordersService.updatePaymentStatus(order.order_number, "refunded");
+            toast.success("Payment marked as refunded");
+            fetchOrder(order.order_number);
+        } catch (error) {
+            toast.error(getApiError(error, "Failed to update payment status").message);
         } finally {
             setUpdating(false);
         }
@@ -131,6 +136,10 @@ export default function AdminOrderDetailPage({ params }: { params: Promise<{ id:
 
     if (!order) return null;
 
+    const nextStatuses = getNextStatuses(order.status);
+    const needsRefund = order.status === 'cancelled' && order.payment_status === 'paid';
+    const hasOpenReturn = !!order.return_request && !['rejected', 'refunded'].includes(order.return_request.status);
+
     return (
         <div className="min-h-screen bg-black text-white font-sans selection:bg-purple-500/30">
             {/* Fixed Background */}
@@ -170,6 +179,21 @@ export default function AdminOrderDetailPage({ params }: { params: Promise<{ id:
                                     <span>{order.items.length} items</span>
                                 </div>
                             </div>
+
+                            <div className="flex gap-2">
+                                <Button asChild variant="outline" className="bg-white/5 border-white/10 text-white hover:bg-white/10 rounded-xl">
+                                    <Link href={getPrintUrl([order.order_number], "invoice")} target="_blank">
+                                        <FileText className="w-4 h-4 mr-2" />
+                                        Invoice
+                                    </Link>
+                                </Button>
+                                <Button asChild variant="outline" className="bg-white/5 border-white/10 text-white hover:bg-white/10 rounded-xl">
+                                    <Link href={getPrintUrl([order.order_number], "slip")} target="_blank">
+                                        <Printer className="w-4 h-4 mr-2" />
+                                        Shipping Label
+                                    </Link>
+                                </Button>
+                            </div>
                         </div>
                     </div>
 
@@ -239,6 +263,17 @@ export default function AdminOrderDetailPage({ params }: { params: Promise<{ id:
                                     </div>
                                 </div>
                             </div>
+
+                            {order.return_request && (
+                                <ReturnRequestPanel
+                                    orderNumber={order.order_number}
+                                    orderItems={order.items}
+                                    request={order.return_request}
+                                    onUpdated={() => fetchOrder(order.order_number)}
+                                />
+                            )}
+
+                            <OrderTimelinePanel order={order} />
                         </div>
 
                         {/* Sidebar */}
@@ -248,69 +283,71 @@ export default function AdminOrderDetailPage({ params }: { params: Promise<{ id:
                             <div className="bg-white/5 border border-white/10 rounded-3xl p-6 backdrop-blur-xl">
                                 <h3 className="font-bold text-white mb-4 text-sm uppercase tracking-widest text-zinc-500">Order Actions</h3>
                                 <div className="space-y-3">
-                                    {order.status === 'pending' && (
-                                        <>
-                                            {order.payment_status === 'paid' ? (
-                                                <div className="p-4 rounded-xl bg-emerald-500/10 border border-emerald-500/20 text-center">
-                                                    <p className="text-emerald-400 font-bold mb-1">Order Paid</p>
-                                                    <p className="text-zinc-400 text-xs">Waiting for auto-confirmation or system processing.</p>
-                                                    <Button
-                                                        onClick={() => updateStatus('confirmed')}
-                                                        disabled={updating}
-                                                        variant="ghost"
-                                                        className="mt-2 text-xs text-indigo-400 hover:text-indigo-300 h-auto py-1"
-                                                    >
-                                                        Force Confirm
-                                                    </Button>
-                                                </div>
-                                            ) : (
-                                                <Button
-                                                    onClick={() => updateStatus('confirmed')}
-                                                    disabled={updating}
-                                                    className="w-full bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl h-12 font-bold"
-                                                >
-                                                    {updating ? <Loader2 className="animate-spin w-4 h-4 mr-2" /> : <CheckCircle className="w-4 h-4 mr-2" />}
-                                                    Confirm Order
-                                                </Button>
-                                            )}
-
-                                            <Button
-                                                onClick={() => updateStatus('cancelled')}
-                                                disabled={updating}
-                                                variant="outline"
-                                                className="w-full border-rose-500/20 text-rose-400 hover:bg-rose-500/10 hover:text-rose-300 rounded-xl h-12 bg-transparent mt-2"
-                                            >
-                                                <XCircle className="w-4 h-4 mr-2" />
-                                                Cancel Order
-                                            </Button>
-                                        </>
+                                    {order.status === 'pending' && order.payment_status === 'paid' && (
+                                        <div className="p-4 rounded-xl bg-emerald-500/10 border border-emerald-500/20 text-center">
+                                            <p className="text-emerald-400 font-bold mb-1">Order Paid</p>
+                                            <p className="text-zinc-400 text-xs">Waiting for auto-confirmation or system processing.</p>
+                                        </div>
                                     )}
-                                    {/* Unified Shipping/Delivery Step */}
-                                    {(order.status === 'confirmed' || order.status === 'shipping') && (
-                                        <div className="space-y-3">
-                                            <div className="p-4 rounded-xl bg-blue-500/10 border border-blue-500/20">
-                                                <div className="flex items-center gap-3 mb-2">
-                                                    <div className="p-2 bg-blue-500/20 rounded-lg">
-                                                        <Truck className="w-4 h-4 text-blue-400" />
-                                                    </div>
-                                                    <div>
-                                                        <p className="text-blue-400 font-bold text-sm">Shipping in Progress</p>
-                                                        <p className="text-zinc-400 text-xs">Handled by GHN</p>
-                                                    </div>
+                                    {order.status === 'shipping' && (
+                                        <div className="p-4 rounded-xl bg-blue-500/10 border border-blue-500/20">
+                                            <div className="flex items-center gap-3">
+                                                <div className="p-2 bg-blue-500/20 rounded-lg">
+                                                    <Truck className="w-4 h-4 text-blue-400" />
+                                                </div>
+                                                <div>
+                                                    <p className="text-blue-400 font-bold text-sm">Shipping in Progress</p>
+                                                    <p className="text-zinc-400 text-xs">Handled by GHN</p>
                                                 </div>
                                             </div>
-
+                                        </div>
+                                    )}
+                                    {nextStatuses.map(status => {
+                                        const action = STATUS_ACTIONS[status];
+                                        if (!action) return null;
+                                        const Icon = action.icon;
+                                        return (
                                             <Button
-                                                onClick={() => updateStatus('delivered')}
+                                                key={status}
+                                                onClick={() => updateStatus(status)}
                                                 disabled={updating}
-                                                className="w-full bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl h-12 font-bold"
+                                                variant={action.destructive ? "outline" : "default"}
+                                                className={cn(
+                                                    "w-full rounded-xl h-12",
+                                                    action.destructive
+                                                        ? "border-rose-500/20 text-rose-400 hover:bg-rose-500/10 hover:text-rose-300 bg-transparent"
+                                                        : "bg-indigo-600 hover:bg-indigo-700 text-white font-bold"
+                                                )}
                                             >
-                                                {updating ? <Loader2 className="animate-spin w-4 h-4 mr-2" /> : <Box className="w-4 h-4 mr-2" />}
-                                                Mark Delivered
+                                                {updating ? <Loader2 className="animate-spin w-4 h-4 mr-2" /> : <Icon className="w-4 h-4 mr-2" />}
+                                                {action.label}
                                             </Button>
+                                        );
+                                    })}
+                                    {order.status === 'cancelled' && order.cancel_reason && (
+                                        <div className="p-4 rounded-xl bg-rose-500/10 border border-rose-500/20">
+                                            <p className="text-[10px] font-bold uppercase tracking-wider text-rose-400 mb-1">Cancellation reason</p>
+                                            <p className="text-sm text-zinc-300">{order.cancel_reason}</p>
+                                        </div>
+                                    )}
+                                    {/* Cancelled after an online payment: the money has to go back */}
+                                    {needsRefund && (
+                                        <Button
+                                            onClick={markRefunded}
+                                            disabled={updating}
+                                            className="w-full bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl h-12 font-bold"
+                                        >
+                                            {updating ? <Loader2 className="animate-spin w-4 h-4 mr-2" /> : <Wallet className="w-4 h-4 mr-2" />}
+                                            Mark as Refunded
+                                        </Button>
+                                    )}
+                                    {hasOpenReturn && (
+                                        <div className="p-4 rounded-xl bg-amber-500/10 border border-amber-500/20 text-center">
+                                            <p className="text-amber-400 text-sm font-bold">Return request open</p>
+                                            <p className="text-zinc-400 text-xs">Review it below the order items.</p>
                                         </div>
                                     )}
-                                    {['delivered', 'cancelled', 'refunded'].includes(order.status) && (
+                                    {nextStatuses.length === 0 && !needsRefund && !hasOpenReturn && (
                                         <div className="p-4 rounded-xl bg-white/5 border border-white/5 text-center">
                                             <p className="text-zinc-500 text-sm">No further actions available.</p>
                                         </div>
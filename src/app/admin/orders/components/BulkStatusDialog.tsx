@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { CheckCircle2, XCircle, Loader2, AlertTriangle } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { getApiError } from "@/lib/api";
+import { ORDER_STATUS_LABELS, canTransitionOrder } from "@/lib/orders";
+import { cn } from "@/lib/utils";
+import { ordersService } from "@/services/orders";
+import type { AdminOrder } from "@/types/order";
+
+interface BulkResult {
+    orderNumber: string;
+    ok: boolean;
+    message: string;
+}
+
+interface BulkStatusDialogProps {
+    status: string | null;
+    orders: AdminOrder[];
+    onClose: () => void;
+    onCompleted: () => void;
+}
+
+export function BulkStatusDialog({ status, orders, onClose, onCompleted }: BulkStatusDialogProps) {
+    const [running, setRunning] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [results, setResults] = useState<BulkResult[] | null>(null);
+
+    const label = status ? ORDER_STATUS_LABELS[status] ?? status : "";
+    const eligible = status ? orders.filter(o => canTransitionOrder(o.status, status)) : [];
+    const skipped = status ? orders.filter(o => !canTransitionOrder(o.status, status)) : [];
+
+    const handleClose = () => {
+        if (running) return;
+        onClose();
+        setResults(null);
+        setProgress(0);
+    };
+
+    const run = async () => {
+        if (!status) return;
+        setRunning(true);
+        const outcome: BulkResult[] = [];
+        // One at a time: confirming an order creates its GHN shipment on the backend
+        for (const order of eligible) {
+            try {
+                await ordersService.updateStatus(order.order_number, status);
+                outcome.push({ orderNumber: order.order_number, ok: true, message: `Moved to ${label.toLowerCase()}` });
+            } catch (error) {
+                outcome.push({ orderNumber: order.order_number, ok: false, message: getApiError(error, "Update failed").message });
+            }
+            setProgress(outcome.length);
+        }
+        setResults([
+            ...outcome,
+            ...skipped.map(o => ({ orderNumber: o.order_number, ok: false, message: `Cannot go from ${o.status} to ${status}` })),
+        ]);
+        setRunning(false);
+        onCompleted();
+    };
+
+    const succeeded = results?.filter(r => r.ok).length ?? 0;
+
+    return (
+        <Dialog open={!!status} onOpenChange={(open) => !open && handleClose()}>
+            <DialogContent className="sm:max-w-lg bg-zinc-950 border-white/10 text-white">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-bold text-white">
+                        {results ? "Bulk update finished" : `Mark ${orders.length} order${orders.length === 1 ? "" : "s"} as ${label}`}
+                    </DialogTitle>
+                    <DialogDescription className="text-zinc-400">
+                        {results
+                            ? `${succeeded} of ${results.length} orders updated.`
+                            : `${eligible.length} can be updated. ${skipped.length > 0 ? `${skipped.length} will be skipped because the change is not allowed from their current status.` : ""}`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {results ? (
+                    <ul className="max-h-72 overflow-y-auto divide-y divide-white/5 rounded-xl border border-white/10">
+                        {results.map(result => (
+                            <li key={result.orderNumber} className="flex items-center gap-3 px-4 py-2.5 text-sm">
+                                {result.ok
+                                    ? <CheckCircle2 className="w-4 h-4 text-emerald-400 shrink-0" />
+                                    : <XCircle className="w-4 h-4 text-rose-400 shrink-0" />}
+                                <span className="font-mono text-white">#{result.orderNumber}</span>
+                                <span className={cn("truncate", result.ok ? "text-zinc-400" : "text-rose-300")}>{result.message}</span>
+                            </li>
+                        ))}
+                    </ul>
+                ) : skipped.length > 0 && (
+                    <div className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 text-sm">
+                        <p className="flex items-center gap-2 text-amber-400 font-medium mb-1">
+                            <AlertTriangle className="w-4 h-4" /> Skipped
+                        </p>
+                        <p className="text-zinc-400 font-mono text-xs">
+                            {skipped.map(o => `#${o.order_number} (${o.status})`).join(", ")}
+                        </p>
+                    </div>
+                )}
+
+                <div className="flex justify-end gap-3 pt-2">
+                    {results ? (
+                        <Button onClick={handleClose} className="bg-white text-black hover:bg-zinc-200 rounded-xl">Done</Button>
+                    ) : (
+                        <>
+                            <Button variant="ghost" onClick={handleClose} disabled={running} className="text-zinc-400 hover:text-white">Cancel</Button>
+                            <Button
+                                onClick={run}
+                                disabled={running || eligible.length === 0}
+                                className={cn("rounded-xl font-bold text-white", status === "cancelled" ? "bg-rose-600 hover:bg-rose-700" : "bg-indigo-600 hover:bg-indigo-700")}
+                            >
+                                {running && <Loader2 className="animate-spin w-4 h-4 mr-2" />}
+                                {running ? `Updating ${progress}/${eligible.length}` : `Update ${eligible.length}`}
+                            </Button>
+                        </>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,13 +1,17 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import api from "@/lib/api";
+import { useCallback, useEffect, useState } from "react";
+import { ordersService } from "@/services/orders";
+import type { AdminOrder, AdminOrderQuery } from "@/types/order";
 import { formatPrice, formatDate, cn } from "@/lib/utils";
+import { canTransitionOrder } from "@/lib/orders";
+import { getPrintUrl } from "@/lib/invoice";
 import Link from "next/link";
 import {
     Eye, Search, Filter, ShoppingBag, Loader2,
     ChevronLeft, ChevronRight, MoreVertical, Copy,
-    CheckCircle2, XCircle, Truck, Package as PackageIcon, RefreshCcw
+    CheckCircle2, XCircle, Truck, Package as PackageIcon, RefreshCcw,
+    FileText, Printer, Download
 } from "lucide-react";
 import { AuroraBackground } from "@/components/ui/aurora-background";
 import { Button } from "@/components/ui/button";
@@ -20,6 +24,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
     Select,
     SelectContent,
@@ -28,19 +33,10 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import { motion, AnimatePresence } from "framer-motion";
+import { ExportModal, type ExportColumn } from "@/components/modals/ExportModal";
+import { BulkStatusDialog } from "./components/BulkStatusDialog";
 
 // --- Types ---
-interface Order {
-    id: string;
-    order_number: string;
-    status: string;
-    payment_status: string;
-    total: number;
-    item_count: number;
-    created_at: string;
-    recipient_name: string;
-}
-
 // --- Constants ---
 const STATUS_OPTIONS = [
     { value: "all", label: "All Status" },
@@ -52,6 +48,30 @@ const STATUS_OPTIONS = [
     { value: "cancelled", label: "Cancelled" },
 ];
 
+const BULK_ACTIONS = [
+    { status: "confirmed", label: "Confirm", icon: CheckCircle2, className: "text-blue-400 hover:bg-blue-500/10" },
+    { status: "shipping", label: "Mark Shipping", icon: Truck, className: "text-purple-400 hover:bg-purple-500/10" },
+    { status: "cancelled", label: "Cancel", icon: XCircle, className: "text-rose-400 hover:bg-rose-500/10" },
+];
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+    { key: "order_number", label: "Order number" },
+    { key: "created_at", label: "Date" },
+    { key: "status", label: "Status" },
+    { key: "payment_status", label: "Payment status" },
+    { key: "payment_method", label: "Payment method" },
+    { key: "recipient_name", label: "Recipient" },
+    { key: "phone", label: "Phone" },
+    { key: "email", label: "Email" },
+    { key: "address", label: "Address" },
+    { key: "item_count", label: "Items" },
+    { key: "subtotal", label: "Subtotal" },
+    { key: "shipping_fee", label: "Shipping fee" },
+    { key: "discount", label: "Discount" },
+    { key: "total", label: "Total" },
+    { key: "tracking_code", label: "GHN tracking code" },
+];
+
 const PAYMENT_STATUS_OPTIONS = [
     { value: "all", label: "All Payments" },
     { value: "paid", label: "Paid" },
@@ -90,7 +110,7 @@ const StatusBadge = ({ status, type = 'order' }: { status: string; type?: 'order
 
 export default function AdminOrdersPage() {
     // --- State ---
-    const [orders, setOrders] = useState<Order[]>([]);
+    const [orders, setOrders] = useState<AdminOrder[]>([]);
     const [loading, setLoading] = useState(true);
 
     // Filters State
@@ -98,12 +118,29 @@ export default function AdminOrdersPage() {
     const [debouncedSearch, setDebouncedSearch] = useState("");
     const [statusFilter, setStatusFilter] = useState("all");
     const [paymentFilter, setPaymentFilter] = useState("all");
+    const [dateFrom, setDateFrom] = useState("");
+    const [dateTo, setDateTo] = useState("");
+    const [showExport, setShowExport] = useState(false);
 
     // Pagination State
     const [currentPage, setCurrentPage] = useState(1);
     const [totalPages, setTotalPages] = useState(1);
     const [totalCount, setTotalCount] = useState(0);
 
+    // Bulk Actions State
+    const [selected, setSelected] = useState<string[]>([]);
+    const [bulkStatus, setBulkStatus] = useState<string | null>(null);
+    const [refreshKey, setRefreshKey] = useState(0);
+
+    // Shared by the table and the export
+    const buildQuery = useCallback((): AdminOrderQuery => ({
+        search: debouncedSearch || undefined,
+        status: statusFilter !== "all" ? statusFilter : undefined,
+        payment_status: paymentFilter !== "all" ? paymentFilter : undefined,
+        created_after: dateFrom || undefined,
+        created_before: dateTo || undefined,
+    }), [debouncedSearch, statusFilter, paymentFilter, dateFrom, dateTo]);
+
     // --- Effects ---
 
     // Debounce Search
@@ -119,25 +156,19 @@ export default function AdminOrdersPage() {
     useEffect(() => {
         const fetchOrders = async () => {
             setLoading(true);
+            setSelected([]);
             try {
-                const params: any = { page: currentPage };
-
-                // Add filters if active
-                if (debouncedSearch) params.search = debouncedSearch;
-                if (statusFilter !== "all") params.status = statusFilter;
-                if (paymentFilter !== "all") params.payment_status = paymentFilter;
+                const data = await ordersService.getAdminOrders({ ...buildQuery(), page: currentPage });
 
-                const { data } = await api.get("/admin/orders/", { params });
-
-                if (data.results) {
-                    setOrders(data.results);
-                    setTotalCount(data.count);
-                    setTotalPages(Math.ceil(data.count / 12));
-                } else {
+                if (Array.isArray(data)) {
                     // Fallback
                     setOrders(data);
                     setTotalCount(data.length);
                     setTotalPages(1);
+                } else {
+                    setOrders(data.results);
+                    setTotalCount(data.count);
+                    setTotalPages(Math.ceil(data.count / 12));
                 }
             } catch (error) {
                 console.error("Failed to fetch orders:", error);
@@ -147,7 +178,7 @@ export default function AdminOrdersPage() {
         };
 
         fetchOrders();
-    }, [currentPage, debouncedSearch, statusFilter, paymentFilter]);
+    }, [currentPage, buildQuery, refreshKey]);
 
     // --- Handlers ---
 
@@ -155,10 +186,23 @@ export default function AdminOrdersPage() {
         navigator.clipboard.writeText(id);
     };
 
+    const selectedOrders = orders.filter(o => selected.includes(o.order_number));
+    const allSelected = orders.length > 0 && selected.length === orders.length;
+
+    const toggleSelected = (orderNumber: string) => {
+        setSelected(prev => prev.includes(orderNumber) ? prev.filter(n => n !== orderNumber) : [...prev, orderNumber]);
+    };
+
+    const toggleAll = () => {
+        setSelected(allSelected ? [] : orders.map(o => o.order_number));
+    };
+
     const handleClearFilters = () => {
         setSearchTerm("");
         setStatusFilter("all");
         setPaymentFilter("all");
+        setDateFrom("");
+        setDateTo("");
         setCurrentPage(1);
     };
 
@@ -181,8 +225,14 @@ export default function AdminOrdersPage() {
                             <p className="text-neutral-400 text-lg">Detailed view of all customer transactions.</p>
                         </div>
                         <div className="flex items-center gap-2">
-                            {/* Refresh button logic currently relies on re-fetching in useEffect when state changes, or explicit call if needed. Here we can force re-mount or simple state toggle if we want explicit refresh. */}
-                            {/* For now keeping simplified interaction */}
+                            <Button
+                                variant="outline"
+                                onClick={() => setShowExport(true)}
+                                className="bg-white/5 border-white/10 text-white hover:bg-white/10 hover:text-white rounded-xl h-11"
+                            >
+                                <Download className="w-4 h-4 mr-2" />
+                                Export
+                            </Button>
                         </div>
                     </div>
 
@@ -230,7 +280,27 @@ export default function AdminOrdersPage() {
                                     </SelectContent>
                                 </Select>
 
-                                {(statusFilter !== 'all' || paymentFilter !== 'all' || searchTerm) && (
+                                <div className="flex items-center gap-2">
+                                    <Input
+                                        type="date"
+                                        value={dateFrom}
+                                        max={dateTo || undefined}
+                                        onChange={(e) => { setDateFrom(e.target.value); setCurrentPage(1); }}
+                                        className="w-[150px] bg-black/20 border-white/10 text-white h-10 [color-scheme:dark]"
+                                        aria-label="From date"
+                                    />
+                                    <span className="text-neutral-600">–</span>
+                                    <Input
+                                        type="date"
+                                        value={dateTo}
+                                        min={dateFrom || undefined}
+                                        onChange={(e) => { setDateTo(e.target.value); setCurrentPage(1); }}
+                                        className="w-[150px] bg-black/20 border-white/10 text-white h-10 [color-scheme:dark]"
+                                        aria-label="To date"
+                                    />
+                                </div>
+
+                                {(statusFilter !== 'all' || paymentFilter !== 'all' || searchTerm || dateFrom || dateTo) && (
                                     <Button
                                         variant="ghost"
                                         onClick={handleClearFilters}
@@ -243,6 +313,59 @@ export default function AdminOrdersPage() {
                         </div>
                     </div>
 
+                    {/* Bulk Actions Bar */}
+                    {selected.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 bg-purple-500/10 border border-purple-500/20 rounded-2xl px-4 py-3 mb-4">
+                            <span className="text-sm text-white font-medium mr-2">{selected.length} selected</span>
+                            {BULK_ACTIONS.map(action => (
+                                <Button
+                                    key={action.status}
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setBulkStatus(action.status)}
+                                    disabled={!selectedOrders.some(o => canTransitionOrder(o.status, action.status))}
+                                    className={cn("h-8", action.className)}
+                                >
+                                    <action.icon className="w-4 h-4 mr-1.5" />
+                                    {action.label}
+                                </Button>
+                            ))}
+                            <span className="w-px h-5 bg-white/10 mx-1" />
+                            <Button asChild variant="ghost" size="sm" className="h-8 text-neutral-300 hover:bg-white/10">
+                                <Link href={getPrintUrl(selected, "invoice")} target="_blank">
+                                    <FileText className="w-4 h-4 mr-1.5" />
+                                    Print Invoices
+                                </Link>
+                            </Button>
+                            <Button asChild variant="ghost" size="sm" className="h-8 text-neutral-300 hover:bg-white/10">
+                                <Link href={getPrintUrl(selected, "slip")} target="_blank">
+                                    <Printer className="w-4 h-4 mr-1.5" />
+                                    Print Labels
+                                </Link>
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setSelected([])} className="h-8 ml-auto text-neutral-400 hover:text-white">
+                                Clear selection
+                            </Button>
+                        </div>
+                    )}
+
+                    <ExportModal
+                        isOpen={showExport}
+                        onClose={() => setShowExport(false)}
+                        title="Export Orders"
+                        description={`${totalCount} orders match the current filters.`}
+                        columns={EXPORT_COLUMNS}
+                        filename={`orders_export${dateFrom ? `_${dateFrom}` : ""}${dateTo ? `_${dateTo}` : ""}`}
+                        onExport={(options) => ordersService.exportAdminOrders(buildQuery(), options)}
+                    />
+
+                    <BulkStatusDialog
+                        status={bulkStatus}
+                        orders={selectedOrders}
+                        onClose={() => setBulkStatus(null)}
+                        onCompleted={() => setRefreshKey(k => k + 1)}
+                    />
+
                     {/* Orders Table Card */}
                     <div className="bg-white/5 border border-white/10 rounded-3xl backdrop-blur-xl shadow-2xl overflow-hidden relative min-h-[500px] flex flex-col">
 
@@ -251,6 +374,15 @@ export default function AdminOrdersPage() {
                             <table className="w-full min-w-[1000px] text-left border-collapse">
                                 <thead className="sticky top-0 z-20 bg-black/40 backdrop-blur-md">
                                     <tr className="border-b border-white/10 text-xs font-bold uppercase tracking-wider text-neutral-500">
+                                        <th className="pl-6 py-4 w-10">
+                                            <Checkbox
+                                                checked={allSelected}
+                                                onCheckedChange={toggleAll}
+                                                disabled={loading || orders.length === 0}
+                                                className="border-white/20 data-[state=checked]:bg-purple-600 data-[state=checked]:border-purple-600"
+                                                aria-label="Select all orders"
+                                            />
+                                        </th>
                                         <th className="px-6 py-4 font-medium">Order Info</th>
                                         <th className="px-6 py-4 font-medium">Date</th>
                                         <th className="px-6 py-4 font-medium">Status</th>
@@ -265,14 +397,14 @@ export default function AdminOrdersPage() {
                                     {loading ? (
                                         [...Array(6)].map((_, i) => (
                                             <tr key={i}>
-                                                <td colSpan={7} className="px-6 py-4">
+                                                <td colSpan={8} className="px-6 py-4">
                                                     <div className="h-12 w-full bg-white/5 rounded-lg animate-pulse" />
                                                 </td>
                                             </tr>
                                         ))
                                     ) : orders.length === 0 ? (
                                         <tr>
-                                            <td colSpan={7} className="px-6 py-20 text-center">
+                                            <td colSpan={8} className="px-6 py-20 text-center">
                                                 <div className="flex flex-col items-center justify-center gap-3 text-neutral-500">
                                                     <ShoppingBag className="w-16 h-16 mb-2 opacity-20" />
                                                     <p className="text-lg font-medium text-white">No orders found</p>
@@ -290,8 +422,17 @@ export default function AdminOrdersPage() {
                                                     animate={{ opacity: 1, y: 0 }}
                                                     exit={{ opacity: 0 }}
                                                     transition={{ duration: 0.2, delay: i * 0.05 }}
-                                                    className="hover:bg-white/[0.02] transition-colors group"
+                                                    className={cn("hover:bg-white/[0.02] transition-colors group", selected.includes(order.order_number) && "bg-purple-500/[0.04]")}
                                                 >
+                                                    <td className="pl-6 py-4 align-middle">
+                                                        <Checkbox
+                                                            checked={selected.includes(order.order_number)}
+                                                            onCheckedChange={() => toggleSelected(order.order_number)}
+                                                            className="border-white/20 data-[state=checked]:bg-purple-600 data-[state=checked]:border-purple-600"
+                                                            aria-label={`Select order ${order.order_number}`}
+                                                        />
+                                                    </td>
+
                                                     {/* Order Info */}
                                                     <td className="px-6 py-4 align-middle">
                                                         <div className="flex items-center gap-2 mb-1">
@@ -0,0 +1,120 @@
+import { formatPrice } from "@/lib/utils";
+import { VAT_RATE, readVndAmount, splitVat } from "@/lib/invoice";
+import type { AdminOrderDetail } from "@/types/order";
+import type { SiteConfig } from "@/types/core";
+
+interface InvoiceSheetProps {
+    order: AdminOrderDetail;
+    seller: SiteConfig | null;
+}
+
+export function InvoiceSheet({ order, seller }: InvoiceSheetProps) {
+    const issuedAt = new Date(order.created_at);
+    const discount = Number(order.discount) || 0;
+    const { beforeTax, tax } = splitVat(order.total);
+
+    return (
+        <section className="print-sheet bg-white text-black p-10 text-[13px] leading-relaxed">
+            {/* Seller */}
+            <div className="flex justify-between gap-8 pb-4 border-b border-black">
+                <div className="space-y-0.5">
+                    <p className="text-base font-bold uppercase">{seller?.site_name || "OWLS"}</p>
+                    {seller?.tax_code && <p>Mã số thuế: <span className="font-mono">{seller.tax_code}</span></p>}
+                    {seller?.address && <p>Địa chỉ: {seller.address}</p>}
+                    {seller?.phone_number && <p>Điện thoại: {seller.phone_number}</p>}
+                </div>
+                <div className="text-right space-y-0.5 whitespace-nowrap">
+                    <p>Số: <span className="font-mono font-bold">{order.order_number}</span></p>
+                    <p>Ngày {issuedAt.getDate()} tháng {issuedAt.getMonth() + 1} năm {issuedAt.getFullYear()}</p>
+                </div>
+            </div>
+
+            <h1 className="text-center text-xl font-bold uppercase mt-6">Hóa đơn giá trị gia tăng</h1>
+            <p className="text-center italic mb-6">(Bản thể hiện của hóa đơn bán hàng)</p>
+
+            {/* Buyer */}
+            <div className="space-y-0.5 mb-6">
+                <p>Họ tên người mua hàng: <span className="font-bold">{order.recipient_name}</span></p>
+                <p>Điện thoại: {order.phone}{order.email && <> &nbsp;·&nbsp; Email: {order.email}</>}</p>
+                <p>Địa chỉ: {order.address}, {order.ward}, {order.district}, {order.city}</p>
+                <p>Hình thức thanh toán: {order.payment_method_display || order.payment_method}</p>
+            </div>
+
+            <table className="w-full border-collapse">
+                <thead>
+                    <tr className="text-center font-bold">
+                        <th className="border border-black px-2 py-1.5 w-10">STT</th>
+                        <th className="border border-black px-2 py-1.5">Tên hàng hóa, dịch vụ</th>
+                        <th className="border border-black px-2 py-1.5 w-14">ĐVT</th>
+                        <th className="border border-black px-2 py-1.5 w-16">Số lượng</th>
+                        <th className="border border-black px-2 py-1.5 w-32">Đơn giá</th>
+                        <th className="border border-black px-2 py-1.5 w-36">Thành tiền</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {order.items.map((item, index) => (
+                        <tr key={item.id}>
+                            <td className="border border-black px-2 py-1.5 text-center">{index + 1}</td>
+                            <td className="border border-black px-2 py-1.5">
+                                {item.product_name}
+                                {item.variant_name && <span className="text-neutral-600"> ({item.variant_name})</span>}
+                                {item.sku && <span className="block text-[11px] text-neutral-500 font-mono">{item.sku}</span>}
+                            </td>
+                            <td className="border border-black px-2 py-1.5 text-center">Cái</td>
+                            <td className="border border-black px-2 py-1.5 text-center">{item.quantity}</td>
+                            <td className="border border-black px-2 py-1.5 text-right">{formatPrice(item.price)}</td>
+                            <td className="border border-black px-2 py-1.5 text-right">{formatPrice(item.subtotal)}</td>
+                        </tr>
+                    ))}
+                    {order.shipping_fee > 0 && (
+                        <tr>
+                            <td className="border border-black px-2 py-1.5 text-center">{order.items.length + 1}</td>
+                            <td className="border border-black px-2 py-1.5">Phí vận chuyển</td>
+                            <td className="border border-black px-2 py-1.5 text-center">Lần</td>
+                            <td className="border border-black px-2 py-1.5 text-center">1</td>
+                            <td className="border border-black px-2 py-1.5 text-right">{formatPrice(order.shipping_fee)}</td>
+                            <td className="border border-black px-2 py-1.5 text-right">{formatPrice(order.shipping_fee)}</td>
+                        </tr>
+                    )}
+                </tbody>
+                <tfoot>
+                    <tr>
+                        <td colSpan={5} className="border border-black px-2 py-1.5 text-right">Cộng tiền hàng</td>
+                        <td className="border border-black px-2 py-1.5 text-right">{formatPrice(order.subtotal + order.shipping_fee)}</td>
+                    </tr>
+                    {discount > 0 && (
+                        <tr>
+                            <td colSpan={5} className="border border-black px-2 py-1.5 text-right">Chiết khấu thương mại</td>
+                            <td className="border border-black px-2 py-1.5 text-right">-{formatPrice(discount)}</td>
+                        </tr>
+                    )}
+                    <tr>
+                        <td colSpan={5} className="border border-black px-2 py-1.5 text-right">Tiền hàng chưa thuế</td>
+                        <td className="border border-black px-2 py-1.5 text-right">{formatPrice(beforeTax)}</td>
+                    </tr>
+                    <tr>
+                        <td colSpan={5} className="border border-black px-2 py-1.5 text-right">Thuế suất GTGT {VAT_RATE * 100}% — Tiền thuế GTGT</td>
+                        <td className="border border-black px-2 py-1.5 text-right">{formatPrice(tax)}</td>
+                    </tr>
+                    <tr className="font-bold">
+                        <td colSpan={5} className="border border-black px-2 py-1.5 text-right">Tổng cộng tiền thanh toán</td>
+                        <td className="border border-black px-2 py-1.5 text-right">{formatPrice(order.total)}</td>
+                    </tr>
+                </tfoot>
+            </table>
+
+            <p className="mt-3">Số tiền viết bằng chữ: <span className="italic font-medium">{readVndAmount(order.total)}</span></p>
+
+            <div className="grid grid-cols-2 text-center mt-10">
+                <div>
+                    <p className="font-bold">Người mua hàng</p>
+                    <p className="italic text-neutral-500">(Ký, ghi rõ họ tên)</p>
+                </div>
+                <div>
+                    <p className="font-bold">Người bán hàng</p>
+                    <p className="italic text-neutral-500">(Ký, đóng dấu, ghi rõ họ tên)</p>
+                </div>
+            </div>
+        </section>
+    );
+}
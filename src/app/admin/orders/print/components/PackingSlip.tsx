@@ -0,0 +1,105 @@
+import { formatPrice } from "@/lib/utils";
+import type { AdminOrderDetail } from "@/types/order";
+import type { SiteConfig } from "@/types/core";
+
+interface PackingSlipProps {
+    order: AdminOrderDetail;
+    seller: SiteConfig | null;
+}
+
+export function PackingSlip({ order, seller }: PackingSlipProps) {
+    // GHN collects the order total on delivery unless it was paid online
+    const codAmount = order.payment_status === "paid" ? 0 : order.total;
+    const itemCount = order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+    return (
+        <section className="print-sheet bg-white text-black p-10 text-[13px] leading-relaxed">
+            {/* Shipping Label */}
+            <div className="border-2 border-black">
+                <div className="flex items-stretch justify-between border-b-2 border-black">
+                    <div className="p-4">
+                        <p className="text-2xl font-black tracking-tight">GHN</p>
+                        <p className="text-[11px] uppercase">Giao Hàng Nhanh</p>
+                    </div>
+                    <div className="p-4 text-right border-l-2 border-black flex-1">
+                        <p className="text-[11px] uppercase">Mã vận đơn</p>
+                        <p className="text-3xl font-mono font-bold tracking-widest">{order.tracking_code || "—"}</p>
+                        <p className="font-mono">Đơn hàng #{order.order_number}</p>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 border-b-2 border-black">
+                    <div className="p-4 border-r-2 border-black">
+                        <p className="text-[11px] font-bold uppercase mb-1">Người gửi</p>
+                        <p className="font-bold">{seller?.site_name || "OWLS"}</p>
+                        {seller?.phone_number && <p>{seller.phone_number}</p>}
+                        {seller?.address && <p>{seller.address}</p>}
+                    </div>
+                    <div className="p-4">
+                        <p className="text-[11px] font-bold uppercase mb-1">Người nhận</p>
+                        <p className="text-lg font-bold">{order.recipient_name}</p>
+                        <p className="text-lg font-mono">{order.phone}</p>
+                        <p>{order.address}</p>
+                        <p className="font-bold">{order.ward}, {order.district}, {order.city}</p>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-3 text-center">
+                    <div className="p-3 border-r-2 border-black">
+                        <p className="text-[11px] uppercase">Tiền thu hộ (COD)</p>
+                        <p className="text-xl font-bold">{formatPrice(codAmount)}</p>
+                    </div>
+                    <div className="p-3 border-r-2 border-black">
+                        <p className="text-[11px] uppercase">Số lượng</p>
+                        <p className="text-xl font-bold">{itemCount}</p>
+                    </div>
+                    <div className="p-3">
+                        <p className="text-[11px] uppercase">Ngày đặt</p>
+                        <p className="text-xl font-bold">{new Date(order.created_at).toLocaleDateString("vi-VN")}</p>
+                    </div>
+                </div>
+            </div>
+
+            {order.note && (
+                <p className="mt-3 border border-dashed border-black p-2">Ghi chú: {order.note}</p>
+            )}
+
+            {/* Packing Slip */}
+            <h2 className="text-lg font-bold uppercase mt-8 mb-3">Phiếu đóng gói</h2>
+            <table className="w-full border-collapse">
+                <thead>
+                    <tr className="text-left font-bold">
+                        <th className="border border-black px-2 py-1.5 w-10 text-center">✓</th>
+                        <th className="border border-black px-2 py-1.5">Sản phẩm</th>
+                        <th className="border border-black px-2 py-1.5 w-40">SKU</th>
+                        <th className="border border-black px-2 py-1.5 w-16 text-center">SL</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {order.items.map(item => (
+                        <tr key={item.id}>
+                            <td className="border border-black px-2 py-1.5" />
+                            <td className="border border-black px-2 py-1.5">
+                                {item.product_name}
+                                {item.variant_name && <span className="text-neutral-600"> ({item.variant_name})</span>}
+                            </td>
+                            <td className="border border-black px-2 py-1.5 font-mono">{item.sku || "—"}</td>
+                            <td className="border border-black px-2 py-1.5 text-center font-bold">{item.quantity}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="grid grid-cols-2 text-center mt-10">
+                <div>
+                    <p className="font-bold">Người đóng gói</p>
+                    <p className="italic text-neutral-500">(Ký, ghi rõ họ tên)</p>
+                </div>
+                <div>
+                    <p className="font-bold">Nhân viên GHN</p>
+                    <p className="italic text-neutral-500">(Ký, ghi rõ họ tên)</p>
+                </div>
+            </div>
+        </section>
+    );
+}
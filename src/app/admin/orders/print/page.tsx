@@ -0,0 +1,134 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Printer, Loader2, FileText, Package, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { PrintDocument } from "@/lib/invoice";
+import { coreService } from "@/services/core";
+import { ordersService } from "@/services/orders";
+import type { AdminOrderDetail } from "@/types/order";
+import type { SiteConfig } from "@/types/core";
+import { InvoiceSheet } from "./components/InvoiceSheet";
+import { PackingSlip } from "./components/PackingSlip";
+
+const DOCUMENTS: { value: PrintDocument; label: string; icon: typeof FileText }[] = [
+    { value: "invoice", label: "Invoice", icon: FileText },
+    { value: "slip", label: "Packing Slip & Label", icon: Package },
+];
+
+function PrintContent() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const doc: PrintDocument = searchParams.get("doc") === "slip" ? "slip" : "invoice";
+    const ordersParam = searchParams.get("orders") || "";
+
+    const [orders, setOrders] = useState<AdminOrderDetail[]>([]);
+    const [failed, setFailed] = useState<string[]>([]);
+    const [seller, setSeller] = useState<SiteConfig | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const orderNumbers = ordersParam.split(",").map(n => n.trim()).filter(Boolean);
+
+        const load = async () => {
+            setLoading(true);
+            const [config, results] = await Promise.all([
+                // Seller details are optional on the printout
+                coreService.getConfig().catch(() => null),
+                Promise.allSettled(orderNumbers.map(n => ordersService.getAdminOrder(n))),
+            ]);
+            setSeller(config);
+            setOrders(results.flatMap(r => r.status === "fulfilled" ? [r.value] : []));
+            setFailed(orderNumbers.filter((_, i) => results[i].status === "rejected"));
+            setLoading(false);
+        };
+
+        load();
+    }, [ordersParam]);
+
+    const switchDocument = (value: PrintDocument) => {
+        router.replace(`/admin/orders/print?doc=${value}&orders=${ordersParam}`);
+    };
+
+    return (
+        <div className="min-h-screen bg-zinc-950 text-white print:bg-white">
+            {/* Toolbar */}
+            <div className="print:hidden sticky top-0 z-20 pt-28 pb-4 px-4 bg-zinc-950/90 backdrop-blur-md border-b border-white/10">
+                <div className="container mx-auto max-w-5xl flex flex-wrap items-center justify-between gap-4">
+                    <div className="flex items-center gap-4">
+                        <Link href="/admin/orders" className="text-zinc-400 hover:text-white transition-colors">
+                            <ArrowLeft className="w-5 h-5" />
+                        </Link>
+                        <div>
+                            <h1 className="text-xl font-bold">Print {orders.length} order{orders.length === 1 ? "" : "s"}</h1>
+                            <p className="text-xs text-zinc-500">Each document starts on a new A4 page.</p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="flex bg-white/5 border border-white/10 rounded-xl p-1">
+                            {DOCUMENTS.map(option => (
+                                <button
+                                    key={option.value}
+                                    type="button"
+                                    onClick={() => switchDocument(option.value)}
+                                    className={cn(
+                                        "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors",
+                                        doc === option.value ? "bg-white text-black font-medium" : "text-zinc-400 hover:text-white"
+                                    )}
+                                >
+                                    <option.icon className="w-4 h-4" />
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                        <Button
+                            onClick={() => window.print()}
+                            disabled={loading || orders.length === 0}
+                            className="bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold"
+                        >
+                            <Printer className="w-4 h-4 mr-2" />
+                            Print
+                        </Button>
+                    </div>
+                </div>
+
+                {failed.length > 0 && (
+                    <div className="container mx-auto max-w-5xl mt-4 flex items-center gap-2 text-sm text-amber-400">
+                        <AlertTriangle className="w-4 h-4" />
+                        Could not load {failed.map(n => `#${n}`).join(", ")}
+                    </div>
+                )}
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-32">
+                    <Loader2 className="animate-spin text-purple-500" size={32} />
+                </div>
+            ) : orders.length === 0 ? (
+                <p className="text-center text-zinc-500 py-32">No orders to print.</p>
+            ) : (
+                <div className="py-8 space-y-8 print:p-0 print:space-y-0">
+                    {orders.map(order => doc === "invoice"
+                        ? <InvoiceSheet key={order.order_number} order={order} seller={seller} />
+                        : <PackingSlip key={order.order_number} order={order} seller={seller} />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function AdminOrdersPrintPage() {
+    return (
+        <Suspense fallback={
+            <div className="min-h-screen bg-black flex items-center justify-center">
+                <Loader2 size={32} className="animate-spin text-purple-500" />
+            </div>
+        }>
+            <PrintContent />
+        </Suspense>
+    );
+}
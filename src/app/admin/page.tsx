@@ -2,23 +2,12 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
-import api from "@/lib/api";
+import { ordersService } from "@/services/orders";
+import type { DashboardStats } from "@/types/order";
 import { BadgeDollarSign, ShoppingCart, Users, Clock, ArrowRight, TrendingUp, Package, Loader2 } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 
-interface DashboardStats {
-    total_revenue: number;
-    monthly_revenue: number;
-    revenue_growth: number;
-    total_orders: number;
-    orders_growth: number;
-    total_customers: number;
-    customers_growth: number;
-    pending_orders: number;
-    recent_orders: any[];
-}
-
 // Inline StatusBadge for consistent styling
 const StatusBadge = ({ status }: { status: string }) => {
     const getStyles = () => {
@@ -44,8 +33,7 @@ export default function AdminDashboard() {
     useEffect(() => {
         const fetchStats = async () => {
             try {
-                const response = await api.get('/admin/dashboard/');
-                setStats(response.data);
+                setStats(await ordersService.getDashboardStats());
             } catch (error) {
                 console.error("Failed to fetch dashboard stats:", error);
             } finally {
@@ -209,7 +197,7 @@ export default function AdminDashboard() {
                                         </td>
                                     </tr>
                                 ) : (
-                                    stats.recent_orders.map((order: any) => (
+                                    stats.recent_orders.map((order) => (
                                         <tr key={order.order_number} className="hover:bg-white/[0.02] transition-colors group">
                                             <td className="px-6 py-4">
                                                 <Link href={`/admin/orders/${order.order_number}`} className="font-mono text-white hover:text-indigo-400 transition-colors">
@@ -3,58 +3,28 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import api from "@/lib/api";
+import { catalogService } from "@/services/catalog";
+import type { Category } from "@/types/product";
 import { useForm, SubmitHandler, Controller, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import {
-    ArrowLeft, Save, Upload, X, Loader2, AlertCircle, ImageIcon, Trash2,
-    LayoutGrid, DollarSign, Package, Settings, Star, Image as ImageIconSmall, ClipboardList, Plus
+    ArrowLeft, Save, Loader2, AlertCircle, ImageIcon, Trash2,
+    LayoutGrid, DollarSign, Package, Settings, Image as ImageIconSmall, ClipboardList, Plus, Layers
 } from "lucide-react";
 import { toast } from "react-hot-toast";
 import { AuroraBackground } from "@/components/ui/aurora-background";
 import { Button } from "@/components/ui/button";
 import { CurrencyInput } from "@/components/ui/currency-input";
 import { cn } from "@/lib/utils";
+import { getApiError } from "@/lib/api";
+import { handleFormError } from "@/lib/form-errors";
+import { buildCategoryTree, categoryOptionLabel, flattenCategoryTree } from "@/lib/categories";
+import { productSchema, toProductFormData, type ProductFormValues } from "@/lib/product-schema";
+import { useProductGallery } from "@/hooks/use-product-gallery";
+import { ProductImageManager } from "@/components/product/ProductImageManager";
+import { RichTextEditor } from "@/components/product/RichTextEditor";
 import React from "react"; // Explicit import for React.ChangeEvent
 
-// --- Types & Schemas ---
-
-const productSchema = z.object({
-    name: z.string().min(1, "Product name is required"),
-    slug: z.string().optional(),
-    short_description: z.string().max(500, "Short description is too long").optional(),
-    description: z.string().optional(),
-    price: z.coerce.number().min(0, "Price must be positive"),
-    sale_price: z.coerce.number().min(0, "Sale price must be positive").optional().or(z.literal("")),
-    stock: z.coerce.number().int().min(0, "Stock must be non-negative"),
-    sku: z.string().optional(),
-    brand: z.string().optional(),
-    color: z.string().optional(),
-    category: z.coerce.string().min(1, "Category is required"),
-    attributes: z.array(z.object({
-        key: z.string().min(1, "Key is required"),
-        value: z.string().min(1, "Value is required")
-    })).optional(),
-    is_active: z.boolean().default(true),
-    is_featured: z.boolean().default(false),
-});
-
-type ProductFormValues = z.infer<typeof productSchema>;
-
-interface Category {
-    id: string;
-    name: string;
-    slug: string;
-}
-
-interface ProductImage {
-    id: number;
-    image: string;
-    is_primary: boolean;
-    alt_text?: string;
-}
-
 // --- Component ---
 
 export default function EditProductPage({ params }: { params: Promise<{ id: string }> }) {
@@ -66,14 +36,12 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
     const [isLoading, setIsLoading] = useState(false);
     const [isFetching, setIsFetching] = useState(true);
     const [categories, setCategories] = useState<Category[]>([]);
-    const [activeTab, setActiveTab] = useState<'general' | 'specs' | 'pricing' | 'media' | 'settings'>('general');
+    const [activeTab, setActiveTab] = useState<'general' | 'specs' | 'pricing' | 'variants' | 'media' | 'settings'>('general');
 
     // Media State
-    const [existingImages, setExistingImages] = useState<ProductImage[]>([]);
-    const [imageFile, setImageFile] = useState<File | null>(null);
-    const [imagePreview, setImagePreview] = useState<string | null>(null);
+    const gallery = useProductGallery(productId);
 
-    const { register, handleSubmit, setValue, watch, control, formState: { errors } } = useForm<ProductFormValues>({
+    const { register, handleSubmit, setValue, watch, control, setError, formState: { errors } } = useForm<ProductFormValues>({
         // @ts-ignore
         resolver: zodResolver(productSchema),
         defaultValues: {
@@ -90,6 +58,7 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
             brand: "",
             color: "",
             attributes: [],
+            variants: [],
         }
     });
 
@@ -98,6 +67,11 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
         name: "attributes"
     });
 
+    const { fields: variantFields, append: appendVariant, remove: removeVariant } = useFieldArray({
+        control,
+        name: "variants"
+    });
+
     const watchedName = watch("name");
 
     useEffect(() => {
@@ -112,9 +86,7 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
 
     const fetchCategories = async () => {
         try {
-            const response = await api.get('/catalog/categories/');
-            const data = response.data.results || response.data;
-            setCategories(Array.isArray(data) ? data : []);
+            setCategories(await catalogService.getCategories());
         } catch (error) {
             console.error("Failed to fetch categories", error);
         }
@@ -123,8 +95,7 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
     const fetchProductData = async () => {
         setIsFetching(true);
         try {
-            const response = await api.get(`/catalog/products/admin/${productId}/`);
-            const product = response.data;
+            const product = await catalogService.getAdminProduct(productId);
 
             setValue("name", product.name);
             setValue("slug", product.slug);
@@ -136,7 +107,7 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
             setValue("sku", product.sku || "");
             setValue("brand", product.brand || "");
             setValue("color", product.color || "");
-            setValue("category", typeof product.category === 'object' ? product.category.id.toString() : product.category.toString());
+            setValue("category", String(typeof product.category === 'object' ? product.category?.id ?? '' : product.category));
             setValue("is_active", product.is_active);
             setValue("is_featured", product.is_featured);
 
@@ -149,8 +120,20 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
                 setValue("attributes", specs);
             }
 
+            setValue("variants", (product.variants || []).map(variant => ({
+                id: variant.id,
+                sku: variant.sku,
+                color: variant.color || "",
+                storage: variant.storage || "",
+                price: variant.price,
+                sale_price: variant.sale_price !== null ? variant.sale_price : "",
+                stock: variant.stock,
+                image_ids: variant.image_ids || [],
+                is_active: variant.is_active,
+            })));
+
             if (product.images && Array.isArray(product.images)) {
-                setExistingImages(product.images);
+                gallery.setImages(product.images);
             }
         } catch (error) {
             console.error("Failed to fetch product", error);
@@ -161,88 +144,22 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
         }
     };
 
-    const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            setImageFile(file);
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                setImagePreview(reader.result as string);
-            };
-            reader.readAsDataURL(file);
-        }
-    };
-
-    const clearPendingImage = () => {
-        setImageFile(null);
-        setImagePreview(null);
-    };
-
-    const handleSetPrimary = async (imageId: number) => {
-        try {
-            await api.post(`/catalog/products/images/${imageId}/set-primary/`);
-            setExistingImages(prev => prev.map(img => ({
-                ...img,
-                is_primary: img.id === imageId
-            })));
-            toast.success('Image set as primary');
-        } catch (error) {
-            console.error('Failed to set primary image:', error);
-            toast.error('Failed to set primary image');
-        }
-    };
-
     const onSubmit: SubmitHandler<ProductFormValues> = async (data) => {
         setIsLoading(true);
         try {
-            const formData = new FormData();
-            formData.append('name', data.name);
-            if (data.short_description) formData.append('short_description', data.short_description);
-            formData.append('description', data.description || '');
-            formData.append('price', data.price.toString());
-            if (data.sale_price !== "" && data.sale_price !== undefined) {
-                formData.append('sale_price', data.sale_price.toString());
-            } else {
-                formData.append('sale_price', '');
-            }
-            formData.append('stock', data.stock.toString());
-            if (data.sku) formData.append('sku', data.sku);
-            if (data.brand) formData.append('brand', data.brand);
-            if (data.color) formData.append('color', data.color);
-            formData.append('category', data.category);
-            formData.append('is_active', data.is_active.toString());
-            formData.append('is_featured', data.is_featured.toString());
-
-            // Handle Attributes
-            if (data.attributes && data.attributes.length > 0) {
-                const attributesObj = data.attributes.reduce((acc, curr) => {
-                    if (curr.key && curr.value) {
-                        acc[curr.key] = curr.value;
-                    }
-                    return acc;
-                }, {} as Record<string, string>);
-                formData.append('attributes', JSON.stringify(attributesObj));
-            } else {
-                formData.append('attributes', '{}');
-            }
-
-            if (imageFile) {
-                formData.append('image', imageFile);
-            }
-
-            await api.patch(`/catalog/products/admin/${productId}/`, formData, {
-                headers: {
-                    'Content-Type': 'multipart/form-data',
-                },
-            });
+            const formData = toProductFormData(data);
+            await catalogService.updateProduct(productId, formData);
 
             toast.success("Product updated successfully");
             await fetchProductData();
-            clearPendingImage();
 
-        } catch (error: any) {
+        } catch (error) {
             console.error(error);
-            toast.error(error.response?.data?.detail || "Failed to update product");
+            handleFormError(error, {
+                fallback: "Failed to update product",
+                setError,
+                fields: Object.keys(productSchema.shape),
+            });
         } finally {
             setIsLoading(false);
         }
@@ -253,12 +170,12 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
 
         setIsLoading(true);
         try {
-            await api.delete(`/catalog/products/admin/${productId}/`);
+            await catalogService.deleteProduct(productId);
             toast.success("Product deleted successfully");
             router.push('/admin/products');
         } catch (error) {
             console.error(error);
-            toast.error("Failed to delete product");
+            toast.error(getApiError(error, "Failed to delete product").message);
             setIsLoading(false);
         }
     };
@@ -336,6 +253,7 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
                                     { id: 'general', label: 'General Info', icon: LayoutGrid },
                                     { id: 'specs', label: 'Technical Specs', icon: ClipboardList },
                                     { id: 'pricing', label: 'Pricing & Inventory', icon: DollarSign },
+                                    { id: 'variants', label: `Variants (${variantFields.length})`, icon: Layers },
                                     { id: 'media', label: 'Media Gallery', icon: ImageIconSmall },
                                     { id: 'settings', label: 'Settings', icon: Settings },
                                 ].map((tab) => (
@@ -398,8 +316,8 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
                                                         className="w-full px-4 py-3 bg-black/20 border border-white/10 rounded-xl text-white focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 appearance-none transition-all"
                                                     >
                                                         <option value="" className="bg-neutral-900 text-neutral-500">Select Category</option>
-                                                        {categories.map(cat => (
-                                                            <option key={cat.id} value={cat.id} className="bg-neutral-900 text-white">{cat.name}</option>
+                                                        {flattenCategoryTree(buildCategoryTree(categories)).map(cat => (
+                                                            <option key={cat.id} value={cat.id} className="bg-neutral-900 text-white">{categoryOptionLabel(cat)}</option>
                                                         ))}
                                                     </select>
                                                     <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-neutral-500">
@@ -442,10 +360,16 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
 
                                             <div className="space-y-2">
                                                 <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Full Description</label>
-                                                <textarea
-                                                    {...register('description')}
-                                                    className="w-full px-4 py-3 bg-black/20 border border-white/10 rounded-xl focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 text-white placeholder:text-neutral-600 transition-all min-h-[300px]"
-                                                    placeholder="Detailed product information..."
+                                                <Controller
+                                                    name="description"
+                                                    control={control}
+                                                    render={({ field }) => (
+                                                        <RichTextEditor
+                                                            value={field.value || ""}
+                                                            onChange={field.onChange}
+                                                            placeholder="Detailed product information..."
+                                                        />
+                                                    )}
                                                 />
                                             </div>
                                         </div>
@@ -535,6 +459,12 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
                                             Pricing & Inventory
                                         </h3>
 
+                                        {variantFields.length > 0 && (
+                                            <p className="mb-6 text-xs text-amber-300/80 bg-amber-500/10 border border-amber-500/20 rounded-xl px-4 py-3">
+                                                This product has variants. Customers pay the variant price and stock is tracked per variant; these values are only shown before an option is picked.
+                                            </p>
+                                        )}
+
                                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                             <div className="space-y-2">
                                                 <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Regular Price (VND)</label>
@@ -606,99 +536,192 @@ export default function EditProductPage({ params }: { params: Promise<{ id: stri
                                     </div>
                                 )}
 
-                                {/* MEDIA TAB */}
-                                {activeTab === 'media' && (
+                                {/* VARIANTS TAB */}
+                                {activeTab === 'variants' && (
                                     <div className="bg-white/5 border border-white/10 rounded-3xl p-6 md:p-8 backdrop-blur-xl animate-in fade-in slide-in-from-bottom-4 duration-500">
-                                        <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
-                                            <ImageIcon className="w-5 h-5 text-blue-400" />
-                                            Media Gallery
-                                        </h3>
-
-                                        {/* Upload New */}
-                                        <div className="mb-8">
-                                            <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1 mb-2 block">Upload New Image</label>
-                                            <div className="p-1 rounded-2xl border-2 border-dashed border-white/10 hover:border-purple-500/30 hover:bg-purple-500/5 transition-all group">
-                                                <div className="relative h-48 w-full rounded-xl bg-black/20 flex flex-col items-center justify-center overflow-hidden">
-                                                    {imagePreview ? (
-                                                        <>
-                                                            <img src={imagePreview} alt="Preview" className="w-full h-full object-contain" />
-                                                            <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center backdrop-blur-sm gap-2">
-                                                                <span className="text-white text-sm font-medium">New Upload Pending Save</span>
-                                                                <Button
-                                                                    type="button"
-                                                                    variant="destructive"
-                                                                    size="icon"
-                                                                    className="h-8 w-8 rounded-full"
-                                                                    onClick={(e) => {
-                                                                        e.preventDefault();
-                                                                        clearPendingImage();
-                                                                    }}
-                                                                >
-                                                                    <X className="w-4 h-4" />
-                                                                </Button>
-                                                            </div>
-                                                        </>
-                                                    ) : (
-                                                        <div className="flex flex-col items-center gap-3 p-6 text-center">
-                                                            <div className="p-3 bg-white/5 rounded-full ring-1 ring-white/10 group-hover:scale-110 transition-transform duration-300">
-                                                                <Upload className="w-6 h-6 text-neutral-400 group-hover:text-purple-400 transition-colors" />
-                                                            </div>
-                                                            <div>
-                                                                <p className="text-sm font-medium text-white">Click to upload image</p>
-                                                                <p className="text-[10px] text-neutral-500 mt-1">Images will be added as primary upon save</p>
-                                                            </div>
-                                                        </div>
-                                                    )}
-                                                    <input
-                                                        type="file"
-                                                        accept="image/*"
-                                                        className="absolute inset-0 opacity-0 cursor-pointer"
-                                                        onChange={handleImageChange}
-                                                        disabled={!!imagePreview}
-                                                    />
-                                                </div>
-                                            </div>
+                                        <div className="flex items-center justify-between mb-6">
+                                            <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                                                <Layers className="w-5 h-5 text-purple-400" />
+                                                Variants
+                                            </h3>
+                                            <Button
+                                                type="button"
+                                                onClick={() => appendVariant({ sku: "", color: "", storage: "", price: watch("price") || 0, sale_price: "", stock: 0, image_ids: [], is_active: true })}
+                                                variant="outline"
+                                                size="sm"
+                                                className="border-white/10 text-white hover:bg-white/10 rounded-lg"
+                                            >
+                                                <Plus className="w-4 h-4 mr-1" /> Add Variant
+                                            </Button>
                                         </div>
 
-                                        {/* Existing Gallery */}
-                                        <div className="space-y-2">
-                                            <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Current Images ({existingImages.length})</label>
-                                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                                                {existingImages.map((img) => (
-                                                    <div key={img.id} className="relative group rounded-xl overflow-hidden aspect-square border border-white/10 bg-black/20">
-                                                        <img src={img.image} alt={img.alt_text} className="w-full h-full object-cover" />
-                                                        {img.is_primary && (
-                                                            <div className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-purple-500 text-white text-[10px] font-bold shadow-lg">
-                                                                PRIMARY
+                                        <div className="space-y-4">
+                                            {variantFields.map((field, index) => {
+                                                const variantErrors = errors.variants?.[index];
+                                                return (
+                                                    <div key={field.id} className="p-5 bg-black/20 border border-white/10 rounded-2xl space-y-4 animate-in slide-in-from-left-2 duration-300">
+                                                        <div className="flex items-start justify-between gap-4">
+                                                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 flex-1">
+                                                                <div className="space-y-1">
+                                                                    <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Color</label>
+                                                                    <input
+                                                                        type="text"
+                                                                        {...register(`variants.${index}.color` as const)}
+                                                                        placeholder="e.g. Black"
+                                                                        className="w-full px-4 py-2.5 bg-black/20 border border-white/10 rounded-xl focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 text-white placeholder:text-neutral-600 transition-all text-sm"
+                                                                    />
+                                                                    {variantErrors?.color && <p className="text-red-400 text-xs ml-1">{variantErrors.color.message}</p>}
+                                                                </div>
+                                                                <div className="space-y-1">
+                                                                    <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Storage</label>
+                                                                    <input
+                                                                        type="text"
+                                                                        {...register(`variants.${index}.storage` as const)}
+                                                                        placeholder="e.g. 256GB"
+                                                                        className="w-full px-4 py-2.5 bg-black/20 border border-white/10 rounded-xl focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 text-white placeholder:text-neutral-600 transition-all text-sm"
+                                                                    />
+                                                                </div>
+                                                                <div className="space-y-1">
+                                                                    <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">SKU</label>
+                                                                    <input
+                                                                        type="text"
+                                                                        {...register(`variants.${index}.sku` as const)}
+                                                                        placeholder="e.g. HEAD-001-BLK"
+                                                                        className="w-full px-4 py-2.5 bg-black/20 border border-white/10 rounded-xl focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 text-white placeholder:text-neutral-600 transition-all text-sm font-mono uppercase"
+                                                                    />
+                                                                    {variantErrors?.sku && <p className="text-red-400 text-xs ml-1">{variantErrors.sku.message}</p>}
+                                                                </div>
                                                             </div>
-                                                        )}
-                                                        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
                                                             <Button
                                                                 type="button"
-                                                                size="icon"
                                                                 variant="ghost"
-                                                                className={cn(
-                                                                    "text-white hover:bg-white/20 rounded-full h-8 w-8",
-                                                                    img.is_primary && "text-yellow-400"
-                                                                )}
-                                                                onClick={() => handleSetPrimary(img.id)}
-                                                                title={img.is_primary ? "Primary image" : "Set as primary"}
+                                                                size="icon"
+                                                                onClick={() => removeVariant(index)}
+                                                                className="mt-5 h-10 w-10 text-neutral-500 hover:text-red-400 hover:bg-red-500/10 rounded-xl transition-colors"
+                                                                title="Remove variant"
                                                             >
-                                                                <Star className={cn("w-4 h-4", img.is_primary ? "fill-current" : "")} />
+                                                                <Trash2 className="w-4 h-4" />
                                                             </Button>
                                                         </div>
+
+                                                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                                            <div className="space-y-1">
+                                                                <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Price (VND)</label>
+                                                                <Controller
+                                                                    name={`variants.${index}.price` as const}
+                                                                    control={control}
+                                                                    render={({ field: { onChange, value } }) => (
+                                                                        <CurrencyInput
+                                                                            value={value}
+                                                                            onValueChange={(val) => onChange(val ?? 0)}
+                                                                            className="w-full px-4 py-2.5 bg-black/20 border border-white/10 rounded-xl focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 text-white placeholder:text-neutral-600 transition-all font-mono text-sm"
+                                                                        />
+                                                                    )}
+                                                                />
+                                                                {variantErrors?.price && <p className="text-red-400 text-xs ml-1">{variantErrors.price.message}</p>}
+                                                            </div>
+                                                            <div className="space-y-1">
+                                                                <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Sale Price</label>
+                                                                <Controller
+                                                                    name={`variants.${index}.sale_price` as const}
+                                                                    control={control}
+                                                                    render={({ field: { onChange, value } }) => (
+                                                                        <CurrencyInput
+                                                                            value={value ?? ""}
+                                                                            onValueChange={(val) => onChange(val ?? "")}
+                                                                            className="w-full px-4 py-2.5 bg-black/20 border border-white/10 rounded-xl focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 text-white placeholder:text-neutral-600 transition-all font-mono text-sm"
+                                                                            placeholder="Not on sale"
+                                                                        />
+                                                                    )}
+                                                                />
+                                                                {variantErrors?.sale_price && <p className="text-red-400 text-xs ml-1">{variantErrors.sale_price.message}</p>}
+                                                            </div>
+                                                            <div className="space-y-1">
+                                                                <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Stock</label>
+                                                                <Controller
+                                                                    name={`variants.${index}.stock` as const}
+                                                                    control={control}
+                                                                    render={({ field: { onChange, value } }) => (
+                                                                        <CurrencyInput
+                                                                            value={value}
+                                                                            onValueChange={(val) => onChange(val ?? 0)}
+                                                                            className="w-full px-4 py-2.5 bg-black/20 border border-white/10 rounded-xl focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 text-white placeholder:text-neutral-600 transition-all font-mono text-sm"
+                                                                        />
+                                                                    )}
+                                                                />
+                                                                {variantErrors?.stock && <p className="text-red-400 text-xs ml-1">{variantErrors.stock.message}</p>}
+                                                            </div>
+                                                        </div>
+
+                                                        {/* Variant Images: picked from the gallery */}
+                                                        <div className="space-y-2">
+                                                            <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Images</label>
+                                                            {gallery.images.length > 0 ? (
+                                                                <Controller
+                                                                    name={`variants.${index}.image_ids` as const}
+                                                                    control={control}
+                                                                    render={({ field: { onChange, value = [] } }) => (
+                                                                        <div className="flex flex-wrap gap-2">
+                                                                            {gallery.images.map((img) => {
+                                                                                const isSelected = value.includes(img.id);
+                                                                                return (
+                                                                                    <button
+                                                                                        key={img.id}
+                                                                                        type="button"
+                                                                                        onClick={() => onChange(isSelected ? value.filter((id: number) => id !== img.id) : [...value, img.id])}
+                                                                                        aria-pressed={isSelected}
+                                                                                        className={cn(
+                                                                                            "relative w-14 h-14 rounded-lg overflow-hidden border transition-all",
+                                                                                            isSelected ? "border-purple-500 ring-2 ring-purple-500/30" : "border-white/10 opacity-50 hover:opacity-100"
+                                                                                        )}
+                                                                                    >
+                                                                                        <img src={img.image} alt={img.alt_text} className="w-full h-full object-cover" />
+                                                                                    </button>
+                                                                                );
+                                                                            })}
+                                                                        </div>
+                                                                    )}
+                                                                />
+                                                            ) : (
+                                                                <p className="text-xs text-neutral-600 italic ml-1">Upload images in the Media Gallery first.</p>
+                                                            )}
+                                                        </div>
+
+                                                        <label className="flex items-center gap-3 cursor-pointer w-fit">
+                                                            <input
+                                                                type="checkbox"
+                                                                {...register(`variants.${index}.is_active` as const)}
+                                                                className="w-4 h-4 rounded border-white/20 bg-black/40 text-purple-600 focus:ring-purple-500 focus:ring-offset-0"
+                                                            />
+                                                            <span className="text-xs text-neutral-400">Available for sale</span>
+                                                        </label>
                                                     </div>
-                                                ))}
-                                                {existingImages.length === 0 && !imagePreview && (
-                                                    <div className="col-span-full py-8 text-center text-neutral-600 text-sm italic">
-                                                        No images uploaded yet.
-                                                    </div>
-                                                )}
-                                            </div>
+                                                );
+                                            })}
+
+                                            {variantFields.length === 0 && (
+                                                <div className="text-center py-12 border-2 border-dashed border-white/5 rounded-2xl bg-white/[0.02]">
+                                                    <Layers className="w-12 h-12 text-neutral-700 mx-auto mb-3" />
+                                                    <p className="text-neutral-500 font-medium">No variants</p>
+                                                    <p className="text-xs text-neutral-600 mt-1">Add variants when the product comes in several colors or storage sizes.</p>
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 )}
 
+                                {/* MEDIA TAB */}
+                                {activeTab === 'media' && (
+                                    <div className="bg-white/5 border border-white/10 rounded-3xl p-6 md:p-8 backdrop-blur-xl animate-in fade-in slide-in-from-bottom-4 duration-500">
+                                        <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
+                                            <ImageIcon className="w-5 h-5 text-blue-400" />
+                                            Media Gallery
+                                        </h3>
+
+                                        <ProductImageManager gallery={gallery} />
+                                    </div>
+                                )}
+
                                 {/* SETTINGS TAB */}
                                 {activeTab === 'settings' && (
                                     <div className="bg-white/5 border border-white/10 rounded-3xl p-6 md:p-8 backdrop-blur-xl animate-in fade-in slide-in-from-bottom-4 duration-500">
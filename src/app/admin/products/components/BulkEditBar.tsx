@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Eye, EyeOff, Star, StarOff, Percent, FolderInput, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import type { AdminProduct, AdminProductUpdate, Category } from "@/types/product";
+
+export interface ProductUpdate {
+    product: AdminProduct;
+    patch: AdminProductUpdate;
+}
+
+type PriceMode = "price" | "sale" | "clear_sale";
+
+// Prices are whole VND; round adjustments to the nearest thousand
+const roundPrice = (value: number) => Math.max(0, Math.round(value / 1000) * 1000);
+
+interface BulkEditBarProps {
+    products: AdminProduct[];
+    categories: Category[];
+    isSaving: boolean;
+    onApply: (updates: ProductUpdate[]) => void;
+    onClear: () => void;
+}
+
+export function BulkEditBar({ products, categories, isSaving, onApply, onClear }: BulkEditBarProps) {
+    const [category, setCategory] = useState("");
+    const [priceMode, setPriceMode] = useState<PriceMode>("price");
+    const [percent, setPercent] = useState("");
+
+    const applyAll = (patch: AdminProductUpdate) => onApply(products.map(product => ({ product, patch })));
+
+    const applyPrice = () => {
+        if (priceMode === "clear_sale") {
+            applyAll({ sale_price: null });
+            return;
+        }
+        const value = Number(percent);
+        if (!percent || Number.isNaN(value)) return;
+        // The input's min/max are only hints; anything outside these would zero or invert prices
+        if (priceMode === "sale" && (value <= 0 || value >= 100)) {
+            toast.error("Sale discount must be between 0% and 100%");
+            return;
+        }
+        if (priceMode === "price" && value <= -100) {
+            toast.error("A price cut must be less than 100%");
+            return;
+        }
+
+        // Customers pay the variant price, so the product-level price does nothing for these
+        const priced = products.filter(product => !product.has_variants);
+        const skipped = products.length - priced.length;
+        if (skipped > 0) {
+            toast(`Skipped ${skipped} product${skipped === 1 ? "" : "s"} with variants; edit their variant prices instead`);
+        }
+        if (priced.length === 0) return;
+
+        onApply(priced.map(product => ({
+            product,
+            patch: priceMode === "price"
+                ? { price: roundPrice(product.price * (1 + value / 100)) }
+                // Sale price is N% off the regular price
+                : { sale_price: roundPrice(product.price * (1 - value / 100)) },
+        })));
+        setPercent("");
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 px-6 py-3 bg-purple-500/10 border-b border-purple-500/20">
+            <span className="text-sm text-white font-medium mr-2 flex items-center gap-2">
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin text-purple-400" />}
+                {products.length} selected
+            </span>
+
+            <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => applyAll({ is_active: true })} className="h-8 text-emerald-400 hover:bg-emerald-500/10">
+                <Eye className="w-4 h-4 mr-1.5" /> Activate
+            </Button>
+            <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => applyAll({ is_active: false })} className="h-8 text-neutral-400 hover:bg-white/10">
+                <EyeOff className="w-4 h-4 mr-1.5" /> Deactivate
+            </Button>
+            <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => applyAll({ is_featured: true })} className="h-8 text-amber-400 hover:bg-amber-500/10">
+                <Star className="w-4 h-4 mr-1.5" /> Feature
+            </Button>
+            <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => applyAll({ is_featured: false })} className="h-8 text-neutral-400 hover:bg-white/10">
+                <StarOff className="w-4 h-4 mr-1.5" /> Unfeature
+            </Button>
+
+            <span className="w-px h-5 bg-white/10 mx-1" />
+
+            <div className="flex items-center gap-1">
+                <Select value={category} onValueChange={setCategory}>
+                    <SelectTrigger className="w-[160px] h-8 bg-black/20 border-white/10 text-white text-xs">
+                        <SelectValue placeholder="Move to category" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-zinc-900 border-white/10 text-white">
+                        {categories.map(cat => (
+                            <SelectItem key={cat.id} value={cat.id.toString()}>{cat.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isSaving || !category}
+                    onClick={() => applyAll({ category: Number(category) })}
+                    className="h-8 text-white hover:bg-white/10"
+                    aria-label="Apply category"
+                >
+                    <FolderInput className="w-4 h-4" />
+                </Button>
+            </div>
+
+            <span className="w-px h-5 bg-white/10 mx-1" />
+
+            <div className="flex items-center gap-1">
+                <Select value={priceMode} onValueChange={(val: string) => setPriceMode(val as PriceMode)}>
+                    <SelectTrigger className="w-[150px] h-8 bg-black/20 border-white/10 text-white text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-zinc-900 border-white/10 text-white">
+                        <SelectItem value="price">Adjust price by</SelectItem>
+                        <SelectItem value="sale">Sale: % off price</SelectItem>
+                        <SelectItem value="clear_sale">Remove sale price</SelectItem>
+                    </SelectContent>
+                </Select>
+                {priceMode !== "clear_sale" && (
+                    <div className="relative">
+                        <input
+                            type="number"
+                            value={percent}
+                            onChange={(e) => setPercent(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && applyPrice()}
+                            placeholder={priceMode === "price" ? "+10 / -5" : "15"}
+                            min={priceMode === "sale" ? 0 : undefined}
+                            max={priceMode === "sale" ? 100 : undefined}
+                            className="w-24 h-8 pl-2 pr-6 bg-black/20 border border-white/10 rounded-md text-xs text-white focus:outline-none focus:border-purple-500/50"
+                        />
+                        <Percent className="w-3 h-3 absolute right-2 top-1/2 -translate-y-1/2 text-neutral-500" />
+                    </div>
+                )}
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isSaving || (priceMode !== "clear_sale" && !percent)}
+                    onClick={applyPrice}
+                    className="h-8 text-white hover:bg-white/10"
+                >
+                    Apply
+                </Button>
+            </div>
+
+            <Button variant="ghost" size="sm" onClick={onClear} className="h-8 ml-auto text-neutral-400 hover:text-white">
+                Clear selection
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Pencil } from "lucide-react";
+import type { AdminProduct } from "@/types/product";
+
+interface StockCellProps {
+    product: AdminProduct;
+    onSave: (stock: number) => void;
+}
+
+export function StockCell({ product, onSave }: StockCellProps) {
+    const [draft, setDraft] = useState<string | null>(null);
+    // Escape unmounts the input, which can still fire a blur
+    const cancelled = useRef(false);
+
+    // Variant stock is edited per variant on the edit page
+    if (product.has_variants) {
+        return <span title="Edit variant stock on the product page">{product.stock} units</span>;
+    }
+
+    const commit = () => {
+        if (cancelled.current) {
+            cancelled.current = false;
+            return;
+        }
+        const value = Number(draft);
+        setDraft(null);
+        if (draft === null || draft === "" || !Number.isInteger(value) || value < 0 || value === product.stock) return;
+        onSave(value);
+    };
+
+    if (draft !== null) {
+        return (
+            <input
+                type="number"
+                min={0}
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter") commit();
+                    if (e.key === "Escape") {
+                        cancelled.current = true;
+                        setDraft(null);
+                    }
+                }}
+                className="w-24 h-8 px-2 bg-black/40 border border-purple-500/50 rounded-md text-sm text-white font-mono focus:outline-none"
+            />
+        );
+    }
+
+    return (
+        <button
+            type="button"
+            onClick={() => {
+                cancelled.current = false;
+                setDraft(String(product.stock));
+            }}
+            className="inline-flex items-center gap-2 hover:text-white transition-colors group/stock"
+        >
+            {product.stock} units
+            <Pencil className="w-3 h-3 opacity-0 group-hover/stock:opacity-100 transition-opacity" />
+        </button>
+    );
+}
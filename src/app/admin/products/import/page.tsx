@@ -0,0 +1,310 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Link from "next/link";
+import {
+    ArrowLeft, Upload, FileSpreadsheet, Loader2, CheckCircle2, XCircle,
+    PlusCircle, RefreshCcw, MinusCircle, AlertTriangle, Play
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { AuroraBackground } from "@/components/ui/aurora-background";
+import { Button } from "@/components/ui/button";
+import { getApiError } from "@/lib/api";
+import { IMPORT_COLUMNS, planImport, type ImportAction, type ImportRowPlan } from "@/lib/product-import";
+import { toProductFormData, type ProductFormValues } from "@/lib/product-schema";
+import { cn } from "@/lib/utils";
+import { catalogService } from "@/services/catalog";
+import type { AdminProduct } from "@/types/product";
+
+const BATCH_SIZE = 10;
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const ACTION_STYLES: Record<ImportAction, { label: string; className: string; icon: typeof PlusCircle }> = {
+    create: { label: "Create", className: "bg-emerald-500/10 text-emerald-400 border-emerald-500/20", icon: PlusCircle },
+    update: { label: "Update", className: "bg-blue-500/10 text-blue-400 border-blue-500/20", icon: RefreshCcw },
+    unchanged: { label: "Unchanged", className: "bg-zinc-500/10 text-zinc-400 border-zinc-500/20", icon: MinusCircle },
+    error: { label: "Error", className: "bg-rose-500/10 text-rose-400 border-rose-500/20", icon: XCircle },
+};
+
+interface RowResult {
+    ok: boolean;
+    message: string;
+}
+
+// The admin list paginates; the dry run needs the whole catalog to match rows
+const fetchAllProducts = async () => {
+    const products: AdminProduct[] = [];
+    for (let page = 1; ; page++) {
+        const data = await catalogService.getAdminProducts({ page });
+        if (Array.isArray(data)) return data;
+        products.push(...data.results);
+        if (!data.next) return products;
+    }
+};
+
+export default function ImportProductsPage() {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState("");
+    const [isParsing, setIsParsing] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
+    const [plans, setPlans] = useState<ImportRowPlan[]>([]);
+    const [actionFilter, setActionFilter] = useState<ImportAction | "all">("all");
+
+    const [isImporting, setIsImporting] = useState(false);
+    const [processed, setProcessed] = useState(0);
+    const [importTotal, setImportTotal] = useState(0);
+    const [results, setResults] = useState<Record<number, RowResult>>({});
+
+    const handleFile = async (file: File) => {
+        if (!/\.(csv|xlsx)$/i.test(file.name)) {
+            toast.error("Upload a .csv or .xlsx file");
+            return;
+        }
+        if (file.size > MAX_FILE_SIZE) {
+            toast.error("File is larger than 10MB");
+            return;
+        }
+
+        setIsParsing(true);
+        setFileName(file.name);
+        setResults({});
+        setProcessed(0);
+        setImportTotal(0);
+        try {
+            const [sheet, products, categories] = await Promise.all([
+                catalogService.parseImportFile(file),
+                fetchAllProducts(),
+                catalogService.getCategories(),
+            ]);
+            const missing = ["name", "price", "stock", "category"].filter(column => !sheet.columns.includes(column));
+            if (missing.length > 0 && !sheet.columns.some(c => c === "id" || c === "sku")) {
+                toast.error(`Missing columns: ${missing.join(", ")}`);
+            }
+            setPlans(planImport(sheet.rows, products, categories));
+            setActionFilter("all");
+        } catch (error) {
+            toast.error(getApiError(error, "Could not read the file").message);
+            setPlans([]);
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    // Rows still to save; failed rows stay pending so the import can be retried
+    const pending = plans.filter((p): p is ImportRowPlan & { values: ProductFormValues } =>
+        !!p.values && (p.action === "create" || p.action === "update") && !results[p.row]?.ok
+    );
+
+    const runImport = async () => {
+        if (pending.length === 0) return;
+        if (!confirm(`Import ${pending.length} product${pending.length === 1 ? "" : "s"}?`)) return;
+
+        setIsImporting(true);
+        setProcessed(0);
+        setImportTotal(pending.length);
+        for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+            const batch = pending.slice(i, i + BATCH_SIZE);
+            const settled = await Promise.allSettled(batch.map(plan => {
+                const formData = toProductFormData(plan.values);
+                return plan.action === "update" && plan.productId
+                    ? catalogService.updateProduct(plan.productId, formData)
+                    : catalogService.createProduct(formData);
+            }));
+            setResults(prev => {
+                const next = { ...prev };
+                settled.forEach((outcome, index) => {
+                    const plan = batch[index];
+                    next[plan.row] = outcome.status === "fulfilled"
+                        ? { ok: true, message: plan.action === "update" ? "Updated" : "Created" }
+                        : { ok: false, message: getApiError(outcome.reason, "Request failed").message };
+                });
+                return next;
+            });
+            setProcessed(Math.min(i + BATCH_SIZE, pending.length));
+        }
+        setIsImporting(false);
+        toast.success("Import finished");
+    };
+
+    const counts = plans.reduce((acc, plan) => ({ ...acc, [plan.action]: (acc[plan.action] ?? 0) + 1 }), {} as Partial<Record<ImportAction, number>>);
+    const visible = actionFilter === "all" ? plans : plans.filter(p => p.action === actionFilter);
+    const succeeded = Object.values(results).filter(r => r.ok).length;
+    const failed = Object.values(results).filter(r => !r.ok).length;
+
+    return (
+        <div className="min-h-screen bg-black text-white font-sans selection:bg-purple-500/30">
+            {/* Fixed Background */}
+            <div className="fixed inset-0 z-0 pointer-events-none">
+                <AuroraBackground className="h-full w-full">
+                    <></>
+                </AuroraBackground>
+            </div>
+
+            <div className="relative z-10 w-full min-h-screen pb-20 pt-32 px-4 md:px-6">
+                <div className="container mx-auto max-w-7xl">
+                    {/* Header Section */}
+                    <div className="mb-10">
+                        <Link href="/admin/products" className="inline-flex items-center gap-2 text-neutral-400 hover:text-white transition-colors mb-6 group">
+                            <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+                            Back to Products
+                        </Link>
+                        <h1 className="text-3xl md:text-5xl font-display font-bold text-white mb-2 tracking-tight">Import Products</h1>
+                        <p className="text-neutral-400 text-lg">
+                            Upload a CSV or XLSX with the same columns as the export. Rows are matched to existing products by ID, SKU or slug.
+                        </p>
+                    </div>
+
+                    {/* Upload */}
+                    <div
+                        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                        onDragLeave={() => setIsDragging(false)}
+                        onDrop={(e) => {
+                            e.preventDefault();
+                            setIsDragging(false);
+                            const file = e.dataTransfer.files?.[0];
+                            if (file && !isImporting) handleFile(file);
+                        }}
+                        onClick={() => !isImporting && fileInputRef.current?.click()}
+                        className={cn(
+                            "border-2 border-dashed rounded-3xl p-10 text-center cursor-pointer transition-colors backdrop-blur-xl mb-8",
+                            isDragging ? "border-purple-500 bg-purple-500/10" : "border-white/10 bg-white/5 hover:border-white/20"
+                        )}
+                    >
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".csv,.xlsx"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleFile(file);
+                                e.target.value = "";
+                            }}
+                        />
+                        {isParsing ? (
+                            <Loader2 className="w-10 h-10 mx-auto animate-spin text-purple-500" />
+                        ) : fileName ? (
+                            <FileSpreadsheet className="w-10 h-10 mx-auto text-emerald-400" />
+                        ) : (
+                            <Upload className="w-10 h-10 mx-auto text-neutral-500" />
+                        )}
+                        <p className="mt-4 font-bold text-white">{fileName || "Drop a spreadsheet here or click to browse"}</p>
+                        <p className="text-xs text-neutral-500 mt-1 font-mono">{IMPORT_COLUMNS.join(", ")}</p>
+                    </div>
+
+                    {plans.length > 0 && (
+                        <div className="bg-white/5 border border-white/10 rounded-3xl backdrop-blur-xl shadow-2xl shadow-purple-900/5 overflow-hidden">
+                            {/* Dry-run Summary */}
+                            <div className="p-6 border-b border-white/10 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                                <div className="flex flex-wrap gap-2">
+                                    {(["all", "create", "update", "unchanged", "error"] as const).map(action => (
+                                        <button
+                                            key={action}
+                                            type="button"
+                                            onClick={() => setActionFilter(action)}
+                                            className={cn(
+                                                "px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider border transition-colors",
+                                                actionFilter === action
+                                                    ? "bg-white text-black border-white"
+                                                    : "bg-white/5 text-neutral-400 border-white/10 hover:text-white"
+                                            )}
+                                        >
+                                            {action === "all" ? "All" : ACTION_STYLES[action].label} ({action === "all" ? plans.length : counts[action] ?? 0})
+                                        </button>
+                                    ))}
+                                </div>
+
+                                <Button
+                                    onClick={runImport}
+                                    disabled={isImporting || pending.length === 0}
+                                    className="bg-white text-black hover:bg-neutral-200 font-bold rounded-xl h-11"
+                                >
+                                    {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                                    {isImporting ? `Importing ${processed}/${importTotal}` : `Import ${pending.length} rows`}
+                                </Button>
+                            </div>
+
+                            {/* Progress */}
+                            {importTotal > 0 && (
+                                <div className="px-6 py-4 border-b border-white/10 bg-black/20 space-y-2">
+                                    <div className="h-2 rounded-full bg-white/5 overflow-hidden">
+                                        <div
+                                            className="h-full bg-purple-500 transition-all"
+                                            style={{ width: `${(processed / Math.max(1, importTotal)) * 100}%` }}
+                                        />
+                                    </div>
+                                    <p className="text-xs text-neutral-400">
+                                        <span className="text-emerald-400 font-bold">{succeeded}</span> saved
+                                        {failed > 0 && <>, <span className="text-rose-400 font-bold">{failed}</span> failed — fix the file or retry the failed rows</>}
+                                    </p>
+                                </div>
+                            )}
+
+                            {counts.error && (
+                                <div className="px-6 py-3 border-b border-white/10 flex items-center gap-2 text-sm text-amber-400">
+                                    <AlertTriangle className="w-4 h-4" />
+                                    Rows with errors are skipped. Fix them in the spreadsheet and upload it again.
+                                </div>
+                            )}
+
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-left">
+                                    <thead>
+                                        <tr className="bg-black/20 text-neutral-400 text-[10px] uppercase font-bold tracking-widest border-b border-white/10">
+                                            <th className="px-6 py-4 w-16">Row</th>
+                                            <th className="px-6 py-4 w-32">Action</th>
+                                            <th className="px-6 py-4">Product</th>
+                                            <th className="px-6 py-4">Details</th>
+                                            <th className="px-6 py-4 w-40">Result</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-white/5">
+                                        {visible.map(plan => {
+                                            const style = ACTION_STYLES[plan.action];
+                                            const result = results[plan.row];
+                                            return (
+                                                <tr key={plan.row} className="align-top hover:bg-white/[0.02] transition-colors">
+                                                    <td className="px-6 py-4 font-mono text-xs text-neutral-500">{plan.row}</td>
+                                                    <td className="px-6 py-4">
+                                                        <span className={cn("inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider border", style.className)}>
+                                                            <style.icon className="w-3 h-3" />
+                                                            {style.label}
+                                                        </span>
+                                                    </td>
+                                                    <td className="px-6 py-4">
+                                                        <p className="text-sm font-medium text-white">{plan.name}</p>
+                                                        {plan.values?.sku && <p className="text-xs text-neutral-500 font-mono">{plan.values.sku}</p>}
+                                                    </td>
+                                                    <td className="px-6 py-4 text-xs space-y-1">
+                                                        {plan.errors.map(error => (
+                                                            <p key={error} className="text-rose-400">{error}</p>
+                                                        ))}
+                                                        {plan.changes.map(change => (
+                                                            <p key={change.field} className="text-neutral-400">
+                                                                <span className="font-mono text-neutral-500">{change.field}</span>{" "}
+                                                                <span className="line-through text-neutral-600">{change.from || "—"}</span>{" → "}
+                                                                <span className="text-white">{change.to || "—"}</span>
+                                                            </p>
+                                                        ))}
+                                                    </td>
+                                                    <td className="px-6 py-4 text-xs">
+                                                        {result && (
+                                                            <span className={cn("inline-flex items-start gap-1", result.ok ? "text-emerald-400" : "text-rose-400")}>
+                                                                {result.ok ? <CheckCircle2 className="w-3.5 h-3.5 shrink-0" /> : <XCircle className="w-3.5 h-3.5 shrink-0" />}
+                                                                {result.message}
+                                                            </span>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -3,16 +3,22 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import api from "@/lib/api";
+import { catalogService } from "@/services/catalog";
+import type { Category } from "@/types/product";
 import { useForm, SubmitHandler, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { ArrowLeft, Save, Upload, X, Loader2, AlertCircle, ImageIcon } from "lucide-react";
+import { ArrowLeft, Save, Loader2, AlertCircle, ImageIcon } from "lucide-react";
 import { toast } from "react-hot-toast";
 import { AuroraBackground } from "@/components/ui/aurora-background";
 import { Button } from "@/components/ui/button";
 import { CurrencyInput } from "@/components/ui/currency-input"; // Assuming you have this or use standard input
 import { cn } from "@/lib/utils";
+import { handleFormError } from "@/lib/form-errors";
+import { buildCategoryTree, categoryOptionLabel, flattenCategoryTree } from "@/lib/categories";
+import { useProductGallery } from "@/hooks/use-product-gallery";
+import { ProductImageManager } from "@/components/product/ProductImageManager";
+import { RichTextEditor } from "@/components/product/RichTextEditor";
 
 // Form Schema
 const productSchema = z.object({
@@ -28,20 +34,13 @@ const productSchema = z.object({
 
 type ProductFormValues = z.infer<typeof productSchema>;
 
-interface Category {
-    id: string;
-    name: string;
-    slug: string;
-}
-
 export default function NewProductPage() {
     const router = useRouter();
     const [isLoading, setIsLoading] = useState(false);
     const [categories, setCategories] = useState<Category[]>([]);
-    const [imageFile, setImageFile] = useState<File | null>(null);
-    const [imagePreview, setImagePreview] = useState<string | null>(null);
+    const gallery = useProductGallery();
 
-    const { register, handleSubmit, control, formState: { errors } } = useForm<ProductFormValues>({
+    const { register, handleSubmit, control, setError, formState: { errors } } = useForm<ProductFormValues>({
         // @ts-ignore
         resolver: zodResolver(productSchema),
         defaultValues: {
@@ -59,13 +58,7 @@ export default function NewProductPage() {
     useEffect(() => {
         const fetchCategories = async () => {
             try {
-                const response = await api.get('/catalog/categories/');
-                // Handle pagination if needed, otherwise assume list
-                if (response.data.results && Array.isArray(response.data.results)) {
-                    setCategories(response.data.results);
-                } else if (Array.isArray(response.data)) {
-                    setCategories(response.data);
-                }
+                setCategories(await catalogService.getCategories());
             } catch (error) {
                 console.error("Failed to fetch categories", error);
             }
@@ -73,18 +66,6 @@ export default function NewProductPage() {
         fetchCategories();
     }, []);
 
-    const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            setImageFile(file);
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                setImagePreview(reader.result as string);
-            };
-            reader.readAsDataURL(file);
-        }
-    };
-
     const onSubmit: SubmitHandler<ProductFormValues> = async (data) => {
         setIsLoading(true);
         try {
@@ -98,21 +79,24 @@ export default function NewProductPage() {
             formData.append('color', data.color || '');
             formData.append('is_active', data.is_active.toString());
 
-            if (imageFile) {
-                formData.append('image', imageFile);
-            }
-
-            await api.post('/catalog/products/admin/', formData, {
-                headers: {
-                    'Content-Type': 'multipart/form-data',
-                },
-            });
+            const product = await catalogService.createProduct(formData);
+            const { failed } = await gallery.uploadQueued(String(product.id));
 
+            if (failed > 0) {
+                // The product exists; send the admin to the edit page to retry the uploads
+                toast.error(`Product created, but ${failed} image(s) failed to upload`);
+                router.push(`/admin/products/${product.id}/edit`);
+                return;
+            }
             toast.success("Product created successfully");
             router.push('/admin/products');
-        } catch (error: any) {
+        } catch (error) {
             console.error(error);
-            toast.error(error.response?.data?.detail || "Failed to create product");
+            handleFormError(error, {
+                fallback: "Failed to create product",
+                setError,
+                fields: Object.keys(productSchema.shape),
+            });
         } finally {
             setIsLoading(false);
         }
@@ -153,47 +137,7 @@ export default function NewProductPage() {
                                     <ImageIcon className="w-5 h-5 text-purple-400" />
                                     Product Media
                                 </h3>
-                                <div className="p-1 rounded-2xl border-2 border-dashed border-white/10 hover:border-purple-500/30 hover:bg-purple-500/5 transition-all group">
-                                    <div className="relative h-64 w-full rounded-xl bg-black/20 flex flex-col items-center justify-center overflow-hidden">
-                                        {imagePreview ? (
-                                            <>
-                                                <img src={imagePreview} alt="Preview" className="w-full h-full object-contain" />
-                                                <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center backdrop-blur-sm">
-                                                    <Button
-                                                        type="button"
-                                                        variant="destructive"
-                                                        size="icon"
-                                                        className="h-12 w-12 rounded-full shadow-xl"
-                                                        onClick={(e) => {
-                                                            e.preventDefault();
-                                                            setImagePreview(null);
-                                                            setImageFile(null);
-                                                        }}
-                                                    >
-                                                        <X className="w-5 h-5" />
-                                                    </Button>
-                                                </div>
-                                            </>
-                                        ) : (
-                                            <div className="flex flex-col items-center gap-3 p-6 text-center">
-                                                <div className="p-4 bg-white/5 rounded-full ring-1 ring-white/10 group-hover:scale-110 transition-transform duration-300">
-                                                    <Upload className="w-8 h-8 text-neutral-400 group-hover:text-purple-400 transition-colors" />
-                                                </div>
-                                                <div>
-                                                    <p className="text-sm font-medium text-white">Click to upload main image</p>
-                                                    <p className="text-xs text-neutral-500 mt-1">SVG, PNG, JPG or WEBP (max 2MB)</p>
-                                                </div>
-                                            </div>
-                                        )}
-                                        <input
-                                            type="file"
-                                            accept="image/*"
-                                            className="absolute inset-0 opacity-0 cursor-pointer"
-                                            onChange={handleImageChange}
-                                            disabled={!!imagePreview}
-                                        />
-                                    </div>
-                                </div>
+                                <ProductImageManager gallery={gallery} queued />
                             </div>
 
                             <div className="h-px bg-white/10" />
@@ -220,9 +164,9 @@ export default function NewProductPage() {
                                                 className="w-full px-4 py-3 bg-black/20 border border-white/10 rounded-xl text-white focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 appearance-none transition-all"
                                             >
                                                 <option value="" className="bg-neutral-900 text-neutral-500">Select a category</option>
-                                                {categories.map(cat => (
+                                                {flattenCategoryTree(buildCategoryTree(categories)).map(cat => (
                                                     <option key={cat.id} value={cat.id} className="bg-neutral-900 text-white">
-                                                        {cat.name}
+                                                        {categoryOptionLabel(cat)}
                                                     </option>
                                                 ))}
                                             </select>
@@ -309,10 +253,16 @@ export default function NewProductPage() {
 
                                 <div className="space-y-2 h-full">
                                     <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Description</label>
-                                    <textarea
-                                        {...register('description')}
-                                        className="w-full h-[calc(100%-2rem)] px-4 py-3 bg-black/20 border border-white/10 rounded-xl focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 text-white placeholder:text-neutral-600 transition-all resize-none min-h-[200px]"
-                                        placeholder="Detailed description of your product..."
+                                    <Controller
+                                        name="description"
+                                        control={control}
+                                        render={({ field }) => (
+                                            <RichTextEditor
+                                                value={field.value || ""}
+                                                onChange={field.onChange}
+                                                placeholder="Detailed description of your product..."
+                                            />
+                                        )}
                                     />
                                 </div>
                             </div>
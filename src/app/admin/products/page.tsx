@@ -1,9 +1,12 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
-import api from "@/lib/api";
-import { Plus, Search, Pencil, Trash2, Package, Loader2, Filter, Download, X } from "lucide-react";
+import { getApiError } from "@/lib/api";
+import { unwrapList } from "@/lib/list";
+import { catalogService } from "@/services/catalog";
+import type { AdminProduct, AdminProductQuery, AdminProductUpdate, Category } from "@/types/product";
+import { Plus, Search, Pencil, Trash2, Package, Loader2, Filter, Download, Upload, X, AlertCircle, Star } from "lucide-react";
 import { AuroraBackground } from "@/components/ui/aurora-background";
 import { Button } from "@/components/ui/button";
 import {
@@ -13,31 +16,17 @@ import {
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select";
-import { cn } from "@/lib/utils";
+import { cn, downloadBlob } from "@/lib/utils";
 import { useDebounce } from "@/hooks/use-debounce";
+import { Checkbox } from "@/components/ui/checkbox";
+import toast from "react-hot-toast";
+import { BulkEditBar, type ProductUpdate } from "./components/BulkEditBar";
+import { StockCell } from "./components/StockCell";
 
 // Types
-interface Product {
-    id: string;
-    name: string;
-    slug: string;
-    current_price: number | string;
-    stock: number;
-    category: { id: number; name: string; slug: string } | null;
-    is_in_stock: boolean;
-    primary_image: string | null;
-    is_active: boolean;
-}
-
-interface Category {
-    id: number;
-    name: string;
-    slug: string;
-}
-
 export default function ProductsPage() {
     // State
-    const [products, setProducts] = useState<Product[]>([]);
+    const [products, setProducts] = useState<AdminProduct[]>([]);
     const [categories, setCategories] = useState<Category[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isExporting, setIsExporting] = useState(false);
@@ -49,15 +38,27 @@ export default function ProductsPage() {
     const [featuredFilter, setFeaturedFilter] = useState("all");
     const [showFilters, setShowFilters] = useState(false);
 
+    // Bulk editing
+    const [selected, setSelected] = useState<string[]>([]);
+    const [savingIds, setSavingIds] = useState<string[]>([]);
+    const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+
     // Debounce search
     const debouncedSearch = useDebounce(search, 500);
 
+    // Shared by the table and the export
+    const buildQuery = useCallback((): AdminProductQuery => ({
+        search: debouncedSearch,
+        category: categoryFilter !== "all" ? categoryFilter : undefined,
+        is_active: statusFilter !== "all" ? String(statusFilter === "active") : undefined,
+        is_featured: featuredFilter !== "all" ? String(featuredFilter === "featured") : undefined,
+    }), [debouncedSearch, categoryFilter, statusFilter, featuredFilter]);
+
     // Fetch Initial Data
     useEffect(() => {
         const fetchCategories = async () => {
             try {
-                const response = await api.get("/catalog/categories/");
-                setCategories(response.data.results || response.data);
+                setCategories(await catalogService.getCategories());
             } catch (error) {
                 console.error("Failed to fetch categories:", error);
             }
@@ -70,15 +71,10 @@ export default function ProductsPage() {
         const fetchProducts = async () => {
             setIsLoading(true);
             try {
-                const params = new URLSearchParams();
-                if (debouncedSearch) params.append("search", debouncedSearch);
-                if (categoryFilter && categoryFilter !== "all") params.append("category", categoryFilter);
-                if (statusFilter !== "all") params.append("is_active", statusFilter === "active" ? "true" : "false");
-                if (featuredFilter !== "all") params.append("is_featured", featuredFilter === "featured" ? "true" : "false");
-
-                const response = await api.get(`/catalog/products/admin/?${params.toString()}`);
-                const data = response.data.results || response.data;
-                setProducts(Array.isArray(data) ? data : []);
+                const data = await catalogService.getAdminProducts(buildQuery());
+                setProducts(unwrapList(data));
+                setSelected([]);
+                setRowErrors({});
             } catch (error) {
                 console.error("Failed to fetch products:", error);
             } finally {
@@ -86,30 +82,13 @@ export default function ProductsPage() {
             }
         };
         fetchProducts();
-    }, [debouncedSearch, categoryFilter, statusFilter, featuredFilter]);
+    }, [buildQuery]);
 
     const handleExport = async () => {
         setIsExporting(true);
         try {
-            const params = new URLSearchParams();
-            params.append("export", "excel");
-            if (debouncedSearch) params.append("search", debouncedSearch);
-            if (categoryFilter && categoryFilter !== "all") params.append("category", categoryFilter);
-            if (statusFilter !== "all") params.append("is_active", statusFilter === "active" ? "true" : "false");
-            if (featuredFilter !== "all") params.append("is_featured", featuredFilter === "featured" ? "true" : "false");
-
-            // Trigger download
-            const response = await api.get(`/catalog/products/admin/?${params.toString()}`, {
-                responseType: 'blob',
-            });
-
-            const url = window.URL.createObjectURL(new Blob([response.data]));
-            const link = document.createElement('a');
-            link.href = url;
-            link.setAttribute('download', 'products_export.xlsx');
-            document.body.appendChild(link);
-            link.click();
-            link.remove();
+            const blob = await catalogService.exportAdminProducts(buildQuery());
+            downloadBlob(new Blob([blob]), 'products_export.xlsx');
         } catch (error) {
             console.error("Export failed:", error);
         } finally {
@@ -117,6 +96,58 @@ export default function ProductsPage() {
         }
     };
 
+    // Local preview of a patch until the server copy comes back
+    const applyPatch = (product: AdminProduct, patch: AdminProductUpdate): AdminProduct => {
+        const next = { ...product, ...patch, category: product.category };
+        if (patch.category !== undefined) {
+            next.category = categories.find(c => c.id === patch.category) ?? patch.category;
+        }
+        next.current_price = next.sale_price ?? next.price;
+        if (patch.stock !== undefined) next.is_in_stock = patch.stock > 0;
+        return next;
+    };
+
+    const applyUpdates = async (updates: ProductUpdate[]) => {
+        const ids = updates.map(u => u.product.id);
+        const patches = new Map(updates.map(u => [u.product.id, u.patch]));
+
+        setSavingIds(prev => [...prev, ...ids]);
+        setProducts(prev => prev.map(p => {
+            const patch = patches.get(p.id);
+            return patch ? applyPatch(p, patch) : p;
+        }));
+
+        const settled = await Promise.allSettled(updates.map(u => catalogService.patchProduct(u.product.id, u.patch)));
+
+        const saved = new Map<string, AdminProduct>();
+        const failed = new Map<string, { product: AdminProduct; message: string }>();
+        settled.forEach((outcome, index) => {
+            const { product } = updates[index];
+            if (outcome.status === "fulfilled") saved.set(product.id, outcome.value);
+            else failed.set(product.id, { product, message: getApiError(outcome.reason, "Update failed").message });
+        });
+
+        // Failed rows go back to their previous values
+        setProducts(prev => prev.map(p => saved.get(p.id) ?? failed.get(p.id)?.product ?? p));
+        setRowErrors(prev => {
+            const next = { ...prev };
+            ids.forEach(id => delete next[id]);
+            failed.forEach(({ message }, id) => { next[id] = message; });
+            return next;
+        });
+        setSavingIds(prev => prev.filter(id => !ids.includes(id)));
+
+        if (failed.size === 0) toast.success(`Updated ${saved.size} product${saved.size === 1 ? "" : "s"}`);
+        else toast.error(`${failed.size} of ${updates.length} updates failed`);
+    };
+
+    const selectedProducts = products.filter(p => selected.includes(p.id));
+    const allSelected = products.length > 0 && selected.length === products.length;
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+    };
+
     const clearFilters = () => {
         setSearch("");
         setCategoryFilter("all");
@@ -192,6 +223,15 @@ export default function ProductsPage() {
                                         {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
                                         Export
                                     </Button>
+                                    <Link href="/admin/products/import">
+                                        <Button
+                                            variant="outline"
+                                            className="bg-white/5 border-white/10 text-white hover:bg-white/10 hover:text-white rounded-xl h-11"
+                                        >
+                                            <Upload className="w-4 h-4 mr-2" />
+                                            Import
+                                        </Button>
+                                    </Link>
                                 </div>
                             </div>
 
@@ -261,11 +301,30 @@ export default function ProductsPage() {
                             )}
                         </div>
 
+                        {selected.length > 0 && (
+                            <BulkEditBar
+                                products={selectedProducts}
+                                categories={categories}
+                                isSaving={savingIds.length > 0}
+                                onApply={applyUpdates}
+                                onClear={() => setSelected([])}
+                            />
+                        )}
+
                         {/* Table */}
                         <div className="flex-1 overflow-x-auto">
                             <table className="w-full min-w-[1000px] text-left border-collapse">
                                 <thead className="sticky top-0 z-20 bg-black/40 backdrop-blur-md">
                                     <tr className="border-b border-white/10 text-xs font-bold uppercase tracking-wider text-neutral-500">
+                                        <th className="pl-6 py-4 w-10">
+                                            <Checkbox
+                                                checked={allSelected}
+                                                onCheckedChange={() => setSelected(allSelected ? [] : products.map(p => p.id))}
+                                                disabled={isLoading || products.length === 0}
+                                                className="border-white/20 data-[state=checked]:bg-purple-600 data-[state=checked]:border-purple-600"
+                                                aria-label="Select all products"
+                                            />
+                                        </th>
                                         <th className="px-6 py-4 font-medium">Product Details</th>
                                         <th className="px-6 py-4 font-medium">Category</th>
                                         <th className="px-6 py-4 font-medium">Price</th>
@@ -278,14 +337,14 @@ export default function ProductsPage() {
                                     {isLoading ? (
                                         [...Array(6)].map((_, i) => (
                                             <tr key={i}>
-                                                <td colSpan={6} className="px-6 py-4">
+                                                <td colSpan={7} className="px-6 py-4">
                                                     <div className="h-14 w-full bg-white/5 rounded-xl animate-pulse" />
                                                 </td>
                                             </tr>
                                         ))
                                     ) : products.length === 0 ? (
                                         <tr>
-                                            <td colSpan={6} className="px-6 py-20 text-center">
+                                            <td colSpan={7} className="px-6 py-20 text-center">
                                                 <div className="flex flex-col items-center justify-center gap-3 text-neutral-500">
                                                     <Package className="w-16 h-16 mb-2 opacity-20" />
                                                     <h3 className="text-lg font-medium text-white">No products found</h3>
@@ -296,7 +355,22 @@ export default function ProductsPage() {
                                         </tr>
                                     ) : (
                                         products.map((product) => (
-                                            <tr key={product.id} className="hover:bg-white/[0.02] transition-colors group">
+                                            <tr
+                                                key={product.id}
+                                                className={cn(
+                                                    "hover:bg-white/[0.02] transition-colors group",
+                                                    selected.includes(product.id) && "bg-purple-500/[0.04]",
+                                                    savingIds.includes(product.id) && "opacity-60"
+                                                )}
+                                            >
+                                                <td className="pl-6 py-4 align-middle">
+                                                    <Checkbox
+                                                        checked={selected.includes(product.id)}
+                                                        onCheckedChange={() => toggleSelected(product.id)}
+                                                        className="border-white/20 data-[state=checked]:bg-purple-600 data-[state=checked]:border-purple-600"
+                                                        aria-label={`Select ${product.name}`}
+                                                    />
+                                                </td>
                                                 <td className="px-6 py-4 align-middle">
                                                     <div className="flex items-center gap-4">
                                                         <div className="w-14 h-14 rounded-xl bg-white/5 border border-white/10 overflow-hidden flex-shrink-0 relative">
@@ -314,12 +388,23 @@ export default function ProductsPage() {
                                                                 <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-emerald-500/10 text-emerald-500 mt-1">Active</span> :
                                                                 <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-neutral-500/10 text-neutral-500 mt-1">Inactive</span>
                                                             }
+                                                            {product.is_featured && (
+                                                                <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-amber-500/10 text-amber-400 mt-1 ml-1">
+                                                                    <Star className="w-2.5 h-2.5 mr-1" /> Featured
+                                                                </span>
+                                                            )}
+                                                            {rowErrors[product.id] && (
+                                                                <p className="flex items-center gap-1 text-xs text-rose-400 mt-1">
+                                                                    <AlertCircle className="w-3 h-3 shrink-0" />
+                                                                    {rowErrors[product.id]}
+                                                                </p>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 </td>
                                                 <td className="px-6 py-4 align-middle">
                                                     <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-white/5 text-neutral-300 border border-white/10">
-                                                        {product.category?.name || "Uncategorized"}
+                                                        {(typeof product.category === 'object' && product.category?.name) || "Uncategorized"}
                                                     </span>
                                                 </td>
                                                 <td className="px-6 py-4 align-middle font-medium text-white">
@@ -342,7 +427,7 @@ export default function ProductsPage() {
                                                     </div>
                                                 </td>
                                                 <td className="px-6 py-4 align-middle text-neutral-400 font-mono text-sm">
-                                                    {product.stock} units
+                                                    <StockCell product={product} onSave={(stock) => applyUpdates([{ product, patch: { stock } }])} />
                                                 </td>
                                                 <td className="px-6 py-4 align-middle text-right">
                                                     <div className="flex items-center justify-end gap-1 opacity-100 md:opacity-0 group-hover:opacity-100 transition-opacity">
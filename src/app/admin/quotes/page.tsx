@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { getApiError } from "@/lib/api";
+import { b2bService } from "@/services/b2b";
+import type { QuoteRequest, QuoteStatus } from "@/types/b2b";
+import { formatDate, cn } from "@/lib/utils";
+import {
+    Search, Filter, Building2, Mail, Phone, Loader2,
+    ChevronLeft, ChevronRight, FileText, ExternalLink
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { AuroraBackground } from "@/components/ui/aurora-background";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+
+// --- Constants ---
+const STATUS_OPTIONS: { value: QuoteStatus; label: string; className: string }[] = [
+    { value: "new", label: "New", className: "bg-amber-500/10 text-amber-400 border-amber-500/20" },
+    { value: "contacted", label: "Contacted", className: "bg-blue-500/10 text-blue-400 border-blue-500/20" },
+    { value: "won", label: "Won", className: "bg-emerald-500/10 text-emerald-400 border-emerald-500/20" },
+    { value: "lost", label: "Lost", className: "bg-rose-500/10 text-rose-400 border-rose-500/20" },
+];
+
+const PAGE_SIZE = 12;
+
+export default function AdminQuotesPage() {
+    // --- State ---
+    const [quotes, setQuotes] = useState<QuoteRequest[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+    // Filters State
+    const [searchTerm, setSearchTerm] = useState("");
+    const [debouncedSearch, setDebouncedSearch] = useState("");
+    const [statusFilter, setStatusFilter] = useState("all");
+
+    // Pagination State
+    const [currentPage, setCurrentPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [totalCount, setTotalCount] = useState(0);
+
+    // --- Effects ---
+
+    // Debounce Search
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setDebouncedSearch(searchTerm);
+            setCurrentPage(1);
+        }, 500);
+        return () => clearTimeout(timer);
+    }, [searchTerm]);
+
+    // Fetch Data
+    useEffect(() => {
+        const fetchQuotes = async () => {
+            setLoading(true);
+            try {
+                const data = await b2bService.getQuotes({
+                    page: currentPage,
+                    search: debouncedSearch || undefined,
+                    status: statusFilter !== "all" ? statusFilter : undefined,
+                });
+
+                if (Array.isArray(data)) {
+                    setQuotes(data);
+                    setTotalCount(data.length);
+                    setTotalPages(1);
+                } else {
+                    setQuotes(data.results);
+                    setTotalCount(data.count);
+                    setTotalPages(Math.max(1, Math.ceil(data.count / PAGE_SIZE)));
+                }
+            } catch (error) {
+                console.error("Failed to fetch quote requests:", error);
+                toast.error("Could not load quote requests");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchQuotes();
+    }, [currentPage, debouncedSearch, statusFilter]);
+
+    // --- Handlers ---
+
+    const handleStatusChange = async (quote: QuoteRequest, status: QuoteStatus) => {
+        if (quote.status === status) return;
+
+        setUpdatingId(quote.id);
+        try {
+            await b2bService.updateQuoteStatus(quote.id, status);
+            setQuotes(prev => prev.map(q => q.id === quote.id ? { ...q, status } : q));
+            toast.success(`Quote marked as ${status}`);
+        } catch (error) {
+            console.error("Failed to update quote status:", error);
+            toast.error(getApiError(error, "Failed to update status").message);
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const handleClearFilters = () => {
+        setSearchTerm("");
+        setStatusFilter("all");
+        setCurrentPage(1);
+    };
+
+    return (
+        <div className="min-h-screen bg-black text-white font-sans selection:bg-purple-500/30">
+            {/* Background */}
+            <div className="fixed inset-0 z-0 pointer-events-none">
+                <AuroraBackground className="h-full w-full">
+                    <></>
+                </AuroraBackground>
+            </div>
+
+            <div className="relative z-10 w-full min-h-screen pb-20 pt-32 px-4 md:px-6">
+                <div className="container mx-auto max-w-7xl">
+
+                    {/* Header */}
+                    <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-8">
+                        <div>
+                            <h1 className="text-3xl md:text-5xl font-display font-bold text-white mb-2 tracking-tight">Quote Requests</h1>
+                            <p className="text-neutral-400 text-lg">B2B and bulk order inquiries from customers.</p>
+                        </div>
+                    </div>
+
+                    {/* Filter Bar */}
+                    <div className="bg-white/5 border border-white/10 rounded-2xl p-4 backdrop-blur-xl mb-6 shadow-lg shadow-black/20">
+                        <div className="flex flex-col lg:flex-row gap-4">
+                            <div className="relative flex-1 group">
+                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-500 group-focus-within:text-purple-400 transition-colors" />
+                                <Input
+                                    placeholder="Search by company, contact, email, phone..."
+                                    value={searchTerm}
+                                    onChange={(e) => setSearchTerm(e.target.value)}
+                                    className="pl-10 bg-black/20 border-white/10 focus:border-purple-500/50 text-white h-10 w-full"
+                                />
+                            </div>
+
+                            <div className="flex flex-wrap gap-2 lg:gap-4 items-center">
+                                <Select value={statusFilter} onValueChange={(val: string) => { setStatusFilter(val); setCurrentPage(1); }}>
+                                    <SelectTrigger className="w-[160px] bg-black/20 border-white/10 text-white h-10">
+                                        <div className="flex items-center truncate">
+                                            <Filter className="w-3.5 h-3.5 mr-2 text-neutral-400" />
+                                            <SelectValue placeholder="Status" />
+                                        </div>
+                                    </SelectTrigger>
+                                    <SelectContent className="bg-zinc-900 border-white/10 text-white">
+                                        <SelectItem value="all" className="focus:bg-white/10 focus:text-white cursor-pointer">All Status</SelectItem>
+                                        {STATUS_OPTIONS.map(opt => (
+                                            <SelectItem key={opt.value} value={opt.value} className="focus:bg-white/10 focus:text-white cursor-pointer">{opt.label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+
+                                {(statusFilter !== 'all' || searchTerm) && (
+                                    <Button
+                                        variant="ghost"
+                                        onClick={handleClearFilters}
+                                        className="text-neutral-400 hover:text-white px-3 h-10"
+                                    >
+                                        Clear
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Quotes Table Card */}
+                    <div className="bg-white/5 border border-white/10 rounded-3xl backdrop-blur-xl shadow-2xl overflow-hidden relative min-h-[500px] flex flex-col">
+                        <div className="flex-1 overflow-auto">
+                            <table className="w-full min-w-[1000px] text-left border-collapse">
+                                <thead className="sticky top-0 z-20 bg-black/40 backdrop-blur-md">
+                                    <tr className="border-b border-white/10 text-xs font-bold uppercase tracking-wider text-neutral-500">
+                                        <th className="px-6 py-4 font-medium">Company</th>
+                                        <th className="px-6 py-4 font-medium">Contact</th>
+                                        <th className="px-6 py-4 font-medium">Product</th>
+                                        <th className="px-6 py-4 font-medium text-right">Quantity</th>
+                                        <th className="px-6 py-4 font-medium">Received</th>
+                                        <th className="px-6 py-4 font-medium">Status</th>
+                                    </tr>
+                                </thead>
+
+                                <tbody className="divide-y divide-white/5">
+                                    {loading ? (
+                                        [...Array(6)].map((_, i) => (
+                                            <tr key={i}>
+                                                <td colSpan={6} className="px-6 py-4">
+                                                    <div className="h-12 w-full bg-white/5 rounded-lg animate-pulse" />
+                                                </td>
+                                            </tr>
+                                        ))
+                                    ) : quotes.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={6} className="px-6 py-20 text-center">
+                                                <div className="flex flex-col items-center justify-center gap-3 text-neutral-500">
+                                                    <FileText className="w-16 h-16 mb-2 opacity-20" />
+                                                    <p className="text-lg font-medium text-white">No quote requests found</p>
+                                                    <p className="text-sm">Try adjusting your filters.</p>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        quotes.map((quote) => {
+                                            const statusOption = STATUS_OPTIONS.find(opt => opt.value === quote.status);
+                                            return (
+                                                <tr key={quote.id} className="hover:bg-white/[0.02] transition-colors group align-top">
+                                                    {/* Company */}
+                                                    <td className="px-6 py-4">
+                                                        <div className="flex items-center gap-2 font-bold text-white text-sm group-hover:text-purple-400 transition-colors">
+                                                            <Building2 className="w-4 h-4 text-neutral-500" />
+                                                            {quote.company_name}
+                                                        </div>
+                                                        {quote.note && (
+                                                            <p className="text-xs text-neutral-500 mt-1 max-w-[240px] line-clamp-2 italic" title={quote.note}>
+                                                                &quot;{quote.note}&quot;
+                                                            </p>
+                                                        )}
+                                                    </td>
+
+                                                    {/* Contact */}
+                                                    <td className="px-6 py-4">
+                                                        <div className="text-sm text-white font-medium">{quote.contact_name}</div>
+                                                        <div className="flex items-center gap-2 text-xs text-neutral-400 mt-1">
+                                                            <Mail className="w-3 h-3 text-neutral-600" />
+                                                            <a href={`mailto:${quote.email}`} className="hover:text-white transition-colors">{quote.email}</a>
+                                                        </div>
+                                                        <div className="flex items-center gap-2 text-xs text-neutral-400 mt-0.5">
+                                                            <Phone className="w-3 h-3 text-neutral-600" />
+                                                            <a href={`tel:${quote.phone}`} className="hover:text-white transition-colors">{quote.phone}</a>
+                                                        </div>
+                                                    </td>
+
+                                                    {/* Product */}
+                                                    <td className="px-6 py-4 text-sm">
+                                                        {quote.product ? (
+                                                            <Link
+                                                                href={`/products/${quote.product.slug}`}
+                                                                target="_blank"
+                                                                className="inline-flex items-center gap-1.5 text-neutral-300 hover:text-purple-400 transition-colors max-w-[220px]"
+                                                            >
+                                                                <span className="truncate">{quote.product.name}</span>
+                                                                <ExternalLink className="w-3 h-3 shrink-0" />
+                                                            </Link>
+                                                        ) : (
+                                                            <span className="text-neutral-500">{quote.product_name || "General inquiry"}</span>
+                                                        )}
+                                                    </td>
+
+                                                    {/* Quantity */}
+                                                    <td className="px-6 py-4 text-right font-mono font-bold text-white">
+                                                        {quote.quantity}
+                                                    </td>
+
+                                                    {/* Received */}
+                                                    <td className="px-6 py-4 text-sm text-neutral-400">
+                                                        {formatDate(quote.created_at)}
+                                                    </td>
+
+                                                    {/* Status */}
+                                                    <td className="px-6 py-4">
+                                                        <Select
+                                                            value={quote.status}
+                                                            onValueChange={(val: string) => handleStatusChange(quote, val as QuoteStatus)}
+                                                            disabled={updatingId === quote.id}
+                                                        >
+                                                            <SelectTrigger className={cn("w-[140px] h-8 rounded-full border text-xs font-medium", statusOption?.className)}>
+                                                                <div className="flex items-center truncate">
+                                                                    {updatingId === quote.id && <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />}
+                                                                    <SelectValue />
+                                                                </div>
+                                                            </SelectTrigger>
+                                                            <SelectContent className="bg-zinc-900 border-white/10 text-white">
+                                                                {STATUS_OPTIONS.map(opt => (
+                                                                    <SelectItem key={opt.value} value={opt.value} className="focus:bg-white/10 focus:text-white cursor-pointer">{opt.label}</SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {/* Footer / Pagination */}
+                        <div className="bg-black/20 border-t border-white/10 px-6 py-4 flex items-center justify-between">
+                            <div className="text-xs text-neutral-500">
+                                Total <strong className="text-white">{totalCount}</strong> requests found
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                                    disabled={currentPage === 1 || loading}
+                                    className="bg-white/5 border-white/10 text-white hover:bg-white/10 h-8 px-2"
+                                >
+                                    <ChevronLeft className="w-4 h-4" />
+                                </Button>
+                                <div className="text-xs font-medium text-neutral-400 px-2 min-w-[80px] text-center">
+                                    Page <span className="text-white">{currentPage}</span> of {totalPages}
+                                </div>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                                    disabled={currentPage === totalPages || loading}
+                                    className="bg-white/5 border-white/10 text-white hover:bg-white/10 h-8 px-2"
+                                >
+                                    <ChevronRight className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,364 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { getApiError } from "@/lib/api";
+import { reviewsService } from "@/services/reviews";
+import type { AdminReview, AdminReviewQuery, ReviewStatus } from "@/types/product";
+import { formatDate, cn } from "@/lib/utils";
+import { useDebounce } from "@/hooks/use-debounce";
+import {
+    Search, Filter, Star, Loader2, Check, EyeOff,
+    ChevronLeft, ChevronRight, MessageSquare, ExternalLink, ThumbsUp
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { AuroraBackground } from "@/components/ui/aurora-background";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+
+// --- Constants ---
+const STATUS_OPTIONS: { value: ReviewStatus; label: string; className: string }[] = [
+    { value: "pending", label: "Pending", className: "bg-amber-500/10 text-amber-400 border-amber-500/20" },
+    { value: "approved", label: "Approved", className: "bg-emerald-500/10 text-emerald-400 border-emerald-500/20" },
+    { value: "hidden", label: "Hidden", className: "bg-rose-500/10 text-rose-400 border-rose-500/20" },
+];
+
+const PAGE_SIZE = 12;
+
+export default function AdminReviewsPage() {
+    // --- State ---
+    const [reviews, setReviews] = useState<AdminReview[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+    // Filters State; the queue opens on what still needs a decision
+    const [searchTerm, setSearchTerm] = useState("");
+    const [statusFilter, setStatusFilter] = useState("pending");
+    const [ratingFilter, setRatingFilter] = useState("all");
+    const debouncedSearch = useDebounce(searchTerm, 500);
+
+    // Pagination State
+    const [currentPage, setCurrentPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [totalCount, setTotalCount] = useState(0);
+
+    // --- Effects ---
+
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [debouncedSearch]);
+
+    // Fetch Data
+    useEffect(() => {
+        const fetchReviews = async () => {
+            setLoading(true);
+            try {
+                const query: AdminReviewQuery = { page: currentPage };
+                if (debouncedSearch) query.search = debouncedSearch;
+                if (statusFilter !== "all") query.status = statusFilter;
+                if (ratingFilter !== "all") query.rating = Number(ratingFilter);
+
+                const data = await reviewsService.getAdminReviews(query);
+
+                if (Array.isArray(data)) {
+                    setReviews(data);
+                    setTotalCount(data.length);
+                    setTotalPages(1);
+                } else {
+                    setReviews(data.results);
+                    setTotalCount(data.count);
+                    setTotalPages(Math.max(1, Math.ceil(data.count / PAGE_SIZE)));
+                }
+            } catch (error) {
+                console.error("Failed to fetch reviews:", error);
+                toast.error("Could not load reviews");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchReviews();
+    }, [currentPage, debouncedSearch, statusFilter, ratingFilter]);
+
+    // --- Handlers ---
+
+    const handleModerate = async (review: AdminReview, status: ReviewStatus) => {
+        if (review.status === status) return;
+
+        setUpdatingId(review.id);
+        try {
+            const updated = await reviewsService.moderateReview(review.id, status);
+            // Drop it from a filtered queue once it no longer matches
+            setReviews(prev => statusFilter !== "all" && statusFilter !== status
+                ? prev.filter(r => r.id !== review.id)
+                : prev.map(r => r.id === review.id ? { ...r, ...updated, status } : r)
+            );
+            if (statusFilter !== "all" && statusFilter !== status) setTotalCount(c => Math.max(0, c - 1));
+            toast.success(status === "approved" ? "Review approved" : status === "hidden" ? "Review hidden" : "Review moved back to pending");
+        } catch (error) {
+            toast.error(getApiError(error, "Failed to update review").message);
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const handleClearFilters = () => {
+        setSearchTerm("");
+        setStatusFilter("all");
+        setRatingFilter("all");
+        setCurrentPage(1);
+    };
+
+    return (
+        <div className="min-h-screen bg-black text-white font-sans selection:bg-purple-500/30">
+            {/* Background */}
+            <div className="fixed inset-0 z-0 pointer-events-none">
+                <AuroraBackground className="h-full w-full">
+                    <></>
+                </AuroraBackground>
+            </div>
+
+            <div className="relative z-10 w-full min-h-screen pb-20 pt-32 px-4 md:px-6">
+                <div className="container mx-auto max-w-7xl">
+
+                    {/* Header */}
+                    <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-8">
+                        <div>
+                            <h1 className="text-3xl md:text-5xl font-display font-bold text-white mb-2 tracking-tight">Reviews</h1>
+                            <p className="text-neutral-400 text-lg">Approve or hide customer reviews before they go live.</p>
+                        </div>
+                    </div>
+
+                    {/* Filter Bar */}
+                    <div className="bg-white/5 border border-white/10 rounded-2xl p-4 backdrop-blur-xl mb-6 shadow-lg shadow-black/20">
+                        <div className="flex flex-col lg:flex-row gap-4">
+                            <div className="relative flex-1 group">
+                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-500 group-focus-within:text-purple-400 transition-colors" />
+                                <Input
+                                    placeholder="Search by product, customer, email or comment..."
+                                    value={searchTerm}
+                                    onChange={(e) => setSearchTerm(e.target.value)}
+                                    className="pl-10 bg-black/20 border-white/10 focus:border-purple-500/50 text-white h-10 w-full"
+                                />
+                            </div>
+
+                            <div className="flex flex-wrap gap-2 lg:gap-4 items-center">
+                                <Select value={statusFilter} onValueChange={(val: string) => { setStatusFilter(val); setCurrentPage(1); }}>
+                                    <SelectTrigger className="w-[160px] bg-black/20 border-white/10 text-white h-10">
+                                        <div className="flex items-center truncate">
+                                            <Filter className="w-3.5 h-3.5 mr-2 text-neutral-400" />
+                                            <SelectValue placeholder="Status" />
+                                        </div>
+                                    </SelectTrigger>
+                                    <SelectContent className="bg-zinc-900 border-white/10 text-white">
+                                        <SelectItem value="all" className="focus:bg-white/10 focus:text-white cursor-pointer">All Status</SelectItem>
+                                        {STATUS_OPTIONS.map(opt => (
+                                            <SelectItem key={opt.value} value={opt.value} className="focus:bg-white/10 focus:text-white cursor-pointer">{opt.label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+
+                                <Select value={ratingFilter} onValueChange={(val: string) => { setRatingFilter(val); setCurrentPage(1); }}>
+                                    <SelectTrigger className="w-[140px] bg-black/20 border-white/10 text-white h-10">
+                                        <div className="flex items-center truncate">
+                                            <Star className="w-3.5 h-3.5 mr-2 text-neutral-400" />
+                                            <SelectValue placeholder="Rating" />
+                                        </div>
+                                    </SelectTrigger>
+                                    <SelectContent className="bg-zinc-900 border-white/10 text-white">
+                                        <SelectItem value="all" className="focus:bg-white/10 focus:text-white cursor-pointer">All Ratings</SelectItem>
+                                        {[5, 4, 3, 2, 1].map(rating => (
+                                            <SelectItem key={rating} value={String(rating)} className="focus:bg-white/10 focus:text-white cursor-pointer">
+                                                {rating} star{rating > 1 ? "s" : ""}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+
+                                {(statusFilter !== 'pending' || ratingFilter !== 'all' || searchTerm) && (
+                                    <Button
+                                        variant="ghost"
+                                        onClick={handleClearFilters}
+                                        className="text-neutral-400 hover:text-white px-3 h-10"
+                                    >
+                                        Clear
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Reviews Table Card */}
+                    <div className="bg-white/5 border border-white/10 rounded-3xl backdrop-blur-xl shadow-2xl overflow-hidden relative min-h-[500px] flex flex-col">
+                        <div className="flex-1 overflow-auto">
+                            <table className="w-full min-w-[1000px] text-left border-collapse">
+                                <thead className="sticky top-0 z-20 bg-black/40 backdrop-blur-md">
+                                    <tr className="border-b border-white/10 text-xs font-bold uppercase tracking-wider text-neutral-500">
+                                        <th className="px-6 py-4 font-medium">Product</th>
+                                        <th className="px-6 py-4 font-medium">Customer</th>
+                                        <th className="px-6 py-4 font-medium">Review</th>
+                                        <th className="px-6 py-4 font-medium">Submitted</th>
+                                        <th className="px-6 py-4 font-medium">Status</th>
+                                        <th className="px-6 py-4 font-medium text-right">Actions</th>
+                                    </tr>
+                                </thead>
+
+                                <tbody className="divide-y divide-white/5">
+                                    {loading ? (
+                                        [...Array(6)].map((_, i) => (
+                                            <tr key={i}>
+                                                <td colSpan={6} className="px-6 py-4">
+                                                    <div className="h-12 w-full bg-white/5 rounded-lg animate-pulse" />
+                                                </td>
+                                            </tr>
+                                        ))
+                                    ) : reviews.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={6} className="px-6 py-20 text-center">
+                                                <div className="flex flex-col items-center justify-center gap-3 text-neutral-500">
+                                                    <MessageSquare className="w-16 h-16 mb-2 opacity-20" />
+                                                    <p className="text-lg font-medium text-white">No reviews found</p>
+                                                    <p className="text-sm">
+                                                        {statusFilter === "pending" ? "The moderation queue is empty." : "Try adjusting your filters."}
+                                                    </p>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        reviews.map((review) => {
+                                            const statusOption = STATUS_OPTIONS.find(opt => opt.value === review.status);
+                                            const isUpdating = updatingId === review.id;
+                                            return (
+                                                <tr key={review.id} className="hover:bg-white/[0.02] transition-colors group align-top">
+                                                    {/* Product */}
+                                                    <td className="px-6 py-4 text-sm">
+                                                        <Link
+                                                            href={`/products/${review.product.slug}`}
+                                                            target="_blank"
+                                                            className="inline-flex items-center gap-1.5 text-neutral-300 hover:text-purple-400 transition-colors max-w-[200px]"
+                                                        >
+                                                            <span className="truncate">{review.product.name}</span>
+                                                            <ExternalLink className="w-3 h-3 shrink-0" />
+                                                        </Link>
+                                                    </td>
+
+                                                    {/* Customer */}
+                                                    <td className="px-6 py-4">
+                                                        <div className="text-sm text-white font-medium">{review.user_name}</div>
+                                                        <div className="text-xs text-neutral-500 mt-0.5">{review.user_email}</div>
+                                                    </td>
+
+                                                    {/* Review */}
+                                                    <td className="px-6 py-4">
+                                                        <div className="flex text-yellow-500 mb-1">
+                                                            {[...Array(5)].map((_, i) => (
+                                                                <Star key={i} size={12} className={i < review.rating ? "fill-current" : "text-neutral-700 fill-neutral-700"} />
+                                                            ))}
+                                                        </div>
+                                                        <p className="text-sm text-neutral-300 max-w-[360px] line-clamp-3" title={review.comment}>
+                                                            {review.comment}
+                                                        </p>
+                                                        {review.images && review.images.length > 0 && (
+                                                            <div className="flex gap-2 mt-2">
+                                                                {review.images.map(img => (
+                                                                    <a key={img.id} href={img.image} target="_blank" rel="noopener noreferrer" className="relative w-10 h-10 rounded-lg overflow-hidden border border-white/10">
+                                                                        <Image src={img.image} alt="Review photo" fill sizes="40px" className="object-cover" />
+                                                                    </a>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                        {!!review.helpful_count && (
+                                                            <div className="flex items-center gap-1 text-xs text-neutral-500 mt-2">
+                                                                <ThumbsUp className="w-3 h-3" /> {review.helpful_count}
+                                                            </div>
+                                                        )}
+                                                    </td>
+
+                                                    {/* Submitted */}
+                                                    <td className="px-6 py-4 text-sm text-neutral-400">
+                                                        {formatDate(review.created_at)}
+                                                    </td>
+
+                                                    {/* Status */}
+                                                    <td className="px-6 py-4">
+                                                        <span className={cn("inline-flex items-center px-3 py-1 rounded-full border text-xs font-medium", statusOption?.className)}>
+                                                            {statusOption?.label ?? review.status}
+                                                        </span>
+                                                    </td>
+
+                                                    {/* Actions */}
+                                                    <td className="px-6 py-4">
+                                                        <div className="flex items-center justify-end gap-2">
+                                                            {isUpdating && <Loader2 className="w-4 h-4 animate-spin text-neutral-400" />}
+                                                            <Button
+                                                                variant="outline"
+                                                                size="sm"
+                                                                onClick={() => handleModerate(review, "approved")}
+                                                                disabled={isUpdating || review.status === "approved"}
+                                                                className="h-8 bg-emerald-500/10 border-emerald-500/20 text-emerald-400 hover:bg-emerald-500/20 hover:text-emerald-300"
+                                                            >
+                                                                <Check className="w-3.5 h-3.5 mr-1" /> Approve
+                                                            </Button>
+                                                            <Button
+                                                                variant="outline"
+                                                                size="sm"
+                                                                onClick={() => handleModerate(review, "hidden")}
+                                                                disabled={isUpdating || review.status === "hidden"}
+                                                                className="h-8 bg-rose-500/10 border-rose-500/20 text-rose-400 hover:bg-rose-500/20 hover:text-rose-300"
+                                                            >
+                                                                <EyeOff className="w-3.5 h-3.5 mr-1" /> Hide
+                                                            </Button>
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {/* Footer / Pagination */}
+                        <div className="bg-black/20 border-t border-white/10 px-6 py-4 flex items-center justify-between">
+                            <div className="text-xs text-neutral-500">
+                                Total <strong className="text-white">{totalCount}</strong> reviews found
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                                    disabled={currentPage === 1 || loading}
+                                    className="bg-white/5 border-white/10 text-white hover:bg-white/10 h-8 px-2"
+                                >
+                                    <ChevronLeft className="w-4 h-4" />
+                                </Button>
+                                <div className="text-xs font-medium text-neutral-400 px-2 min-w-[80px] text-center">
+                                    Page <span className="text-white">{currentPage}</span> of {totalPages}
+                                </div>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                                    disabled={currentPage === totalPages || loading}
+                                    className="bg-white/5 border-white/10 text-white hover:bg-white/10 h-8 px-2"
+                                >
+                                    <ChevronRight className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -4,7 +4,10 @@ import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import api from '@/lib/api';
+import { handleFormError } from '@/lib/form-errors';
+import { authService } from '@/services/auth';
+import { coreService } from '@/services/core';
+import type { SiteConfig } from '@/types/core';
 import { Save, Lock, LayoutGrid, Phone, Loader2, Globe, ShieldAlert, CreditCard, Share2, Truck, LogOut, CheckCircle, Key, AlertTriangle, Shield, Check, X } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { AuroraBackground } from '@/components/ui/aurora-background';
@@ -29,20 +32,6 @@ const passwordSchema = z.object({
 });
 type PasswordForm = z.infer<typeof passwordSchema>;
 
-interface SiteConfig {
-    site_name: string;
-    site_description: string;
-    contact_email: string;
-    phone_number: string;
-    address: string;
-    social_links: Record<string, string>;
-    maintenance_mode: boolean;
-    enable_cod: boolean;
-    enable_stripe: boolean;
-    shipping_fee_flat: number;
-    free_shipping_threshold: number;
-}
-
 export default function SettingsPage() {
     const router = useRouter();
     const logout = useAuthStore((state) => state.logout);
@@ -75,8 +64,7 @@ export default function SettingsPage() {
 
     const fetchConfig = async () => {
         try {
-            const response = await api.get("/core/config/");
-            const data = response.data;
+            const data = await coreService.getConfig();
             // Initialize social_links if missing
             if (!data.social_links) data.social_links = { facebook: '', instagram: '', twitter: '', youtube: '' };
             setConfig(data);
@@ -92,8 +80,7 @@ export default function SettingsPage() {
         if (e) e.preventDefault();
         setIsSaving(true);
         try {
-            // Using ID 1 because SiteConfig is a singleton ensuring pk=1
-            await api.patch("/core/config/1/", config);
+            await coreService.updateConfig(config);
             toast.success("Settings updated successfully!");
         } catch (error) {
             console.error("Failed to save settings:", error);
@@ -106,13 +93,16 @@ export default function SettingsPage() {
     const onChangePassword = async (data: PasswordForm) => {
         setIsSaving(true);
         try {
-            await api.put('/auth/change-password/', data);
+            await authService.changePassword(data);
             toast.success('Password changed successfully!');
             passwordForm.reset();
-        } catch (error: any) {
+        } catch (error) {
             console.error(error);
-            const errorMsg = error.response?.data?.old_password || error.response?.data?.new_password || 'Failed to change password';
-            toast.error(Array.isArray(errorMsg) ? errorMsg[0] : errorMsg);
+            handleFormError(error, {
+                fallback: 'Failed to change password',
+                setError: passwordForm.setError,
+                fields: Object.keys(passwordSchema.shape),
+            });
         } finally {
             setIsSaving(false);
         }
@@ -285,6 +275,17 @@ export default function SettingsPage() {
                                             </div>
                                         </div>
 
+                                        <div className="space-y-2">
+                                            <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Tax Code (MST)</label>
+                                            <Input
+                                                type="text"
+                                                value={config.tax_code ?? ""}
+                                                onChange={(e) => setConfig({ ...config, tax_code: e.target.value })}
+                                                placeholder="Printed on invoices"
+                                                className="bg-black/20 border-white/10 h-12 rounded-xl md:w-1/2"
+                                            />
+                                        </div>
+
                                         <div className="space-y-2">
                                             <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">Physical Address</label>
                                             <textarea
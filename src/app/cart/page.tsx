@@ -3,22 +3,24 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { Minus, Plus, Trash2, ShoppingBag, ArrowRight, Loader2, Lock, Tag } from 'lucide-react';
+import { Minus, Plus, Trash2, ShoppingBag, ArrowRight, Loader2, Lock, Tag, X } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { useCartStore } from '@/store/cart-store';
+import { useCartStore, calculateDiscount, getLineKey, getItemPrice, getItemStock, type CartItem } from '@/store/cart-store';
+import { variantLabel } from '@/lib/variants';
 import { useAuthStore } from '@/store/auth-store';
 import { Button } from '@/components/ui/button';
 import { cn, formatPrice } from '@/lib/utils';
 import { AuroraBackground } from '@/components/ui/aurora-background';
 import { B2BContactModal } from '@/components/modals/B2BContactModal';
+import { getApiError } from '@/lib/api';
 
 export default function CartPage() {
-    const { cart, isLoading, updatingItems, fetchCart, updateQuantity, removeFromCart, clearCart } = useCartStore();
+    const { cart, coupon, isApplyingCoupon, isLoading, updatingItems, fetchCart, updateQuantity, removeFromCart, clearCart, applyCoupon, removeCoupon } = useCartStore();
     const { isAuthenticated, hasHydrated } = useAuthStore();
 
     const [couponCode, setCouponCode] = useState('');
     const [b2bModalOpen, setB2bModalOpen] = useState(false);
-    const [b2bProduct, setB2bProduct] = useState<{ name: string, quantity: number } | null>(null);
+    const [b2bProduct, setB2bProduct] = useState<{ id: string, name: string, quantity: number } | null>(null);
 
     useEffect(() => {
         if (hasHydrated) {
@@ -26,29 +28,49 @@ export default function CartPage() {
         }
     }, [hasHydrated, fetchCart]);
 
-    const handleUpdateQuantity = async (productId: string, newQuantity: number, productName: string = '') => {
+    const handleUpdateQuantity = async (item: CartItem, newQuantity: number) => {
         if (newQuantity > 5) {
-            setB2bProduct({ name: productName, quantity: newQuantity });
+            const name = item.variant ? `${item.product.name} (${variantLabel(item.variant)})` : item.product.name;
+            setB2bProduct({ id: item.product.id, name, quantity: newQuantity });
             setB2bModalOpen(true);
             return;
         }
 
         try {
-            await updateQuantity(productId, newQuantity);
-        } catch (error: any) {
-            toast.error(error.message || error.response?.data?.error || 'Failed to update');
+            await updateQuantity(getLineKey(item), newQuantity);
+        } catch (error) {
+            toast.error(getApiError(error, 'Failed to update').message);
         }
     };
 
-    const handleRemove = async (productId: string) => {
+    const handleRemove = async (lineKey: string) => {
         try {
-            await removeFromCart(productId);
+            await removeFromCart(lineKey);
             toast.success('Removed form cart');
         } catch (error) {
             toast.error('Failed to remove');
         }
     };
 
+    const handleApplyCoupon = async (e?: React.FormEvent) => {
+        e?.preventDefault();
+        try {
+            const applied = await applyCoupon(couponCode);
+            setCouponCode('');
+            toast.success(`Promo code ${applied.code} applied`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Invalid promo code');
+        }
+    };
+
+    const handleRemoveCoupon = () => {
+        removeCoupon();
+        toast.success('Promo code removed');
+    };
+
+    const discount = cart ? calculateDiscount(coupon, cart.subtotal) : 0;
+    const total = cart ? cart.subtotal - discount : 0;
+
     // Full screen loader only on initial fetch with no data
     if (isLoading && !cart) {
         return (
@@ -63,6 +85,7 @@ export default function CartPage() {
             <B2BContactModal
                 isOpen={b2bModalOpen}
                 onClose={() => setB2bModalOpen(false)}
+                productId={b2bProduct?.id}
                 productName={b2bProduct?.name}
                 quantity={b2bProduct?.quantity}
             />
@@ -127,9 +150,9 @@ export default function CartPage() {
                                             href={`/products/${item.product.slug}`}
                                             className="w-full sm:w-32 h-32 bg-black/40 rounded-2xl overflow-hidden flex-shrink-0 border border-white/5 relative group-hover:border-white/20 transition-colors"
                                         >
-                                            {item.product.primary_image ? (
+                                            {(item.variant?.image || item.product.primary_image) ? (
                                                 <Image
-                                                    src={item.product.primary_image}
+                                                    src={item.variant?.image || item.product.primary_image || ''}
                                                     alt={item.product.name}
                                                     fill
                                                     sizes="(max-width: 768px) 100vw, 128px"
@@ -150,11 +173,17 @@ export default function CartPage() {
                                                         {item.product.name}
                                                     </h3>
                                                 </Link>
+                                                {item.variant && (
+                                                    <p className="text-xs text-neutral-400">
+                                                        {variantLabel(item.variant)}
+                                                        <span className="ml-2 font-mono text-neutral-600">{item.variant.sku}</span>
+                                                    </p>
+                                                )}
                                                 <div className="flex items-center gap-3">
                                                     <p className="text-sm text-neutral-400 font-mono bg-white/5 px-2 py-1 rounded-md border border-white/5">
-                                                        {formatPrice(item.product.current_price)}
+                                                        {formatPrice(getItemPrice(item))}
                                                     </p>
-                                                    {item.product.sale_price && (
+                                                    {(item.variant ? item.variant.sale_price : item.product.sale_price) && (
                                                         <span className="text-xs text-green-400 font-bold uppercase tracking-wider bg-green-500/10 px-2 py-1 rounded-md border border-green-500/20">Sale</span>
                                                     )}
                                                 </div>
@@ -172,7 +201,7 @@ export default function CartPage() {
                                                     {/* Quantity Control */}
                                                     <div className="flex items-center border border-white/10 bg-black/40 rounded-xl h-10 overflow-hidden shadow-inner">
                                                         <button
-                                                            onClick={() => handleUpdateQuantity(item.product.id, item.quantity - 1, item.product.name)}
+                                                            onClick={() => handleUpdateQuantity(item, item.quantity - 1)}
                                                             disabled={item.quantity <= 1}
                                                             className="w-10 h-full flex items-center justify-center hover:bg-white/10 disabled:opacity-30 text-white transition-colors active:scale-90 transform duration-100"
                                                         >
@@ -182,8 +211,8 @@ export default function CartPage() {
                                                             {item.quantity}
                                                         </span>
                                                         <button
-                                                            onClick={() => handleUpdateQuantity(item.product.id, item.quantity + 1, item.product.name)}
-                                                            disabled={item.quantity >= item.product.stock}
+                                                            onClick={() => handleUpdateQuantity(item, item.quantity + 1)}
+                                                            disabled={item.quantity >= getItemStock(item)}
                                                             className="w-10 h-full flex items-center justify-center hover:bg-white/10 disabled:opacity-30 text-white transition-colors active:scale-90 transform duration-100"
                                                         >
                                                             <Plus size={14} />
@@ -192,7 +221,7 @@ export default function CartPage() {
 
                                                     {/* Remove Button */}
                                                     <button
-                                                        onClick={() => handleRemove(item.product.id)}
+                                                        onClick={() => handleRemove(getLineKey(item))}
                                                         className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 text-neutral-400 hover:text-red-400 hover:bg-red-500/10 transition-all group/trash"
                                                         title="Remove item"
                                                     >
@@ -222,24 +251,58 @@ export default function CartPage() {
                                                 <span>Tax</span>
                                                 <span className="text-white text-xs italic opacity-60">Calculated at checkout</span>
                                             </div>
+                                            {coupon && (
+                                                <div className="flex justify-between text-sm text-neutral-400">
+                                                    <span>Discount</span>
+                                                    <span className="text-green-400 font-mono">-{formatPrice(discount)}</span>
+                                                </div>
+                                            )}
                                         </div>
 
                                         {/* Coupon Input */}
-                                        <div className="relative group">
-                                            <Tag className="absolute left-4 top-1/2 -translate-y-1/2 text-neutral-500 group-focus-within:text-purple-400 transition-colors" size={16} />
-                                            <div className="flex gap-2 h-12">
-                                                <input
-                                                    type="text"
-                                                    value={couponCode}
-                                                    onChange={(e) => setCouponCode(e.target.value)}
-                                                    placeholder="Promo Code"
-                                                    className="w-full h-full bg-black/20 border border-white/10 rounded-xl pl-11 pr-4 text-sm text-white placeholder:text-neutral-600 focus:outline-none focus:border-purple-500/50 focus:bg-black/40 transition-all font-mono uppercase tracking-wider"
-                                                />
-                                                <Button variant="outline" className="w-12 h-full rounded-xl border-white/10 hover:bg-white/10 hover:text-white shrink-0 p-0">
-                                                    <ArrowRight size={18} />
-                                                </Button>
+                                        {coupon ? (
+                                            <div className="flex items-center justify-between gap-3 h-12 px-4 rounded-xl bg-green-500/10 border border-green-500/20">
+                                                <div className="flex items-center gap-3 min-w-0">
+                                                    <Tag size={16} className="text-green-400 shrink-0" />
+                                                    <div className="min-w-0">
+                                                        <p className="text-sm font-mono font-bold uppercase tracking-wider text-green-400 truncate">{coupon.code}</p>
+                                                        {discount === 0 && (
+                                                            <p className="text-[10px] text-neutral-400 truncate">
+                                                                Min. order {formatPrice(coupon.min_order_value)}
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                                <button
+                                                    onClick={handleRemoveCoupon}
+                                                    className="w-8 h-8 flex items-center justify-center rounded-lg text-neutral-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                                                    title="Remove promo code"
+                                                >
+                                                    <X size={16} />
+                                                </button>
                                             </div>
-                                        </div>
+                                        ) : (
+                                            <form onSubmit={handleApplyCoupon} className="relative group">
+                                                <Tag className="absolute left-4 top-1/2 -translate-y-1/2 text-neutral-500 group-focus-within:text-purple-400 transition-colors" size={16} />
+                                                <div className="flex gap-2 h-12">
+                                                    <input
+                                                        type="text"
+                                                        value={couponCode}
+                                                        onChange={(e) => setCouponCode(e.target.value)}
+                                                        placeholder="Promo Code"
+                                                        className="w-full h-full bg-black/20 border border-white/10 rounded-xl pl-11 pr-4 text-sm text-white placeholder:text-neutral-600 focus:outline-none focus:border-purple-500/50 focus:bg-black/40 transition-all font-mono uppercase tracking-wider"
+                                                    />
+                                                    <Button
+                                                        type="submit"
+                                                        variant="outline"
+                                                        disabled={isApplyingCoupon || !couponCode.trim()}
+                                                        className="w-12 h-full rounded-xl border-white/10 hover:bg-white/10 hover:text-white shrink-0 p-0"
+                                                    >
+                                                        {isApplyingCoupon ? <Loader2 size={18} className="animate-spin" /> : <ArrowRight size={18} />}
+                                                    </Button>
+                                                </div>
+                                            </form>
+                                        )}
                                     </div>
 
                                     {/* Total */}
@@ -248,7 +311,7 @@ export default function CartPage() {
                                             <span className="text-sm font-bold uppercase tracking-widest text-neutral-400">Total</span>
                                             <span className="text-xs text-neutral-500 font-medium">Incl. VAT</span>
                                         </div>
-                                        <span className="text-3xl font-bold font-display text-white tracking-tight">{formatPrice(cart.subtotal)}</span>
+                                        <span className="text-3xl font-bold font-display text-white tracking-tight">{formatPrice(total)}</span>
                                     </div>
 
                                     {/* Checkout Button */}
@@ -257,7 +320,7 @@ export default function CartPage() {
                                         size="xl"
                                         className="w-full h-16 rounded-2xl bg-white text-black hover:bg-neutral-200 font-bold uppercase tracking-wider text-sm shadow-[0_0_30px_-5px_rgba(255,255,255,0.3)] hover:shadow-[0_0_40px_-5px_rgba(255,255,255,0.5)] transition-all hover:scale-[1.02] active:scale-[0.98]"
                                     >
-                                        <Link href={isAuthenticated ? "/checkout" : "/login"}>
+                                        <Link href={isAuthenticated ? "/checkout" : "/login?redirect=/checkout"}>
                                             {isAuthenticated ? "Checkout Now" : "Login to Checkout"}
                                             <ArrowRight size={20} className="ml-2" />
                                         </Link>
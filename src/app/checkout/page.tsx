@@ -4,36 +4,26 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
-import { MapPin, CreditCard, Wallet, Loader2, ArrowLeft, Check, Truck, Banknote, ShieldCheck, Package, ChevronDown } from 'lucide-react';
+import { MapPin, CreditCard, Wallet, Loader2, ArrowLeft, Check, Truck, Banknote, ShieldCheck, Package, ChevronDown, Tag } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import toast from 'react-hot-toast';
-import api from '@/lib/api';
-import { useCartStore } from '@/store/cart-store';
+import { getApiError } from '@/lib/api';
+import { handleFormError } from '@/lib/form-errors';
+import { ordersService } from '@/services/orders';
+import { shippingService } from '@/services/shipping';
+import type { CheckoutPayload } from '@/types/order';
+import type { GHNDistrict, GHNProvince, GHNWard } from '@/types/shipping';
+import { useCartStore, calculateDiscount } from '@/store/cart-store';
 import { useAuthStore } from '@/store/auth-store';
 import { cn, formatPrice } from '@/lib/utils';
+import { variantLabel } from '@/lib/variants';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { AuroraBackground } from '@/components/ui/aurora-background';
 
-// GHN Address types
-interface GHNProvince {
-    ProvinceID: number;
-    ProvinceName: string;
-}
-
-interface GHNDistrict {
-    DistrictID: number;
-    DistrictName: string;
-}
-
-interface GHNWard {
-    WardCode: string;
-    WardName: string;
-}
-
 const checkoutSchema = z.object({
     recipient_name: z.string().min(1, 'Vui lòng nhập tên người nhận'),
     phone: z.string().min(10, 'Số điện thoại không hợp lệ'),
@@ -58,7 +48,7 @@ const isCheckoutSubmitting = { current: false }; // Module-level lock
 export default function CheckoutPage() {
     const router = useRouter();
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const { cart, fetchCart } = useCartStore();
+    const { cart, coupon, fetchCart, removeCoupon } = useCartStore();
     const { user, isAuthenticated, hasHydrated } = useAuthStore();
 
     // Reset lock on mount/unmount to be safe against spa navigation
@@ -89,6 +79,7 @@ export default function CheckoutPage() {
         handleSubmit,
         watch,
         setValue,
+        setError,
         formState: { errors },
     } = useForm<CheckoutForm>({
         resolver: zodResolver(checkoutSchema),
@@ -104,8 +95,7 @@ export default function CheckoutPage() {
         const fetchProvinces = async () => {
             setIsLoadingProvinces(true);
             try {
-                const response = await api.get('/shipping/ghn/provinces/');
-                setProvinces(response.data || []);
+                setProvinces(await shippingService.getProvinces());
             } catch (error) {
                 console.error('Failed to fetch provinces:', error);
             } finally {
@@ -127,8 +117,7 @@ export default function CheckoutPage() {
         const fetchDistricts = async () => {
             setIsLoadingDistricts(true);
             try {
-                const response = await api.get(`/shipping/ghn/districts/${selectedProvinceId}/`);
-                setDistricts(response.data || []);
+                setDistricts(await shippingService.getDistricts(selectedProvinceId));
             } catch (error) {
                 console.error('Failed to fetch districts:', error);
             } finally {
@@ -149,8 +138,7 @@ export default function CheckoutPage() {
         const fetchWards = async () => {
             setIsLoadingWards(true);
             try {
-                const response = await api.get(`/shipping/ghn/wards/${selectedDistrictId}/`);
-                setWards(response.data || []);
+                setWards(await shippingService.getWards(selectedDistrictId));
             } catch (error) {
                 console.error('Failed to fetch wards:', error);
             } finally {
@@ -172,24 +160,23 @@ export default function CheckoutPage() {
             // Calculate total weight (500g per item), minimum 100g for GHN API
             const totalWeight = Math.max(100, cart.items.reduce((acc, item) => acc + (item.quantity * 500), 0));
 
-            const response = await api.post('/shipping/ghn/calculate-fee/', {
+            const feeData = await shippingService.calculateFee({
                 to_district_id: selectedDistrictId,
                 to_ward_code: selectedWardCode,
                 weight: totalWeight,
                 // No insurance_value - to match GHN displayed service fee
             });
 
-            if (response.data.success) {
-                setShippingFee(response.data.total_fee);
+            if (feeData.success) {
+                setShippingFee(feeData.total_fee);
             } else {
-                console.error('GHN error:', response.data.error);
-                toast.error(`Phí ship: ${response.data.error || 'Không thể tính'}`);
+                console.error('GHN error:', feeData.error);
+                toast.error(`Phí ship: ${feeData.error || 'Không thể tính'}`);
                 setShippingFee(30000);
             }
-        } catch (error: any) {
+        } catch (error) {
             console.error('Failed to calculate shipping fee:', error);
-            const errorMsg = error.response?.data?.error || 'Không thể tính phí ship';
-            toast.error(errorMsg);
+            toast.error(getApiError(error, 'Không thể tính phí ship').message);
             setShippingFee(30000);
         } finally {
             setIsCalculatingShipping(false);
@@ -271,57 +258,34 @@ export default function CheckoutPage() {
         setIsSubmitting(true);
 
         try {
-            const payload = {
+            const payload: CheckoutPayload = {
                 ...data,
                 shipping_fee: shippingFee || 0,
                 to_district_id: selectedDistrictId,
                 to_ward_code: selectedWardCode,
+                coupon_code: discount > 0 ? coupon?.code : undefined,
             };
 
-            const response = await api.post('/checkout/', payload);
+            const result = await ordersService.checkout(payload);
             toast.success('Đặt hàng thành công!');
+            removeCoupon();
 
-            if (data.payment_method !== 'cod' && response.data.payment_url) {
+            if (data.payment_method !== 'cod' && result.payment_url) {
                 // Redirect in the same tab as requested
-                window.location.href = response.data.payment_url;
+                window.location.href = result.payment_url;
             } else {
-                router.push(`/checkout/success?order_number=${response.data.order_number}`);
+                router.push(`/checkout/success?order_number=${result.order_number}`);
             }
-        } catch (error: any) {
+        } catch (error) {
             console.error('Checkout error:', error);
-            console.error('Error response data:', error.response?.data);
-
-            // Parse error message from various response formats
-            let errorMessage = 'Đặt hàng thất bại';
-            const errorData = error.response?.data;
-
-            if (errorData) {
-                if (typeof errorData === 'string') {
-                    errorMessage = errorData;
-                } else if (errorData.error) {
-                    errorMessage = errorData.error;
-                } else if (errorData.errors) {
-                    // Array of errors
-                    errorMessage = Array.isArray(errorData.errors)
-                        ? errorData.errors.join(', ')
-                        : JSON.stringify(errorData.errors);
-                } else {
-                    // Serializer field errors - format: { field: ["error1", "error2"] }
-                    const messages: string[] = [];
-                    Object.entries(errorData).forEach(([field, errors]) => {
-                        if (Array.isArray(errors)) {
-                            messages.push(`${field}: ${errors.join(', ')}`);
-                        } else if (typeof errors === 'string') {
-                            messages.push(`${field}: ${errors}`);
-                        }
-                    });
-                    if (messages.length > 0) {
-                        errorMessage = messages.join('; ');
-                    }
-                }
-            }
 
-            toast.error(errorMessage);
+            const { message: errorMessage } = handleFormError(error, {
+                fallback: 'Đặt hàng thất bại',
+                setError,
+                fields: Object.keys(checkoutSchema.shape),
+                // GHN ids are sent alongside the display names
+                fieldMap: { to_district_id: 'district', to_ward_code: 'ward' },
+            });
 
             // Redirect to failed page for payment gateway errors
             if (data.payment_method !== 'cod') {
@@ -334,7 +298,8 @@ export default function CheckoutPage() {
         // Note: We don't release lock on success to prevent double submission during redirect
     };
 
-    const total = cart ? cart.subtotal + (shippingFee || 0) : 0;
+    const discount = cart ? calculateDiscount(coupon, cart.subtotal) : 0;
+    const total = cart ? cart.subtotal - discount + (shippingFee || 0) : 0;
 
     if (!cart) {
         return (
@@ -623,9 +588,9 @@ export default function CheckoutPage() {
                                         {cart.items.map((item) => (
                                             <div key={item.id} className="flex gap-4 group">
                                                 <div className="w-14 h-14 bg-white/5 rounded-xl border border-white/10 overflow-hidden flex-shrink-0 relative">
-                                                    {item.product.primary_image ? (
+                                                    {(item.variant?.image || item.product.primary_image) ? (
                                                         <Image
-                                                            src={item.product.primary_image}
+                                                            src={item.variant?.image || item.product.primary_image || ''}
                                                             alt={item.product.name}
                                                             fill
                                                             sizes="64px"
@@ -637,7 +602,9 @@ export default function CheckoutPage() {
                                                 </div>
                                                 <div className="flex-1 min-w-0 flex flex-col justify-center">
                                                     <p className="text-sm font-medium text-white truncate">{item.product.name}</p>
-                                                    <p className="text-xs text-neutral-500">SL: {item.quantity}</p>
+                                                    <p className="text-xs text-neutral-500">
+                                                        {item.variant && `${variantLabel(item.variant)} · `}SL: {item.quantity}
+                                                    </p>
                                                 </div>
                                                 <div className="text-sm font-mono text-neutral-300 self-center">
                                                     {formatPrice(item.subtotal)}
@@ -651,6 +618,17 @@ export default function CheckoutPage() {
                                             <span>Tạm tính</span>
                                             <span className="text-white font-mono">{formatPrice(cart.subtotal)}</span>
                                         </div>
+                                        {discount > 0 && coupon && (
+                                            <div className="flex justify-between text-neutral-400">
+                                                <span className="flex items-center gap-2">
+                                                    Giảm giá
+                                                    <span className="flex items-center gap-1 text-[10px] font-mono font-bold uppercase tracking-wider text-green-400 bg-green-500/10 border border-green-500/20 px-1.5 py-0.5 rounded-md">
+                                                        <Tag size={10} /> {coupon.code}
+                                                    </span>
+                                                </span>
+                                                <span className="text-green-400 font-mono">-{formatPrice(discount)}</span>
+                                            </div>
+                                        )}
                                         <div className="flex justify-between text-neutral-400">
                                             <span className="flex items-center gap-2">
                                                 Phí vận chuyển
@@ -6,20 +6,13 @@ import Link from 'next/link';
 import { CheckCircle, Package, ArrowRight, Home, Loader2 } from 'lucide-react';
 import { AuroraBackground } from '@/components/ui/aurora-background';
 import { Button } from '@/components/ui/button';
-import api from '@/lib/api';
-
-interface Order {
-    id: string;
-    order_number: string;
-    total: number;
-    status_display: string;
-    payment_status: string;
-}
+import { ordersService } from '@/services/orders';
+import type { OrderDetail } from '@/types/order';
 
 function SuccessContent() {
     const searchParams = useSearchParams();
     const orderNumber = searchParams.get('order_number');
-    const [order, setOrder] = useState<Order | null>(null);
+    const [order, setOrder] = useState<OrderDetail | null>(null);
     const [isLoading, setIsLoading] = useState(true);
 
     useEffect(() => {
@@ -36,33 +29,30 @@ function SuccessContent() {
                     });
 
                     // Verify with backend
-                    const verifyRes = await api.post('/payments/vnpay/verify/', params);
+                    const verifyRes = await ordersService.verifyVNPay(params);
 
-                    if (verifyRes.data.success) {
+                    if (verifyRes.success) {
                         // Verification successful, fetch fresh order data
-                        const oNumber = verifyRes.data.order_number || searchParams.get('vnp_TxnRef'); // Fallback if backend doesn't return order_number in verify
+                        const oNumber = verifyRes.order_number || searchParams.get('vnp_TxnRef') || ''; // Fallback if backend doesn't return order_number in verify
                         // Wait a bit for DB propagation if needed, though verify is sync
-                        const response = await api.get(`/orders/${oNumber}/`);
-                        setOrder(response.data);
+                        setOrder(await ordersService.getOrder(oNumber));
                     } else {
                         // Verification failed
-                        window.location.href = `/checkout?payment=failed&reason=${verifyRes.data.message}`;
+                        window.location.href = `/checkout?payment=failed&reason=${verifyRes.message}`;
                         return;
                     }
                 } catch (error) {
                     console.error('Verification failed:', error);
                     // Might be already verified or network error, verify by just fetching order
                     if (orderNumber) {
-                        const response = await api.get(`/orders/${orderNumber}/`);
-                        setOrder(response.data);
+                        setOrder(await ordersService.getOrder(orderNumber));
                     }
                 }
             }
             // Case 2: Just viewing success page (Already Verified)
             else if (orderNumber) {
                 try {
-                    const response = await api.get(`/orders/${orderNumber}/`);
-                    setOrder(response.data);
+                    setOrder(await ordersService.getOrder(orderNumber));
                 } catch (error) {
                     console.error('Failed to fetch order:', error);
                 }
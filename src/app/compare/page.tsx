@@ -0,0 +1,253 @@
+'use client';
+
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { GitCompareArrows, ShoppingBag, ArrowRight, Loader2, X, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AuroraBackground } from '@/components/ui/aurora-background';
+import { Button } from '@/components/ui/button';
+import { getApiError } from '@/lib/api';
+import { buildCompareRows } from '@/lib/compare';
+import { cn, formatPrice } from '@/lib/utils';
+import { catalogService } from '@/services/catalog';
+import { useCartStore } from '@/store/cart-store';
+import { MAX_COMPARE_ITEMS, useCompareStore } from '@/store/compare-store';
+import type { ProductDetail } from '@/types/product';
+
+// The store is rehydrated after mount (see CompareTray); until then it looks empty
+const useCompareHydrated = () => useSyncExternalStore(
+    useCompareStore.persist.onFinishHydration,
+    useCompareStore.persist.hasHydrated,
+    () => false
+);
+
+export default function ComparePage() {
+    const hasHydrated = useCompareHydrated();
+    const { items, removeFromCompare, clearCompare } = useCompareStore();
+    const { addToCart } = useCartStore();
+
+    // Keyed by slug so removing a column doesn't refetch the others
+    const [details, setDetails] = useState<Record<string, ProductDetail>>({});
+    const [failedSlugs, setFailedSlugs] = useState<string[]>([]);
+    const [onlyDifferences, setOnlyDifferences] = useState(false);
+    const [addingId, setAddingId] = useState<string | null>(null);
+
+    // Slugs already fetched or in flight; a removed column's result is kept in case it comes back
+    const requestedSlugs = useRef(new Set<string>());
+
+    useEffect(() => {
+        const missing = items.filter(item => !requestedSlugs.current.has(item.slug));
+        if (missing.length === 0) return;
+        missing.forEach(item => requestedSlugs.current.add(item.slug));
+
+        const fetchDetails = async () => {
+            const results = await Promise.allSettled(missing.map(item => catalogService.getProduct(item.slug)));
+
+            const loaded: Record<string, ProductDetail> = {};
+            const failed: string[] = [];
+            results.forEach((result, index) => {
+                if (result.status === 'fulfilled') {
+                    loaded[missing[index].slug] = result.value;
+                } else {
+                    console.error(`Failed to load ${missing[index].slug}:`, result.reason);
+                    failed.push(missing[index].slug);
+                }
+            });
+            setDetails(prev => ({ ...prev, ...loaded }));
+            if (failed.length) setFailedSlugs(prev => [...prev, ...failed]);
+        };
+        fetchDetails();
+    }, [items]);
+
+    const products = items.map(item => details[item.slug]).filter((p): p is ProductDetail => !!p);
+    const failedItems = items.filter(item => failedSlugs.includes(item.slug));
+    const isLoading = !hasHydrated || products.length + failedItems.length < items.length;
+
+    const rows = buildCompareRows(products);
+    const visibleRows = onlyDifferences ? rows.filter(row => row.differs) : rows;
+
+    const handleAddToCart = async (product: ProductDetail) => {
+        setAddingId(product.id);
+        try {
+            await addToCart(product.id, 1, product);
+            toast.success('Added to cart');
+        } catch (error) {
+            toast.error(getApiError(error, 'Failed to add to cart').message);
+        } finally {
+            setAddingId(null);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-black text-white font-sans selection:bg-purple-500/30">
+            {/* Background */}
+            <div className="fixed inset-0 z-0 pointer-events-none">
+                <AuroraBackground className="h-full w-full">
+                    <></>
+                </AuroraBackground>
+            </div>
+
+            <div className="relative z-10 w-full min-h-screen pb-20 pt-32 px-4 md:px-6">
+                <div className="container mx-auto max-w-7xl">
+
+                    {/* Page Header */}
+                    <div className="flex flex-col md:flex-row md:items-end justify-between mb-12 pb-6 border-b border-white/10 gap-4">
+                        <div>
+                            <h1 className="text-4xl md:text-6xl font-display font-bold text-white tracking-tighter mb-2">Compare</h1>
+                            <p className="text-neutral-400 text-lg">
+                                Up to {MAX_COMPARE_ITEMS} products side by side. Rows that differ are highlighted.
+                            </p>
+                        </div>
+
+                        {items.length > 0 && (
+                            <div className="flex items-center gap-4">
+                                <label className="flex items-center gap-2 text-sm text-neutral-400 cursor-pointer hover:text-white transition-colors">
+                                    <input
+                                        type="checkbox"
+                                        checked={onlyDifferences}
+                                        onChange={(e) => setOnlyDifferences(e.target.checked)}
+                                        className="w-4 h-4 rounded border-white/20 bg-black/40 text-purple-600 focus:ring-purple-500 focus:ring-offset-0"
+                                    />
+                                    Only show differences
+                                </label>
+                                <button
+                                    onClick={clearCompare}
+                                    className="text-xs font-bold uppercase tracking-widest text-neutral-500 hover:text-red-400 transition-colors px-4 py-2 rounded-lg hover:bg-white/5"
+                                >
+                                    Clear All
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {hasHydrated && items.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center rounded-3xl border border-dashed border-white/10 bg-white/5 py-32 text-center">
+                            <div className="w-16 h-16 bg-white/5 rounded-full flex items-center justify-center mb-4">
+                                <GitCompareArrows size={32} className="text-neutral-500" />
+                            </div>
+                            <h3 className="text-xl font-bold text-white">Nothing to compare yet</h3>
+                            <p className="mt-2 text-neutral-400 max-w-md mx-auto">
+                                Use the compare button on any product to add it here.
+                            </p>
+                            <Button asChild variant="outline" className="mt-8 border-white/10 text-white hover:bg-white/10">
+                                <Link href="/products">
+                                    Browse Products <ArrowRight size={16} className="ml-2" />
+                                </Link>
+                            </Button>
+                        </div>
+                    ) : isLoading ? (
+                        <div className="flex items-center justify-center h-[400px]">
+                            <Loader2 className="w-8 h-8 text-purple-500 animate-spin" />
+                        </div>
+                    ) : (
+                        <>
+                            {failedItems.map(item => (
+                                <div key={item.id} className="flex items-center gap-3 mb-4 px-4 py-3 rounded-xl border border-red-500/20 bg-red-500/10 text-sm text-red-300">
+                                    <AlertCircle className="w-4 h-4 shrink-0" />
+                                    <span className="flex-1">{item.name} is no longer available.</span>
+                                    <button onClick={() => removeFromCompare(item.id)} className="font-bold hover:text-white">Remove</button>
+                                </div>
+                            ))}
+
+                            <div className="overflow-x-auto rounded-3xl border border-white/10 bg-white/5 backdrop-blur-xl custom-scrollbar">
+                                <table className="w-full min-w-[640px] table-fixed text-sm">
+                                    <thead>
+                                        <tr className="border-b border-white/10">
+                                            <th className="w-40 p-4" />
+                                            {products.map(product => {
+                                                const needsOptions = (product.variants?.length ?? 0) > 0;
+                                                return (
+                                                    <th key={product.id} className="p-4 align-top text-left font-normal">
+                                                        <div className="relative">
+                                                            <button
+                                                                onClick={() => removeFromCompare(product.id)}
+                                                                className="absolute right-2 top-2 z-10 w-8 h-8 rounded-full flex items-center justify-center bg-black/60 text-white/70 hover:text-white border border-white/10"
+                                                                aria-label={`Remove ${product.name} from compare`}
+                                                            >
+                                                                <X size={14} />
+                                                            </button>
+                                                            <Link href={`/products/${product.slug}`} className="group block">
+                                                                <div className="relative aspect-square w-full overflow-hidden rounded-2xl bg-black/20 border border-white/5">
+                                                                    {product.primary_image ? (
+                                                                        <Image
+                                                                            src={product.primary_image}
+                                                                            alt={product.name}
+                                                                            fill
+                                                                            className="object-cover transition-transform duration-700 group-hover:scale-105"
+                                                                            sizes="(max-width: 768px) 50vw, 25vw"
+                                                                        />
+                                                                    ) : (
+                                                                        <div className="flex h-full w-full items-center justify-center text-neutral-700">
+                                                                            <ShoppingBag size={32} />
+                                                                        </div>
+                                                                    )}
+                                                                </div>
+                                                                <p className="mt-3 line-clamp-2 font-bold text-white group-hover:text-purple-300 transition-colors">{product.name}</p>
+                                                            </Link>
+                                                            <p className="mt-1 font-mono text-lg font-bold text-white">{formatPrice(product.current_price)}</p>
+
+                                                            {needsOptions ? (
+                                                                <Button asChild variant="outline" className="mt-3 w-full rounded-xl border-white/10 text-white hover:bg-white/10">
+                                                                    <Link href={`/products/${product.slug}`}>Choose Options</Link>
+                                                                </Button>
+                                                            ) : (
+                                                                <Button
+                                                                    onClick={() => handleAddToCart(product)}
+                                                                    disabled={!product.is_in_stock || addingId === product.id}
+                                                                    className="mt-3 w-full rounded-xl bg-white text-black hover:bg-neutral-200 font-bold"
+                                                                >
+                                                                    {addingId === product.id ? <Loader2 className="w-4 h-4 animate-spin" /> : product.is_in_stock ? 'Add to Cart' : 'Sold Out'}
+                                                                </Button>
+                                                            )}
+                                                        </div>
+                                                    </th>
+                                                );
+                                            })}
+                                            {products.length < MAX_COMPARE_ITEMS && (
+                                                <th className="p-4 align-top font-normal">
+                                                    <Link
+                                                        href="/products"
+                                                        className="flex aspect-square w-full flex-col items-center justify-center gap-2 rounded-2xl border-2 border-dashed border-white/10 text-neutral-500 hover:border-purple-500/30 hover:text-purple-300 transition-colors"
+                                                    >
+                                                        <GitCompareArrows size={24} />
+                                                        <span className="text-xs font-bold uppercase tracking-widest">Add Product</span>
+                                                    </Link>
+                                                </th>
+                                            )}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {visibleRows.map(row => (
+                                            <tr key={row.label} className={cn("border-b border-white/5 last:border-0", row.differs && products.length > 1 && "bg-purple-500/[0.07]")}>
+                                                <th scope="row" className="p-4 text-left align-top text-xs font-bold uppercase tracking-widest text-neutral-500">
+                                                    {row.label}
+                                                </th>
+                                                {row.values.map((value, index) => (
+                                                    <td
+                                                        key={products[index].id}
+                                                        className={cn("p-4 align-top", row.differs && products.length > 1 ? "text-white font-medium" : "text-neutral-400")}
+                                                    >
+                                                        {value}
+                                                    </td>
+                                                ))}
+                                                {products.length < MAX_COMPARE_ITEMS && <td />}
+                                            </tr>
+                                        ))}
+                                        {visibleRows.length === 0 && (
+                                            <tr>
+                                                <td colSpan={products.length + (products.length < MAX_COMPARE_ITEMS ? 2 : 1)} className="p-10 text-center text-neutral-500">
+                                                    These products have the same specs.
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -7,7 +7,7 @@ import { z } from 'zod';
 import { Mail, ArrowLeft, Loader2, KeyRound } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useState } from 'react';
-import api from '@/lib/api';
+import { authService } from '@/services/auth';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -35,7 +35,7 @@ export default function ForgotPasswordPage() {
     const onSubmit = async (data: ForgotPasswordForm) => {
         setIsSubmitting(true);
         try {
-            await api.post('/auth/password-reset/', data);
+            await authService.requestPasswordReset(data.email);
             // Always show success to prevent email enumeration (though backend handles this logic too)
             setIsSent(true);
             toast.success('Đường dẫn đặt lại mật khẩu đã được gửi đến email của bạn.');
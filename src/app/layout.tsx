@@ -3,6 +3,7 @@ import type { Metadata } from 'next';
 import './globals.css';
 import Layout from '@/components/layout/Layout';
 import { Providers } from './providers';
+import { SITE_URL } from '@/lib/server-api';
 
 const inter = Inter({ subsets: ['latin'], variable: '--font-inter' });
 const instrument = Instrument_Sans({
@@ -11,6 +12,8 @@ const instrument = Instrument_Sans({
 });
 
 export const metadata: Metadata = {
+  // Resolves relative canonical and OpenGraph URLs set by pages
+  metadataBase: new URL(SITE_URL),
   title: 'OWLS - Future Tech Store',
   description: 'Premium Technology & Lifestyle',
 };
@@ -2,6 +2,7 @@
 
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { isAxiosError } from 'axios';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -9,7 +10,7 @@ import { Mail, Lock, Eye, EyeOff, ArrowLeft, Github, Chrome, AlertCircle, Shield
 import toast from 'react-hot-toast';
 import { useState, useRef, useEffect } from 'react';
 import { useAuthStore } from '@/store/auth-store';
-import api from '@/lib/api';
+import { getApiError } from '@/lib/api';
 import { Loader2 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
@@ -25,6 +26,12 @@ const loginSchema = z.object({
 
 type LoginForm = z.infer<typeof loginSchema>;
 
+// Where ?redirect= asked to go after signing in; only paths on this site, never "//host" or "/\host"
+const getRedirectPath = () => {
+    const target = new URLSearchParams(window.location.search).get('redirect');
+    return target && target.startsWith('/') && !/^\/[/\\]/.test(target) ? target : '/';
+};
+
 export default function LoginPage() {
     const router = useRouter();
     const { login } = useAuthStore();
@@ -86,7 +93,7 @@ export default function LoginPage() {
             const res = await login(data.email, data.password);
 
             if (res?.requires_2fa) {
-                setTempToken(res.temp_token);
+                setTempToken(res.temp_token ?? '');
                 setStep('2fa');
                 // Check if user has preferences? For now default to TOTP
                 toast.custom((t) => (
@@ -102,12 +109,15 @@ export default function LoginPage() {
             }
 
             toast.success('Welcome back.');
-            router.push('/');
-        } catch (error: any) {
+            router.push(getRedirectPath());
+        } catch (error) {
             // Security: Use generic error message to prevent User Enumeration
             // error.response?.data?.detail might reveal "User not found" vs "Wrong password"
             console.error("Login Error:", error);
-            toast.error('Invalid email or password');
+            const { status, message } = getApiError(error);
+            // Connection problems and throttling are safe (and useful) to show as-is
+            const isNetworkError = isAxiosError(error) && !error.response;
+            toast.error(isNetworkError || status === 429 ? message : 'Invalid email or password');
         } finally {
             setIsSubmitting(false);
         }
@@ -121,7 +131,7 @@ export default function LoginPage() {
             setEmailCooldown(60);
             toast.success("Verification code sent to your email.");
         } catch (error) {
-            toast.error("Failed to send email. Please try again.");
+            toast.error(getApiError(error, "Failed to send email. Please try again.").message);
         }
     };
 
@@ -136,16 +146,9 @@ export default function LoginPage() {
             await useAuthStore.getState().verify2FA(tempToken, otpCode, isBackup);
 
             toast.success('Verified successfully.');
-            router.push('/');
-        } catch (error: unknown) {
-            if (typeof error === 'object' && error !== null && 'response' in error && typeof (error as any).response === 'object' && (error as any).response !== null && 'data' in (error as any).response) {
-                const errorData = (error as any).response.data;
-                toast.error(errorData.detail || errorData.error || 'Verification failed');
-            } else if (error instanceof Error) {
-                toast.error(error.message);
-            } else {
-                toast.error('An unexpected error occurred');
-            }
+            router.push(getRedirectPath());
+        } catch (error) {
+            toast.error(getApiError(error, 'Verification failed').message);
         } finally {
             setIsSubmitting(false);
         }
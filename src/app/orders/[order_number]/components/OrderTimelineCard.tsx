@@ -0,0 +1,72 @@
+'use client';
+
+import { History, Truck, ExternalLink, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getGhnStatusLabel, getGhnTrackingUrl } from '@/lib/shipping';
+import { OrderTimeline } from '@/components/orders/OrderTimeline';
+import type { OrderDetail } from '@/types/order';
+
+export function OrderTimelineCard({ order }: { order: OrderDetail }) {
+    return (
+        <OrderTimeline
+            statusHistory={order.status_history}
+            trackingCode={order.tracking_code}
+            emptyText="Chưa có cập nhật nào cho đơn hàng."
+            hideWhenEmpty
+            header={({ tracking, isLoading, error, refresh }) => (
+                <div className="px-6 pt-6 space-y-4">
+                    <div className="flex items-center justify-between gap-3">
+                        <h3 className="font-bold text-white flex items-center gap-2">
+                            <History size={18} className="text-purple-400" />
+                            Lịch sử đơn hàng
+                        </h3>
+                        {order.tracking_code && (
+                            <button
+                                type="button"
+                                onClick={refresh}
+                                disabled={isLoading}
+                                className="text-neutral-500 hover:text-white transition-colors disabled:opacity-50"
+                                aria-label="Cập nhật hành trình"
+                            >
+                                <RefreshCw size={16} className={cn(isLoading && "animate-spin")} />
+                            </button>
+                        )}
+                    </div>
+
+                    {order.tracking_code && (
+                        <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-black/20 rounded-2xl border border-white/5 text-sm">
+                            <div className="flex items-center gap-3">
+                                <Truck size={18} className="text-purple-400" />
+                                <div>
+                                    <p className="text-xs text-neutral-500 font-bold uppercase tracking-widest">Mã vận đơn GHN</p>
+                                    <a
+                                        href={getGhnTrackingUrl(order.tracking_code)}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="font-mono font-bold text-white hover:text-purple-400 transition-colors inline-flex items-center gap-1"
+                                    >
+                                        {order.tracking_code}
+                                        <ExternalLink size={12} />
+                                    </a>
+                                </div>
+                            </div>
+                            {tracking && (
+                                <div className="text-right">
+                                    <p className="text-white font-bold">{getGhnStatusLabel(tracking.status)}</p>
+                                    {tracking.leadtime && (
+                                        <p className="text-xs text-neutral-500">
+                                            Dự kiến giao: {new Date(tracking.leadtime).toLocaleDateString('vi-VN')}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                            {error && !tracking && (
+                                <p className="text-xs text-neutral-500">Chưa lấy được hành trình từ GHN</p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        />
+    );
+}
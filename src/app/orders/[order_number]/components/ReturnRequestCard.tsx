@@ -0,0 +1,78 @@
+'use client';
+
+import { RotateCcw, CheckCircle, XCircle, Clock, Package, Wallet } from 'lucide-react';
+import { cn, formatPrice } from '@/lib/utils';
+import { RETURN_STATUS_LABELS, getReturnReasonLabel } from '@/lib/orders';
+import type { ReturnRequest, ReturnRequestStatus } from '@/types/order';
+
+const STATUS_ICONS: Record<ReturnRequestStatus, typeof Clock> = {
+    requested: Clock,
+    approved: CheckCircle,
+    rejected: XCircle,
+    received: Package,
+    refunded: Wallet,
+};
+
+export function ReturnRequestCard({ request }: { request: ReturnRequest }) {
+    // Oldest first; the backend always records the initial "requested" event
+    const history = request.history.length > 0
+        ? request.history
+        : [{ status: request.status, note: '', created_at: request.created_at }];
+
+    return (
+        <div className="bg-white/5 border border-white/10 rounded-3xl p-6 backdrop-blur-xl">
+            <h3 className="font-bold text-white mb-4 flex items-center gap-2">
+                <RotateCcw size={18} className="text-purple-400" />
+                Yêu cầu đổi trả
+            </h3>
+
+            <div className="grid sm:grid-cols-2 gap-4 text-sm mb-6">
+                <div>
+                    <p className="text-xs text-neutral-500 font-bold uppercase tracking-widest mb-1">Lý do</p>
+                    <p className="text-white">{getReturnReasonLabel(request.reason)}</p>
+                </div>
+                <div>
+                    <p className="text-xs text-neutral-500 font-bold uppercase tracking-widest mb-1">Sản phẩm</p>
+                    {request.items.map(item => (
+                        <p key={item.order_item} className="text-white truncate">{item.product_name} <span className="text-neutral-500 font-mono">x{item.quantity}</span></p>
+                    ))}
+                </div>
+                {request.refund_amount !== null && (
+                    <div>
+                        <p className="text-xs text-neutral-500 font-bold uppercase tracking-widest mb-1">Số tiền hoàn</p>
+                        <p className="text-emerald-400 font-bold font-mono">{formatPrice(request.refund_amount)}</p>
+                    </div>
+                )}
+            </div>
+
+            {request.description && (
+                <p className="text-sm text-neutral-300 bg-black/20 p-4 rounded-xl border border-white/5 mb-6 italic">&quot;{request.description}&quot;</p>
+            )}
+
+            {/* Status Timeline */}
+            <ol className="relative border-l border-white/10 ml-3 space-y-6">
+                {history.map((event, index) => {
+                    const Icon = STATUS_ICONS[event.status] ?? Clock;
+                    const isLatest = index === history.length - 1;
+                    return (
+                        <li key={`${event.status}-${event.created_at}`} className="ml-6">
+                            <span className={cn(
+                                "absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full border bg-black",
+                                event.status === 'rejected'
+                                    ? "border-rose-500/50 text-rose-400"
+                                    : isLatest ? "border-purple-500 text-purple-400" : "border-white/20 text-neutral-500"
+                            )}>
+                                <Icon size={12} />
+                            </span>
+                            <p className={cn("text-sm font-bold", isLatest ? "text-white" : "text-neutral-400")}>
+                                {RETURN_STATUS_LABELS[event.status] ?? event.status}
+                            </p>
+                            <p className="text-xs text-neutral-500 font-mono">{new Date(event.created_at).toLocaleString('vi-VN')}</p>
+                            {event.note && <p className="text-xs text-neutral-400 mt-1">{event.note}</p>}
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+}
@@ -2,38 +2,19 @@
 
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { ArrowLeft, Calendar, Package, MapPin, CreditCard, CheckCircle, Clock, Truck, XCircle, ShoppingBag, Loader2 } from 'lucide-react';
+import { ArrowLeft, Calendar, Package, MapPin, CreditCard, CheckCircle, Clock, Truck, XCircle, ShoppingBag, Loader2, RotateCcw } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { AuroraBackground } from '@/components/ui/aurora-background';
+import { CancelOrderModal } from '@/components/modals/CancelOrderModal';
+import { ReturnRequestModal } from '@/components/modals/ReturnRequestModal';
 import { formatPrice, cn } from '@/lib/utils';
-import api from '@/lib/api';
+import { canCancelOrder, canRequestReturn } from '@/lib/orders';
+import { ordersService } from '@/services/orders';
+import type { OrderDetail } from '@/types/order';
 import toast from 'react-hot-toast';
-
-interface OrderItem {
-    id: number;
-    product_name: string;
-    product_image: string;
-    quantity: number;
-    price: number;
-    color: string | null;
-}
-
-interface OrderDetail {
-    order_number: string;
-    status: string;
-    status_display: string;
-    payment_status: string;
-    payment_method: string;
-    total: number;
-    shipping_fee: number;
-    subtotal: number;
-    created_at: string;
-    recipient_name: string;
-    phone: string;
-    full_address: string;
-    items: OrderItem[];
-}
+import { ReturnRequestCard } from './components/ReturnRequestCard';
+import { OrderTimelineCard } from './components/OrderTimelineCard';
 
 // Reusing Status Badge for consistency
 const StatusBadge = ({ status, label }: { status: string; label: string }) => {
@@ -70,6 +51,8 @@ export default function OrderDetailPage() {
 
     const [order, setOrder] = useState<OrderDetail | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [showCancelModal, setShowCancelModal] = useState(false);
+    const [showReturnModal, setShowReturnModal] = useState(false);
 
     useEffect(() => {
         if (!orderNumber) return;
@@ -77,8 +60,7 @@ export default function OrderDetailPage() {
         const fetchOrder = async () => {
             setIsLoading(true);
             try {
-                const response = await api.get(`/orders/${orderNumber}/`);
-                setOrder(response.data);
+                setOrder(await ordersService.getOrder(orderNumber));
             } catch (error) {
                 console.error('Failed to fetch order:', error);
                 toast.error('Không tìm thấy đơn hàng');
@@ -103,6 +85,21 @@ export default function OrderDetailPage() {
 
     return (
         <div className="min-h-screen bg-black text-white font-sans selection:bg-purple-500/30">
+            <CancelOrderModal
+                isOpen={showCancelModal}
+                onClose={() => setShowCancelModal(false)}
+                orderNumber={order.order_number}
+                isPaid={order.payment_status === 'paid'}
+                onCancelled={setOrder}
+            />
+            <ReturnRequestModal
+                isOpen={showReturnModal}
+                onClose={() => setShowReturnModal(false)}
+                orderNumber={order.order_number}
+                items={order.items}
+                onSubmitted={(request) => setOrder(prev => prev && { ...prev, return_request: request })}
+            />
+
             {/* Background */}
             <div className="fixed inset-0 z-0 pointer-events-none">
                 <AuroraBackground className="h-full w-full"><></></AuroraBackground>
@@ -131,9 +128,14 @@ export default function OrderDetailPage() {
 
                     {/* Status Timeline */}
                     {['cancelled', 'failed', 'refunded'].includes(order.status) ? (
-                        <div className="flex items-center justify-center gap-3 py-6 bg-red-500/10 rounded-2xl border border-red-500/20 mb-8">
-                            <XCircle className="text-red-500" size={24} />
-                            <span className="font-bold text-red-500 uppercase tracking-widest">Đơn hàng đã bị hủy</span>
+                        <div className="flex flex-col items-center justify-center gap-2 py-6 bg-red-500/10 rounded-2xl border border-red-500/20 mb-8">
+                            <div className="flex items-center gap-3">
+                                <XCircle className="text-red-500" size={24} />
+                                <span className="font-bold text-red-500 uppercase tracking-widest">Đơn hàng đã bị hủy</span>
+                            </div>
+                            {order.cancel_reason && (
+                                <p className="text-xs text-red-300/80">Lý do: {order.cancel_reason}</p>
+                            )}
                         </div>
                     ) : (
                         <div className="bg-white/5 border border-white/10 rounded-3xl p-8 mb-8 backdrop-blur-xl">
@@ -220,7 +222,9 @@ export default function OrderDetailPage() {
                                             <div className="flex-1 min-w-0 flex flex-col justify-between">
                                                 <div>
                                                     <h4 className="font-bold text-white text-sm line-clamp-2 leading-snug mb-1">{item.product_name}</h4>
-                                                    {item.color && (
+                                                    {item.variant_name ? (
+                                                        <p className="text-xs text-neutral-400">Phân loại: {item.variant_name}</p>
+                                                    ) : item.color && (
                                                         <p className="text-xs text-neutral-400">Màu sắc: {item.color}</p>
                                                     )}
                                                 </div>
@@ -249,13 +253,17 @@ export default function OrderDetailPage() {
                                     <p className="text-xs text-neutral-400 font-bold uppercase tracking-widest mb-0.5">Trạng thái</p>
                                     <span className={cn(
                                         "font-bold text-sm uppercase",
-                                        order.payment_status === 'paid' ? "text-emerald-400" : "text-amber-400"
+                                        order.payment_status === 'paid' ? "text-emerald-400" : order.payment_status === 'refunded' ? "text-blue-400" : "text-amber-400"
                                     )}>
-                                        {order.payment_status === 'paid' ? 'Đã thanh toán' : 'Chưa thanh toán'}
+                                        {order.payment_status === 'paid' ? 'Đã thanh toán' : order.payment_status === 'refunded' ? 'Đã hoàn tiền' : 'Chưa thanh toán'}
                                     </span>
                                 </div>
                             </div>
 
+                            <OrderTimelineCard order={order} />
+
+                            {order.return_request && <ReturnRequestCard request={order.return_request} />}
+
                         </div>
 
                         {/* Sidebar: Summary & Address */}
@@ -283,7 +291,26 @@ export default function OrderDetailPage() {
                                     </div>
                                 </div>
 
-                                {/* Could add action buttons here later like Reorder or Cancel */}
+                                {canCancelOrder(order) && (
+                                    <Button
+                                        variant="outline"
+                                        onClick={() => setShowCancelModal(true)}
+                                        className="w-full border-rose-500/20 text-rose-400 hover:bg-rose-500/10 hover:text-rose-300 rounded-xl h-11 bg-transparent"
+                                    >
+                                        <XCircle size={16} className="mr-2" />
+                                        Hủy đơn hàng
+                                    </Button>
+                                )}
+                                {canRequestReturn(order) && (
+                                    <Button
+                                        variant="outline"
+                                        onClick={() => setShowReturnModal(true)}
+                                        className="w-full border-white/10 text-white hover:bg-white/10 rounded-xl h-11 bg-transparent"
+                                    >
+                                        <RotateCcw size={16} className="mr-2" />
+                                        Yêu cầu đổi trả
+                                    </Button>
+                                )}
                             </div>
 
                             {/* Shipping Address */}
@@ -10,22 +10,11 @@ import { Button } from '@/components/ui/button';
 import {
   ArrowRight, Shield, Truck, Clock, Star, ShoppingBag, Zap, Award, Sparkles
 } from 'lucide-react';
-import api from '@/lib/api';
+import { unwrapList } from '@/lib/list';
+import { catalogService } from '@/services/catalog';
+import type { Product } from '@/types/product';
 import { cn } from '@/lib/utils';
 
-// --- TYPES ---
-interface Product {
-  id: string;
-  name: string;
-  slug: string;
-  price: number;
-  sale_price: number | null;
-  current_price: number;
-  primary_image: string | null;
-  category: { name: string };
-  rating?: number;
-}
-
 // --- ANIMATION VARIANTS ---
 const marqueeVariants: Variants = {
   animate: {
@@ -147,9 +136,8 @@ export default function HomePage() {
     const fetchFeatured = async () => {
       try {
         // Fetch latest products to ensure "Trending/New" is always populated
-        const response = await api.get('/catalog/products/?ordering=-created_at');
-        const data = response.data.results || response.data;
-        setFeaturedProducts(data.slice(0, 4));
+        const data = await catalogService.getProducts({ ordering: '-created_at' });
+        setFeaturedProducts(unwrapList(data).slice(0, 4));
       } catch (error) {
         console.error('Failed to fetch featured products', error);
       } finally {
@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { unwrapList } from '@/lib/list';
+import { rankRelatedProducts } from '@/lib/recommendations';
+import { catalogService } from '@/services/catalog';
+import { useRecentlyViewedStore } from '@/store/recently-viewed-store';
+import type { Product } from '@/types/product';
+import { ProductRail } from '@/components/product/ProductRail';
+
+export function ProductRecommendations({ product }: { product: Product }) {
+    // null while loading
+    const [related, setRelated] = useState<Product[] | null>(null);
+    const [boughtTogether, setBoughtTogether] = useState<Product[] | null>(null);
+    const { items: recentlyViewed, clearRecentlyViewed } = useRecentlyViewedStore();
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const fetchRelated = async () => {
+            // Same category and same brand are two separate listings; merge and rank them
+            const queries = [
+                catalogService.getProducts({ category__slug: product.category?.slug }),
+                ...(product.brand ? [catalogService.getProducts({ brand: product.brand })] : []),
+            ];
+            const results = await Promise.allSettled(queries);
+            if (cancelled) return;
+
+            const candidates = results.flatMap(result => result.status === 'fulfilled' ? unwrapList(result.value) : []);
+            setRelated(rankRelatedProducts(product, candidates));
+        };
+
+        const fetchBoughtTogether = async () => {
+            try {
+                const products = await catalogService.getFrequentlyBoughtTogether(product.slug);
+                if (!cancelled) setBoughtTogether(products.filter(p => p.id !== product.id));
+            } catch (error) {
+                // Not enough order history yet is normal; just leave the rail out
+                console.error('Failed to fetch frequently bought together:', error);
+                if (!cancelled) setBoughtTogether([]);
+            }
+        };
+
+        fetchRelated();
+        fetchBoughtTogether();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [product]);
+
+    const otherRecentlyViewed = recentlyViewed.filter(item => item.id !== product.id);
+
+    return (
+        <div className="max-w-7xl mx-auto">
+            <ProductRail
+                title="Frequently Bought Together"
+                subtitle="Customers who bought this also picked up"
+                products={boughtTogether}
+            />
+            <ProductRail
+                title="Related Products"
+                subtitle={product.category?.name ? `More from ${product.category.name}` : undefined}
+                products={related}
+            />
+            <ProductRail
+                title="Recently Viewed"
+                products={otherRecentlyViewed}
+                action={
+                    <button
+                        onClick={clearRecentlyViewed}
+                        className="text-xs font-bold uppercase tracking-widest text-neutral-500 hover:text-white transition-colors"
+                    >
+                        Clear
+                    </button>
+                }
+            />
+        </div>
+    );
+}
@@ -0,0 +1,422 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Star, ThumbsUp, Pencil, Trash2, ImagePlus, X, Loader2, Lock, Clock, EyeOff } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { usePhotoPicker } from '@/hooks/use-photo-picker';
+import { getApiError } from '@/lib/api';
+import { handleFormError } from '@/lib/form-errors';
+import { cn } from '@/lib/utils';
+import { reviewsService } from '@/services/reviews';
+import { useAuthStore } from '@/store/auth-store';
+import type { Review, ReviewEligibility } from '@/types/product';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+const reviewSchema = z.object({
+    rating: z.number().int().min(1, 'Please choose a rating').max(5),
+    comment: z.string().trim().min(10, 'Tell us a bit more (at least 10 characters)').max(2000, 'Review is too long'),
+});
+
+type ReviewForm = z.infer<typeof reviewSchema>;
+
+// --- Star Input ---
+
+function StarInput({ value, onChange, disabled }: { value: number; onChange: (value: number) => void; disabled?: boolean }) {
+    const [hovered, setHovered] = useState(0);
+    const shown = hovered || value;
+
+    return (
+        <div className="flex gap-1" onMouseLeave={() => setHovered(0)}>
+            {[1, 2, 3, 4, 5].map((star) => (
+                <button
+                    key={star}
+                    type="button"
+                    disabled={disabled}
+                    onClick={() => onChange(star)}
+                    onMouseEnter={() => setHovered(star)}
+                    aria-label={`${star} star${star > 1 ? 's' : ''}`}
+                    className="p-0.5 transition-transform hover:scale-110 disabled:cursor-not-allowed"
+                >
+                    <Star size={24} className={star <= shown ? 'text-yellow-500 fill-current' : 'text-neutral-700 fill-neutral-700'} />
+                </button>
+            ))}
+        </div>
+    );
+}
+
+// --- Review Form ---
+
+interface ReviewFormProps {
+    slug: string;
+    review?: Review; // editing when set
+    onSaved: () => void;
+    onCancel?: () => void;
+}
+
+function ReviewFormCard({ slug, review, onSaved, onCancel }: ReviewFormProps) {
+    const [removedImageIds, setRemovedImageIds] = useState<number[]>([]);
+
+    const {
+        register,
+        handleSubmit,
+        control,
+        setError,
+        formState: { errors, isSubmitting },
+    } = useForm<ReviewForm>({
+        resolver: zodResolver(reviewSchema),
+        defaultValues: { rating: review?.rating ?? 0, comment: review?.comment ?? '' },
+    });
+
+    const keptImages = (review?.images || []).filter(img => !removedImageIds.includes(img.id));
+    const {
+        photos: newPhotos,
+        remaining,
+        handlePhotosSelected,
+        removePhoto: removeNewPhoto,
+        clearPhotos,
+    } = usePhotoPicker({
+        existingCount: keptImages.length,
+        messages: {
+            notImage: (name) => `${name} is not an image`,
+            tooLarge: (name) => `${name} is larger than 5MB`,
+            tooMany: (max) => `You can attach up to ${max} photos`,
+        },
+    });
+
+    const onSubmit = async (data: ReviewForm) => {
+        const payload = { ...data, images: newPhotos.map(photo => photo.file) };
+        try {
+            if (review) {
+                await reviewsService.updateReview(review.id, { ...payload, remove_image_ids: removedImageIds });
+                toast.success('Review updated');
+            } else {
+                await reviewsService.createReview(slug, payload);
+                toast.success('Thanks! Your review has been submitted');
+            }
+            clearPhotos();
+            setRemovedImageIds([]);
+            onSaved();
+        } catch (error) {
+            handleFormError(error, {
+                fallback: 'Failed to save review',
+                setError,
+                fields: Object.keys(reviewSchema.shape),
+            });
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit(onSubmit)} className="bg-white/5 border border-white/10 rounded-2xl p-6 space-y-5">
+            <div>
+                <p className="text-xs font-bold uppercase tracking-widest text-neutral-500 mb-2">Your rating</p>
+                <Controller
+                    name="rating"
+                    control={control}
+                    render={({ field }) => <StarInput value={field.value} onChange={field.onChange} disabled={isSubmitting} />}
+                />
+                {errors.rating && <p className="text-xs text-red-400 mt-1">{errors.rating.message}</p>}
+            </div>
+
+            <div>
+                <Textarea
+                    {...register('comment')}
+                    placeholder="What did you like or dislike? How are you using it?"
+                    rows={4}
+                    disabled={isSubmitting}
+                    className="bg-black/20 border-white/10 text-white rounded-xl focus-visible:ring-purple-500/50"
+                />
+                {errors.comment && <p className="text-xs text-red-400 mt-1">{errors.comment.message}</p>}
+            </div>
+
+            {/* Photos */}
+            <div className="flex flex-wrap gap-3">
+                {keptImages.map((img) => (
+                    <div key={img.id} className="relative w-20 h-20 rounded-xl overflow-hidden border border-white/10">
+                        <Image src={img.image} alt="Review photo" fill sizes="80px" className="object-cover" />
+                        <button
+                            type="button"
+                            onClick={() => setRemovedImageIds(prev => [...prev, img.id])}
+                            className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/70 flex items-center justify-center text-white hover:bg-red-500"
+                            aria-label="Remove photo"
+                        >
+                            <X size={12} />
+                        </button>
+                    </div>
+                ))}
+                {newPhotos.map((photo, index) => (
+                    <div key={photo.preview} className="relative w-20 h-20 rounded-xl overflow-hidden border border-white/10">
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img src={photo.preview} alt="New review photo" className="w-full h-full object-cover" />
+                        <button
+                            type="button"
+                            onClick={() => removeNewPhoto(index)}
+                            className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/70 flex items-center justify-center text-white hover:bg-red-500"
+                            aria-label="Remove photo"
+                        >
+                            <X size={12} />
+                        </button>
+                    </div>
+                ))}
+                {remaining > 0 && (
+                    <label className="w-20 h-20 rounded-xl border border-dashed border-white/20 flex flex-col items-center justify-center gap-1 text-neutral-500 hover:text-white hover:border-purple-500/50 cursor-pointer transition-colors">
+                        <ImagePlus size={18} />
+                        <span className="text-[10px] font-bold uppercase">Photo</span>
+                        <input type="file" accept="image/*" multiple className="hidden" onChange={handlePhotosSelected} disabled={isSubmitting} />
+                    </label>
+                )}
+            </div>
+
+            <div className="flex items-center justify-end gap-3">
+                {onCancel && (
+                    <Button type="button" variant="ghost" onClick={onCancel} disabled={isSubmitting} className="text-neutral-400 hover:text-white">
+                        Cancel
+                    </Button>
+                )}
+                <Button type="submit" disabled={isSubmitting} className="bg-white text-black hover:bg-neutral-200 rounded-xl font-bold min-w-[140px]">
+                    {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : review ? 'Save changes' : 'Submit review'}
+                </Button>
+            </div>
+        </form>
+    );
+}
+
+// --- Review List Item ---
+
+interface ReviewItemProps {
+    review: Review;
+    onEdit: () => void;
+    onDelete: () => void;
+    onToggleHelpful: () => void;
+    isDeleting: boolean;
+}
+
+function ReviewItem({ review, onEdit, onDelete, onToggleHelpful, isDeleting }: ReviewItemProps) {
+    return (
+        <div className="border-b border-white/10 pb-8 last:border-0">
+            <div className="flex items-start justify-between mb-4">
+                <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 bg-gradient-to-br from-purple-500/20 to-blue-500/20 flex items-center justify-center font-bold text-white rounded-full border border-white/10 text-lg">
+                        {review.user_name[0]?.toUpperCase()}
+                    </div>
+                    <div>
+                        <p className="font-bold text-white flex items-center gap-2">
+                            {review.user_name}
+                            {review.is_owner && review.status === 'pending' && (
+                                <span className="inline-flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-amber-400 bg-amber-500/10 border border-amber-500/20 px-2 py-0.5 rounded-full">
+                                    <Clock size={10} /> Pending approval
+                                </span>
+                            )}
+                            {review.is_owner && review.status === 'hidden' && (
+                                <span className="inline-flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-rose-400 bg-rose-500/10 border border-rose-500/20 px-2 py-0.5 rounded-full">
+                                    <EyeOff size={10} /> Hidden
+                                </span>
+                            )}
+                        </p>
+                        <div className="flex text-yellow-500 mt-1">
+                            {[...Array(5)].map((_, i) => (
+                                <Star key={i} size={14} className={i < review.rating ? "fill-current" : "text-neutral-700 fill-neutral-700"} />
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                <span className="text-xs text-neutral-500 font-mono">
+                    {new Date(review.created_at).toLocaleDateString('vi-VN')}
+                </span>
+            </div>
+
+            <p className="text-neutral-300 leading-relaxed bg-white/5 p-4 rounded-xl border border-white/5">
+                &quot;{review.comment}&quot;
+            </p>
+
+            {review.images && review.images.length > 0 && (
+                <div className="flex flex-wrap gap-3 mt-4">
+                    {review.images.map((img) => (
+                        <a key={img.id} href={img.image} target="_blank" rel="noopener noreferrer" className="relative w-20 h-20 rounded-xl overflow-hidden border border-white/10 hover:border-purple-500/50 transition-colors">
+                            <Image src={img.image} alt={`Photo from ${review.user_name}`} fill sizes="80px" className="object-cover" />
+                        </a>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex items-center gap-4 mt-4 text-xs">
+                <button
+                    onClick={onToggleHelpful}
+                    disabled={review.is_owner}
+                    className={cn(
+                        "inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+                        review.has_voted_helpful
+                            ? "border-purple-500/50 bg-purple-500/10 text-purple-300"
+                            : "border-white/10 text-neutral-400 hover:text-white hover:border-white/30"
+                    )}
+                >
+                    <ThumbsUp size={12} className={review.has_voted_helpful ? "fill-current" : ""} />
+                    Helpful{review.helpful_count ? ` (${review.helpful_count})` : ''}
+                </button>
+
+                {review.is_owner && (
+                    <>
+                        <button onClick={onEdit} className="inline-flex items-center gap-1 text-neutral-400 hover:text-white transition-colors">
+                            <Pencil size={12} /> Edit
+                        </button>
+                        <button onClick={onDelete} disabled={isDeleting} className="inline-flex items-center gap-1 text-neutral-400 hover:text-red-400 transition-colors disabled:opacity-50">
+                            {isDeleting ? <Loader2 size={12} className="animate-spin" /> : <Trash2 size={12} />} Delete
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
+
+// --- Reviews Section ---
+
+export function ProductReviews({ slug }: { slug: string }) {
+    const { isAuthenticated } = useAuthStore();
+    const [reviews, setReviews] = useState<Review[]>([]);
+    const [eligibility, setEligibility] = useState<ReviewEligibility | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [showForm, setShowForm] = useState(false);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [deletingId, setDeletingId] = useState<number | null>(null);
+
+    const loadReviews = useCallback(async () => {
+        try {
+            const [reviewsData, eligibilityData] = await Promise.all([
+                reviewsService.getReviews(slug).catch((): Review[] => []),
+                isAuthenticated ? reviewsService.getEligibility(slug).catch(() => null) : Promise.resolve(null),
+            ]);
+            setReviews(reviewsData);
+            setEligibility(eligibilityData);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [slug, isAuthenticated]);
+
+    useEffect(() => {
+        loadReviews();
+    }, [loadReviews]);
+
+    const hasOwnReview = reviews.some(r => r.is_owner) || !!eligibility?.review_id;
+
+    const handleSaved = () => {
+        setShowForm(false);
+        setEditingId(null);
+        loadReviews();
+    };
+
+    const handleDelete = async (review: Review) => {
+        if (!confirm('Delete your review? This cannot be undone.')) return;
+
+        setDeletingId(review.id);
+        try {
+            await reviewsService.deleteReview(review.id);
+            toast.success('Review deleted');
+            await loadReviews();
+        } catch (error) {
+            toast.error(getApiError(error, 'Failed to delete review').message);
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    const handleToggleHelpful = async (review: Review) => {
+        if (!isAuthenticated) {
+            toast.error('Please log in to vote');
+            return;
+        }
+
+        // Optimistic Update
+        const prevReviews = reviews;
+        const voted = !review.has_voted_helpful;
+        setReviews(prev => prev.map(r => r.id === review.id
+            ? { ...r, has_voted_helpful: voted, helpful_count: Math.max(0, (r.helpful_count || 0) + (voted ? 1 : -1)) }
+            : r
+        ));
+
+        try {
+            const result = await reviewsService.toggleHelpful(review.id);
+            setReviews(prev => prev.map(r => r.id === review.id ? { ...r, ...result } : r));
+        } catch (error) {
+            setReviews(prevReviews);
+            toast.error(getApiError(error, 'Failed to record your vote').message);
+        }
+    };
+
+    const renderCallToAction = () => {
+        if (hasOwnReview) return null;
+
+        if (!isAuthenticated) {
+            return (
+                <div className="flex items-center justify-between gap-4 bg-white/5 border border-white/10 rounded-2xl p-5">
+                    <p className="text-sm text-neutral-400 flex items-center gap-2">
+                        <Lock size={14} /> Log in to review products you have purchased.
+                    </p>
+                    <Link href={`/login?redirect=/products/${slug}`}>
+                        <Button variant="outline" className="border-white/10 text-white hover:bg-white/10">Log in</Button>
+                    </Link>
+                </div>
+            );
+        }
+
+        if (!eligibility?.can_review) {
+            return (
+                <p className="text-sm text-neutral-500 bg-white/5 border border-white/10 rounded-2xl p-5 flex items-center gap-2">
+                    <Lock size={14} />
+                    {eligibility?.reason || 'Only customers who have received this product can review it.'}
+                </p>
+            );
+        }
+
+        if (showForm) {
+            return <ReviewFormCard slug={slug} onSaved={handleSaved} onCancel={() => setShowForm(false)} />;
+        }
+
+        return (
+            <Button onClick={() => setShowForm(true)} variant="outline" className="border-white/10 text-white hover:bg-white/10">
+                Write a review
+            </Button>
+        );
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-16">
+                <Loader2 className="animate-spin text-purple-500" size={28} />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-8">
+            {renderCallToAction()}
+
+            {reviews.length > 0 ? (
+                reviews.map((review) => (
+                    editingId === review.id ? (
+                        <ReviewFormCard key={review.id} slug={slug} review={review} onSaved={handleSaved} onCancel={() => setEditingId(null)} />
+                    ) : (
+                        <ReviewItem
+                            key={review.id}
+                            review={review}
+                            onEdit={() => setEditingId(review.id)}
+                            onDelete={() => handleDelete(review)}
+                            onToggleHelpful={() => handleToggleHelpful(review)}
+                            isDeleting={deletingId === review.id}
+                        />
+                    )
+                ))
+            ) : (
+                <div className="text-center py-16 border border-dashed border-white/10 rounded-2xl bg-white/5">
+                    <p className="text-neutral-500">No reviews yet for this product.</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRecentlyViewedStore } from '@/store/recently-viewed-store';
+import type { Product } from '@/types/product';
+
+// Renders nothing; records the product once the stored list has been loaded
+export function RecentlyViewedTracker({ product }: { product: Product }) {
+    useEffect(() => {
+        let cancelled = false;
+        Promise.resolve(useRecentlyViewedStore.persist.rehydrate()).then(() => {
+            if (!cancelled) useRecentlyViewedStore.getState().addRecentlyViewed(product);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [product]);
+
+    return null;
+}
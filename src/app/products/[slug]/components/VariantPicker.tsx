@@ -0,0 +1,76 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { findVariant, getVariantOptions } from '@/lib/variants';
+import type { ProductVariant } from '@/types/product';
+
+interface VariantPickerProps {
+    variants: ProductVariant[];
+    selected: ProductVariant | undefined;
+    onSelect: (variant: ProductVariant) => void;
+}
+
+export function VariantPicker({ variants, selected, onSelect }: VariantPickerProps) {
+    const { colors, storages } = getVariantOptions(variants);
+
+    // Keep the other option when possible; otherwise jump to the closest variant that exists
+    const handlePick = (color: string, storage: string, changed: 'color' | 'storage') => {
+        const exact = findVariant(variants, color, storage);
+        if (exact) {
+            onSelect(exact);
+            return;
+        }
+        const candidates = variants.filter(v => v.is_active && (changed === 'color' ? v.color === color : v.storage === storage));
+        const fallback = candidates.find(v => v.is_in_stock) ?? candidates[0];
+        if (fallback) onSelect(fallback);
+    };
+
+    const renderGroup = (label: string, values: string[], axis: 'color' | 'storage') => {
+        if (values.length === 0) return null;
+
+        return (
+            <div>
+                <p className="text-xs font-bold uppercase tracking-widest text-neutral-500 mb-3">
+                    {label}
+                    {selected?.[axis] && <span className="ml-2 text-white normal-case tracking-normal">{selected[axis]}</span>}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                    {values.map((value) => {
+                        const color = axis === 'color' ? value : selected?.color ?? '';
+                        const storage = axis === 'storage' ? value : selected?.storage ?? '';
+                        const match = findVariant(variants, color, storage);
+                        const isSelected = selected?.[axis] === value;
+                        const isSoldOut = !!match && !match.is_in_stock;
+
+                        return (
+                            <button
+                                key={value}
+                                type="button"
+                                onClick={() => handlePick(color, storage, axis)}
+                                aria-pressed={isSelected}
+                                title={isSoldOut ? 'Out of stock' : !match ? 'Not available in this combination' : undefined}
+                                className={cn(
+                                    "px-4 py-2 rounded-xl border text-sm font-medium transition-all",
+                                    isSelected
+                                        ? "border-purple-500 bg-purple-500/10 text-white ring-2 ring-purple-500/20"
+                                        : "border-white/10 bg-white/5 text-neutral-300 hover:border-white/30 hover:text-white",
+                                    (isSoldOut || !match) && !isSelected && "opacity-50",
+                                    isSoldOut && "line-through"
+                                )}
+                            >
+                                {value}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-5">
+            {renderGroup('Color', colors, 'color')}
+            {renderGroup('Storage', storages, 'storage')}
+        </div>
+    );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { GitCompareArrows, ShoppingBag, Star } from 'lucide-react';
+import { useCompareToggle } from '@/hooks/use-compare-toggle';
+import { cn, formatPrice } from '@/lib/utils';
+import type { ProductViewMode } from '@/store/catalog-view-store';
+import type { Product } from '@/types/product';
+
+interface CollectionProductCardProps {
+    product: Product;
+    viewMode: ProductViewMode;
+    onAddToCart: (product: Product) => void;
+}
+
+export function CollectionProductCard({ product, viewMode, onAddToCart }: CollectionProductCardProps) {
+    const compare = useCompareToggle(product);
+
+    return (
+        <Link
+            href={`/products/${product.slug}`}
+            className={cn(
+                "group relative overflow-hidden rounded-3xl border border-white/10 bg-white/5 p-4 transition-all duration-300 hover:border-purple-500/30 hover:bg-white/10 hover:shadow-2xl hover:shadow-purple-500/10",
+                viewMode === 'list' && "flex flex-row gap-6 items-center"
+            )}
+        >
+            {/* Image Container */}
+            <div className={cn(
+                "relative overflow-hidden rounded-2xl bg-black/20",
+                viewMode === 'grid' ? "aspect-square w-full" : "h-40 w-40 shrink-0"
+            )}>
+                {product.primary_image ? (
+                    <Image
+                        src={product.primary_image}
+                        alt={product.name}
+                        fill
+                        className="object-cover transition-transform duration-700 group-hover:scale-110"
+                        sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
+                    />
+                ) : (
+                    <div className="flex h-full w-full items-center justify-center text-neutral-700 bg-neutral-900">
+                        <ShoppingBag size={32} />
+                    </div>
+                )}
+
+                {/* Badges */}
+                <div className="absolute left-3 top-3 flex flex-col gap-2">
+                    {product.sale_price && (
+                        <span className="inline-flex items-center rounded-lg bg-red-500/90 px-2.5 py-1 text-[10px] font-bold uppercase tracking-wider text-white backdrop-blur-md shadow-lg">
+                            Sale {product.discount_percent > 0 && `-${product.discount_percent}%`}
+                        </span>
+                    )}
+                    {!product.is_in_stock && (
+                        <span className="inline-flex items-center rounded-lg bg-neutral-900/90 px-2.5 py-1 text-[10px] font-bold uppercase tracking-wider text-white backdrop-blur-md shadow-lg border border-white/10">
+                            Sold Out
+                        </span>
+                    )}
+                </div>
+
+                {/* Compare Toggle */}
+                <button
+                    onClick={(e) => {
+                        e.preventDefault();
+                        compare.toggle();
+                    }}
+                    className={cn(
+                        "absolute right-3 top-3 flex h-9 w-9 items-center justify-center rounded-full border border-white/10 backdrop-blur-md transition-all",
+                        compare.isCompared
+                            ? "bg-purple-500/30 text-purple-300"
+                            : "bg-black/40 text-white/70 hover:text-purple-300 hover:bg-black/60"
+                    )}
+                    title={compare.isCompared ? 'Remove from compare' : 'Compare'}
+                    aria-pressed={compare.isCompared}
+                >
+                    <GitCompareArrows size={16} />
+                </button>
+            </div>
+
+            {/* Content */}
+            <div className={cn("mt-4 flex flex-col", viewMode === 'list' && "mt-0 flex-1")}>
+                <div className="flex items-center justify-between mb-1">
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-purple-400">
+                        {product.brand || product.category?.name || "Uncategorized"}
+                    </span>
+                    {product.average_rating > 0 && (
+                        <div className="flex items-center gap-1 text-yellow-500 bg-yellow-500/10 px-1.5 py-0.5 rounded-md">
+                            <Star size={10} fill="currentColor" />
+                            <span className="text-xs font-bold">{product.average_rating}</span>
+                        </div>
+                    )}
+                </div>
+
+                <h3 className="line-clamp-2 min-h-[3.5rem] text-lg font-bold text-white transition-colors group-hover:text-purple-300 mb-2">
+                    {product.name}
+                </h3>
+
+                <div className="mt-auto flex items-end justify-between">
+                    <div className="flex flex-col">
+                        {product.sale_price ? (
+                            <>
+                                <span className="text-sm text-neutral-500 line-through decoration-white/20">
+                                    {formatPrice(product.price)}
+                                </span>
+                                <span className="text-xl font-bold text-white">
+                                    {formatPrice(product.current_price)}
+                                </span>
+                            </>
+                        ) : (
+                            <span className="text-xl font-bold text-white">
+                                {formatPrice(product.current_price)}
+                            </span>
+                        )}
+                    </div>
+
+                    <button
+                        onClick={(e) => {
+                            e.preventDefault();
+                            if (product.is_in_stock) onAddToCart(product);
+                        }}
+                        disabled={!product.is_in_stock}
+                        className={cn(
+                            "flex h-10 w-10 items-center justify-center rounded-xl bg-white text-black transition-all hover:bg-purple-400 hover:text-white hover:scale-110 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100",
+                            viewMode === 'grid' && "translate-y-2 opacity-0 group-hover:translate-y-0 group-hover:opacity-100"
+                        )}
+                    >
+                        <ShoppingBag size={18} />
+                    </button>
+                </div>
+            </div>
+        </Link>
+    );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { FacetOption } from '@/types/product';
+
+interface FacetListProps {
+    title: string;
+    options: FacetOption[];
+    selected: string[];
+    onToggle: (value: string) => void;
+    // Longer lists collapse until "Show all" is clicked
+    limit?: number;
+}
+
+export function FacetList({ title, options, selected, onToggle, limit = 8 }: FacetListProps) {
+    const [expanded, setExpanded] = useState(false);
+    if (options.length === 0) return null;
+
+    // Selected values stay visible even when the list is collapsed
+    const visible = expanded
+        ? options
+        : options.filter((option, index) => index < limit || selected.includes(option.value));
+
+    return (
+        <div>
+            <h3 className="text-xs font-bold uppercase tracking-widest text-neutral-500 mb-4">{title}</h3>
+            <div className="space-y-2">
+                {visible.map((option) => {
+                    const isChecked = selected.includes(option.value);
+                    const isEmpty = option.count === 0 && !isChecked;
+                    return (
+                        <label
+                            key={option.value}
+                            className={cn('flex items-center gap-3 group p-1', isEmpty ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer')}
+                        >
+                            <div className="relative flex items-center">
+                                <input
+                                    type="checkbox"
+                                    checked={isChecked}
+                                    disabled={isEmpty}
+                                    onChange={() => onToggle(option.value)}
+                                    className="peer h-4 w-4 appearance-none rounded border border-white/20 bg-white/5 checked:bg-purple-500 checked:border-purple-500 transition-all cursor-pointer disabled:cursor-not-allowed"
+                                />
+                                <div className="pointer-events-none absolute inset-0 hidden items-center justify-center text-white peer-checked:flex">
+                                    <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
+                                </div>
+                            </div>
+                            <span className={cn('flex-1 text-sm transition-colors', isChecked ? 'text-white font-medium' : 'text-neutral-400 group-hover:text-white')}>
+                                {option.value}
+                            </span>
+                            {option.count !== null && <span className="text-xs text-neutral-600 font-mono">{option.count}</span>}
+                        </label>
+                    );
+                })}
+            </div>
+            {options.length > limit && (
+                <button
+                    type="button"
+                    onClick={() => setExpanded(!expanded)}
+                    className="mt-2 ml-1 text-xs font-medium text-purple-400 hover:text-purple-300"
+                >
+                    {expanded ? 'Show less' : `Show all (${options.length})`}
+                </button>
+            )}
+        </div>
+    );
+}
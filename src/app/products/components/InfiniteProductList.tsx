@@ -0,0 +1,191 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useMediaQuery } from '@/hooks/use-media-query';
+import { useWindowVirtualizer } from '@/hooks/use-window-virtualizer';
+import { unwrapList } from '@/lib/list';
+import { productQueryFromSearchParams } from '@/lib/product-query';
+import { catalogService } from '@/services/catalog';
+import type { ProductViewMode } from '@/store/catalog-view-store';
+import type { Product } from '@/types/product';
+import { CollectionProductCard } from './CollectionProductCard';
+
+const ROW_GAP = 24;
+const ESTIMATED_ROW_HEIGHT: Record<ProductViewMode, number> = { grid: 460, list: 192 };
+
+// Start loading the next page this far before the end of the list comes into view
+const LOAD_AHEAD_MARGIN = '1500px 0px';
+
+// Loaded pages and scroll offset, so coming back from a product lands where the visitor left off
+const SNAPSHOT_KEY = 'products-scroll-snapshot';
+const SNAPSHOT_MAX_AGE = 30 * 60 * 1000;
+
+interface ScrollSnapshot {
+    queryKey: string;
+    products: Product[];
+    loadedPage: number;
+    scrollY: number;
+    savedAt: number;
+}
+
+const readSnapshot = (queryKey: string): ScrollSnapshot | null => {
+    if (typeof window === 'undefined') return null;
+    try {
+        const snapshot = JSON.parse(sessionStorage.getItem(SNAPSHOT_KEY) || 'null') as ScrollSnapshot | null;
+        if (!snapshot || snapshot.queryKey !== queryKey || Date.now() - snapshot.savedAt > SNAPSHOT_MAX_AGE) return null;
+        return snapshot;
+    } catch {
+        return null;
+    }
+};
+
+interface InfiniteProductListProps {
+    // Query string the first page was fetched for; the parent remounts the list when it changes
+    queryKey: string;
+    firstPage: Product[];
+    totalCount: number;
+    totalPages: number;
+    viewMode: ProductViewMode;
+    onAddToCart: (product: Product) => void;
+}
+
+export function InfiniteProductList({ queryKey, firstPage, totalCount, totalPages, viewMode, onAddToCart }: InfiniteProductListProps) {
+    const [restored] = useState(() => readSnapshot(queryKey));
+    const [products, setProducts] = useState<Product[]>(restored?.products ?? firstPage);
+    const [loadedPage, setLoadedPage] = useState(restored?.loadedPage ?? 1);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [loadFailed, setLoadFailed] = useState(false);
+    const hasMore = loadedPage < totalPages;
+
+    const sentinelRef = useRef<HTMLDivElement>(null);
+    const loadingRef = useRef(false);
+    const pageRequests = useRef(new Map<number, Promise<Product[]>>());
+
+    // Same breakpoints as the paginated grid
+    const isSmall = useMediaQuery('(min-width: 640px)');
+    const isLarge = useMediaQuery('(min-width: 1024px)');
+    const columns = viewMode === 'list' ? 1 : isLarge ? 3 : isSmall ? 2 : 1;
+    const rowCount = Math.ceil(products.length / columns);
+
+    const { containerRef, measureRef, start, end, paddingTop, paddingBottom } = useWindowVirtualizer({
+        rowCount,
+        estimateRowHeight: ESTIMATED_ROW_HEIGHT[viewMode],
+        gap: ROW_GAP,
+    });
+
+    // Requests are shared between the prefetch and the actual load
+    const fetchPage = useCallback((page: number) => {
+        let request = pageRequests.current.get(page);
+        if (!request) {
+            const query = productQueryFromSearchParams(new URLSearchParams(queryKey));
+            request = catalogService.getProducts({ ...query, page }).then(unwrapList);
+            pageRequests.current.set(page, request);
+            // Let a retry start over
+            request.catch(() => pageRequests.current.delete(page));
+        }
+        return request;
+    }, [queryKey]);
+
+    const loadMore = useCallback(async () => {
+        if (loadingRef.current || !hasMore) return;
+        loadingRef.current = true;
+        setIsLoadingMore(true);
+        setLoadFailed(false);
+
+        const page = loadedPage + 1;
+        try {
+            const items = await fetchPage(page);
+            // Products added while browsing shift later pages; skip ones already shown
+            setProducts(prev => {
+                const seen = new Set(prev.map(p => p.id));
+                return [...prev, ...items.filter(item => !seen.has(item.id))];
+            });
+            setLoadedPage(page);
+        } catch (error) {
+            console.error('Failed to load more products:', error);
+            setLoadFailed(true);
+        } finally {
+            loadingRef.current = false;
+            setIsLoadingMore(false);
+        }
+    }, [hasMore, loadedPage, fetchPage]);
+
+    // Prefetch the page after the one on screen so it is usually ready before the visitor gets there
+    useEffect(() => {
+        if (hasMore) fetchPage(loadedPage + 1).catch(() => undefined);
+    }, [loadedPage, hasMore, fetchPage]);
+
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore || isLoadingMore || loadFailed) return;
+
+        const observer = new IntersectionObserver(([entry]) => {
+            if (entry.isIntersecting) loadMore();
+        }, { rootMargin: LOAD_AHEAD_MARGIN });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, isLoadingMore, loadFailed, loadMore]);
+
+    const saveSnapshot = useCallback(() => {
+        const snapshot: ScrollSnapshot = { queryKey, products, loadedPage, scrollY: window.scrollY, savedAt: Date.now() };
+        try {
+            sessionStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot));
+        } catch {
+            // Storage full or disabled: the list simply starts from the top again
+        }
+    }, [queryKey, products, loadedPage]);
+
+    useEffect(() => {
+        window.addEventListener('pagehide', saveSnapshot);
+        return () => window.removeEventListener('pagehide', saveSnapshot);
+    }, [saveSnapshot]);
+
+    useEffect(() => {
+        if (!restored) return;
+        sessionStorage.removeItem(SNAPSHOT_KEY);
+        // Wait for the restored rows to be laid out
+        const frame = requestAnimationFrame(() => window.scrollTo(0, restored.scrollY));
+        return () => cancelAnimationFrame(frame);
+    }, [restored]);
+
+    const rows = Array.from({ length: end - start }, (_, i) => start + i);
+
+    return (
+        <div className="mb-12">
+            {/* Saved before following a product link so the back button can restore it */}
+            <div ref={containerRef} onClickCapture={saveSnapshot} style={{ paddingTop, paddingBottom }}>
+                <div className="flex flex-col" style={{ gap: ROW_GAP }}>
+                    {rows.map(row => (
+                        <div
+                            key={row}
+                            ref={row === start ? measureRef : undefined}
+                            className="grid"
+                            style={{ gap: ROW_GAP, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+                        >
+                            {products.slice(row * columns, (row + 1) * columns).map(product => (
+                                <CollectionProductCard key={product.id} product={product} viewMode={viewMode} onAddToCart={onAddToCart} />
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div ref={sentinelRef} className="flex flex-col items-center gap-3 pt-10 text-sm text-neutral-500">
+                {loadFailed ? (
+                    <>
+                        <p>Couldn&apos;t load more products.</p>
+                        <Button variant="outline" onClick={loadMore} className="border-white/10 text-white hover:bg-white/10">
+                            Try again
+                        </Button>
+                    </>
+                ) : hasMore ? (
+                    <Loader2 className="w-6 h-6 text-purple-500 animate-spin" />
+                ) : (
+                    <p>You&apos;ve seen all {totalCount} products.</p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import { formatPrice } from '@/lib/utils';
+
+interface PriceRangeSliderProps {
+    // Cheapest and most expensive matching product
+    bounds: { min: number; max: number };
+    min: number | null;
+    max: number | null;
+    // null means "no limit" on that side
+    onCommit: (min: number | null, max: number | null) => void;
+}
+
+const THUMB_CLASS = 'absolute inset-0 w-full h-5 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-purple-500 [&::-webkit-slider-thumb]:cursor-grab [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-white [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-purple-500';
+
+/**
+ * Two range inputs stacked on one track. Dragging only updates the labels;
+ * the filter is applied when the handle is released so each drag is one fetch.
+ * The parent remounts it (via key) when the URL or bounds change.
+ */
+export function PriceRangeSlider({ bounds, min, max, onCommit }: PriceRangeSliderProps) {
+    const step = bounds.max - bounds.min > 10_000_000 ? 100_000 : 10_000;
+    const clamp = (value: number) => Math.min(bounds.max, Math.max(bounds.min, value));
+
+    const [low, setLow] = useState(clamp(min ?? bounds.min));
+    const [high, setHigh] = useState(clamp(max ?? bounds.max));
+
+    const span = Math.max(1, bounds.max - bounds.min);
+    const lowPercent = ((low - bounds.min) / span) * 100;
+    const highPercent = ((high - bounds.min) / span) * 100;
+
+    const commit = () => {
+        if (low === clamp(min ?? bounds.min) && high === clamp(max ?? bounds.max)) return;
+        onCommit(low > bounds.min ? low : null, high < bounds.max ? high : null);
+    };
+
+    return (
+        <div>
+            <div className="relative h-5">
+                <div className="absolute top-1/2 -translate-y-1/2 inset-x-0 h-1 rounded-full bg-white/10" />
+                <div
+                    className="absolute top-1/2 -translate-y-1/2 h-1 rounded-full bg-purple-500"
+                    style={{ left: `${lowPercent}%`, right: `${100 - highPercent}%` }}
+                />
+                <input
+                    type="range"
+                    min={bounds.min}
+                    max={bounds.max}
+                    step={step}
+                    value={low}
+                    onChange={(e) => setLow(Math.min(Number(e.target.value), high))}
+                    onPointerUp={commit}
+                    onKeyUp={commit}
+                    aria-label="Minimum price"
+                    className={THUMB_CLASS}
+                />
+                <input
+                    type="range"
+                    min={bounds.min}
+                    max={bounds.max}
+                    step={step}
+                    value={high}
+                    onChange={(e) => setHigh(Math.max(Number(e.target.value), low))}
+                    onPointerUp={commit}
+                    onKeyUp={commit}
+                    aria-label="Maximum price"
+                    className={THUMB_CLASS}
+                />
+            </div>
+            <div className="flex justify-between mt-3 text-xs font-mono text-neutral-400">
+                <span>{formatPrice(low)}</span>
+                <span>{formatPrice(high)}</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,549 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { Search, Filter, ChevronDown, ShoppingBag, Grid, List, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AuroraBackground } from '@/components/ui/aurora-background';
+import { getApiError } from '@/lib/api';
+import { catalogService } from '@/services/catalog';
+import type { Category, Product, ProductFilterOptions } from '@/types/product';
+import { useCartStore } from '@/store/cart-store';
+import { useCatalogViewStore } from '@/store/catalog-view-store';
+import { useSearchStore } from '@/store/search-store';
+import { useDebounce } from '@/hooks/use-debounce';
+import { cn } from '@/lib/utils';
+import {
+    DEFAULT_PRODUCT_SORT, EMPTY_FILTER_OPTIONS, attributeKey, normalizeFilterOptions, productQueryFromSearchParams,
+    splitParam, toPageInfo, toggleValue
+} from '@/lib/product-query';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CollectionProductCard } from './CollectionProductCard';
+import { FacetList } from './FacetList';
+import { InfiniteProductList } from './InfiniteProductList';
+import { PriceRangeSlider } from './PriceRangeSlider';
+
+// First page of results rendered on the server for the URL the visitor landed on
+export interface ProductsInitialData {
+    products: Product[];
+    totalCount: number;
+    totalPages: number;
+    categories: Category[];
+    filterOptions: ProductFilterOptions;
+}
+
+interface ProductsViewProps {
+    initialData: ProductsInitialData | null;
+}
+
+function ProductsContent({ initialData }: ProductsViewProps) {
+    const searchParams = useSearchParams();
+    const router = useRouter();
+    const [products, setProducts] = useState<Product[]>(initialData?.products ?? []);
+    const [categories, setCategories] = useState<Category[]>(initialData?.categories ?? []);
+    const [isLoading, setIsLoading] = useState(!initialData);
+    const [showFilters, setShowFilters] = useState(false);
+
+    // Every filter lives in the URL so a filtered listing can be shared or bookmarked
+    const query = productQueryFromSearchParams(searchParams);
+    const queryKey = searchParams.toString();
+    const selectedCategory = query.category__slug || '';
+    const sortBy = query.ordering || DEFAULT_PRODUCT_SORT;
+    const selectedBrands = splitParam(query.brand);
+    const selectedColors = splitParam(query.color);
+    const minPrice = query.min_price ? Number(query.min_price) : null;
+    const maxPrice = query.max_price ? Number(query.max_price) : null;
+    const currentPage = query.page || 1;
+
+    // The search box is edited locally and written to the URL once typing pauses
+    const urlSearch = query.search || '';
+    const [searchQuery, setSearchQuery] = useState(urlSearch);
+    const [syncedSearch, setSyncedSearch] = useState(urlSearch);
+    if (urlSearch !== syncedSearch) {
+        // The URL changed elsewhere (back button, header search)
+        setSyncedSearch(urlSearch);
+        setSearchQuery(urlSearch);
+    }
+
+    // Filter Options (Dynamic)
+    const [filterOptions, setFilterOptions] = useState<ProductFilterOptions>(initialData?.filterOptions ?? EMPTY_FILTER_OPTIONS);
+
+    // Query string the products on screen were fetched for
+    const [loadedKey, setLoadedKey] = useState(queryKey);
+
+    // Pagination State
+    const [totalCount, setTotalCount] = useState(initialData?.totalCount ?? 0);
+    const [totalPages, setTotalPages] = useState(initialData?.totalPages ?? 1);
+
+    // The server already fetched the first result set
+    const skipInitialFetch = useRef(!!initialData);
+
+    const { addToCart } = useCartStore();
+    const addRecentSearch = useSearchStore((state) => state.addRecentSearch);
+    const { viewMode, setViewMode, infiniteScroll, setInfiniteScroll } = useCatalogViewStore();
+
+    useEffect(() => {
+        useCatalogViewStore.persist.rehydrate();
+    }, []);
+
+    // Helper to update URL with current filters. Native history updates keep
+    // useSearchParams in sync without a server round trip; data is fetched below.
+    const updateFilters = useCallback((updates: Record<string, string>) => {
+        const params = new URLSearchParams(searchParams.toString());
+        Object.entries(updates).forEach(([key, value]) => {
+            if (value) {
+                params.set(key, value);
+            } else {
+                params.delete(key);
+            }
+        });
+        window.history.pushState(null, '', `/products?${params.toString()}`);
+    }, [searchParams]);
+
+    const clearFilters = () => {
+        setSearchQuery('');
+        window.history.pushState(null, '', '/products');
+    };
+
+    // Initial Fetch: Categories (the server page usually sends them already)
+    const hasInitialCategories = !!initialData?.categories.length;
+    useEffect(() => {
+        if (hasInitialCategories) return;
+
+        const fetchCategories = async () => {
+            try {
+                setCategories(await catalogService.getCategories());
+            } catch (error) {
+                console.error('Failed to fetch categories:', error);
+            }
+        };
+        fetchCategories();
+    }, [hasInitialCategories]);
+
+    // Infinite scroll always starts from the first page
+    useEffect(() => {
+        if (!infiniteScroll || currentPage <= 1) return;
+        const params = new URLSearchParams(searchParams.toString());
+        params.delete('page');
+        window.history.replaceState(null, '', `/products?${params.toString()}`);
+    }, [infiniteScroll, currentPage, searchParams]);
+
+    // Keep the URL in step with the search box as the user types
+    const debouncedSearch = useDebounce(searchQuery, 400);
+    useEffect(() => {
+        // Skip while the box and the debounced value disagree, e.g. right after the URL changed elsewhere
+        if (debouncedSearch !== searchQuery) return;
+        if (debouncedSearch !== (searchParams.get('search') || '')) {
+            updateFilters({ search: debouncedSearch, page: '1' });
+        }
+    }, [debouncedSearch, searchQuery, searchParams, updateFilters]);
+
+    // Fetch Products & Dynamic Filters
+    useEffect(() => {
+        if (skipInitialFetch.current) {
+            skipInitialFetch.current = false;
+            return;
+        }
+
+        let cancelled = false;
+        const fetchProductsAndFilters = async () => {
+            setIsLoading(true);
+            try {
+                const apiQuery = productQueryFromSearchParams(new URLSearchParams(queryKey));
+
+                // Fetch products and filter options in parallel
+                const [productsData, filtersData] = await Promise.all([
+                    catalogService.getProducts(apiQuery),
+                    catalogService.getFilterOptions(apiQuery)
+                ]);
+                if (cancelled) return;
+
+                const pageInfo = toPageInfo(productsData, apiQuery.page || 1);
+                setProducts(pageInfo.items);
+                setLoadedKey(queryKey);
+                setTotalCount(pageInfo.totalCount);
+                setTotalPages(pageInfo.totalPages);
+                setFilterOptions(normalizeFilterOptions(filtersData));
+            } catch (error) {
+                console.error('Failed to fetch data:', error);
+                toast.error('Unable to load products');
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+        fetchProductsAndFilters();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [queryKey]);
+
+    // Category counts come from the facet endpoint when it sends them
+    const categoryCounts = new Map(filterOptions.categories.map(option => [option.value, option.count]));
+    const attributeFilters = Object.entries(filterOptions.attributes);
+    const activeFilterCount = [selectedCategory, query.search, query.min_price || query.max_price].filter(Boolean).length
+        + selectedBrands.length
+        + selectedColors.length
+        + attributeFilters.reduce((sum, [name]) => sum + splitParam(query[attributeKey(name)]).length, 0);
+
+    const handleAddToCart = async (product: Product) => {
+        // The option has to be picked on the product page
+        if (product.has_variants) {
+            router.push(`/products/${product.slug}`);
+            return;
+        }
+        try {
+            await addToCart(product.id, 1, product);
+            toast.success('Added to cart');
+        } catch (error) {
+            toast.error(getApiError(error, 'Failed to add to cart').message);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-black text-white font-sans selection:bg-purple-500/30">
+            {/* Fixed Background */}
+            <div className="fixed inset-0 z-0 pointer-events-none">
+                <AuroraBackground className="h-full w-full">
+                    <></>
+                </AuroraBackground>
+            </div>
+
+            <div className="relative z-10 container mx-auto px-4 pt-32 pb-20">
+
+                {/* Page Header */}
+                <div className="mb-10 flex flex-col md:flex-row md:items-end justify-between gap-6">
+                    <div>
+                        <h1 className="text-4xl md:text-6xl font-display font-bold text-white tracking-tight">Collection</h1>
+                        <p className="text-neutral-400 mt-2 text-lg">
+                            {totalCount} Products found {selectedCategory && `in ${categories.find(c => c.slug === selectedCategory)?.name || selectedCategory}`}
+                        </p>
+                    </div>
+
+                    <div className="flex flex-col md:flex-row gap-4 w-full md:w-auto">
+                        {/* Search Input */}
+                        <div className="relative group w-full md:w-72">
+                            <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-neutral-500 group-focus-within:text-purple-400 transition-colors" size={18} />
+                            <input
+                                type="text"
+                                placeholder="Search products..."
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') addRecentSearch(searchQuery);
+                                }}
+                                className="w-full h-12 pl-11 pr-4 bg-white/5 border border-white/10 rounded-xl text-white placeholder:text-neutral-600 focus:outline-none focus:border-purple-500/50 focus:bg-white/10 transition-all"
+                            />
+                        </div>
+
+                        {/* Sort Dropdown */}
+                        <div className="relative w-full md:w-56">
+                            <select
+                                value={sortBy}
+                                onChange={(e) => updateFilters({ sort: e.target.value, page: '1' })}
+                                className="w-full h-12 px-4 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:border-purple-500/50 appearance-none cursor-pointer hover:bg-white/10 transition-all"
+                            >
+                                <option value="-created_at" className="bg-neutral-900">Newest Arrivals</option>
+                                <option value="price" className="bg-neutral-900">Price: Low to High</option>
+                                <option value="-price" className="bg-neutral-900">Price: High to Low</option>
+                                <option value="-average_rating" className="bg-neutral-900">Top Rated</option>
+                            </select>
+                            <ChevronDown className="absolute right-4 top-1/2 -translate-y-1/2 text-neutral-500 pointer-events-none" size={16} />
+                        </div>
+
+                        {/* View Toggle (Desktop) */}
+                        <div className="hidden md:flex items-center bg-white/5 border border-white/10 rounded-xl p-1">
+                            <button
+                                onClick={() => setViewMode('grid')}
+                                className={cn(
+                                    "p-2.5 rounded-lg transition-all",
+                                    viewMode === 'grid' ? "bg-white/10 text-white shadow-sm" : "text-neutral-500 hover:text-white"
+                                )}
+                            >
+                                <Grid size={18} />
+                            </button>
+                            <button
+                                onClick={() => setViewMode('list')}
+                                className={cn(
+                                    "p-2.5 rounded-lg transition-all",
+                                    viewMode === 'list' ? "bg-white/10 text-white shadow-sm" : "text-neutral-500 hover:text-white"
+                                )}
+                            >
+                                <List size={18} />
+                            </button>
+                        </div>
+
+                        {/* Mobile Filter Toggle */}
+                        <Button
+                            onClick={() => setShowFilters(true)}
+                            variant="outline"
+                            className="md:hidden h-12 bg-white/5 border-white/10 text-white w-full"
+                        >
+                            <Filter size={18} className="mr-2" /> Filters
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="flex gap-8 items-start">
+
+                    {/* Sidebar Filters */}
+                    <aside className={cn(
+                        "fixed inset-0 z-50 bg-neutral-900/95 backdrop-blur-xl p-6 transition-transform duration-300 md:static md:z-0 md:w-64 md:bg-transparent md:p-0 md:translate-x-0 md:block shrink-0",
+                        showFilters ? "translate-x-0 flex flex-col" : "-translate-x-full hidden"
+                    )}>
+                        <div className="flex items-center justify-between md:hidden mb-8">
+                            <h2 className="text-xl font-bold font-display text-white">Filters</h2>
+                            <button onClick={() => setShowFilters(false)} className="text-white bg-white/10 p-2 rounded-full"><X size={20} /></button>
+                        </div>
+
+                        {/* Filter Groups */}
+                        <div className="space-y-8 overflow-y-auto md:overflow-visible custom-scrollbar">
+
+                            {/* Categories */}
+                            <div>
+                                <h3 className="text-xs font-bold uppercase tracking-widest text-neutral-500 mb-4">Categories</h3>
+                                <div className="space-y-2">
+                                    <button
+                                        onClick={() => updateFilters({ category: '', page: '1' })}
+                                        className={cn(
+                                            "w-full text-left px-3 py-2 rounded-lg text-sm transition-all flex justify-between",
+                                            !selectedCategory ? "bg-white/10 text-white font-medium" : "text-neutral-400 hover:text-white hover:bg-white/5"
+                                        )}
+                                    >
+                                        All Products
+                                    </button>
+                                    {categories.map((cat) => (
+                                        <button
+                                            key={cat.id}
+                                            onClick={() => updateFilters({ category: cat.slug, page: '1' })}
+                                            className={cn(
+                                                "w-full text-left px-3 py-2 rounded-lg text-sm transition-all flex justify-between",
+                                                selectedCategory === cat.slug ? "bg-white/10 text-white font-medium" : "text-neutral-400 hover:text-white hover:bg-white/5"
+                                            )}
+                                        >
+                                            {cat.name}
+                                            <span className="text-xs opacity-50">{categoryCounts.get(cat.slug) ?? cat.product_count}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="h-px bg-white/10 w-full" />
+
+                            <FacetList
+                                title="Brands"
+                                options={filterOptions.brands}
+                                selected={selectedBrands}
+                                onToggle={(brand) => updateFilters({ brand: toggleValue(selectedBrands, brand).join(','), page: '1' })}
+                            />
+
+                            <FacetList
+                                title="Colors"
+                                options={filterOptions.colors}
+                                selected={selectedColors}
+                                onToggle={(color) => updateFilters({ color: toggleValue(selectedColors, color).join(','), page: '1' })}
+                            />
+
+                            {/* Attribute facets, e.g. RAM or screen size */}
+                            {attributeFilters.map(([name, options]) => {
+                                const key = attributeKey(name);
+                                const selected = splitParam(query[key]);
+                                return (
+                                    <FacetList
+                                        key={name}
+                                        title={name}
+                                        options={options}
+                                        selected={selected}
+                                        onToggle={(value) => updateFilters({ [key]: toggleValue(selected, value).join(','), page: '1' })}
+                                    />
+                                );
+                            })}
+
+                            {/* Price Range */}
+                            {(filterOptions.price_range || minPrice !== null || maxPrice !== null) && (
+                                <div>
+                                    <div className="flex items-center justify-between mb-4">
+                                        <h3 className="text-xs font-bold uppercase tracking-widest text-neutral-500">Price Range</h3>
+                                        {(minPrice !== null || maxPrice !== null) && (
+                                            <button
+                                                type="button"
+                                                onClick={() => updateFilters({ min_price: '', max_price: '', page: '1' })}
+                                                className="text-xs text-purple-400 hover:text-purple-300"
+                                            >
+                                                Reset
+                                            </button>
+                                        )}
+                                    </div>
+                                    {filterOptions.price_range && filterOptions.price_range.max > filterOptions.price_range.min && (
+                                        <PriceRangeSlider
+                                            key={`${minPrice}-${maxPrice}-${filterOptions.price_range.min}-${filterOptions.price_range.max}`}
+                                            bounds={filterOptions.price_range}
+                                            min={minPrice}
+                                            max={maxPrice}
+                                            onCommit={(min, max) => updateFilters({ min_price: min === null ? '' : String(min), max_price: max === null ? '' : String(max), page: '1' })}
+                                        />
+                                    )}
+                                </div>
+                            )}
+
+                            {activeFilterCount > 0 && (
+                                <Button
+                                    variant="outline"
+                                    onClick={clearFilters}
+                                    className="w-full border-white/10 text-white hover:bg-white/10 bg-transparent"
+                                >
+                                    Clear all filters ({activeFilterCount})
+                                </Button>
+                            )}
+
+                        </div>
+                    </aside>
+
+                    {/* Main Content */}
+                    <main className="flex-1 min-h-[500px]">
+                        {isLoading ? (
+                            <div className={cn(
+                                "grid gap-6",
+                                viewMode === 'grid' ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3" : "grid-cols-1"
+                            )}>
+                                {[...Array(9)].map((_, i) => (
+                                    <div key={i} className={cn(
+                                        "rounded-3xl border border-white/5 bg-white/5 p-4 animate-pulse",
+                                        viewMode === 'list' && "flex gap-6 items-center"
+                                    )}>
+                                        <div className={cn(
+                                            "rounded-2xl",
+                                            viewMode === 'grid' ? "aspect-square w-full mb-4" : "h-40 w-40 shrink-0"
+                                        )}>
+                                            <Skeleton className="h-full w-full rounded-2xl bg-white/10" />
+                                        </div>
+                                        <div className={cn("flex flex-col gap-3 w-full", viewMode === 'list' && "flex-1")}>
+                                            <div className="flex justify-between">
+                                                <Skeleton className="h-3 w-20 bg-white/10 rounded" />
+                                                <Skeleton className="h-4 w-10 bg-white/10 rounded" />
+                                            </div>
+                                            <Skeleton className="h-5 w-3/4 bg-white/10 rounded" />
+                                            <Skeleton className="h-4 w-1/2 bg-white/10 rounded" />
+                                            <div className="mt-auto pt-4 flex justify-between items-end">
+                                                <div className="space-y-1.5">
+                                                    <Skeleton className="h-3 w-16 bg-white/10 rounded" />
+                                                    <Skeleton className="h-6 w-28 bg-white/10 rounded" />
+                                                </div>
+                                                <Skeleton className="h-10 w-10 rounded-xl bg-white/10" />
+                                            </div>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : products.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center rounded-3xl border border-dashed border-white/10 bg-white/5 py-32 text-center">
+                                <div className="w-16 h-16 bg-white/5 rounded-full flex items-center justify-center mb-4">
+                                    <ShoppingBag size={32} className="text-neutral-500" />
+                                </div>
+                                <h3 className="text-xl font-bold text-white">
+                                    No products found
+                                </h3>
+                                <p className="mt-2 text-neutral-400 max-w-md mx-auto">
+                                    We couldn&apos;t find any products matching your filters. Try adjusting your search criteria.
+                                </p>
+                                <Button
+                                    variant="outline"
+                                    className="mt-8 border-white/10 text-white hover:bg-white/10"
+                                    onClick={clearFilters}
+                                >
+                                    Clear All Filters
+                                </Button>
+                            </div>
+                        ) : (
+                            <>
+                                <div className="flex items-center justify-between gap-4 mb-6 text-sm text-neutral-500">
+                                    <span>{infiniteScroll ? 'More products load as you scroll' : `Page ${currentPage} of ${totalPages}`}</span>
+                                    <label className="flex items-center gap-2 cursor-pointer hover:text-white transition-colors">
+                                        <input
+                                            type="checkbox"
+                                            checked={infiniteScroll}
+                                            onChange={(e) => setInfiniteScroll(e.target.checked)}
+                                            className="w-4 h-4 rounded border-white/20 bg-black/40 text-purple-600 focus:ring-purple-500 focus:ring-offset-0"
+                                        />
+                                        Infinite scroll
+                                    </label>
+                                </div>
+
+                                {infiniteScroll ? (
+                                    <InfiniteProductList
+                                        key={loadedKey}
+                                        queryKey={loadedKey}
+                                        firstPage={products}
+                                        totalCount={totalCount}
+                                        totalPages={totalPages}
+                                        viewMode={viewMode}
+                                        onAddToCart={handleAddToCart}
+                                    />
+                                ) : (
+                                    <div className={cn(
+                                        "grid gap-6 mb-12",
+                                        viewMode === 'grid' ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3" : "grid-cols-1"
+                                    )}>
+                                        {products.map((product) => (
+                                            <CollectionProductCard key={product.id} product={product} viewMode={viewMode} onAddToCart={handleAddToCart} />
+                                        ))}
+                                    </div>
+                                )}
+
+                                {/* Pagination Controls */}
+                                {!infiniteScroll && totalPages > 1 && (
+                                    <div className="flex justify-center gap-2 mt-8">
+                                        <Button
+                                            variant="outline"
+                                            onClick={() => updateFilters({ page: String(currentPage - 1) })}
+                                            disabled={currentPage <= 1}
+                                            className="border-white/10 text-white hover:bg-white/10"
+                                        >
+                                            Previous
+                                        </Button>
+
+                                        <div className="flex gap-1">
+                                            {[...Array(totalPages)].map((_, i) => (
+                                                <Button
+                                                    key={i}
+                                                    variant={currentPage === i + 1 ? "default" : "outline"}
+                                                    onClick={() => updateFilters({ page: String(i + 1) })}
+                                                    className={cn(
+                                                        currentPage === i + 1
+                                                            ? "bg-purple-600 hover:bg-purple-500 border-none"
+                                                            : "border-white/10 text-white hover:bg-white/10",
+                                                        "w-10 px-0"
+                                                    )}
+                                                >
+                                                    {i + 1}
+                                                </Button>
+                                            ))}
+                                        </div>
+
+                                        <Button
+                                            variant="outline"
+                                            onClick={() => updateFilters({ page: String(currentPage + 1) })}
+                                            disabled={currentPage >= totalPages}
+                                            className="border-white/10 text-white hover:bg-white/10"
+                                        >
+                                            Next
+                                        </Button>
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </main>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export function ProductsView({ initialData }: ProductsViewProps) {
+    return (
+        <Suspense fallback={<div className="min-h-screen bg-black" />}>
+            <ProductsContent initialData={initialData} />
+        </Suspense>
+    );
+}
@@ -9,6 +9,7 @@ import { Mail, Lock, Eye, EyeOff, ArrowLeft, Github, Chrome, AlertCircle, User,
 import toast from 'react-hot-toast';
 import { useState } from 'react';
 import { useAuthStore } from '@/store/auth-store';
+import { handleFormError } from '@/lib/form-errors';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { AuroraBackground } from '@/components/ui/aurora-background';
@@ -38,6 +39,7 @@ export default function RegisterPage() {
     const {
         register,
         handleSubmit,
+        setError,
         formState: { errors },
     } = useForm<RegisterForm>({
         resolver: zodResolver(registerSchema),
@@ -49,13 +51,13 @@ export default function RegisterPage() {
             await registerUser(data);
             toast.success('Account created successfully!');
             router.push('/');
-        } catch (error: any) {
+        } catch (error) {
             console.error('Registration failed:', error);
-            const errorMsg = error.response?.data?.email?.[0] ||
-                error.response?.data?.username?.[0] ||
-                error.response?.data?.detail ||
-                'Registration failed';
-            toast.error(errorMsg);
+            handleFormError(error, {
+                fallback: 'Registration failed',
+                setError,
+                fields: Object.keys(registerSchema.shape),
+            });
         } finally {
             setIsSubmitting(false);
         }
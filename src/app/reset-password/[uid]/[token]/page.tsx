@@ -8,7 +8,7 @@ import { z } from 'zod';
 import { Lock, ArrowLeft, Loader2, Check, ShieldCheck, Eye, EyeOff, AlertTriangle } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useState, use } from 'react';
-import api from '@/lib/api';
+import { authService } from '@/services/auth';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -50,9 +50,7 @@ export default function ResetPasswordPage({ params }: { params: Promise<{ uid: s
     const onSubmit = async (data: ResetPasswordForm) => {
         setIsSubmitting(true);
         try {
-            await api.post(`/auth/password-reset-confirm/${uid}/${token}/`, {
-                password: data.password
-            });
+            await authService.confirmPasswordReset(uid, token, data.password);
             toast.success('Đặt lại mật khẩu thành công! Vui lòng đăng nhập.');
             router.push('/login');
         } catch (error: any) {
@@ -0,0 +1,24 @@
+import type { MetadataRoute } from 'next';
+import { absoluteUrl, SITE_URL } from '@/lib/server-api';
+import { PRIVATE_PATHS } from '@/lib/seo';
+import { coreServerService } from '@/services/core.server';
+
+export const revalidate = 300;
+
+export default async function robots(): Promise<MetadataRoute.Robots> {
+    if (await coreServerService.isInMaintenance(revalidate)) {
+        return {
+            rules: { userAgent: '*', disallow: '/' },
+        };
+    }
+
+    return {
+        rules: {
+            userAgent: '*',
+            allow: '/',
+            disallow: PRIVATE_PATHS,
+        },
+        sitemap: absoluteUrl('/sitemap.xml'),
+        host: SITE_URL,
+    };
+}
@@ -0,0 +1,53 @@
+import type { MetadataRoute } from 'next';
+import { absoluteUrl } from '@/lib/server-api';
+import { STATIC_PATHS } from '@/lib/seo';
+import { catalogServerService } from '@/services/catalog.server';
+import { coreServerService } from '@/services/core.server';
+
+// Rebuilt at most once an hour
+export const revalidate = 3600;
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+    // Nothing is worth crawling while the storefront is closed
+    if (await coreServerService.isInMaintenance(revalidate)) return [];
+
+    const now = new Date();
+    const entries: MetadataRoute.Sitemap = STATIC_PATHS.map((path) => ({
+        url: absoluteUrl(path),
+        lastModified: now,
+        changeFrequency: path === '/' || path === '/products' ? 'daily' : 'monthly',
+        priority: path === '/' ? 1 : path === '/products' ? 0.9 : 0.3,
+    }));
+
+    const [products, categories] = await Promise.all([
+        catalogServerService.getAllProducts(revalidate).catch((error) => {
+            console.error('Sitemap: failed to fetch products', error);
+            return [];
+        }),
+        catalogServerService.getAllCategories(revalidate).catch((error) => {
+            console.error('Sitemap: failed to fetch categories', error);
+            return [];
+        }),
+    ]);
+
+    categories.forEach((category) => {
+        entries.push({
+            url: absoluteUrl(`/products?category=${encodeURIComponent(category.slug)}`),
+            lastModified: now,
+            changeFrequency: 'weekly',
+            priority: 0.7,
+        });
+    });
+
+    products.forEach((product) => {
+        entries.push({
+            url: absoluteUrl(`/products/${product.slug}`),
+            lastModified: product.created_at ? new Date(product.created_at) : now,
+            changeFrequency: 'weekly',
+            priority: 0.8,
+            images: product.primary_image ? [product.primary_image] : undefined,
+        });
+    });
+
+    return entries;
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { usePathname, useRouter } from 'next/navigation';
-import api from '@/lib/api';
+import { coreService } from '@/services/core';
 import { useAuthStore } from '@/store/auth-store';
 
 export function MaintenanceCheck() {
@@ -20,8 +20,7 @@ export function MaintenanceCheck() {
                     return;
                 }
 
-                const response = await api.get('/core/config/');
-                const config = response.data;
+                const config = await coreService.getConfig();
 
                 const isMaintenance = config.maintenance_mode;
                 const isAdmin = user?.is_staff;
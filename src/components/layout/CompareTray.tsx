@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { GitCompareArrows, ImageIcon, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MAX_COMPARE_ITEMS, useCompareStore } from '@/store/compare-store';
+
+export function CompareTray() {
+    const pathname = usePathname();
+    const { items, removeFromCompare, clearCompare } = useCompareStore();
+
+    useEffect(() => {
+        useCompareStore.persist.rehydrate();
+    }, []);
+
+    if (items.length === 0 || pathname === '/compare' || pathname.startsWith('/admin')) return null;
+
+    const canCompare = items.length >= 2;
+
+    return (
+        <div className="fixed bottom-4 left-1/2 z-40 w-[calc(100%-2rem)] max-w-2xl -translate-x-1/2 animate-in fade-in-0 slide-in-from-bottom-4">
+            <div className="flex items-center gap-3 rounded-2xl border border-white/10 bg-neutral-950/90 p-3 shadow-2xl shadow-purple-900/20 backdrop-blur-xl">
+                <div className="flex flex-1 gap-2 min-w-0">
+                    {Array.from({ length: MAX_COMPARE_ITEMS }, (_, index) => {
+                        const item = items[index];
+                        return item ? (
+                            <div key={item.id} className="group relative w-12 h-12 shrink-0 rounded-lg border border-white/10 bg-black/40 overflow-hidden" title={item.name}>
+                                {item.primary_image ? (
+                                    // eslint-disable-next-line @next/next/no-img-element
+                                    <img src={item.primary_image} alt={item.name} className="w-full h-full object-cover" />
+                                ) : (
+                                    <ImageIcon className="w-4 h-4 m-auto mt-4 text-neutral-600" />
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => removeFromCompare(item.id)}
+                                    className="absolute inset-0 flex items-center justify-center bg-black/70 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                                    aria-label={`Remove ${item.name} from compare`}
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ) : (
+                            <div key={index} className="hidden sm:block w-12 h-12 shrink-0 rounded-lg border border-dashed border-white/10" />
+                        );
+                    })}
+                </div>
+
+                <button
+                    type="button"
+                    onClick={clearCompare}
+                    className="text-xs text-neutral-500 hover:text-white transition-colors"
+                >
+                    Clear
+                </button>
+                <Link
+                    href="/compare"
+                    aria-disabled={!canCompare}
+                    onClick={(e) => !canCompare && e.preventDefault()}
+                    className={cn(
+                        'flex items-center gap-2 h-11 px-5 rounded-xl text-sm font-bold transition-colors',
+                        canCompare ? 'bg-white text-black hover:bg-neutral-200' : 'bg-white/10 text-neutral-500 cursor-not-allowed'
+                    )}
+                    title={canCompare ? undefined : 'Add one more product to compare'}
+                >
+                    <GitCompareArrows className="w-4 h-4" />
+                    Compare ({items.length})
+                </Link>
+            </div>
+        </div>
+    );
+}
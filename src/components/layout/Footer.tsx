@@ -13,29 +13,15 @@ import {
     Youtube
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
-import api from '@/lib/api';
-
-interface SocialLinks {
-    facebook?: string;
-    instagram?: string;
-    twitter?: string;
-    linkedin?: string;
-    youtube?: string;
-    [key: string]: string | undefined;
-}
+import { coreService } from '@/services/core';
+import type { SiteConfig } from '@/types/core';
 
-interface SiteConfig {
-    site_name: string;
-    site_description: string;
-    contact_email: string;
-    phone_number: string;
-    address: string;
-    social_links: SocialLinks;
-}
+// Only the public-facing part of the site config is rendered here
+type FooterConfig = Pick<SiteConfig, 'site_name' | 'site_description' | 'contact_email' | 'phone_number' | 'address' | 'social_links'>;
 
 export default function Footer() {
     const currentYear = new Date().getFullYear();
-    const [config, setConfig] = useState<SiteConfig>({
+    const [config, setConfig] = useState<FooterConfig>({
         site_name: 'OWLS',
         site_description: 'Kiến tạo phong cách sống số với những thiết bị công nghệ đỉnh cao. Tối giản, mạnh mẽ và độc bản.',
         contact_email: 'hello@owls.com',
@@ -52,12 +38,12 @@ export default function Footer() {
     useEffect(() => {
         const fetchConfig = async () => {
             try {
-                const response = await api.get('/core/config/');
+                const data = await coreService.getConfig();
                 // Merge with defaults to ensure no broken UI if fields are missing
                 setConfig(prev => ({
                     ...prev,
-                    ...response.data,
-                    social_links: response.data.social_links || prev.social_links
+                    ...data,
+                    social_links: data.social_links || prev.social_links
                 }));
             } catch (error) {
                 console.error("Failed to fetch footer config", error);
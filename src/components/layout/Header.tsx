@@ -3,9 +3,12 @@
 import Link from 'next/link';
 import { usePathname, useSearchParams } from 'next/navigation';
 import { useState, useEffect } from 'react';
-import { Search, ShoppingBag, User, Menu, X, Loader2 } from 'lucide-react';
+import { Search, ShoppingBag, User, Menu, X, Loader2, ChevronDown } from 'lucide-react';
 import { useAuthStore } from '@/store/auth-store';
 import { useCartStore } from '@/store/cart-store';
+import { useCategoryTree } from '@/hooks/use-category-tree';
+import { flattenCategoryTree, getCategoryHref } from '@/lib/categories';
+import { SearchPalette } from './SearchPalette';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from "@/lib/utils";
 import { Button } from '@/components/ui/button';
@@ -13,6 +16,9 @@ import { Button } from '@/components/ui/button';
 export default function Header() {
     const [isScrolled, setIsScrolled] = useState(false);
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+    const [isMegaMenuOpen, setIsMegaMenuOpen] = useState(false);
+    const [isSearchOpen, setIsSearchOpen] = useState(false);
+    const categoryTree = useCategoryTree();
 
     const pathname = usePathname();
     const searchParams = useSearchParams();
@@ -30,17 +36,33 @@ export default function Header() {
         return () => window.removeEventListener('scroll', handleScroll);
     }, []);
 
+    // Ctrl/Cmd+K toggles the search palette; "/" opens it unless the user is typing
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+                e.preventDefault();
+                setIsSearchOpen(open => !open);
+                return;
+            }
+            const target = e.target as HTMLElement | null;
+            const isTyping = target?.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target?.tagName || '');
+            if (e.key === '/' && !isTyping) {
+                e.preventDefault();
+                setIsSearchOpen(true);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
     useEffect(() => {
         setIsMobileMenuOpen(false);
+        setIsMegaMenuOpen(false);
     }, [pathname, searchParams]);
 
     const isAdminRoute = pathname?.startsWith('/admin');
 
     const customerLinks = [
-        { href: '/products?category=laptops', label: 'Laptops' },
-        { href: '/products?category=phones', label: 'Phones' },
-        { href: '/products?category=audio', label: 'Audio' },
-        { href: '/products?category=watches', label: 'Watches' },
         { href: '/about', label: 'About' },
         ...(hasHydrated && user?.is_staff ? [{ href: '/admin', label: 'Dashboard' }] : []),
     ];
@@ -49,12 +71,17 @@ export default function Header() {
         { href: '/admin', label: 'Overview' },
         { href: '/admin/orders', label: 'Orders' },
         { href: '/admin/products', label: 'Products' },
+        { href: '/admin/categories', label: 'Categories' },
         { href: '/admin/customers', label: 'Customers' },
+        { href: '/admin/quotes', label: 'Quotes' },
+        { href: '/admin/reviews', label: 'Reviews' },
         { href: '/admin/settings', label: 'Settings' },
         { href: '/', label: 'Exit Admin' },
     ];
 
-    const navLinks = (hasHydrated && isAuthenticated && user?.is_staff && isAdminRoute) ? adminLinks : customerLinks;
+    const showAdminNav = !!(hasHydrated && isAuthenticated && user?.is_staff && isAdminRoute);
+    const navLinks = showAdminNav ? adminLinks : customerLinks;
+    const isShopActive = pathname === '/products';
 
     const isActiveLink = (href: string) => {
         if (href === '/') return pathname === '/';
@@ -78,8 +105,9 @@ export default function Header() {
                     initial={{ y: -100, opacity: 0 }}
                     animate={{ y: 0, opacity: 1 }}
                     transition={{ duration: 0.8, ease: [0.16, 1, 0.3, 1] }}
+                    onMouseLeave={() => setIsMegaMenuOpen(false)}
                     className={cn(
-                        "pointer-events-auto flex items-center justify-between px-3 py-2 md:px-4 md:py-2.5 rounded-full border transition-all duration-500",
+                        "relative pointer-events-auto flex items-center justify-between px-3 py-2 md:px-4 md:py-2.5 rounded-full border transition-all duration-500",
                         // Điều chỉnh chiều rộng tối đa (max-w) để không bị tràn màn hình
                         isScrolled
                             ? "bg-black/40 backdrop-blur-2xl border-white/10 w-[92%] max-w-5xl shadow-2xl shadow-purple-900/10"
@@ -102,6 +130,30 @@ export default function Header() {
 
                     {/* Center: Desktop Nav (Scrollable if needed) */}
                     <nav className="hidden lg:flex items-center bg-white/5 rounded-full p-1 border border-white/5 overflow-x-auto overflow-y-hidden scrollbar-hide max-w-[600px]">
+                        {!showAdminNav && (
+                            <Link
+                                href="/products"
+                                onMouseEnter={() => setIsMegaMenuOpen(categoryTree.length > 0)}
+                                onFocus={() => setIsMegaMenuOpen(categoryTree.length > 0)}
+                                aria-expanded={isMegaMenuOpen}
+                                className={cn(
+                                    "relative px-4 py-1.5 text-sm font-medium rounded-full transition-colors duration-300 z-10 whitespace-nowrap flex items-center gap-1",
+                                    isShopActive || isMegaMenuOpen ? "text-white" : "text-white/60 hover:text-white/80"
+                                )}
+                            >
+                                {isShopActive && (
+                                    <motion.span
+                                        layoutId="active-pill"
+                                        className="absolute inset-0 bg-white/15 rounded-full -z-10 shadow-[0_0_20px_-5px_rgba(168,85,247,0.4)] backdrop-blur-sm border border-white/10"
+                                        transition={{ type: "spring", stiffness: 300, damping: 30 }}
+                                    />
+                                )}
+                                <span className="relative z-10">Shop</span>
+                                {categoryTree.length > 0 && (
+                                    <ChevronDown size={14} className={cn("relative z-10 transition-transform duration-300", isMegaMenuOpen && "rotate-180")} />
+                                )}
+                            </Link>
+                        )}
                         {navLinks.map((link) => {
                             const isActive = isActiveLink(link.href);
                             return (
@@ -128,7 +180,12 @@ export default function Header() {
 
                     {/* Right: Actions */}
                     <div className="flex items-center gap-1 md:gap-2 pl-2 md:pl-6 shrink-0">
-                        <button className="p-2.5 text-white/60 hover:text-white transition-colors hover:bg-white/10 rounded-full hidden sm:block">
+                        <button
+                            onClick={() => setIsSearchOpen(true)}
+                            className="p-2.5 text-white/60 hover:text-white transition-colors hover:bg-white/10 rounded-full"
+                            title="Search (Ctrl+K)"
+                            aria-label="Search"
+                        >
                             <Search size={18} />
                         </button>
 
@@ -156,9 +213,57 @@ export default function Header() {
                             )}
                         </Link>
                     </div>
+
+                    {/* Mega Menu: driven by the category tree */}
+                    <AnimatePresence>
+                        {isMegaMenuOpen && !showAdminNav && (
+                            <motion.div
+                                initial={{ opacity: 0, y: -8 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                exit={{ opacity: 0, y: -8 }}
+                                transition={{ duration: 0.2 }}
+                                // Padding rather than margin keeps the pointer inside while moving down
+                                className="absolute top-full inset-x-0 pt-3 hidden lg:block"
+                            >
+                                <div className="rounded-3xl border border-white/10 bg-black/80 backdrop-blur-2xl shadow-2xl shadow-purple-900/10 p-6">
+                                    <div className="grid grid-cols-4 gap-6 max-h-[60vh] overflow-y-auto">
+                                        {categoryTree.map(category => (
+                                            <div key={category.id} className="space-y-3">
+                                                <Link href={getCategoryHref(category)} className="flex items-center gap-3 group">
+                                                    {category.image && (
+                                                        // eslint-disable-next-line @next/next/no-img-element
+                                                        <img src={category.image} alt="" className="w-10 h-10 rounded-xl object-cover border border-white/10" />
+                                                    )}
+                                                    <span className="font-semibold text-white group-hover:text-purple-400 transition-colors">{category.name}</span>
+                                                </Link>
+                                                {category.children.length > 0 && (
+                                                    <ul className="space-y-1.5">
+                                                        {category.children.map(child => (
+                                                            <li key={child.id}>
+                                                                <Link href={getCategoryHref(child)} className="text-sm text-white/60 hover:text-white transition-colors">
+                                                                    {child.name}
+                                                                </Link>
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="mt-6 pt-4 border-t border-white/10">
+                                        <Link href="/products" className="text-sm font-medium text-purple-400 hover:text-purple-300 transition-colors">
+                                            Browse all products →
+                                        </Link>
+                                    </div>
+                                </div>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
                 </motion.div>
             </header>
 
+            <SearchPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} categories={flattenCategoryTree(categoryTree)} />
+
             {/* Mobile Menu Overlay */}
             <AnimatePresence>
                 {isMobileMenuOpen && (
@@ -187,7 +292,26 @@ export default function Header() {
                                 </button>
                             </div>
 
-                            <nav className="flex flex-col gap-6">
+                            <nav className="flex flex-col gap-6 max-h-[calc(100vh-16rem)] overflow-y-auto">
+                                {!showAdminNav && (
+                                    <div className="flex flex-col gap-3">
+                                        <Link href="/products" className={cn("text-2xl font-light transition-all duration-300", isShopActive ? "text-purple-400 font-medium pl-4 border-l-2 border-purple-400" : "text-white/60 hover:text-white")}>
+                                            Shop
+                                        </Link>
+                                        {categoryTree.map(category => (
+                                            <div key={category.id} className="pl-4 flex flex-col gap-2">
+                                                <Link href={getCategoryHref(category)} className="text-lg text-white/80 hover:text-white">
+                                                    {category.name}
+                                                </Link>
+                                                {category.children.map(child => (
+                                                    <Link key={child.id} href={getCategoryHref(child)} className="pl-4 text-sm text-white/50 hover:text-white">
+                                                        {child.name}
+                                                    </Link>
+                                                ))}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                                 {navLinks.map((link) => {
                                     const isActive = isActiveLink(link.href);
                                     return (
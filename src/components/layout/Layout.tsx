@@ -3,6 +3,7 @@
 import { Suspense } from 'react';
 import Header from './Header';
 import Footer from './Footer';
+import { CompareTray } from './CompareTray';
 
 interface LayoutProps {
     children: React.ReactNode;
@@ -11,13 +12,19 @@ interface LayoutProps {
 export default function Layout({ children }: LayoutProps) {
     return (
         <div className="min-h-screen flex flex-col bg-background font-sans antialiased selection:bg-primary/30 selection:text-primary-foreground">
-            <Suspense fallback={null}>
-                <Header />
-            </Suspense>
+            {/* Admin print views render documents only */}
+            <div className="print:hidden">
+                <Suspense fallback={null}>
+                    <Header />
+                </Suspense>
+            </div>
             <main className="flex-1">
                 {children}
             </main>
-            <Footer />
+            <div className="print:hidden">
+                <Footer />
+                <CompareTray />
+            </div>
         </div>
     );
 }
@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, Clock, FolderTree, ArrowRight, X, Loader2, ImageIcon } from 'lucide-react';
+import * as DialogPrimitive from '@radix-ui/react-dialog';
+import { useDebounce } from '@/hooks/use-debounce';
+import { unwrapList } from '@/lib/list';
+import { getCategoryHref } from '@/lib/categories';
+import { getSearchHref, matchesSearch, normalizeSearchText } from '@/lib/search';
+import { cn, formatPrice } from '@/lib/utils';
+import { catalogService } from '@/services/catalog';
+import { useSearchStore } from '@/store/search-store';
+import type { CategoryNode, Product } from '@/types/product';
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_PRODUCTS = 6;
+const MAX_CATEGORIES = 4;
+// Products matched locally as well, since the backend search only matches the accents as typed
+const CANDIDATE_POOL_SIZE = 200;
+
+type PaletteItem =
+    | { kind: 'recent'; key: string; href: string; query: string }
+    | { kind: 'category'; key: string; href: string; category: CategoryNode }
+    | { kind: 'product'; key: string; href: string; product: Product }
+    | { kind: 'search'; key: string; href: string; query: string };
+
+const SECTION_LABELS: Record<PaletteItem['kind'], string> = {
+    recent: 'Recent searches',
+    category: 'Categories',
+    product: 'Products',
+    search: '',
+};
+
+interface SearchPaletteProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    categories: CategoryNode[];
+}
+
+export function SearchPalette({ open, onOpenChange, categories }: SearchPaletteProps) {
+    return (
+        <DialogPrimitive.Root open={open} onOpenChange={onOpenChange}>
+            <DialogPrimitive.Portal>
+                <DialogPrimitive.Overlay className="fixed inset-0 z-[70] bg-black/60 backdrop-blur-sm data-[state=open]:animate-in data-[state=open]:fade-in-0" />
+                <DialogPrimitive.Content
+                    aria-describedby={undefined}
+                    className="fixed left-1/2 top-[12vh] z-[70] w-[92%] max-w-2xl -translate-x-1/2 rounded-3xl border border-white/10 bg-neutral-950/95 shadow-2xl shadow-purple-900/20 overflow-hidden data-[state=open]:animate-in data-[state=open]:fade-in-0 data-[state=open]:zoom-in-95"
+                >
+                    <DialogPrimitive.Title className="sr-only">Search</DialogPrimitive.Title>
+                    {/* Mounted only while open, so every search starts fresh */}
+                    <PaletteBody categories={categories} onClose={() => onOpenChange(false)} />
+                </DialogPrimitive.Content>
+            </DialogPrimitive.Portal>
+        </DialogPrimitive.Root>
+    );
+}
+
+function PaletteBody({ categories, onClose }: { categories: CategoryNode[]; onClose: () => void }) {
+    const router = useRouter();
+    const listRef = useRef<HTMLDivElement>(null);
+    const [query, setQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [results, setResults] = useState<{ query: string; products: Product[] }>({ query: '', products: [] });
+    const { recentSearches, addRecentSearch, removeRecentSearch } = useSearchStore();
+    // Fetched on the first search and reused for the rest of the session
+    const candidatePool = useRef<Promise<Product[]> | null>(null);
+
+    const term = query.trim();
+    const debouncedTerm = useDebounce(term, 250);
+
+    useEffect(() => {
+        if (debouncedTerm.length < MIN_QUERY_LENGTH) return;
+        let cancelled = false;
+
+        // Also search the unaccented form so "Điện thoại" finds products named "Dien thoai"
+        const folded = normalizeSearchText(debouncedTerm);
+        const searches = folded === debouncedTerm.toLowerCase() ? [debouncedTerm] : [debouncedTerm, folded];
+
+        // The other direction ("dien thoai" for "Điện thoại") only works by folding names here
+        candidatePool.current ??= catalogService.getProducts({ page_size: CANDIDATE_POOL_SIZE })
+            .then(unwrapList)
+            .catch(error => {
+                console.error('Failed to load search candidates:', error);
+                return [];
+            });
+        const localMatches = candidatePool.current.then(products => products.filter(p => matchesSearch(p.name, debouncedTerm)));
+
+        Promise.all([...searches.map(search => catalogService.getProducts({ search }).then(unwrapList)), localMatches])
+            .then(lists => {
+                if (cancelled) return;
+                const unique = lists.flat().filter((product, index, all) => all.findIndex(p => p.id === product.id) === index);
+                // Name matches first; the rest matched on brand or description
+                const ranked = [
+                    ...unique.filter(p => matchesSearch(p.name, debouncedTerm)),
+                    ...unique.filter(p => !matchesSearch(p.name, debouncedTerm)),
+                ];
+                setResults({ query: debouncedTerm, products: ranked.slice(0, MAX_PRODUCTS) });
+            })
+            .catch(error => {
+                console.error('Search suggestions failed:', error);
+                if (!cancelled) setResults({ query: debouncedTerm, products: [] });
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [debouncedTerm]);
+
+    const hasQuery = term.length >= MIN_QUERY_LENGTH;
+    const isSearching = hasQuery && results.query !== term;
+
+    const items: PaletteItem[] = [
+        ...recentSearches
+            .filter(q => !term || matchesSearch(q, term))
+            .map(q => ({ kind: 'recent' as const, key: `recent-${q}`, href: getSearchHref(q), query: q })),
+        ...(term ? categories.filter(c => matchesSearch(c.name, term)) : categories.filter(c => c.depth === 0))
+            .slice(0, MAX_CATEGORIES)
+            .map(category => ({ kind: 'category' as const, key: `category-${category.id}`, href: getCategoryHref(category), category })),
+        ...(hasQuery ? results.products : [])
+            .map(product => ({ kind: 'product' as const, key: `product-${product.id}`, href: `/products/${product.slug}`, product })),
+        ...(term ? [{ kind: 'search' as const, key: 'search', href: getSearchHref(term), query: term }] : []),
+    ];
+    const active = Math.min(activeIndex, items.length - 1);
+
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [active]);
+
+    const select = (item: PaletteItem) => {
+        if (item.kind === 'recent' || item.kind === 'search') addRecentSearch(item.query);
+        else if (term) addRecentSearch(term);
+        onClose();
+        router.push(item.href);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' && items.length > 0) {
+            e.preventDefault();
+            setActiveIndex((active + 1) % items.length);
+        } else if (e.key === 'ArrowUp' && items.length > 0) {
+            e.preventDefault();
+            setActiveIndex((active - 1 + items.length) % items.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (items[active]) select(items[active]);
+        }
+    };
+
+    return (
+        <>
+            <div className="flex items-center gap-3 px-5 border-b border-white/10">
+                <Search className="w-5 h-5 text-neutral-500 shrink-0" />
+                {/* Radix focuses the first focusable element, which is this input */}
+                <input
+                    value={query}
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        setActiveIndex(0);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Search products, categories..."
+                    role="combobox"
+                    aria-expanded={items.length > 0}
+                    aria-controls="search-palette-list"
+                    aria-activedescendant={items[active] ? `search-item-${active}` : undefined}
+                    className="flex-1 h-16 bg-transparent text-white text-lg placeholder:text-neutral-600 focus:outline-none"
+                />
+                {isSearching && <Loader2 className="w-4 h-4 text-purple-400 animate-spin shrink-0" />}
+                <kbd className="hidden sm:block px-2 py-1 rounded-md border border-white/10 text-[10px] text-neutral-500 font-mono">ESC</kbd>
+            </div>
+
+            <div ref={listRef} id="search-palette-list" role="listbox" className="max-h-[60vh] overflow-y-auto p-2">
+                {items.length === 0 && (
+                    <p className="px-4 py-10 text-center text-sm text-neutral-500">Type to search the catalog.</p>
+                )}
+                {items.map((item, index) => {
+                    const showHeading = SECTION_LABELS[item.kind] && items[index - 1]?.kind !== item.kind;
+                    return (
+                        <div key={item.key}>
+                            {showHeading && (
+                                <p className="px-3 pt-3 pb-1.5 text-[10px] font-bold uppercase tracking-widest text-neutral-500">{SECTION_LABELS[item.kind]}</p>
+                            )}
+                            <div
+                                id={`search-item-${index}`}
+                                data-index={index}
+                                role="option"
+                                aria-selected={index === active}
+                                onMouseMove={() => index !== active && setActiveIndex(index)}
+                                onClick={() => select(item)}
+                                className={cn(
+                                    'flex items-center gap-3 px-3 py-2.5 rounded-xl cursor-pointer transition-colors',
+                                    index === active ? 'bg-white/10 text-white' : 'text-neutral-300'
+                                )}
+                            >
+                                <PaletteItemContent item={item} onRemoveRecent={removeRecentSearch} />
+                            </div>
+                        </div>
+                    );
+                })}
+                {hasQuery && !isSearching && results.products.length === 0 && (
+                    <p className="px-3 py-2 text-xs text-neutral-600">No products match &quot;{term}&quot;.</p>
+                )}
+            </div>
+
+            <div className="hidden sm:flex items-center gap-4 px-5 py-3 border-t border-white/10 text-[10px] text-neutral-500">
+                <span><kbd className="font-mono">↑↓</kbd> to navigate</span>
+                <span><kbd className="font-mono">↵</kbd> to open</span>
+                <span className="ml-auto"><kbd className="font-mono">Ctrl K</kbd> to toggle</span>
+            </div>
+        </>
+    );
+}
+
+function PaletteItemContent({ item, onRemoveRecent }: { item: PaletteItem; onRemoveRecent: (query: string) => void }) {
+    switch (item.kind) {
+        case 'recent':
+            return (
+                <>
+                    <Clock className="w-4 h-4 text-neutral-500 shrink-0" />
+                    <span className="flex-1 truncate">{item.query}</span>
+                    <button
+                        type="button"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onRemoveRecent(item.query);
+                        }}
+                        className="p-1 rounded-full text-neutral-600 hover:text-white hover:bg-white/10"
+                        aria-label={`Remove "${item.query}" from recent searches`}
+                    >
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                </>
+            );
+        case 'category':
+            return (
+                <>
+                    <FolderTree className="w-4 h-4 text-purple-400 shrink-0" />
+                    <span className="flex-1 truncate">{item.category.name}</span>
+                    {item.category.product_count !== undefined && (
+                        <span className="text-xs text-neutral-500">{item.category.product_count} products</span>
+                    )}
+                </>
+            );
+        case 'product': {
+            const { product } = item;
+            return (
+                <>
+                    <div className="w-11 h-11 rounded-lg bg-black/40 border border-white/10 overflow-hidden flex items-center justify-center shrink-0">
+                        {product.primary_image ? (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img src={product.primary_image} alt="" className="w-full h-full object-cover" />
+                        ) : (
+                            <ImageIcon className="w-4 h-4 text-neutral-600" />
+                        )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <p className="truncate font-medium">{product.name}</p>
+                        <p className="text-xs text-neutral-500 truncate">{product.category?.name}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                        <p className="text-sm font-mono text-white">{formatPrice(product.current_price)}</p>
+                        {product.sale_price !== null && product.current_price < product.price && (
+                            <p className="text-xs font-mono text-neutral-600 line-through">{formatPrice(product.price)}</p>
+                        )}
+                    </div>
+                </>
+            );
+        }
+        case 'search':
+            return (
+                <>
+                    <Search className="w-4 h-4 text-neutral-500 shrink-0" />
+                    <span className="flex-1 truncate">Search for &quot;{item.query}&quot;</span>
+                    <ArrowRight className="w-4 h-4 text-neutral-500" />
+                </>
+            );
+    }
+}
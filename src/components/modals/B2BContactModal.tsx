@@ -1,4 +1,7 @@
 import { useState, useEffect } from 'react';
+import { useForm, useWatch, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -7,66 +10,91 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { X, Phone, Mail, Building2, User, FileText, Send, Minus, Plus } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { handleFormError } from '@/lib/form-errors';
 import { cn } from '@/lib/utils';
+import { b2bService } from '@/services/b2b';
+
+const quoteSchema = z.object({
+    company_name: z.string().trim().min(1, 'Company name is required'),
+    contact_name: z.string().trim().min(1, 'Contact person is required'),
+    phone: z.string().trim().min(10, 'Invalid phone number'),
+    email: z.string().email('Invalid email address'),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+    note: z.string().optional(),
+    accept_promo: z.boolean(),
+});
+
+type QuoteForm = z.infer<typeof quoteSchema>;
 
 interface B2BContactModalProps {
     isOpen: boolean;
     onClose: () => void;
+    productId?: string;
     productName?: string;
     quantity?: number;
 }
 
-export function B2BContactModal({ isOpen, onClose, productName, quantity }: B2BContactModalProps) {
-    const [formData, setFormData] = useState({
-        companyName: '',
-        customerName: '',
+export function B2BContactModal({ isOpen, onClose, productId, productName, quantity }: B2BContactModalProps) {
+    const defaultValues: QuoteForm = {
+        company_name: '',
+        contact_name: '',
         phone: '',
         email: '',
         note: '',
         quantity: quantity || 6,
-        acceptPromo: true
+        accept_promo: true,
+    };
+
+    const {
+        register,
+        handleSubmit,
+        control,
+        reset,
+        setValue,
+        getValues,
+        setError,
+        formState: { errors, isSubmitting },
+    } = useForm<QuoteForm>({
+        resolver: zodResolver(quoteSchema),
+        defaultValues,
     });
 
     useEffect(() => {
         if (quantity) {
-            setFormData(prev => ({ ...prev, quantity: quantity }));
+            setValue('quantity', quantity);
         }
-    }, [quantity]);
+    }, [quantity, setValue]);
 
-    const [isSubmitting, setIsSubmitting] = useState(false);
     const [isSuccess, setIsSuccess] = useState(false);
+    const requestedQuantity = useWatch({ control, name: 'quantity' });
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        setIsSubmitting(true);
-        // Simulate API call
-        console.log("Submitting B2B Request:", formData);
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        setIsSubmitting(false);
-        setIsSuccess(true);
+    const onSubmit = async (data: QuoteForm) => {
+        try {
+            await b2bService.requestQuote({
+                ...data,
+                product_id: productId || null,
+                product_name: productName || '',
+            });
+            setIsSuccess(true);
+        } catch (error) {
+            handleFormError(error, {
+                fallback: 'Failed to send request. Please try again.',
+                setError,
+                fields: Object.keys(quoteSchema.shape),
+            });
+        }
     };
 
     const handleClose = () => {
         onClose();
         setTimeout(() => {
             setIsSuccess(false);
-            setFormData({
-                companyName: '',
-                customerName: '',
-                phone: '',
-                email: '',
-                note: '',
-                quantity: quantity || 6,
-                acceptPromo: true
-            });
+            reset(defaultValues);
         }, 500);
     }
 
     const adjustQuantity = (delta: number) => {
-        setFormData(prev => {
-            const newQty = Math.max(1, prev.quantity + delta);
-            return { ...prev, quantity: newQty };
-        });
+        setValue('quantity', Math.max(1, getValues('quantity') + delta), { shouldValidate: true });
     };
 
     return (
@@ -108,7 +136,7 @@ export function B2BContactModal({ isOpen, onClose, productName, quantity }: B2BC
                                 <div className="space-y-2">
                                     <h3 className="text-2xl font-bold text-white">Request Sent Successfully!</h3>
                                     <p className="text-neutral-400 max-w-md mx-auto">
-                                        We have received your request for <span className="text-white font-bold">{formData.quantity} units</span>. <br />
+                                        We have received your request for <span className="text-white font-bold">{requestedQuantity} units</span>. <br />
                                         Our B2B team will contact you shortly.
                                     </p>
                                 </div>
@@ -140,7 +168,7 @@ export function B2BContactModal({ isOpen, onClose, productName, quantity }: B2BC
                                     </div>
                                 </div>
 
-                                <form onSubmit={handleSubmit} className="space-y-6">
+                                <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
 
                                     {/* Product and Quantity Row (Featured) */}
                                     <div className="p-4 rounded-xl bg-white/5 border border-white/10 flex flex-col sm:flex-row gap-6 items-center justify-between">
@@ -161,8 +189,9 @@ export function B2BContactModal({ isOpen, onClose, productName, quantity }: B2BC
                                                 </button>
                                                 <input
                                                     type="number"
-                                                    value={formData.quantity}
-                                                    onChange={(e) => setFormData({ ...formData, quantity: Math.max(1, parseInt(e.target.value) || 0) })}
+                                                    {...register('quantity', {
+                                                        setValueAs: (value) => Math.max(1, parseInt(value) || 0),
+                                                    })}
                                                     className="w-16 h-full bg-transparent border-x border-white/10 text-center font-mono font-bold text-white focus:outline-none text-sm [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
                                                 />
                                                 <button
@@ -185,11 +214,10 @@ export function B2BContactModal({ isOpen, onClose, productName, quantity }: B2BC
                                                     id="companyName"
                                                     placeholder="Acme Corp"
                                                     className="pl-11 bg-white/5 border-white/10 text-white placeholder:text-neutral-600 focus:border-purple-500/50 focus:bg-white/10 h-12 rounded-xl transition-all"
-                                                    required
-                                                    value={formData.companyName}
-                                                    onChange={e => setFormData({ ...formData, companyName: e.target.value })}
+                                                    {...register('company_name')}
                                                 />
                                             </div>
+                                            {errors.company_name && <p className="text-red-400 text-xs ml-1">{errors.company_name.message}</p>}
                                         </div>
                                         <div className="space-y-2.5">
                                             <Label htmlFor="customerName" className="text-xs font-bold uppercase tracking-widest text-neutral-500">Contact Person <span className="text-red-400">*</span></Label>
@@ -199,11 +227,10 @@ export function B2BContactModal({ isOpen, onClose, productName, quantity }: B2BC
                                                     id="customerName"
                                                     placeholder="John Doe"
                                                     className="pl-11 bg-white/5 border-white/10 text-white placeholder:text-neutral-600 focus:border-purple-500/50 focus:bg-white/10 h-12 rounded-xl transition-all"
-                                                    required
-                                                    value={formData.customerName}
-                                                    onChange={e => setFormData({ ...formData, customerName: e.target.value })}
+                                                    {...register('contact_name')}
                                                 />
                                             </div>
+                                            {errors.contact_name && <p className="text-red-400 text-xs ml-1">{errors.contact_name.message}</p>}
                                         </div>
                                     </div>
 
@@ -216,11 +243,10 @@ export function B2BContactModal({ isOpen, onClose, productName, quantity }: B2BC
                                                     id="phone"
                                                     placeholder="+84 90 123 4567"
                                                     className="pl-11 bg-white/5 border-white/10 text-white placeholder:text-neutral-600 focus:border-purple-500/50 focus:bg-white/10 h-12 rounded-xl transition-all"
-                                                    required
-                                                    value={formData.phone}
-                                                    onChange={e => setFormData({ ...formData, phone: e.target.value })}
+                                                    {...register('phone')}
                                                 />
                                             </div>
+                                            {errors.phone && <p className="text-red-400 text-xs ml-1">{errors.phone.message}</p>}
                                         </div>
                                         <div className="space-y-2.5">
                                             <Label htmlFor="email" className="text-xs font-bold uppercase tracking-widest text-neutral-500">Email Address <span className="text-red-400">*</span></Label>
@@ -231,11 +257,10 @@ export function B2BContactModal({ isOpen, onClose, productName, quantity }: B2BC
                                                     type="email"
                                                     placeholder="john@acme.com"
                                                     className="pl-11 bg-white/5 border-white/10 text-white placeholder:text-neutral-600 focus:border-purple-500/50 focus:bg-white/10 h-12 rounded-xl transition-all"
-                                                    required
-                                                    value={formData.email}
-                                                    onChange={e => setFormData({ ...formData, email: e.target.value })}
+                                                    {...register('email')}
                                                 />
                                             </div>
+                                            {errors.email && <p className="text-red-400 text-xs ml-1">{errors.email.message}</p>}
                                         </div>
                                     </div>
 
@@ -245,17 +270,22 @@ export function B2BContactModal({ isOpen, onClose, productName, quantity }: B2BC
                                             id="note"
                                             placeholder="Specific requirements, preferred delivery date, etc."
                                             className="min-h-[100px] bg-white/5 border-white/10 text-white placeholder:text-neutral-600 focus:border-purple-500/50 focus:bg-white/10 rounded-xl resize-none p-4"
-                                            value={formData.note}
-                                            onChange={e => setFormData({ ...formData, note: e.target.value })}
+                                            {...register('note')}
                                         />
                                     </div>
 
                                     <div className="flex items-start space-x-3 pt-2">
-                                        <Checkbox
-                                            id="promo"
-                                            checked={formData.acceptPromo}
-                                            onCheckedChange={(checked) => setFormData({ ...formData, acceptPromo: checked as boolean })}
-                                            className="mt-1 border-white/20 data-[state=checked]:bg-purple-500 data-[state=checked]:border-purple-500 bg-white/5"
+                                        <Controller
+                                            name="accept_promo"
+                                            control={control}
+                                            render={({ field }) => (
+                                                <Checkbox
+                                                    id="promo"
+                                                    checked={field.value}
+                                                    onCheckedChange={(checked) => field.onChange(checked === true)}
+                                                    className="mt-1 border-white/20 data-[state=checked]:bg-purple-500 data-[state=checked]:border-purple-500 bg-white/5"
+                                                />
+                                            )}
                                         />
                                         <div className="grid gap-1.5 leading-none">
                                             <Label
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { XCircle, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getApiError } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { ordersService } from '@/services/orders';
+import type { OrderDetail } from '@/types/order';
+
+const CANCEL_REASONS = [
+    'Muốn thay đổi địa chỉ giao hàng',
+    'Muốn thay đổi sản phẩm trong đơn',
+    'Tìm được giá tốt hơn',
+    'Không còn nhu cầu mua',
+];
+
+interface CancelOrderModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    orderNumber: string;
+    isPaid?: boolean;
+    onCancelled?: (order: OrderDetail) => void;
+}
+
+export function CancelOrderModal({ isOpen, onClose, orderNumber, isPaid, onCancelled }: CancelOrderModalProps) {
+    const [reason, setReason] = useState('');
+    const [otherReason, setOtherReason] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const finalReason = reason === 'other' ? otherReason.trim() : reason;
+
+    const handleClose = () => {
+        if (isSubmitting) return;
+        onClose();
+        setReason('');
+        setOtherReason('');
+    };
+
+    const handleSubmit = async () => {
+        if (!finalReason) {
+            toast.error('Vui lòng chọn lý do hủy đơn');
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const order = await ordersService.cancelOrder(orderNumber, finalReason);
+            toast.success('Đã hủy đơn hàng');
+            onCancelled?.(order);
+            onClose();
+        } catch (error) {
+            toast.error(getApiError(error, 'Không thể hủy đơn hàng').message);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+            <DialogContent className="sm:max-w-md bg-black/90 border-white/10 text-white backdrop-blur-xl">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-display font-bold text-white flex items-center gap-2">
+                        <XCircle className="text-rose-400" size={20} /> Hủy đơn hàng #{orderNumber}
+                    </DialogTitle>
+                    <DialogDescription className="text-neutral-400">
+                        {isPaid
+                            ? 'Số tiền đã thanh toán sẽ được hoàn về tài khoản của bạn trong 3-7 ngày làm việc.'
+                            : 'Đơn hàng sẽ bị hủy và không thể khôi phục.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-2 py-2">
+                    {[...CANCEL_REASONS, 'other'].map((option) => (
+                        <label
+                            key={option}
+                            className={cn(
+                                "flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-colors text-sm",
+                                reason === option ? "border-purple-500/50 bg-purple-500/10 text-white" : "border-white/10 bg-white/5 text-neutral-300 hover:bg-white/10"
+                            )}
+                        >
+                            <input
+                                type="radio"
+                                name="cancel_reason"
+                                value={option}
+                                checked={reason === option}
+                                onChange={() => setReason(option)}
+                                className="accent-purple-500"
+                            />
+                            {option === 'other' ? 'Lý do khác' : option}
+                        </label>
+                    ))}
+                    {reason === 'other' && (
+                        <Textarea
+                            value={otherReason}
+                            onChange={(e) => setOtherReason(e.target.value)}
+                            placeholder="Cho chúng tôi biết lý do..."
+                            maxLength={500}
+                            className="bg-white/5 border-white/10 text-white placeholder:text-neutral-600 rounded-xl resize-none"
+                        />
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <Button variant="ghost" onClick={handleClose} disabled={isSubmitting} className="text-neutral-400 hover:text-white">
+                        Quay lại
+                    </Button>
+                    <Button
+                        onClick={handleSubmit}
+                        disabled={isSubmitting || !finalReason}
+                        className="bg-rose-600 hover:bg-rose-700 text-white rounded-xl font-bold"
+                    >
+                        {isSubmitting && <Loader2 size={16} className="animate-spin mr-2" />}
+                        Xác nhận hủy
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
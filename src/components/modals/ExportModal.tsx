@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { getApiError } from '@/lib/api';
+import { cn, downloadBlob } from '@/lib/utils';
+import type { ExportFormat, ExportOptions } from '@/types/api';
+
+export interface ExportColumn {
+    key: string;
+    label: string;
+}
+
+const FORMATS: { value: ExportFormat; label: string; extension: string; icon: typeof FileText }[] = [
+    { value: 'excel', label: 'Excel (.xlsx)', extension: 'xlsx', icon: FileSpreadsheet },
+    { value: 'csv', label: 'CSV (.csv)', extension: 'csv', icon: FileText },
+];
+
+interface ExportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    title: string;
+    description?: string;
+    columns: ExportColumn[];
+    // File name without extension
+    filename: string;
+    onExport: (options: ExportOptions) => Promise<Blob>;
+}
+
+export function ExportModal({ isOpen, onClose, title, description, columns, filename, onExport }: ExportModalProps) {
+    const [format, setFormat] = useState<ExportFormat>('excel');
+    const [selected, setSelected] = useState<string[]>(() => columns.map(c => c.key));
+    const [isExporting, setIsExporting] = useState(false);
+
+    const toggleColumn = (key: string) => {
+        setSelected(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            // Keep the column order of the table, not the click order
+            const ordered = columns.map(c => c.key).filter(key => selected.includes(key));
+            const blob = await onExport({ format, columns: ordered });
+            const extension = FORMATS.find(f => f.value === format)?.extension ?? 'xlsx';
+            downloadBlob(new Blob([blob]), `${filename}.${extension}`);
+            onClose();
+        } catch (error) {
+            toast.error(getApiError(error, 'Export failed').message);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && !isExporting && onClose()}>
+            <DialogContent className="sm:max-w-lg bg-zinc-950 border-white/10 text-white">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-bold text-white flex items-center gap-2">
+                        <Download className="w-5 h-5 text-purple-400" /> {title}
+                    </DialogTitle>
+                    {description && <DialogDescription className="text-zinc-400">{description}</DialogDescription>}
+                </DialogHeader>
+
+                <div className="space-y-6 py-2">
+                    <div className="space-y-2">
+                        <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Format</p>
+                        <div className="grid grid-cols-2 gap-2">
+                            {FORMATS.map(option => (
+                                <button
+                                    key={option.value}
+                                    type="button"
+                                    onClick={() => setFormat(option.value)}
+                                    className={cn(
+                                        "flex items-center gap-2 p-3 rounded-xl border text-sm transition-colors",
+                                        format === option.value ? "border-purple-500/50 bg-purple-500/10 text-white" : "border-white/10 bg-white/5 text-zinc-400 hover:bg-white/10"
+                                    )}
+                                >
+                                    <option.icon className="w-4 h-4" />
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Columns</p>
+                            <button
+                                type="button"
+                                onClick={() => setSelected(selected.length === columns.length ? [] : columns.map(c => c.key))}
+                                className="text-xs text-purple-400 hover:text-purple-300"
+                            >
+                                {selected.length === columns.length ? 'Clear all' : 'Select all'}
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            {columns.map(column => (
+                                <label key={column.key} className="flex items-center gap-2 p-2 rounded-lg hover:bg-white/5 cursor-pointer text-sm text-zinc-300">
+                                    <Checkbox
+                                        checked={selected.includes(column.key)}
+                                        onCheckedChange={() => toggleColumn(column.key)}
+                                        className="border-white/20 data-[state=checked]:bg-purple-600 data-[state=checked]:border-purple-600"
+                                    />
+                                    {column.label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <Button variant="ghost" onClick={onClose} disabled={isExporting} className="text-zinc-400 hover:text-white">Cancel</Button>
+                    <Button
+                        onClick={handleExport}
+                        disabled={isExporting || selected.length === 0}
+                        className="bg-white text-black hover:bg-zinc-200 rounded-xl font-bold"
+                    >
+                        {isExporting ? <Loader2 className="animate-spin w-4 h-4 mr-2" /> : <Download className="w-4 h-4 mr-2" />}
+                        Export
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,225 @@
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { RotateCcw, ImagePlus, X, Minus, Plus, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { MAX_PHOTOS, usePhotoPicker } from '@/hooks/use-photo-picker';
+import { handleFormError } from '@/lib/form-errors';
+import { RETURN_REASONS } from '@/lib/orders';
+import { cn } from '@/lib/utils';
+import { ordersService } from '@/services/orders';
+import type { OrderItem, ReturnRequest } from '@/types/order';
+
+const returnSchema = z.object({
+    reason: z.enum(['defective', 'wrong_item', 'not_as_described', 'changed_mind', 'other'], { message: 'Vui lòng chọn lý do' }),
+    description: z.string().trim().min(10, 'Vui lòng mô tả chi tiết hơn (ít nhất 10 ký tự)').max(1000, 'Mô tả quá dài'),
+    items: z.array(z.object({
+        order_item: z.number(),
+        quantity: z.number().int().min(1),
+    })).min(1, 'Chọn ít nhất một sản phẩm cần trả'),
+});
+
+type ReturnForm = z.infer<typeof returnSchema>;
+
+interface ReturnRequestModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    orderNumber: string;
+    items: OrderItem[];
+    onSubmitted?: (request: ReturnRequest) => void;
+}
+
+export function ReturnRequestModal({ isOpen, onClose, orderNumber, items, onSubmitted }: ReturnRequestModalProps) {
+    const { photos, remaining, handlePhotosSelected, removePhoto, clearPhotos } = usePhotoPicker({
+        messages: {
+            notImage: (name) => `${name} không phải là ảnh`,
+            tooLarge: (name) => `${name} lớn hơn 5MB`,
+            tooMany: (max) => `Chỉ được đính kèm tối đa ${max} ảnh`,
+        },
+    });
+
+    const {
+        register,
+        handleSubmit,
+        control,
+        reset,
+        setError,
+        formState: { errors, isSubmitting },
+    } = useForm<ReturnForm>({
+        resolver: zodResolver(returnSchema),
+        defaultValues: { description: '', items: [] },
+    });
+
+    const handleClose = () => {
+        if (isSubmitting) return;
+        onClose();
+        reset({ description: '', items: [] });
+        clearPhotos();
+    };
+
+    const onSubmit = async (data: ReturnForm) => {
+        try {
+            const request = await ordersService.requestReturn(orderNumber, {
+                ...data,
+                images: photos.map(photo => photo.file),
+            });
+            toast.success('Đã gửi yêu cầu đổi trả');
+            onSubmitted?.(request);
+            onClose();
+            reset({ description: '', items: [] });
+            clearPhotos();
+        } catch (error) {
+            handleFormError(error, {
+                fallback: 'Không thể gửi yêu cầu đổi trả',
+                setError,
+                fields: Object.keys(returnSchema.shape),
+            });
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+            <DialogContent className="sm:max-w-2xl bg-black/90 border-white/10 text-white backdrop-blur-xl p-0 gap-0 flex flex-col max-h-[95vh] overflow-hidden">
+                <div className="p-6 border-b border-white/10 bg-white/5 flex-none">
+                    <DialogHeader>
+                        <DialogTitle className="text-2xl font-display font-bold text-white tracking-tight flex items-center gap-2">
+                            <RotateCcw className="text-purple-400" /> Yêu cầu đổi trả / hoàn tiền
+                        </DialogTitle>
+                        <DialogDescription className="text-neutral-400">
+                            Đơn hàng #{orderNumber}. Chúng tôi sẽ phản hồi trong vòng 1-2 ngày làm việc.
+                        </DialogDescription>
+                    </DialogHeader>
+                </div>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="p-6 md:p-8 overflow-y-auto flex-1 custom-scrollbar space-y-6">
+                    {/* Items */}
+                    <div className="space-y-2.5">
+                        <Label className="text-xs font-bold uppercase tracking-widest text-neutral-500">Sản phẩm cần trả <span className="text-red-400">*</span></Label>
+                        <Controller
+                            name="items"
+                            control={control}
+                            render={({ field }) => (
+                                <div className="space-y-2">
+                                    {items.map((item) => {
+                                        const selected = field.value.find(i => i.order_item === item.id);
+                                        const setQuantity = (quantity: number) => field.onChange(field.value.map(i =>
+                                            i.order_item === item.id ? { ...i, quantity: Math.min(item.quantity, Math.max(1, quantity)) } : i
+                                        ));
+
+                                        return (
+                                            <div
+                                                key={item.id}
+                                                className={cn(
+                                                    "flex items-center gap-4 p-3 rounded-xl border transition-colors",
+                                                    selected ? "border-purple-500/40 bg-purple-500/5" : "border-white/10 bg-white/5"
+                                                )}
+                                            >
+                                                <Checkbox
+                                                    checked={!!selected}
+                                                    onCheckedChange={(checked) => field.onChange(checked === true
+                                                        ? [...field.value, { order_item: item.id, quantity: item.quantity }]
+                                                        : field.value.filter(i => i.order_item !== item.id)
+                                                    )}
+                                                    className="border-white/20 data-[state=checked]:bg-purple-500 data-[state=checked]:border-purple-500 bg-white/5"
+                                                />
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-sm font-medium text-white truncate">{item.product_name}</p>
+                                                    {item.variant_name && <p className="text-xs text-neutral-500">{item.variant_name}</p>}
+                                                </div>
+                                                {selected && item.quantity > 1 ? (
+                                                    <div className="flex items-center bg-black/40 border border-white/10 rounded-lg h-8">
+                                                        <button type="button" onClick={() => setQuantity(selected.quantity - 1)} className="w-8 h-full flex items-center justify-center hover:bg-white/10 text-white">
+                                                            <Minus size={12} />
+                                                        </button>
+                                                        <span className="w-8 text-center font-mono text-sm">{selected.quantity}</span>
+                                                        <button type="button" onClick={() => setQuantity(selected.quantity + 1)} className="w-8 h-full flex items-center justify-center hover:bg-white/10 text-white">
+                                                            <Plus size={12} />
+                                                        </button>
+                                                    </div>
+                                                ) : (
+                                                    <span className="text-xs text-neutral-500 font-mono">x{item.quantity}</span>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        />
+                        {errors.items && <p className="text-red-400 text-xs ml-1">{errors.items.message}</p>}
+                    </div>
+
+                    {/* Reason */}
+                    <div className="space-y-2.5">
+                        <Label htmlFor="return_reason" className="text-xs font-bold uppercase tracking-widest text-neutral-500">Lý do <span className="text-red-400">*</span></Label>
+                        <select
+                            id="return_reason"
+                            {...register('reason')}
+                            defaultValue=""
+                            className="w-full h-12 px-4 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:border-purple-500/50"
+                        >
+                            <option value="" disabled className="bg-neutral-900">Chọn lý do</option>
+                            {RETURN_REASONS.map(reason => (
+                                <option key={reason.value} value={reason.value} className="bg-neutral-900">{reason.label}</option>
+                            ))}
+                        </select>
+                        {errors.reason && <p className="text-red-400 text-xs ml-1">{errors.reason.message}</p>}
+                    </div>
+
+                    {/* Description */}
+                    <div className="space-y-2.5">
+                        <Label htmlFor="return_description" className="text-xs font-bold uppercase tracking-widest text-neutral-500">Mô tả <span className="text-red-400">*</span></Label>
+                        <Textarea
+                            id="return_description"
+                            placeholder="Mô tả tình trạng sản phẩm, lỗi gặp phải..."
+                            className="min-h-[100px] bg-white/5 border-white/10 text-white placeholder:text-neutral-600 focus:border-purple-500/50 rounded-xl resize-none p-4"
+                            {...register('description')}
+                        />
+                        {errors.description && <p className="text-red-400 text-xs ml-1">{errors.description.message}</p>}
+                    </div>
+
+                    {/* Photos */}
+                    <div className="space-y-2.5">
+                        <Label className="text-xs font-bold uppercase tracking-widest text-neutral-500">Hình ảnh (tối đa {MAX_PHOTOS})</Label>
+                        <div className="flex flex-wrap gap-3">
+                            {photos.map((photo, index) => (
+                                <div key={photo.preview} className="relative w-20 h-20 rounded-xl overflow-hidden border border-white/10">
+                                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                                    <img src={photo.preview} alt="Ảnh sản phẩm" className="w-full h-full object-cover" />
+                                    <button
+                                        type="button"
+                                        onClick={() => removePhoto(index)}
+                                        className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/70 flex items-center justify-center text-white hover:bg-red-500"
+                                        aria-label="Xóa ảnh"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                </div>
+                            ))}
+                            {remaining > 0 && (
+                                <label className="w-20 h-20 rounded-xl border border-dashed border-white/20 flex flex-col items-center justify-center gap-1 text-neutral-500 hover:text-white hover:border-purple-500/50 cursor-pointer transition-colors">
+                                    <ImagePlus size={18} />
+                                    <span className="text-[10px] font-bold uppercase">Thêm ảnh</span>
+                                    <input type="file" accept="image/*" multiple className="hidden" onChange={handlePhotosSelected} disabled={isSubmitting} />
+                                </label>
+                            )}
+                        </div>
+                    </div>
+
+                    <Button
+                        type="submit"
+                        disabled={isSubmitting}
+                        size="xl"
+                        className="w-full h-14 bg-white text-black hover:bg-neutral-200 font-bold uppercase tracking-widest text-sm rounded-xl"
+                    >
+                        {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : 'Gửi yêu cầu'}
+                    </Button>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { Truck, CircleDot } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { buildOrderTimeline } from '@/lib/orders';
+import { useGhnTracking } from '@/hooks/use-ghn-tracking';
+import type { OrderStatusEvent } from '@/types/order';
+
+type GhnTrackingState = ReturnType<typeof useGhnTracking>;
+
+interface OrderTimelineProps {
+    statusHistory?: OrderStatusEvent[];
+    trackingCode?: string | null;
+    // Everything above the entries; gets the live GHN state for the shipment summary and refresh button
+    header: (ghn: GhnTrackingState) => React.ReactNode;
+    emptyText: string;
+    // Leave the card out until there is a status change or a shipment to show
+    hideWhenEmpty?: boolean;
+    // Staff see who made each change; otherwise only GHN entries are tagged
+    showActor?: boolean;
+}
+
+// Order status changes merged with GHN scan events, newest first
+export const OrderTimeline = ({ statusHistory, trackingCode, header, emptyText, hideWhenEmpty, showActor }: OrderTimelineProps) => {
+    const ghn = useGhnTracking(trackingCode);
+    const timeline = buildOrderTimeline(statusHistory, ghn.tracking);
+
+    if (hideWhenEmpty && timeline.length === 0 && !trackingCode) return null;
+
+    return (
+        <div className="bg-white/5 border border-white/10 rounded-3xl overflow-hidden backdrop-blur-xl">
+            {header(ghn)}
+
+            <div className="p-6">
+                {timeline.length === 0 ? (
+                    <p className="text-sm text-neutral-500">{emptyText}</p>
+                ) : (
+                    <ol className="relative border-l border-white/10 ml-3 space-y-5">
+                        {timeline.map((entry, index) => {
+                            const tag = showActor ? entry.actor ?? 'System' : entry.source === 'ghn' ? 'GHN' : null;
+                            return (
+                                <li key={entry.key} className="ml-6">
+                                    <span className={cn(
+                                        'absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full border bg-black',
+                                        index === 0 ? 'border-purple-500 text-purple-400' : 'border-white/20 text-neutral-500'
+                                    )}>
+                                        {entry.source === 'ghn' ? <Truck size={12} /> : <CircleDot size={12} />}
+                                    </span>
+                                    <div className="flex flex-wrap items-baseline gap-x-3">
+                                        <p className={cn('text-sm font-bold', index === 0 ? 'text-white' : 'text-neutral-400')}>{entry.label}</p>
+                                        {tag && (
+                                            <span className="text-[10px] font-bold uppercase tracking-wider text-neutral-500">{tag}</span>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-neutral-500 font-mono">{new Date(entry.time).toLocaleString('vi-VN')}</p>
+                                    {entry.note && <p className="text-xs text-neutral-400 mt-1">{entry.note}</p>}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                )}
+            </div>
+        </div>
+    );
+};
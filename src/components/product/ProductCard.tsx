@@ -1,14 +1,41 @@
+'use client';
+
 import Link from 'next/link';
 import Image from 'next/image';
-import { ShoppingBag, Star } from 'lucide-react';
+import { GitCompareArrows, Heart, ShoppingBag, Star } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { Product } from '@/types/product';
-import { formatPrice } from '@/lib/utils';
+import { useWishlistStore } from '@/store/wishlist-store';
+import { useCompareToggle } from '@/hooks/use-compare-toggle';
+import { cn, formatPrice } from '@/lib/utils';
 
 export const ProductCard = ({ product }: { product: Product }) => {
+    const isWishlisted = useWishlistStore((state) => state.items.some(item => item.product.id === product.id));
+    const toggleWishlist = useWishlistStore((state) => state.toggleWishlist);
+    const compare = useCompareToggle(product);
+
     const discount = product.sale_price
         ? Math.round(((product.price - product.sale_price) / product.price) * 100)
         : 0;
 
+    const handleToggleWishlist = async (e: React.MouseEvent) => {
+        // The whole card is a link; keep the click on the button
+        e.preventDefault();
+        e.stopPropagation();
+        try {
+            const added = await toggleWishlist(product);
+            toast.success(added ? 'Added to wishlist' : 'Removed from wishlist');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update wishlist');
+        }
+    };
+
+    const handleToggleCompare = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        compare.toggle();
+    };
+
     return (
         <Link href={`/products/${product.slug}`} className="group relative block h-full">
             <div className="relative h-full flex flex-col overflow-hidden rounded-[2rem] border border-white/10 bg-white/5 p-3 transition-all duration-500 hover:border-purple-500/50 hover:bg-white/10 hover:shadow-2xl hover:shadow-purple-900/20">
@@ -38,6 +65,36 @@ export const ProductCard = ({ product }: { product: Product }) => {
                         )}
                     </div>
 
+                    {/* Wishlist Toggle */}
+                    <button
+                        onClick={handleToggleWishlist}
+                        className={cn(
+                            "absolute right-3 top-3 z-10 w-9 h-9 rounded-full flex items-center justify-center backdrop-blur-md border border-white/10 transition-all",
+                            isWishlisted
+                                ? "bg-red-500/20 text-red-400"
+                                : "bg-black/40 text-white/70 hover:text-red-400 hover:bg-black/60"
+                        )}
+                        title={isWishlisted ? 'Remove from wishlist' : 'Add to wishlist'}
+                        aria-pressed={isWishlisted}
+                    >
+                        <Heart size={16} className={cn(isWishlisted && "fill-current")} />
+                    </button>
+
+                    {/* Compare Toggle */}
+                    <button
+                        onClick={handleToggleCompare}
+                        className={cn(
+                            "absolute right-3 top-14 z-10 w-9 h-9 rounded-full flex items-center justify-center backdrop-blur-md border border-white/10 transition-all",
+                            compare.isCompared
+                                ? "bg-purple-500/30 text-purple-300"
+                                : "bg-black/40 text-white/70 hover:text-purple-300 hover:bg-black/60"
+                        )}
+                        title={compare.isCompared ? 'Remove from compare' : 'Compare'}
+                        aria-pressed={compare.isCompared}
+                    >
+                        <GitCompareArrows size={16} />
+                    </button>
+
                     {/* Quick Action Overlay */}
                     <div className="absolute inset-x-0 bottom-0 p-4 opacity-0 translate-y-4 transition-all duration-300 group-hover:opacity-100 group-hover:translate-y-0 z-20">
                         <button className="w-full h-11 bg-white text-black font-bold rounded-xl flex items-center justify-center gap-2 hover:bg-neutral-200 transition-colors shadow-lg text-sm">
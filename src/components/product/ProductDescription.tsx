@@ -0,0 +1,18 @@
+import { sanitizeProductHtml } from '@/lib/sanitize';
+import { cn } from '@/lib/utils';
+
+interface ProductDescriptionProps {
+    html: string | null | undefined;
+    className?: string;
+}
+
+// Shared with the admin editor so the visual editing surface matches the storefront
+export const DESCRIPTION_PROSE_CLASS = 'prose prose-lg dark:prose-invert max-w-none prose-headings:font-display prose-headings:font-bold prose-headings:text-white prose-p:text-neutral-400 prose-p:leading-relaxed prose-img:rounded-2xl [&_iframe]:w-full [&_iframe]:aspect-video [&_iframe]:rounded-2xl [&_td]:border [&_td]:border-white/10 [&_td]:px-3 [&_th]:border [&_th]:border-white/10 [&_th]:px-3';
+
+// Storefront rendering of a product description; the admin editor preview uses it too
+export const ProductDescription = ({ html, className }: ProductDescriptionProps) => (
+    <div
+        className={cn(DESCRIPTION_PROSE_CLASS, className)}
+        dangerouslySetInnerHTML={{ __html: sanitizeProductHtml(html || '<p>No description available.</p>') }}
+    />
+);
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+import { Upload, Star, Trash2, GripVertical, Loader2, AlertCircle, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { ProductGallery } from '@/hooks/use-product-gallery';
+
+interface ProductImageManagerProps {
+    gallery: ProductGallery;
+    // New products queue files until the product exists
+    queued?: boolean;
+}
+
+export function ProductImageManager({ gallery, queued }: ProductImageManagerProps) {
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [overIndex, setOverIndex] = useState<number | null>(null);
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingFiles(false);
+        const files = Array.from(e.dataTransfer.files || []);
+        if (files.length > 0) gallery.addFiles(files);
+    };
+
+    const endReorder = () => {
+        if (dragIndex !== null && overIndex !== null) gallery.reorder(dragIndex, overIndex);
+        setDragIndex(null);
+        setOverIndex(null);
+    };
+
+    return (
+        <div className="space-y-6">
+            {/* Drop Zone */}
+            <label
+                onDragOver={(e) => {
+                    // Only react to files, not to gallery tiles being reordered
+                    if (dragIndex !== null) return;
+                    e.preventDefault();
+                    setIsDraggingFiles(true);
+                }}
+                onDragLeave={() => setIsDraggingFiles(false)}
+                onDrop={handleDrop}
+                className={cn(
+                    'flex flex-col items-center justify-center gap-3 h-40 rounded-2xl border-2 border-dashed cursor-pointer transition-all group',
+                    isDraggingFiles ? 'border-purple-500 bg-purple-500/10' : 'border-white/10 bg-black/20 hover:border-purple-500/30 hover:bg-purple-500/5'
+                )}
+            >
+                <div className="p-3 bg-white/5 rounded-full ring-1 ring-white/10 group-hover:scale-110 transition-transform duration-300">
+                    <Upload className="w-6 h-6 text-neutral-400 group-hover:text-purple-400 transition-colors" />
+                </div>
+                <div className="text-center">
+                    <p className="text-sm font-medium text-white">Drop images here or click to browse</p>
+                    <p className="text-[10px] text-neutral-500 mt-1">
+                        JPG, PNG, WebP or GIF. Large photos are resized before upload{queued ? ' and uploaded when the product is saved' : ''}.
+                    </p>
+                </div>
+                <input
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp,image/gif"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                        gallery.addFiles(Array.from(e.target.files || []));
+                        e.target.value = '';
+                    }}
+                />
+            </label>
+
+            {/* Gallery */}
+            <div className="space-y-2">
+                <label className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 ml-1">
+                    Images ({gallery.items.length}) · drag to reorder
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {gallery.items.map((item, index) => (
+                        <div
+                            key={item.key}
+                            draggable
+                            onDragStart={(e) => {
+                                e.dataTransfer.effectAllowed = 'move';
+                                setDragIndex(index);
+                            }}
+                            onDragOver={(e) => {
+                                if (dragIndex === null) return;
+                                e.preventDefault();
+                                setOverIndex(index);
+                            }}
+                            onDrop={(e) => {
+                                e.preventDefault();
+                                endReorder();
+                            }}
+                            onDragEnd={() => {
+                                setDragIndex(null);
+                                setOverIndex(null);
+                            }}
+                            className={cn(
+                                'rounded-xl border bg-black/20 overflow-hidden transition-all',
+                                dragIndex === index ? 'opacity-40' : 'opacity-100',
+                                overIndex === index && dragIndex !== index ? 'border-purple-500' : 'border-white/10'
+                            )}
+                        >
+                            <div className="relative group aspect-square">
+                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                <img src={item.preview} alt={item.alt_text} className="w-full h-full object-cover" />
+
+                                {item.image?.is_primary && (
+                                    <div className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-purple-500 text-white text-[10px] font-bold shadow-lg">
+                                        PRIMARY
+                                    </div>
+                                )}
+                                <div className="absolute top-2 right-2 p-1 rounded-md bg-black/60 text-neutral-300 cursor-grab active:cursor-grabbing">
+                                    <GripVertical className="w-3.5 h-3.5" />
+                                </div>
+
+                                {(item.status === 'uploading' || item.status === 'queued') && !queued && (
+                                    <div className="absolute inset-x-0 bottom-0 p-2 bg-black/70 backdrop-blur-sm">
+                                        <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                                            <div className="h-full bg-purple-500 transition-all" style={{ width: `${item.progress}%` }} />
+                                        </div>
+                                        <p className="text-[10px] text-neutral-300 mt-1 flex items-center gap-1">
+                                            <Loader2 className="w-3 h-3 animate-spin" /> {item.progress}%
+                                        </p>
+                                    </div>
+                                )}
+                                {item.status === 'uploading' && queued && (
+                                    <div className="absolute inset-0 bg-black/60 flex items-center justify-center text-xs text-white font-mono">
+                                        {item.progress}%
+                                    </div>
+                                )}
+                                {item.status === 'error' && (
+                                    <div className="absolute inset-x-0 bottom-0 p-2 bg-rose-950/90 text-[10px] text-rose-300 flex items-center gap-1">
+                                        <AlertCircle className="w-3 h-3 shrink-0" />
+                                        <span className="truncate flex-1">{item.error}</span>
+                                        {!queued && (
+                                            <button type="button" onClick={() => gallery.retry(item.key)} className="hover:text-white" aria-label="Retry upload">
+                                                <RotateCcw className="w-3 h-3" />
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+
+                                <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2 pointer-events-none group-hover:pointer-events-auto">
+                                    {item.image && (
+                                        <Button
+                                            type="button"
+                                            size="icon"
+                                            variant="ghost"
+                                            className={cn('text-white hover:bg-white/20 rounded-full h-8 w-8', item.image.is_primary && 'text-yellow-400')}
+                                            onClick={() => gallery.setPrimary(item.key)}
+                                            title={item.image.is_primary ? 'Primary image' : 'Set as primary'}
+                                        >
+                                            <Star className={cn('w-4 h-4', item.image.is_primary ? 'fill-current' : '')} />
+                                        </Button>
+                                    )}
+                                    <Button
+                                        type="button"
+                                        size="icon"
+                                        variant="ghost"
+                                        className="text-white hover:bg-red-500/20 hover:text-red-400 rounded-full h-8 w-8"
+                                        onClick={() => gallery.remove(item.key)}
+                                        disabled={item.status === 'uploading'}
+                                        title="Delete image"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            </div>
+
+                            <input
+                                type="text"
+                                value={item.alt_text}
+                                onChange={(e) => gallery.setAltText(item.key, e.target.value)}
+                                onBlur={() => gallery.saveAltText(item.key)}
+                                placeholder="Alt text"
+                                maxLength={255}
+                                className="w-full px-3 py-2 bg-transparent border-t border-white/10 text-xs text-white placeholder:text-neutral-600 focus:outline-none focus:bg-white/5"
+                            />
+                        </div>
+                    ))}
+                    {gallery.items.length === 0 && (
+                        <div className="col-span-full py-8 text-center text-neutral-600 text-sm italic">
+                            No images uploaded yet.
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
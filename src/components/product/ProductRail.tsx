@@ -0,0 +1,46 @@
+'use client';
+
+import { Product } from '@/types/product';
+import { ProductCard } from './ProductCard';
+import { ProductSkeleton } from './ProductSkeleton';
+
+interface ProductRailProps {
+    title: string;
+    subtitle?: string;
+    // null while loading
+    products: Product[] | null;
+    action?: React.ReactNode;
+}
+
+const SKELETON_COUNT = 4;
+
+// Horizontally scrolling row of product cards; renders nothing once loaded empty
+export const ProductRail = ({ title, subtitle, products, action }: ProductRailProps) => {
+    if (products && products.length === 0) return null;
+
+    return (
+        <section className="mt-24">
+            <div className="flex items-end justify-between gap-4 mb-6">
+                <div>
+                    <h2 className="text-2xl md:text-3xl font-display font-bold text-white tracking-tight">{title}</h2>
+                    {subtitle && <p className="text-neutral-400 mt-1">{subtitle}</p>}
+                </div>
+                {action}
+            </div>
+
+            <div className="-mx-4 px-4 flex gap-5 overflow-x-auto snap-x snap-mandatory pb-4 custom-scrollbar">
+                {products
+                    ? products.map(product => (
+                        <div key={product.id} className="w-64 shrink-0 snap-start">
+                            <ProductCard product={product} />
+                        </div>
+                    ))
+                    : Array.from({ length: SKELETON_COUNT }, (_, i) => (
+                        <div key={i} className="w-64 shrink-0">
+                            <ProductSkeleton />
+                        </div>
+                    ))}
+            </div>
+        </section>
+    );
+};
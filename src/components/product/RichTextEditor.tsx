@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+    Bold, Italic, Heading2, Heading3, List, ListOrdered, Quote, Link2, ImagePlus, Table, Video,
+    Undo2, Redo2, RemoveFormatting, CodeXml, Eye, type LucideIcon
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { cn } from '@/lib/utils';
+import { sanitizeProductHtml, toEmbedUrl } from '@/lib/sanitize';
+import { ProductDescription, DESCRIPTION_PROSE_CLASS } from './ProductDescription';
+
+interface RichTextEditorProps {
+    value: string;
+    onChange: (html: string) => void;
+    placeholder?: string;
+}
+
+type EditorMode = 'visual' | 'html';
+
+const escapeAttr = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const escapeText = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+type ToolAction =
+    | 'bold' | 'italic' | 'insertUnorderedList' | 'insertOrderedList' | 'removeFormat' | 'undo' | 'redo'
+    | 'h2' | 'h3' | 'blockquote' | 'link' | 'image' | 'table' | 'video';
+
+// Plain execCommand names run as-is; the rest are handled in runTool
+const TOOLS: { icon: LucideIcon; label: string; action: ToolAction }[] = [
+    { icon: Bold, label: 'Bold', action: 'bold' },
+    { icon: Italic, label: 'Italic', action: 'italic' },
+    { icon: Heading2, label: 'Heading', action: 'h2' },
+    { icon: Heading3, label: 'Subheading', action: 'h3' },
+    { icon: List, label: 'Bulleted list', action: 'insertUnorderedList' },
+    { icon: ListOrdered, label: 'Numbered list', action: 'insertOrderedList' },
+    { icon: Quote, label: 'Quote', action: 'blockquote' },
+    { icon: Link2, label: 'Link', action: 'link' },
+    { icon: ImagePlus, label: 'Image', action: 'image' },
+    { icon: Table, label: 'Table', action: 'table' },
+    { icon: Video, label: 'Video', action: 'video' },
+    { icon: RemoveFormatting, label: 'Clear formatting', action: 'removeFormat' },
+    { icon: Undo2, label: 'Undo', action: 'undo' },
+    { icon: Redo2, label: 'Redo', action: 'redo' },
+];
+
+const TABLE_HTML = '<table><thead><tr><th><br></th><th><br></th></tr></thead><tbody><tr><td><br></td><td><br></td></tr><tr><td><br></td><td><br></td></tr></tbody></table><p><br></p>';
+
+/**
+ * WYSIWYG editor for product descriptions. Content is stored as HTML; pasted
+ * markup and the preview go through the storefront sanitizer.
+ */
+export function RichTextEditor({ value, onChange, placeholder }: RichTextEditorProps) {
+    const editorRef = useRef<HTMLDivElement>(null);
+    const [mode, setMode] = useState<EditorMode>('visual');
+    const [showPreview, setShowPreview] = useState(true);
+
+    // Only rewrite the DOM for outside changes (loading a product, HTML mode);
+    // while typing the value already equals the editor content
+    useEffect(() => {
+        const el = editorRef.current;
+        if (!el || mode !== 'visual' || el.innerHTML === value) return;
+        el.innerHTML = sanitizeProductHtml(value);
+    }, [value, mode]);
+
+    const emit = () => {
+        const el = editorRef.current;
+        if (!el) return;
+        const isEmpty = !el.textContent?.trim() && !el.querySelector('img, iframe, table');
+        onChange(isEmpty ? '' : el.innerHTML);
+    };
+
+    const exec = (command: string, arg?: string) => {
+        editorRef.current?.focus();
+        document.execCommand(command, false, arg);
+        emit();
+    };
+
+    const insertHtml = (html: string) => exec('insertHTML', html);
+
+    const toggleBlock = (tag: 'h2' | 'h3' | 'blockquote') => {
+        const current = document.queryCommandValue('formatBlock').toLowerCase();
+        exec('formatBlock', current === tag ? 'p' : tag);
+    };
+
+    const insertLink = () => {
+        const url = prompt('Link URL');
+        if (!url) return;
+        if (!/^(https?:|mailto:|\/)/i.test(url.trim())) {
+            toast.error('Links must start with http(s)://, mailto: or /');
+            return;
+        }
+        exec('createLink', url.trim());
+    };
+
+    const insertImage = () => {
+        const url = prompt('Image URL');
+        if (!url) return;
+        const alt = prompt('Alt text (describe the image)') || '';
+        insertHtml(`<img src="${escapeAttr(url.trim())}" alt="${escapeAttr(alt)}" />`);
+    };
+
+    const insertVideo = () => {
+        const link = prompt('YouTube or Vimeo link');
+        if (!link) return;
+        const src = toEmbedUrl(link);
+        if (!src) {
+            toast.error('Only YouTube and Vimeo videos can be embedded');
+            return;
+        }
+        insertHtml(`<iframe src="${escapeAttr(src)}" frameborder="0" allow="accelerometer; autoplay; encrypted-media; picture-in-picture" allowfullscreen></iframe><p><br></p>`);
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        const html = e.clipboardData.getData('text/html');
+        const text = e.clipboardData.getData('text/plain');
+        insertHtml(html ? sanitizeProductHtml(html) : escapeText(text).replace(/\n/g, '<br>'));
+    };
+
+    const runTool = (action: ToolAction) => {
+        switch (action) {
+            case 'h2':
+            case 'h3':
+            case 'blockquote':
+                return toggleBlock(action);
+            case 'link':
+                return insertLink();
+            case 'image':
+                return insertImage();
+            case 'table':
+                return insertHtml(TABLE_HTML);
+            case 'video':
+                return insertVideo();
+            default:
+                return exec(action);
+        }
+    };
+
+    return (
+        <div className="rounded-xl border border-white/10 bg-black/20 overflow-hidden focus-within:border-purple-500/50 transition-all">
+            {/* Toolbar */}
+            <div className="flex flex-wrap items-center gap-1 p-2 border-b border-white/10 bg-white/[0.02]">
+                {TOOLS.map(({ icon: Icon, label, action }) => (
+                    <button
+                        key={label}
+                        type="button"
+                        title={label}
+                        aria-label={label}
+                        disabled={mode !== 'visual'}
+                        // Keep the text selection in the editor when clicking the toolbar
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => runTool(action)}
+                        className="p-2 rounded-lg text-neutral-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                    >
+                        <Icon className="w-4 h-4" />
+                    </button>
+                ))}
+                <div className="ml-auto flex items-center gap-1">
+                    <button
+                        type="button"
+                        onClick={() => setMode(mode === 'visual' ? 'html' : 'visual')}
+                        className={cn('flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors', mode === 'html' ? 'bg-purple-500/20 text-purple-300' : 'text-neutral-400 hover:text-white hover:bg-white/10')}
+                    >
+                        <CodeXml className="w-4 h-4" /> HTML
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setShowPreview(!showPreview)}
+                        className={cn('flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors', showPreview ? 'bg-purple-500/20 text-purple-300' : 'text-neutral-400 hover:text-white hover:bg-white/10')}
+                    >
+                        <Eye className="w-4 h-4" /> Preview
+                    </button>
+                </div>
+            </div>
+
+            <div className={cn('grid', showPreview && 'xl:grid-cols-2')}>
+                {mode === 'visual' ? (
+                    <div
+                        ref={editorRef}
+                        contentEditable
+                        suppressContentEditableWarning
+                        role="textbox"
+                        aria-multiline="true"
+                        data-placeholder={placeholder}
+                        onInput={emit}
+                        onPaste={handlePaste}
+                        className={cn(DESCRIPTION_PROSE_CLASS, 'min-h-[300px] px-4 py-3 focus:outline-none empty:before:content-[attr(data-placeholder)] empty:before:text-neutral-600')}
+                    />
+                ) : (
+                    <textarea
+                        value={value}
+                        onChange={(e) => onChange(e.target.value)}
+                        spellCheck={false}
+                        className="min-h-[300px] w-full px-4 py-3 bg-transparent font-mono text-xs text-neutral-300 focus:outline-none resize-y"
+                    />
+                )}
+
+                {showPreview && (
+                    <div className="border-t xl:border-t-0 xl:border-l border-white/10 bg-black/40 px-4 py-3 min-h-[300px]">
+                        <p className="text-[10px] font-bold uppercase tracking-widest text-neutral-500 mb-3">Storefront preview</p>
+                        <ProductDescription html={value} />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { buildCategoryTree } from '@/lib/categories';
+import { catalogService } from '@/services/catalog';
+import type { CategoryNode } from '@/types/product';
+
+// Storefront category tree for navigation; empty until loaded or when the request fails
+export function useCategoryTree() {
+    const [tree, setTree] = useState<CategoryNode[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        catalogService.getCategories()
+            .then(categories => {
+                if (!cancelled) setTree(buildCategoryTree(categories));
+            })
+            .catch(error => console.error('Failed to load categories:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return tree;
+}
@@ -0,0 +1,19 @@
+import toast from 'react-hot-toast';
+import { MAX_COMPARE_ITEMS, useCompareStore, type CompareProduct } from '@/store/compare-store';
+
+export function useCompareToggle(product: CompareProduct | null) {
+    const isCompared = useCompareStore((state) => !!product && state.items.some(item => item.id === product.id));
+    const toggleCompare = useCompareStore((state) => state.toggleCompare);
+
+    const toggle = () => {
+        if (!product) return;
+        const result = toggleCompare(product);
+        if (result === 'full') {
+            toast.error(`You can compare up to ${MAX_COMPARE_ITEMS} products`);
+        } else {
+            toast.success(result === 'added' ? 'Added to compare' : 'Removed from compare');
+        }
+    };
+
+    return { isCompared, toggle };
+}
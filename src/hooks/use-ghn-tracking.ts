@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import { GHN_FINAL_STATUSES } from '@/lib/shipping';
+import { shippingService } from '@/services/shipping';
+import type { GHNTracking } from '@/types/shipping';
+
+const POLL_INTERVAL = 2 * 60 * 1000;
+
+// Live GHN tracking for an order; polls until the shipment reaches a final status
+export function useGhnTracking(orderCode?: string | null) {
+    const [tracking, setTracking] = useState<GHNTracking | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState(false);
+
+    const refresh = useCallback(async () => {
+        if (!orderCode) return;
+        setIsLoading(true);
+        try {
+            setTracking(await shippingService.getTracking(orderCode));
+            setError(false);
+        } catch (err) {
+            console.error('Failed to fetch GHN tracking:', err);
+            setError(true);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [orderCode]);
+
+    useEffect(() => {
+        setTracking(null);
+        refresh();
+    }, [refresh]);
+
+    const isFinal = !!tracking && GHN_FINAL_STATUSES.includes(tracking.status);
+
+    useEffect(() => {
+        if (!orderCode || isFinal) return;
+        const timer = setInterval(refresh, POLL_INTERVAL);
+        return () => clearInterval(timer);
+    }, [orderCode, isFinal, refresh]);
+
+    return { tracking, isLoading, error, refresh };
+}
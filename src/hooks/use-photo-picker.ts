@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+
+export const MAX_PHOTOS = 5;
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024; // 5MB
+
+export interface PickedPhoto {
+    file: File;
+    preview: string;
+}
+
+interface PhotoPickerOptions {
+    // Photos already attached elsewhere (e.g. saved on the server) that count toward the limit
+    existingCount?: number;
+    messages: {
+        notImage: (fileName: string) => string;
+        tooLarge: (fileName: string) => string;
+        tooMany: (max: number) => string;
+    };
+}
+
+/**
+ * Local photo attachments with object-URL previews.
+ * A preview is revoked when its photo is removed or cleared, and whatever is
+ * left when the component unmounts.
+ */
+export function usePhotoPicker({ existingCount = 0, messages }: PhotoPickerOptions) {
+    const [photos, setPhotos] = useState<PickedPhoto[]>([]);
+
+    const photosRef = useRef(photos);
+    useEffect(() => {
+        photosRef.current = photos;
+    }, [photos]);
+    useEffect(() => {
+        return () => photosRef.current.forEach(photo => URL.revokeObjectURL(photo.preview));
+    }, []);
+
+    const remaining = MAX_PHOTOS - existingCount - photos.length;
+
+    const handlePhotosSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+
+        const accepted: File[] = [];
+        for (const file of files) {
+            if (!file.type.startsWith('image/')) {
+                toast.error(messages.notImage(file.name));
+            } else if (file.size > MAX_PHOTO_SIZE) {
+                toast.error(messages.tooLarge(file.name));
+            } else if (accepted.length >= remaining) {
+                toast.error(messages.tooMany(MAX_PHOTOS));
+                break;
+            } else {
+                accepted.push(file);
+            }
+        }
+
+        setPhotos(prev => [...prev, ...accepted.map(file => ({ file, preview: URL.createObjectURL(file) }))]);
+    };
+
+    const removePhoto = (index: number) => {
+        URL.revokeObjectURL(photos[index].preview);
+        setPhotos(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const clearPhotos = () => {
+        photos.forEach(photo => URL.revokeObjectURL(photo.preview));
+        setPhotos([]);
+    };
+
+    return { photos, remaining, handlePhotosSelected, removePhoto, clearPhotos };
+}
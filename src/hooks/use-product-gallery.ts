@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { getApiError } from '@/lib/api';
+import { compressImage } from '@/lib/image';
+import { catalogService } from '@/services/catalog';
+import type { ProductImage } from '@/types/product';
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+const MAX_FILE_SIZE = 15 * 1024 * 1024;
+
+export interface GalleryItem {
+    key: string;
+    // Set once the file is on the server
+    image: ProductImage | null;
+    file: File | null;
+    preview: string;
+    alt_text: string;
+    progress: number;
+    status: 'saved' | 'queued' | 'uploading' | 'error';
+    error?: string;
+}
+
+const fromImage = (image: ProductImage): GalleryItem => ({
+    key: `image-${image.id}`,
+    image,
+    file: null,
+    preview: image.image,
+    alt_text: image.alt_text || '',
+    progress: 100,
+    status: 'saved',
+});
+
+/**
+ * Product gallery state shared by the new and edit pages. With a productId,
+ * files upload as soon as they are added and every change is saved right away;
+ * without one (new product) they queue until uploadQueued() is called after create.
+ */
+export function useProductGallery(productId?: string) {
+    const [items, setItems] = useState<GalleryItem[]>([]);
+    // Latest items for async handlers that outlive the render they started in
+    const itemsRef = useRef(items);
+    useEffect(() => {
+        itemsRef.current = items;
+    }, [items]);
+
+    // Free object URLs of queued files when the page goes away
+    useEffect(() => () => {
+        itemsRef.current.forEach(item => item.file && URL.revokeObjectURL(item.preview));
+    }, []);
+
+    const updateItem = (key: string, patch: Partial<GalleryItem>) => {
+        setItems(prev => prev.map(item => item.key === key ? { ...item, ...patch } : item));
+    };
+
+    const setImages = useCallback((images: ProductImage[]) => {
+        const sorted = [...images].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+        setItems(prev => [...sorted.map(fromImage), ...prev.filter(item => !item.image)]);
+    }, []);
+
+    const uploadItem = async (item: GalleryItem, targetId: string) => {
+        if (!item.file) return null;
+        updateItem(item.key, { status: 'uploading', progress: 0, error: undefined });
+        try {
+            const image = await catalogService.uploadProductImage(targetId, item.file, item.alt_text, (progress) => updateItem(item.key, { progress }));
+            URL.revokeObjectURL(item.preview);
+            updateItem(item.key, { image, file: null, preview: image.image, status: 'saved', progress: 100 });
+            return image;
+        } catch (error) {
+            updateItem(item.key, { status: 'error', error: getApiError(error, 'Upload failed').message });
+            return null;
+        }
+    };
+
+    const saveOrder = async (targetId: string, list: GalleryItem[]) => {
+        const ids = list.flatMap(item => item.image ? [item.image.id] : []);
+        if (ids.length > 1) await catalogService.reorderProductImages(targetId, ids);
+    };
+
+    // The server appends uploads to the end; if the tile was moved while it
+    // was pending, save the order shown on screen
+    const uploadAndPlace = async (item: GalleryItem, targetId: string) => {
+        const image = await uploadItem(item, targetId);
+        if (!image) return;
+        const list = itemsRef.current.map(i => i.key === item.key ? { ...i, image } : i);
+        const ids = list.flatMap(i => i.image ? [i.image.id] : []);
+        if (ids[ids.length - 1] === image.id) return;
+        try {
+            await saveOrder(targetId, list);
+        } catch (error) {
+            console.error('Failed to save image order:', error);
+        }
+    };
+
+    const addFiles = async (files: File[]) => {
+        const accepted = files.filter(file => {
+            if (!ACCEPTED_TYPES.includes(file.type)) {
+                toast.error(`${file.name}: unsupported file type`);
+                return false;
+            }
+            if (file.size > MAX_FILE_SIZE) {
+                toast.error(`${file.name}: larger than 15MB`);
+                return false;
+            }
+            return true;
+        });
+
+        const added = await Promise.all(accepted.map(async (original, index): Promise<GalleryItem> => {
+            const file = await compressImage(original);
+            return {
+                key: `file-${Date.now()}-${index}`,
+                image: null,
+                file,
+                preview: URL.createObjectURL(file),
+                alt_text: '',
+                progress: 0,
+                status: 'queued',
+            };
+        }));
+        setItems(prev => [...prev, ...added]);
+
+        if (productId) {
+            // One at a time keeps the server-side order the same as the drop order
+            for (const item of added) await uploadAndPlace(item, productId);
+        }
+    };
+
+    // Uploads everything not yet on the server, then saves the gallery order
+    const uploadQueued = async (targetId: string) => {
+        const snapshot = itemsRef.current;
+        const uploaded = new Map<string, number>();
+        let failed = 0;
+
+        for (const item of snapshot) {
+            if (item.image) continue;
+            const image = await uploadItem(item, targetId);
+            if (image) uploaded.set(item.key, image.id);
+            else failed++;
+        }
+
+        const order = snapshot
+            .map(item => item.image?.id ?? uploaded.get(item.key))
+            .filter((id): id is number => id !== undefined);
+        if (order.length > 1) {
+            try {
+                await catalogService.reorderProductImages(targetId, order);
+            } catch (error) {
+                console.error('Failed to save image order:', error);
+            }
+        }
+        return { failed };
+    };
+
+    const retry = (key: string) => {
+        const item = itemsRef.current.find(i => i.key === key);
+        if (item && productId) uploadAndPlace(item, productId);
+    };
+
+    const remove = async (key: string) => {
+        const item = itemsRef.current.find(i => i.key === key);
+        if (!item) return;
+
+        if (item.image) {
+            if (!confirm('Delete this image? Variants using it will lose it too.')) return;
+            try {
+                await catalogService.deleteProductImage(item.image.id);
+            } catch (error) {
+                toast.error(getApiError(error, 'Failed to delete image').message);
+                return;
+            }
+        } else {
+            URL.revokeObjectURL(item.preview);
+        }
+        setItems(prev => prev.filter(i => i.key !== key));
+    };
+
+    const reorder = async (from: number, to: number) => {
+        if (from === to) return;
+        const previous = itemsRef.current;
+        const next = [...previous];
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        setItems(next);
+
+        // Only saved images are sent; pending ones are placed when their upload finishes
+        if (!productId) return;
+        try {
+            await saveOrder(productId, next);
+        } catch (error) {
+            setItems(previous);
+            toast.error(getApiError(error, 'Failed to save image order').message);
+        }
+    };
+
+    const setAltText = (key: string, altText: string) => updateItem(key, { alt_text: altText });
+
+    const saveAltText = async (key: string) => {
+        const item = itemsRef.current.find(i => i.key === key);
+        if (!item?.image || item.alt_text === (item.image.alt_text || '')) return;
+        try {
+            const image = await catalogService.updateProductImage(item.image.id, { alt_text: item.alt_text });
+            updateItem(key, { image });
+        } catch (error) {
+            toast.error(getApiError(error, 'Failed to save alt text').message);
+        }
+    };
+
+    const setPrimary = async (key: string) => {
+        const item = itemsRef.current.find(i => i.key === key);
+        if (!item?.image) return;
+        const imageId = item.image.id;
+        try {
+            await catalogService.setPrimaryImage(imageId);
+            setItems(prev => prev.map(i => i.image ? { ...i, image: { ...i.image, is_primary: i.image.id === imageId } } : i));
+            toast.success('Image set as primary');
+        } catch (error) {
+            console.error('Failed to set primary image:', error);
+            toast.error('Failed to set primary image');
+        }
+    };
+
+    return {
+        items,
+        // Images already on the server, in gallery order
+        images: items.flatMap(item => item.image ? [{ ...item.image, alt_text: item.alt_text }] : []),
+        isUploading: items.some(item => item.status === 'uploading'),
+        setImages,
+        addFiles,
+        uploadQueued,
+        retry,
+        remove,
+        reorder,
+        setAltText,
+        saveAltText,
+        setPrimary,
+    };
+}
+
+export type ProductGallery = ReturnType<typeof useProductGallery>;
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Roughly one phone screen; used until the real viewport has been measured
+const INITIAL_VIEWPORT_HEIGHT = 1200;
+
+interface WindowVirtualizerOptions {
+    rowCount: number;
+    estimateRowHeight: number;
+    gap?: number;
+    overscan?: number;
+}
+
+/**
+ * Renders only the rows of a page-scrolled list that are near the viewport.
+ * Rows are assumed to share one height, measured from the first rendered row;
+ * the space of the rows left out is kept as padding so the scrollbar stays honest.
+ */
+export function useWindowVirtualizer({ rowCount, estimateRowHeight, gap = 0, overscan = 2 }: WindowVirtualizerOptions) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const observerRef = useRef<ResizeObserver | null>(null);
+    const [rowHeight, setRowHeight] = useState(estimateRowHeight);
+    const stride = rowHeight + gap;
+    const [range, setRange] = useState({
+        start: 0,
+        end: Math.ceil(INITIAL_VIEWPORT_HEIGHT / stride) + overscan,
+    });
+
+    useEffect(() => {
+        let frame = 0;
+        const update = () => {
+            frame = 0;
+            const container = containerRef.current;
+            if (!container) return;
+
+            // Distance scrolled past the top of the list, in list coordinates
+            const top = -container.getBoundingClientRect().top;
+            const start = Math.max(0, Math.floor(top / stride) - overscan);
+            const end = Math.min(rowCount, Math.ceil((top + window.innerHeight) / stride) + overscan);
+            setRange(prev => prev.start === start && prev.end === end ? prev : { start, end });
+        };
+        const schedule = () => {
+            if (!frame) frame = requestAnimationFrame(update);
+        };
+
+        schedule();
+        window.addEventListener('scroll', schedule, { passive: true });
+        window.addEventListener('resize', schedule);
+        return () => {
+            cancelAnimationFrame(frame);
+            window.removeEventListener('scroll', schedule);
+            window.removeEventListener('resize', schedule);
+        };
+    }, [rowCount, stride, overscan]);
+
+    // Attach to the first rendered row
+    const measureRef = useCallback((node: HTMLElement | null) => {
+        observerRef.current?.disconnect();
+        if (!node) return;
+        observerRef.current = new ResizeObserver(() => {
+            if (node.offsetHeight > 0) setRowHeight(node.offsetHeight);
+        });
+        observerRef.current.observe(node);
+    }, []);
+
+    const start = Math.min(range.start, rowCount);
+    const end = Math.min(range.end, rowCount);
+
+    return {
+        containerRef,
+        measureRef,
+        start,
+        end,
+        paddingTop: start * stride,
+        paddingBottom: (rowCount - end) * stride,
+    };
+}
@@ -1,5 +1,13 @@
-import axios from 'axios';
+import axios, { isAxiosError } from 'axios';
 import Cookies from 'js-cookie';
+import type { ApiError } from '@/types/api';
+
+declare module 'axios' {
+    interface AxiosError {
+        // Attached by the response interceptor below
+        apiError?: ApiError;
+    }
+}
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
 
@@ -38,12 +46,18 @@ const onRefreshed = (token: string) => {
     refreshSubscribers = [];
 };
 
+// A 401 from these means wrong credentials or code, not an expired session
+const CREDENTIAL_ENDPOINTS = ['/auth/login/', '/auth/login/2fa/', '/auth/2fa/send-email/', '/auth/register/'];
+
+const isCredentialRequest = (url?: string) =>
+    !!url && (CREDENTIAL_ENDPOINTS.includes(url) || url.startsWith('/auth/social/'));
+
 api.interceptors.response.use(
     (response) => response,
     async (error) => {
         const originalRequest = error.config;
 
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        if (error.response?.status === 401 && !originalRequest._retry && !isCredentialRequest(originalRequest.url)) {
             if (isRefreshing) {
                 return new Promise((resolve) => {
                     subscribeTokenRefresh((token) => {
@@ -53,13 +67,12 @@ api.interceptors.response.use(
                 });
             }
 
-            originalRequest._retry = true;
-            isRefreshing = true;
+            const refreshToken = Cookies.get('refresh_token');
+            if (refreshToken) {
+                originalRequest._retry = true;
+                isRefreshing = true;
 
-            try {
-                const refreshToken = Cookies.get('refresh_token');
-
-                if (refreshToken) {
+                try {
                     const response = await axios.post(`${API_URL}/auth/token/refresh/`, {
                         refresh: refreshToken,
                     });
@@ -73,26 +86,118 @@ api.interceptors.response.use(
 
                     onRefreshed(access);
                     return api(originalRequest);
-                } else {
-                    throw new Error('No refresh token');
-                }
-            } catch (refreshError) {
-                Cookies.remove('access_token', { path: '/' });
-                Cookies.remove('refresh_token', { path: '/' });
-
-                // Force global logout via event (listened by auth-store)
-                if (typeof window !== 'undefined') {
-                    window.dispatchEvent(new Event('auth:logout'));
+                } catch (refreshError) {
+                    Cookies.remove('access_token', { path: '/' });
+                    Cookies.remove('refresh_token', { path: '/' });
+
+                    // Force global logout via event (listened by auth-store)
+                    if (typeof window !== 'undefined') {
+                        window.dispatchEvent(new Event('auth:logout'));
+                    }
+
+                    return Promise.reject(refreshError);
+                } finally {
+                    isRefreshing = false;
                 }
+            }
 
-                return Promise.reject(refreshError);
-            } finally {
-                isRefreshing = false;
+            // Nothing to refresh with: end the session and hand the caller the original 401
+            Cookies.remove('access_token', { path: '/' });
+            if (typeof window !== 'undefined') {
+                window.dispatchEvent(new Event('auth:logout'));
             }
         }
 
+        error.apiError = normalizeApiError(error);
         return Promise.reject(error);
     }
 );
 
+const DEFAULT_ERROR_MESSAGE = 'Something went wrong';
+
+// Keys that carry a human message rather than a serializer field
+const MESSAGE_KEYS = ['error', 'detail', 'message', 'errors'];
+
+const toMessages = (value: unknown): string[] => {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+    return [];
+};
+
+// Flatten whatever the backend returned into one predictable shape.
+// Handles { error }, { detail }, { message }, { errors }, plain strings and DRF serializer errors.
+export const normalizeApiError = (error: unknown, fallback = DEFAULT_ERROR_MESSAGE): ApiError => {
+    if (!isAxiosError(error)) {
+        return {
+            status: null,
+            message: error instanceof Error && error.message ? error.message : fallback,
+            fieldErrors: {},
+            data: null,
+        };
+    }
+
+    const data: unknown = error.response?.data;
+    const result: ApiError = {
+        status: error.response?.status ?? null,
+        message: fallback,
+        fieldErrors: {},
+        data,
+    };
+
+    if (!error.response) {
+        result.message = 'Network error. Please check your connection.';
+        return result;
+    }
+
+    if (typeof data === 'string') {
+        // HTML error pages from a proxy are not worth showing
+        if (data && !data.trimStart().startsWith('<')) result.message = data;
+        return result;
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        const messages = toMessages(data);
+        if (messages.length > 0) result.message = messages.join(', ');
+        return result;
+    }
+
+    const body = data as Record<string, unknown>;
+
+    // { errors: { field: [...] } } is just serializer errors wrapped once more
+    const fieldSource = body.errors && typeof body.errors === 'object' && !Array.isArray(body.errors)
+        ? { ...body, ...(body.errors as Record<string, unknown>) }
+        : body;
+
+    Object.entries(fieldSource).forEach(([field, value]) => {
+        if (MESSAGE_KEYS.includes(field)) return;
+        const messages = toMessages(value);
+        if (messages.length > 0) result.fieldErrors[field] = messages;
+    });
+
+    const explicit = MESSAGE_KEYS.map(key => toMessages(body[key])).find(messages => messages.length > 0);
+    if (explicit) {
+        result.message = explicit.join(', ');
+    } else if (Object.keys(result.fieldErrors).length > 0) {
+        // Serializer errors only: surface them in the message too
+        result.message = formatFieldErrors(result.fieldErrors);
+    }
+
+    return result;
+};
+
+export const formatFieldErrors = (fieldErrors: Record<string, string[]>): string => {
+    return Object.entries(fieldErrors)
+        .map(([field, errors]) => field === 'non_field_errors' ? errors.join(', ') : `${field}: ${errors.join(', ')}`)
+        .join('; ');
+};
+
+// Prefer the error the interceptor already normalized; `fallback` replaces the generic message
+export const getApiError = (error: unknown, fallback?: string): ApiError => {
+    const apiError = (isAxiosError(error) && error.apiError) || normalizeApiError(error);
+    if (fallback && apiError.message === DEFAULT_ERROR_MESSAGE) {
+        return { ...apiError, message: fallback };
+    }
+    return apiError;
+};
+
 export default api;
@@ -0,0 +1,64 @@
+import type { Category, CategoryNode, CategoryPosition } from '@/types/product';
+
+const byPosition = (a: Category, b: Category) =>
+    (a.order ?? 0) - (b.order ?? 0) || a.name.localeCompare(b.name);
+
+/**
+ * Nests a flat category list by `parent`. Categories whose parent is missing
+ * from the list (e.g. an inactive parent on the public endpoint) become roots.
+ */
+export const buildCategoryTree = (categories: Category[]): CategoryNode[] => {
+    const ids = new Set(categories.map(c => c.id));
+    const childrenOf = new Map<number | null, Category[]>();
+    categories.forEach(category => {
+        const parent = category.parent != null && ids.has(category.parent) ? category.parent : null;
+        childrenOf.set(parent, [...(childrenOf.get(parent) || []), category]);
+    });
+
+    const build = (parent: number | null, depth: number): CategoryNode[] =>
+        (childrenOf.get(parent) || [])
+            .sort(byPosition)
+            .map(category => ({ ...category, depth, children: build(category.id, depth + 1) }));
+
+    return build(null, 0);
+};
+
+// Depth-first order, parents before their children
+export const flattenCategoryTree = (tree: CategoryNode[]): CategoryNode[] =>
+    tree.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+
+// Indented label for native <select> options
+export const categoryOptionLabel = (node: CategoryNode) =>
+    `${'— '.repeat(node.depth)}${node.name}`;
+
+// A category can't be moved under itself or one of its descendants
+export const getDescendantIds = (node: CategoryNode): number[] =>
+    node.children.flatMap(child => [child.id, ...getDescendantIds(child)]);
+
+export const getCategoryHref = (category: Pick<Category, 'slug'>) =>
+    `/products?category=${encodeURIComponent(category.slug)}`;
+
+/**
+ * Moves a category one step up or down among its siblings and returns the new
+ * positions of that sibling group, or null when it is already at the edge.
+ */
+export const moveCategory = (tree: CategoryNode[], id: number, direction: -1 | 1): CategoryPosition[] | null => {
+    const siblingsOf = (nodes: CategoryNode[]): CategoryNode[] | null => {
+        if (nodes.some(n => n.id === id)) return nodes;
+        for (const node of nodes) {
+            const found = siblingsOf(node.children);
+            if (found) return found;
+        }
+        return null;
+    };
+
+    const siblings = siblingsOf(tree);
+    if (!siblings) return null;
+    const index = siblings.findIndex(n => n.id === id);
+    const target = index + direction;
+    if (target < 0 || target >= siblings.length) return null;
+
+    const reordered = [...siblings];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered.map((node, order) => ({ id: node.id, parent: node.parent ?? null, order }));
+};
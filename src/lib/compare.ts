@@ -0,0 +1,35 @@
+import { formatPrice } from '@/lib/utils';
+import type { ProductDetail } from '@/types/product';
+
+const MISSING_VALUE = '—';
+
+export interface CompareRow {
+    label: string;
+    // One per product, in column order
+    values: string[];
+    differs: boolean;
+}
+
+const toRow = (label: string, values: string[]): CompareRow => ({
+    label,
+    values,
+    // "16GB" and "16 gb" are the same spec
+    differs: new Set(values.map(v => v.replace(/\s+/g, '').toLowerCase())).size > 1,
+});
+
+/**
+ * Spec table for the compare page: a few common fields, then every attribute
+ * found on any of the products, in the order they first appear.
+ */
+export const buildCompareRows = (products: ProductDetail[]): CompareRow[] => {
+    const attributeNames = Array.from(new Set(products.flatMap(p => Object.keys(p.attributes ?? {}))));
+
+    return [
+        toRow('Price', products.map(p => formatPrice(p.current_price))),
+        toRow('Brand', products.map(p => p.brand || MISSING_VALUE)),
+        toRow('Category', products.map(p => p.category?.name || MISSING_VALUE)),
+        toRow('Rating', products.map(p => p.review_count > 0 ? `${p.average_rating} (${p.review_count} reviews)` : MISSING_VALUE)),
+        toRow('Availability', products.map(p => p.is_in_stock ? 'In stock' : 'Out of stock')),
+        ...attributeNames.map(name => toRow(name, products.map(p => p.attributes?.[name]?.trim() || MISSING_VALUE))),
+    ];
+};
@@ -0,0 +1,63 @@
+import toast from 'react-hot-toast';
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { formatFieldErrors, getApiError } from '@/lib/api';
+import type { ApiError } from '@/types/api';
+
+interface FormErrorOptions<T extends FieldValues> {
+    // Shown when the backend gave nothing more useful
+    fallback: string;
+    setError?: UseFormSetError<T>;
+    // Form fields that can receive server errors, usually Object.keys(schema.shape)
+    fields?: readonly string[];
+    // Backend field name -> form field name, for serializers that name things differently
+    fieldMap?: Record<string, Path<T>>;
+    toast?: boolean;
+}
+
+/**
+ * Put DRF field errors on the matching react-hook-form fields.
+ * Returns the backend errors that had no field to land on.
+ */
+export function applyFieldErrors<T extends FieldValues>(
+    apiError: ApiError,
+    setError: UseFormSetError<T>,
+    fields: readonly string[],
+    fieldMap: Record<string, Path<T>> = {}
+): Record<string, string[]> {
+    const unmapped: Record<string, string[]> = {};
+    let focused = false;
+
+    Object.entries(apiError.fieldErrors).forEach(([field, messages]) => {
+        const target = fieldMap[field] ?? (fields.includes(field) ? (field as Path<T>) : null);
+        if (!target) {
+            unmapped[field] = messages;
+            return;
+        }
+        setError(target, { type: 'server', message: messages[0] }, { shouldFocus: !focused });
+        focused = true;
+    });
+
+    return unmapped;
+}
+
+/**
+ * Single entry point for failed form submissions: maps field errors onto the form,
+ * then toasts whatever is left so every form reports errors the same way.
+ */
+export function handleFormError<T extends FieldValues>(error: unknown, options: FormErrorOptions<T>): ApiError {
+    const { fallback, setError, fields = [], fieldMap, toast: showToast = true } = options;
+    const apiError = getApiError(error, fallback);
+
+    let message = apiError.message;
+    if (setError) {
+        const unmapped = applyFieldErrors(apiError, setError, fields, fieldMap);
+        const mappedCount = Object.keys(apiError.fieldErrors).length - Object.keys(unmapped).length;
+        if (mappedCount > 0) {
+            // Field messages are already inline; only toast what could not be shown there
+            message = Object.keys(unmapped).length > 0 ? formatFieldErrors(unmapped) : fallback;
+        }
+    }
+
+    if (showToast) toast.error(message);
+    return { ...apiError, message };
+}
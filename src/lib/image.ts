@@ -0,0 +1,43 @@
+/**
+ * Client-side image resizing before upload
+ */
+
+const COMPRESSIBLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Small enough originals are uploaded untouched
+const SKIP_BELOW_BYTES = 300 * 1024;
+
+export const MAX_IMAGE_DIMENSION = 2000;
+
+// Downscales to MAX_IMAGE_DIMENSION and re-encodes. PNGs become WebP, which keeps
+// transparency at a fraction of the size. Falls back to the original file whenever
+// the browser can't decode it or the result isn't smaller.
+export const compressImage = async (file: File, quality = 0.85): Promise<File> => {
+    if (!COMPRESSIBLE_TYPES.includes(file.type)) return file;
+
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file);
+    } catch {
+        return file;
+    }
+
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1 && file.size < SKIP_BELOW_BYTES) {
+        bitmap.close();
+        return file;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const type = file.type === 'image/png' ? 'image/webp' : file.type;
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+    if (!blob || blob.size >= file.size) return file;
+
+    const name = type === file.type ? file.name : file.name.replace(/\.[^.]+$/, '.webp');
+    return new File([blob], name, { type });
+};
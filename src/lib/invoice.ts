@@ -0,0 +1,61 @@
+/**
+ * Helpers for printed invoices and packing slips
+ */
+
+// Catalog prices include VAT at the standard rate
+export const VAT_RATE = 0.1;
+
+export type PrintDocument = 'invoice' | 'slip';
+
+export const getPrintUrl = (orderNumbers: string[], doc: PrintDocument) =>
+    `/admin/orders/print?doc=${doc}&orders=${orderNumbers.map(encodeURIComponent).join(',')}`;
+
+export const splitVat = (total: number) => {
+    const beforeTax = Math.round(total / (1 + VAT_RATE));
+    return { beforeTax, tax: total - beforeTax };
+};
+
+const DIGITS = ['không', 'một', 'hai', 'ba', 'bốn', 'năm', 'sáu', 'bảy', 'tám', 'chín'];
+const GROUPS = ['', 'nghìn', 'triệu'];
+
+// Reads a 0-999 group; `full` keeps "không trăm"/"lẻ" for groups after the leading one
+const readGroup = (n: number, full: boolean) => {
+    const h = Math.floor(n / 100);
+    const t = Math.floor((n % 100) / 10);
+    const u = n % 10;
+    const words: string[] = [];
+
+    if (h > 0 || full) words.push(DIGITS[h], 'trăm');
+    if (t === 0 && u > 0 && (h > 0 || full)) words.push('lẻ');
+    else if (t === 1) words.push('mười');
+    else if (t > 1) words.push(DIGITS[t], 'mươi');
+
+    if (u === 1 && t > 1) words.push('mốt');
+    else if (u === 5 && t > 0) words.push('lăm');
+    else if (u > 0) words.push(DIGITS[u]);
+
+    return words.join(' ');
+};
+
+// "Số tiền viết bằng chữ" line required on Vietnamese invoices
+export const readVndAmount = (amount: number) => {
+    let n = Math.round(Math.abs(amount));
+    if (n === 0) return 'Không đồng';
+
+    const groups: number[] = [];
+    while (n > 0) {
+        groups.push(n % 1000);
+        n = Math.floor(n / 1000);
+    }
+
+    const parts: string[] = [];
+    for (let i = groups.length - 1; i >= 0; i--) {
+        if (groups[i] === 0) continue;
+        // Above a billion the units repeat: "nghìn tỷ", "triệu tỷ"
+        const unit = [GROUPS[i % 3], ...Array(Math.floor(i / 3)).fill('tỷ')].filter(Boolean).join(' ');
+        parts.push(readGroup(groups[i], i < groups.length - 1), unit);
+    }
+
+    const text = parts.filter(Boolean).join(' ');
+    return `${text.charAt(0).toUpperCase()}${text.slice(1)} đồng`;
+};
@@ -0,0 +1,7 @@
+import type { ListResponse } from '@/types/api';
+
+// Accept both paginated and bare-array list responses.
+// Kept free of the axios client so Server Components can use it.
+export const unwrapList = <T>(data: ListResponse<T>): T[] => {
+    return Array.isArray(data) ? data : (data?.results || []);
+};
@@ -0,0 +1,93 @@
+import type { OrderStatusEvent, OrderSummary, ReturnReason, ReturnRequest, ReturnRequestStatus } from '@/types/order';
+import type { GHNTracking } from '@/types/shipping';
+import { getGhnStatusLabel } from '@/lib/shipping';
+
+// Valid admin status changes. GHN moves confirmed orders to shipping on its
+// own, so staff only step in to hand over, close or cancel an order.
+export const ORDER_STATUS_TRANSITIONS: Record<string, string[]> = {
+    pending: ['confirmed', 'cancelled'],
+    confirmed: ['processing', 'shipping', 'delivered', 'cancelled'],
+    processing: ['shipping', 'cancelled'],
+    shipping: ['delivered', 'failed'],
+    delivered: [],
+    failed: [],
+    cancelled: [],
+    refunded: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<string, string> = {
+    pending: 'Pending',
+    confirmed: 'Confirmed',
+    processing: 'Processing',
+    shipping: 'Shipping',
+    delivered: 'Delivered',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+    refunded: 'Refunded',
+};
+
+export const getNextStatuses = (status: string) => ORDER_STATUS_TRANSITIONS[status] ?? [];
+
+export const canTransitionOrder = (from: string, to: string) => getNextStatuses(from).includes(to);
+
+// Customers may cancel until the parcel is handed to GHN
+export const CANCELLABLE_STATUSES = ['pending', 'confirmed'];
+
+export const canCancelOrder = (order: Pick<OrderSummary, 'status'>) => CANCELLABLE_STATUSES.includes(order.status);
+
+export const canRequestReturn = (order: Pick<OrderSummary, 'status'> & { return_request?: ReturnRequest | null }) =>
+    order.status === 'delivered' && !order.return_request;
+
+export const RETURN_REASONS: { value: ReturnReason; label: string }[] = [
+    { value: 'defective', label: 'Sản phẩm lỗi / hư hỏng' },
+    { value: 'wrong_item', label: 'Giao sai sản phẩm' },
+    { value: 'not_as_described', label: 'Không đúng mô tả' },
+    { value: 'changed_mind', label: 'Không còn nhu cầu' },
+    { value: 'other', label: 'Lý do khác' },
+];
+
+export const RETURN_STATUS_LABELS: Record<ReturnRequestStatus, string> = {
+    requested: 'Đã gửi yêu cầu',
+    approved: 'Đã chấp nhận',
+    rejected: 'Bị từ chối',
+    received: 'Đã nhận hàng trả',
+    refunded: 'Đã hoàn tiền',
+};
+
+export const getReturnReasonLabel = (reason: ReturnReason) =>
+    RETURN_REASONS.find(r => r.value === reason)?.label ?? reason;
+
+export interface OrderTimelineEntry {
+    key: string;
+    source: 'order' | 'ghn';
+    status: string;
+    label: string;
+    note: string;
+    time: string;
+    actor: string | null;
+}
+
+// Order status changes and GHN scan events, newest first
+export const buildOrderTimeline = (history: OrderStatusEvent[] = [], tracking?: GHNTracking | null): OrderTimelineEntry[] => {
+    const entries: OrderTimelineEntry[] = [
+        ...history.map(event => ({
+            key: `order-${event.status}-${event.created_at}`,
+            source: 'order' as const,
+            status: event.status,
+            label: event.status_display,
+            note: event.note,
+            time: event.created_at,
+            actor: event.changed_by ?? null,
+        })),
+        ...(tracking?.log ?? []).map(log => ({
+            key: `ghn-${log.status}-${log.updated_date}`,
+            source: 'ghn' as const,
+            status: log.status,
+            label: getGhnStatusLabel(log.status),
+            note: '',
+            time: log.updated_date,
+            actor: 'GHN',
+        })),
+    ];
+    return entries.sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
+};
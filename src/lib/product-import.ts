@@ -0,0 +1,181 @@
+/**
+ * Dry-run planning for the admin product spreadsheet import
+ */
+
+import { productSchema, type ProductFormValues } from '@/lib/product-schema';
+import type { AdminProduct, Category } from '@/types/product';
+
+// Same headers as products_export.xlsx
+export const IMPORT_COLUMNS = [
+    'id', 'sku', 'name', 'slug', 'category', 'brand', 'color', 'price', 'sale_price',
+    'stock', 'short_description', 'description', 'is_active', 'is_featured', 'attributes',
+] as const;
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ImportChange {
+    field: string;
+    from: string;
+    to: string;
+}
+
+export interface ImportRowPlan {
+    // 1-based spreadsheet row, counting the header
+    row: number;
+    action: ImportAction;
+    name: string;
+    productId?: string;
+    values?: ProductFormValues;
+    changes: ImportChange[];
+    errors: string[];
+}
+
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'x'];
+const FALSE_VALUES = ['false', '0', 'no', 'n'];
+
+// Fields compared for the update diff, in display order
+const DIFF_FIELDS: (keyof ProductFormValues)[] = [
+    'name', 'slug', 'sku', 'category', 'brand', 'color', 'price', 'sale_price',
+    'stock', 'short_description', 'description', 'is_active', 'is_featured', 'attributes',
+];
+
+const parseBoolean = (value: string) => {
+    const normalized = value.trim().toLowerCase();
+    if (TRUE_VALUES.includes(normalized)) return true;
+    if (FALSE_VALUES.includes(normalized)) return false;
+    return undefined;
+};
+
+// Accepts the export's JSON object or "Key: Value; Key: Value"
+const parseAttributes = (value: string) => {
+    const text = value.trim();
+    if (!text) return [];
+    if (text.startsWith('{')) {
+        try {
+            return Object.entries(JSON.parse(text) as Record<string, unknown>).map(([key, val]) => ({ key, value: String(val) }));
+        } catch {
+            return undefined;
+        }
+    }
+    return text.split(';').filter(Boolean).map(pair => {
+        const [key, ...rest] = pair.split(':');
+        return { key: key.trim(), value: rest.join(':').trim() };
+    });
+};
+
+const resolveCategory = (value: string, categories: Category[]) => {
+    const needle = value.trim().toLowerCase();
+    return categories.find(c => String(c.id) === needle || c.slug.toLowerCase() === needle || c.name.toLowerCase() === needle);
+};
+
+export const productToFormValues = (product: AdminProduct): ProductFormValues => ({
+    name: product.name,
+    slug: product.slug,
+    short_description: product.short_description || '',
+    description: product.description || '',
+    price: product.price,
+    sale_price: product.sale_price !== null ? product.sale_price : '',
+    stock: product.stock,
+    sku: product.sku || '',
+    brand: product.brand || '',
+    color: product.color || '',
+    category: String(typeof product.category === 'object' ? product.category?.id ?? '' : product.category),
+    attributes: Object.entries(product.attributes || {}).map(([key, value]) => ({ key, value: String(value) })),
+    is_active: product.is_active,
+    is_featured: product.is_featured,
+});
+
+const display = (value: unknown) => {
+    if (Array.isArray(value)) return value.map(a => `${a.key}: ${a.value}`).join('; ');
+    return value === undefined || value === null ? '' : String(value);
+};
+
+const findExisting = (row: Record<string, string>, products: AdminProduct[]) => {
+    const id = row.id?.trim();
+    const sku = row.sku?.trim().toUpperCase();
+    const slug = row.slug?.trim().toLowerCase();
+    return (id && products.find(p => String(p.id) === id))
+        || (sku && products.find(p => p.sku?.toUpperCase() === sku))
+        || (slug && products.find(p => p.slug.toLowerCase() === slug))
+        || undefined;
+};
+
+// Blank cells keep the current value on updates, so a sheet can carry only the columns being changed
+export const planImportRow = (
+    row: Record<string, string>,
+    index: number,
+    products: AdminProduct[],
+    categories: Category[],
+): ImportRowPlan => {
+    const existing = findExisting(row, products);
+    const base = existing ? productToFormValues(existing) : undefined;
+    const errors: string[] = [];
+    const candidate: Record<string, unknown> = { is_active: true, is_featured: false, ...base };
+
+    for (const column of IMPORT_COLUMNS) {
+        const raw = row[column];
+        if (raw === undefined || column === 'id' || (base && raw.trim() === '')) continue;
+
+        if (column === 'category') {
+            const category = resolveCategory(raw, categories);
+            if (category) candidate.category = String(category.id);
+            else if (raw.trim()) errors.push(`category: "${raw}" does not match any category`);
+        } else if (column === 'is_active' || column === 'is_featured') {
+            // A blank cell on a new product keeps the default
+            if (raw.trim() === '') continue;
+            const value = parseBoolean(raw);
+            if (value === undefined) errors.push(`${column}: expected true or false`);
+            else candidate[column] = value;
+        } else if (column === 'attributes') {
+            const value = parseAttributes(raw);
+            if (value === undefined) errors.push('attributes: invalid JSON');
+            else candidate.attributes = value;
+        } else {
+            candidate[column] = raw.trim();
+        }
+    }
+
+    // z.coerce.number() turns an empty sale price into 0
+    if (candidate.sale_price === '') candidate.sale_price = undefined;
+
+    const result = productSchema.safeParse(candidate);
+    if (!result.success) {
+        errors.push(...result.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`));
+    }
+
+    const plan: ImportRowPlan = {
+        row: index + 2,
+        action: 'error',
+        name: row.name?.trim() || existing?.name || '(no name)',
+        productId: existing ? String(existing.id) : undefined,
+        changes: [],
+        errors,
+    };
+    if (errors.length > 0 || !result.success) return plan;
+
+    plan.values = result.data;
+    if (!base) return { ...plan, action: 'create' };
+
+    plan.changes = DIFF_FIELDS
+        .map(field => ({ field, from: display(base[field]), to: display(result.data[field]) }))
+        .filter(change => change.from !== change.to);
+    return { ...plan, action: plan.changes.length > 0 ? 'update' : 'unchanged' };
+};
+
+export const planImport = (rows: Record<string, string>[], products: AdminProduct[], categories: Category[]) => {
+    const plans = rows.map((row, index) => planImportRow(row, index, products, categories));
+
+    // Two rows creating the same SKU would both pass on their own
+    const seen = new Map<string, number>();
+    plans.forEach(plan => {
+        const sku = plan.action === 'create' ? plan.values?.sku?.toUpperCase() : undefined;
+        if (!sku) return;
+        if (seen.has(sku)) {
+            plan.action = 'error';
+            plan.errors.push(`sku: duplicate of row ${seen.get(sku)}`);
+        } else {
+            seen.set(sku, plan.row);
+        }
+    });
+    return plans;
+};
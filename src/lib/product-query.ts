@@ -0,0 +1,103 @@
+/**
+ * Mapping between the /products URL and the catalog API query.
+ * Shared by the server page (first render) and the client view (subsequent fetches).
+ */
+
+import { unwrapList } from '@/lib/list';
+import type { ListResponse } from '@/types/api';
+import type { AttributeFilterKey, FacetOption, ProductFilterOptions, ProductQuery } from '@/types/product';
+
+export const DEFAULT_PRODUCT_SORT = '-created_at';
+
+const ATTRIBUTE_PREFIX = 'attr_';
+
+interface SearchParamsLike {
+    get: (key: string) => string | null;
+    forEach: (callback: (value: string, key: string) => void) => void;
+}
+
+export const isAttributeKey = (key: string): key is AttributeFilterKey =>
+    key.startsWith(ATTRIBUTE_PREFIX) && key.length > ATTRIBUTE_PREFIX.length;
+
+export const attributeKey = (name: string): AttributeFilterKey => `${ATTRIBUTE_PREFIX}${name}`;
+
+export const productQueryFromSearchParams = (params: SearchParamsLike): ProductQuery => {
+    const query: ProductQuery = {
+        search: params.get('search') || '',
+        category__slug: params.get('category') || '',
+        ordering: params.get('sort') || DEFAULT_PRODUCT_SORT,
+        brand: params.get('brand') || '',
+        color: params.get('color') || '',
+        min_price: params.get('min_price') || '',
+        max_price: params.get('max_price') || '',
+        page: Math.max(1, parseInt(params.get('page') || '1') || 1),
+    };
+    params.forEach((value, key) => {
+        if (isAttributeKey(key) && value) query[key] = value;
+    });
+    return query;
+};
+
+// Multi-value filters are comma-separated in the URL: ?brand=Apple,Samsung
+export const splitParam = (value: string | null | undefined): string[] =>
+    value ? value.split(',').filter(Boolean) : [];
+
+export const toggleValue = (values: string[], value: string): string[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+// Server Components receive searchParams as a plain object
+export const toSearchParams = (params: Record<string, string | string[] | undefined>) => {
+    const search = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+        const first = Array.isArray(value) ? value[0] : value;
+        if (first) search.set(key, first);
+    });
+    return search;
+};
+
+export const EMPTY_FILTER_OPTIONS: ProductFilterOptions = {
+    brands: [],
+    colors: [],
+    categories: [],
+    attributes: {},
+    price_range: null,
+};
+
+// Older backends list facet values as plain strings
+type RawFacet = FacetOption | string;
+
+interface RawFilterOptions {
+    brands: RawFacet[];
+    colors: RawFacet[];
+    categories: RawFacet[];
+    attributes: Record<string, RawFacet[]>;
+    price_range: ProductFilterOptions['price_range'];
+}
+
+const toFacetOptions = (values: RawFacet[] = []): FacetOption[] =>
+    values.map(value => typeof value === 'string' ? { value, count: null } : value);
+
+// Tolerates a backend that leaves out facets it has nothing for or sends bare values
+export const normalizeFilterOptions = (data: Partial<RawFilterOptions> | null | undefined): ProductFilterOptions => ({
+    brands: toFacetOptions(data?.brands),
+    colors: toFacetOptions(data?.colors),
+    categories: toFacetOptions(data?.categories),
+    attributes: Object.fromEntries(
+        Object.entries(data?.attributes ?? {}).map(([name, values]) => [name, toFacetOptions(values)])
+    ),
+    price_range: data?.price_range ?? null,
+});
+
+/**
+ * Result count and page count from the API's own pagination rather than an
+ * assumed page size: a page that has a `next` link is a full page.
+ */
+export const toPageInfo = <T>(data: ListResponse<T>, page: number) => {
+    const items = unwrapList(data);
+    if (Array.isArray(data)) return { items, totalCount: items.length, totalPages: 1 };
+
+    const totalPages = data.next && items.length > 0
+        ? Math.ceil(data.count / items.length)
+        : Math.max(1, page);
+    return { items, totalCount: data.count, totalPages };
+};
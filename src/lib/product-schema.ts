@@ -0,0 +1,103 @@
+/**
+ * Admin product form schema, shared by the edit page and the spreadsheet import
+ */
+
+import * as z from "zod";
+
+export const variantSchema = z.object({
+    id: z.number().optional(),
+    sku: z.string().min(1, "SKU is required"),
+    color: z.string().optional(),
+    storage: z.string().optional(),
+    price: z.coerce.number().min(0, "Price must be positive"),
+    sale_price: z.coerce.number().min(0, "Sale price must be positive").optional().or(z.literal("")),
+    stock: z.coerce.number().int().min(0, "Stock must be non-negative"),
+    image_ids: z.array(z.number()).default([]),
+    is_active: z.boolean().default(true),
+}).refine(v => v.color || v.storage, { message: "Set a color or a storage size", path: ["color"] });
+
+export const productSchema = z.object({
+    name: z.string().min(1, "Product name is required"),
+    slug: z.string().optional(),
+    short_description: z.string().max(500, "Short description is too long").optional(),
+    description: z.string().optional(),
+    price: z.coerce.number().min(0, "Price must be positive"),
+    sale_price: z.coerce.number().min(0, "Sale price must be positive").optional().or(z.literal("")),
+    stock: z.coerce.number().int().min(0, "Stock must be non-negative"),
+    sku: z.string().optional(),
+    brand: z.string().optional(),
+    color: z.string().optional(),
+    category: z.coerce.string().min(1, "Category is required"),
+    attributes: z.array(z.object({
+        key: z.string().min(1, "Key is required"),
+        value: z.string().min(1, "Value is required")
+    })).optional(),
+    is_active: z.boolean().default(true),
+    is_featured: z.boolean().default(false),
+    variants: z.array(variantSchema).superRefine((variants, ctx) => {
+        const seenSkus = new Set<string>();
+        const seenOptions = new Set<string>();
+        variants.forEach((variant, index) => {
+            const sku = variant.sku.trim().toUpperCase();
+            if (seenSkus.has(sku)) {
+                ctx.addIssue({ code: "custom", message: "SKU is already used by another variant", path: [index, "sku"] });
+            }
+            seenSkus.add(sku);
+
+            const options = `${variant.color ?? ""}|${variant.storage ?? ""}`.toLowerCase();
+            if (seenOptions.has(options)) {
+                ctx.addIssue({ code: "custom", message: "Another variant has the same color and storage", path: [index, "color"] });
+            }
+            seenOptions.add(options);
+        });
+    }).optional(),
+});
+
+export type ProductFormValues = z.infer<typeof productSchema>;
+
+// Multipart body for create/update. Attributes and variants are only sent when
+// present so a partial update (e.g. from the import) leaves them untouched.
+export const toProductFormData = (data: ProductFormValues) => {
+    const formData = new FormData();
+    formData.append('name', data.name);
+    // Left out, the backend keeps the current slug (or derives one from the name)
+    if (data.slug) formData.append('slug', data.slug);
+    if (data.short_description) formData.append('short_description', data.short_description);
+    formData.append('description', data.description || '');
+    formData.append('price', data.price.toString());
+    if (data.sale_price !== "" && data.sale_price !== undefined) {
+        formData.append('sale_price', data.sale_price.toString());
+    } else {
+        formData.append('sale_price', '');
+    }
+    formData.append('stock', data.stock.toString());
+    if (data.sku) formData.append('sku', data.sku);
+    if (data.brand) formData.append('brand', data.brand);
+    if (data.color) formData.append('color', data.color);
+    formData.append('category', data.category);
+    formData.append('is_active', data.is_active.toString());
+    formData.append('is_featured', data.is_featured.toString());
+
+    if (data.attributes) {
+        const attributesObj = data.attributes.reduce((acc, curr) => {
+            if (curr.key && curr.value) {
+                acc[curr.key] = curr.value;
+            }
+            return acc;
+        }, {} as Record<string, string>);
+        formData.append('attributes', JSON.stringify(attributesObj));
+    }
+
+    // The backend reconciles by id: missing variants are deleted, new ones have no id
+    if (data.variants) {
+        formData.append('variants', JSON.stringify(data.variants.map(variant => ({
+            ...variant,
+            sku: variant.sku.trim().toUpperCase(),
+            color: variant.color || "",
+            storage: variant.storage || "",
+            sale_price: variant.sale_price === "" || variant.sale_price === undefined ? null : variant.sale_price,
+        }))));
+    }
+
+    return formData;
+};
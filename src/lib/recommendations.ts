@@ -0,0 +1,21 @@
+import type { Product } from '@/types/product';
+
+/**
+ * Products similar to `product`: same category and brand first, then either one.
+ * Ties keep the API order (newest first by default).
+ */
+export const rankRelatedProducts = (product: Product, candidates: Product[], limit = 8): Product[] => {
+    const score = (candidate: Product) =>
+        (candidate.category?.id === product.category?.id ? 2 : 0)
+        + (product.brand && candidate.brand === product.brand ? 1 : 0);
+
+    return candidates
+        .filter((candidate, index, all) =>
+            candidate.id !== product.id && all.findIndex(c => c.id === candidate.id) === index
+        )
+        .map(candidate => ({ candidate, score: score(candidate) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ candidate }) => candidate);
+};
@@ -0,0 +1,75 @@
+/**
+ * HTML sanitization for product descriptions. The storefront and the admin
+ * editor preview both go through sanitizeProductHtml so staff see exactly
+ * what customers get.
+ */
+
+import DOMPurify from 'isomorphic-dompurify';
+
+// Embedded video is limited to these players; any other iframe is dropped
+const VIDEO_EMBED_HOSTS = ['www.youtube.com', 'www.youtube-nocookie.com', 'player.vimeo.com'];
+
+export const isAllowedEmbed = (src: string): boolean => {
+    try {
+        const url = new URL(src);
+        return url.protocol === 'https:' && VIDEO_EMBED_HOSTS.includes(url.hostname);
+    } catch {
+        return false;
+    }
+};
+
+// Turns a watch/share link into the player URL used for the iframe
+export const toEmbedUrl = (link: string): string | null => {
+    try {
+        const url = new URL(link.trim());
+        const host = url.hostname.replace(/^www\./, '');
+        if (host === 'youtube.com' || host === 'm.youtube.com') {
+            const id = url.pathname.startsWith('/embed/') ? url.pathname.split('/')[2] : url.searchParams.get('v');
+            return id ? `https://www.youtube.com/embed/${id}` : null;
+        }
+        if (host === 'youtu.be') {
+            const id = url.pathname.slice(1);
+            return id ? `https://www.youtube.com/embed/${id}` : null;
+        }
+        if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+            const id = url.pathname.split('/').filter(Boolean).pop();
+            return id && /^\d+$/.test(id) ? `https://player.vimeo.com/video/${id}` : null;
+        }
+        return null;
+    } catch {
+        return null;
+    }
+};
+
+// DOMPurify's defaults plus the video iframes allowed above
+const PRODUCT_HTML_CONFIG = {
+    ADD_TAGS: ['iframe'],
+    ADD_ATTR: ['allow', 'allowfullscreen', 'frameborder'],
+};
+
+let hooksInstalled = false;
+
+// DOMPurify hooks are global, so they are registered once per runtime
+const installHooks = () => {
+    if (hooksInstalled) return;
+    hooksInstalled = true;
+
+    DOMPurify.addHook('uponSanitizeElement', (node, data) => {
+        if (data.tagName !== 'iframe') return;
+        // On the server this runs against jsdom, so there is no global Element to check with
+        const src = (node as Element).getAttribute('src') || '';
+        if (!isAllowedEmbed(src)) node.parentNode?.removeChild(node);
+    });
+
+    DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+        if (node.tagName === 'IFRAME') {
+            node.setAttribute('allowfullscreen', '');
+            node.setAttribute('loading', 'lazy');
+        }
+    });
+};
+
+export const sanitizeProductHtml = (html: string | null | undefined): string => {
+    installHooks();
+    return DOMPurify.sanitize(html || '', PRODUCT_HTML_CONFIG);
+};
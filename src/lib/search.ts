@@ -0,0 +1,22 @@
+/**
+ * Text matching for storefront search. Vietnamese shoppers often type without
+ * diacritics ("dien thoai" for "điện thoại"), so both sides are folded first.
+ */
+
+export const normalizeSearchText = (text: string): string =>
+    text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[đĐ]/g, 'd')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim();
+
+// Every word of the query has to appear somewhere in the text
+export const matchesSearch = (text: string, query: string): boolean => {
+    const haystack = normalizeSearchText(text);
+    return normalizeSearchText(query).split(' ').every(word => haystack.includes(word));
+};
+
+export const getSearchHref = (query: string) =>
+    `/products?search=${encodeURIComponent(query.trim())}`;
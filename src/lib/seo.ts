@@ -0,0 +1,62 @@
+/**
+ * SEO helpers: plain-text descriptions and schema.org JSON-LD
+ */
+
+import { absoluteUrl, SITE_NAME } from '@/lib/server-api';
+import type { ProductDetail } from '@/types/product';
+
+// Per-user or staff-only areas that crawlers should never index
+export const PRIVATE_PATHS = ['/admin', '/account', '/checkout', '/auth', '/orders', '/cart'];
+
+// Public pages that exist regardless of catalog content
+export const STATIC_PATHS = ['/', '/products', '/about', '/privacy', '/terms'];
+
+// Product descriptions are stored as HTML
+export const toPlainText = (html: string | null | undefined, maxLength = 160): string => {
+    const text = (html || '')
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+    if (text.length <= maxLength) return text;
+    return `${text.slice(0, maxLength - 1).trimEnd()}…`;
+};
+
+export const buildProductJsonLd = (product: ProductDetail) => {
+    const url = absoluteUrl(`/products/${product.slug}`);
+    const images = [product.primary_image, ...(product.images || []).map(img => img.image)]
+        .filter((src, index, all): src is string => !!src && all.indexOf(src) === index);
+
+    return {
+        '@context': 'https://schema.org',
+        '@type': 'Product',
+        name: product.name,
+        description: toPlainText(product.description, 5000),
+        image: images,
+        url,
+        sku: product.id,
+        ...(product.brand && { brand: { '@type': 'Brand', name: product.brand } }),
+        ...(product.category && { category: product.category.name }),
+        offers: {
+            '@type': 'Offer',
+            url,
+            priceCurrency: 'VND',
+            price: product.current_price,
+            availability: product.is_in_stock ? 'https://schema.org/InStock' : 'https://schema.org/OutOfStock',
+            itemCondition: 'https://schema.org/NewCondition',
+            seller: { '@type': 'Organization', name: SITE_NAME },
+        },
+        // Google rejects AggregateRating without any reviews
+        ...(product.review_count > 0 && {
+            aggregateRating: {
+                '@type': 'AggregateRating',
+                ratingValue: product.average_rating,
+                reviewCount: product.review_count,
+            },
+        }),
+    };
+};
+
+// JSON.stringify leaves "</script>" intact; escape "<" so descriptions can't break out of the tag
+export const serializeJsonLd = (data: object) => JSON.stringify(data).replace(/</g, '\\u003c');
@@ -0,0 +1,75 @@
+/**
+ * Server-side API access for Server Components, metadata and route handlers.
+ * Uses fetch instead of the axios client so Next can cache and revalidate responses;
+ * no auth cookies are sent, so only public endpoints belong here.
+ */
+
+import type { Paginated } from '@/types/api';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
+
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || 'https://owls.asia').replace(/\/$/, '');
+
+export const SITE_NAME = 'OWLS';
+
+export class ServerApiError extends Error {
+    constructor(public status: number, path: string) {
+        super(`GET ${path} failed with ${status}`);
+        this.name = 'ServerApiError';
+    }
+}
+
+interface ServerGetOptions {
+    params?: object;
+    // Seconds; public catalog data is fine a few minutes stale
+    revalidate?: number;
+}
+
+// Resolves to null on 404 so callers can tell "missing" apart from "backend is down"
+export async function serverGet<T>(path: string, { params, revalidate = 300 }: ServerGetOptions = {}): Promise<T | null> {
+    const search = new URLSearchParams();
+    Object.entries(params || {}).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+            search.append(key, String(value));
+        }
+    });
+    const query = search.toString();
+
+    const response = await fetch(`${API_URL}${path}${query ? `?${query}` : ''}`, {
+        headers: { Accept: 'application/json' },
+        next: { revalidate },
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) throw new ServerApiError(response.status, path);
+
+    return response.json() as Promise<T>;
+}
+
+// Large pages keep a full crawl to a handful of requests; DRF caps it at the view's max_page_size
+const PAGE_SIZE = 500;
+// Hard stop in case the backend keeps returning `next`
+const MAX_PAGES = 500;
+
+// Follows DRF pagination until `next` runs out; bare-array endpoints return in one request.
+// A page that fails part way throws rather than returning a silently short list.
+export async function serverGetAll<T>(path: string, revalidate = 3600): Promise<T[]> {
+    const items: T[] = [];
+    for (let page = 1; page <= MAX_PAGES; page++) {
+        const data = await serverGet<Paginated<T> | T[]>(path, { params: { page, page_size: PAGE_SIZE }, revalidate });
+        if (!data) {
+            if (page === 1) return items;
+            throw new ServerApiError(404, `${path}?page=${page}`);
+        }
+        if (Array.isArray(data)) {
+            items.push(...data);
+            return items;
+        }
+        items.push(...data.results);
+        if (!data.next) return items;
+    }
+    console.error(`serverGetAll(${path}) stopped after ${MAX_PAGES} pages; ${items.length} items, more remain`);
+    return items;
+}
+
+export const absoluteUrl = (path: string) => `${SITE_URL}${path.startsWith('/') ? path : `/${path}`}`;
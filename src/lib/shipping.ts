@@ -0,0 +1,33 @@
+// GHN shipment statuses, see https://api.ghn.vn/home/docs/detail?id=84
+export const GHN_STATUS_LABELS: Record<string, string> = {
+    ready_to_pick: 'Chờ lấy hàng',
+    picking: 'Đang lấy hàng',
+    money_collect_picking: 'Đang tương tác với người gửi',
+    picked: 'Đã lấy hàng',
+    storing: 'Hàng đang nằm ở kho',
+    transporting: 'Đang luân chuyển hàng',
+    sorting: 'Đang phân loại hàng',
+    delivering: 'Đang giao hàng',
+    money_collect_delivering: 'Đang tương tác với người nhận',
+    delivered: 'Giao hàng thành công',
+    delivery_fail: 'Giao hàng thất bại',
+    waiting_to_return: 'Chờ trả hàng',
+    return: 'Trả hàng',
+    return_transporting: 'Đang luân chuyển hàng trả',
+    return_sorting: 'Đang phân loại hàng trả',
+    returning: 'Đang trả hàng',
+    return_fail: 'Trả hàng thất bại',
+    returned: 'Trả hàng thành công',
+    cancel: 'Hủy đơn hàng',
+    exception: 'Đơn hàng ngoại lệ',
+    damage: 'Hàng bị hư hỏng',
+    lost: 'Hàng bị mất',
+};
+
+// No further tracking events are expected once GHN reaches one of these
+export const GHN_FINAL_STATUSES = ['delivered', 'returned', 'cancel', 'lost', 'damage'];
+
+export const getGhnStatusLabel = (status: string) => GHN_STATUS_LABELS[status] ?? status;
+
+export const getGhnTrackingUrl = (orderCode: string) =>
+    `https://donhang.ghn.vn/?order_code=${encodeURIComponent(orderCode)}`;
@@ -0,0 +1,31 @@
+import type { ProductVariant } from '@/types/product';
+
+type VariantOptions = Pick<ProductVariant, 'color' | 'storage'>;
+
+// "Black / 256GB"; either part may be empty
+export const variantLabel = (variant: VariantOptions) =>
+    [variant.color, variant.storage].filter(Boolean).join(' / ');
+
+const unique = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+
+/**
+ * Distinct colors and storage sizes across the active variants, in admin order.
+ */
+export const getVariantOptions = (variants: ProductVariant[]) => {
+    const active = variants.filter(v => v.is_active);
+    return {
+        colors: unique(active.map(v => v.color)),
+        storages: unique(active.map(v => v.storage)),
+    };
+};
+
+export const findVariant = (variants: ProductVariant[], color: string, storage: string) =>
+    variants.find(v => v.is_active && v.color === color && v.storage === storage);
+
+/**
+ * Initial selection: the first variant that can be bought, else the first active one.
+ */
+export const getDefaultVariant = (variants: ProductVariant[]) => {
+    const active = variants.filter(v => v.is_active);
+    return active.find(v => v.is_in_stock) ?? active[0];
+};
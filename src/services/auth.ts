@@ -0,0 +1,126 @@
+/**
+ * Auth Service
+ * Session, profile, social accounts and account security endpoints
+ */
+
+import api from '@/lib/api';
+import type { ExportOptions, Paginated } from '@/types/api';
+import type {
+    AdminUserQuery,
+    AuthTokens,
+    ChangePasswordData,
+    LoginResponse,
+    RegisterData,
+    SocialAccount,
+    TwoFactorSetup,
+    User,
+} from '@/types/auth';
+
+export const authService = {
+    login: async (email: string, password: string) => {
+        const { data } = await api.post<LoginResponse>('/auth/login/', { email, password });
+        return data;
+    },
+
+    verify2FA: async (tempToken: string, code: string, isBackup = false) => {
+        const payload = isBackup
+            ? { temp_token: tempToken, backup_code: code }
+            : { temp_token: tempToken, code };
+        const { data } = await api.post<AuthTokens>('/auth/login/2fa/', payload);
+        return data;
+    },
+
+    send2FAEmail: async (tempToken: string) => {
+        await api.post('/auth/2fa/send-email/', { temp_token: tempToken });
+    },
+
+    socialCallback: async (provider: string, code: string, state?: string) => {
+        const { data } = await api.post<LoginResponse>(`/auth/social/${provider}/callback/`, { code, state });
+        return data;
+    },
+
+    register: async (payload: RegisterData) => {
+        const { data } = await api.post<AuthTokens & { user: User }>('/auth/register/', payload);
+        return data;
+    },
+
+    logout: async (refresh: string) => {
+        await api.post('/auth/logout/', { refresh });
+    },
+
+    getProfile: async () => {
+        const { data } = await api.get<User>('/auth/profile/');
+        return data;
+    },
+
+    updateProfile: async (payload: Partial<User>) => {
+        const { data } = await api.patch<User>('/auth/profile/', payload);
+        return data;
+    },
+
+    getSocialAccounts: async () => {
+        const { data } = await api.get<SocialAccount[]>('/auth/social/accounts/');
+        return data;
+    },
+
+    disconnectSocialAccount: async (provider: string) => {
+        await api.post('/auth/social/disconnect/', { provider });
+    },
+
+    changePassword: async (payload: ChangePasswordData) => {
+        await api.put('/auth/change-password/', payload);
+    },
+
+    deleteAccount: async (password: string) => {
+        await api.delete('/auth/delete-account/', { data: { password } });
+    },
+
+    requestPasswordReset: async (email: string) => {
+        await api.post('/auth/password-reset/', { email });
+    },
+
+    confirmPasswordReset: async (uid: string, token: string, password: string) => {
+        await api.post(`/auth/password-reset-confirm/${uid}/${token}/`, { password });
+    },
+
+    // --- Two-factor ---
+
+    start2FASetup: async () => {
+        const { data } = await api.get<TwoFactorSetup>('/auth/2fa/enable/');
+        return data;
+    },
+
+    confirm2FA: async (code: string) => {
+        await api.post('/auth/2fa/confirm/', { code });
+    },
+
+    disable2FA: async (password: string) => {
+        await api.post('/auth/2fa/disable/', { password });
+    },
+
+    getBackupCodes: async (password: string, regenerate = false) => {
+        const { data } = await api.post<{ backup_codes: string[] }>('/auth/2fa/backup-codes/', {
+            password,
+            action: regenerate ? 'regenerate' : 'view',
+        });
+        return data.backup_codes;
+    },
+
+    // Admin
+    getAdminUsers: async (query: AdminUserQuery = {}) => {
+        const { data } = await api.get<Paginated<User>>('/auth/admin/users/', { params: query });
+        return data;
+    },
+
+    exportAdminUsers: async (query: AdminUserQuery, { format, columns }: ExportOptions) => {
+        const { data } = await api.get<Blob>('/auth/admin/users/', {
+            params: { ...query, export: format, columns: columns.join(',') },
+            responseType: 'blob',
+        });
+        return data;
+    },
+
+    deleteAdminUser: async (id: string) => {
+        await api.delete(`/auth/admin/users/${id}/`);
+    },
+};
@@ -0,0 +1,25 @@
+/**
+ * B2B Service
+ * Bulk quote requests from the storefront and their admin follow-up
+ */
+
+import api from '@/lib/api';
+import type { ListResponse } from '@/types/api';
+import type { QuoteRequest, QuoteRequestPayload, QuoteRequestQuery, QuoteStatus } from '@/types/b2b';
+
+export const b2bService = {
+    requestQuote: async (payload: QuoteRequestPayload) => {
+        await api.post('/b2b/quotes/', payload);
+    },
+
+    // Admin
+    getQuotes: async (query: QuoteRequestQuery = {}) => {
+        const { data } = await api.get<ListResponse<QuoteRequest>>('/admin/b2b/quotes/', { params: query });
+        return data;
+    },
+
+    updateQuoteStatus: async (id: number, status: QuoteStatus) => {
+        const { data } = await api.patch<QuoteRequest>(`/admin/b2b/quotes/${id}/`, { status });
+        return data;
+    },
+};
@@ -0,0 +1,41 @@
+/**
+ * Cart Service
+ * Server cart and coupon validation (the guest cart never hits the API)
+ */
+
+import api from '@/lib/api';
+import type { AppliedCoupon, Cart } from '@/types/cart';
+
+export const cartService = {
+    getCart: async () => {
+        const { data } = await api.get<Cart>('/cart/');
+        return data;
+    },
+
+    addItem: async (productId: string, quantity: number, variantId?: number | null) => {
+        const { data } = await api.post<{ cart: Cart }>('/cart/add/', {
+            product_id: productId,
+            quantity,
+            ...(variantId != null && { variant_id: variantId }),
+        });
+        return data.cart;
+    },
+
+    updateItem: async (itemId: number, quantity: number) => {
+        await api.patch(`/cart/items/${itemId}/`, { quantity });
+    },
+
+    removeItem: async (itemId: number) => {
+        await api.delete(`/cart/items/${itemId}/`);
+    },
+
+    clear: async () => {
+        await api.post('/cart/clear/');
+    },
+
+    // Decimal fields may come back as strings; the store normalizes them
+    validateCoupon: async (code: string, subtotal: number) => {
+        const { data } = await api.post<AppliedCoupon>('/coupons/validate/', { code, subtotal });
+        return data;
+    },
+};
@@ -0,0 +1,35 @@
+/**
+ * Catalog Service (server)
+ * Public catalog reads for Server Components, metadata, sitemap
+ */
+
+import { serverGet, serverGetAll } from '@/lib/server-api';
+import type { ListResponse } from '@/types/api';
+import type { Category, Product, ProductDetail, ProductFilterOptions, ProductQuery } from '@/types/product';
+
+export const catalogServerService = {
+    getProduct: (slug: string) => {
+        return serverGet<ProductDetail>(`/catalog/products/${encodeURIComponent(slug)}/`);
+    },
+
+    getProducts: (query: ProductQuery = {}) => {
+        return serverGet<ListResponse<Product>>('/catalog/products/', { params: query });
+    },
+
+    getFilterOptions: (query: ProductQuery = {}) => {
+        return serverGet<ProductFilterOptions>('/catalog/products/filters/', { params: query });
+    },
+
+    getCategories: () => {
+        return serverGet<ListResponse<Category>>('/catalog/categories/', { revalidate: 3600 });
+    },
+
+    // Every product and category, for the sitemap rather than for rendering
+    getAllProducts: (revalidate = 3600) => {
+        return serverGetAll<Product>('/catalog/products/', revalidate);
+    },
+
+    getAllCategories: (revalidate = 3600) => {
+        return serverGetAll<Category>('/catalog/categories/', revalidate);
+    },
+};
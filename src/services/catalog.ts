@@ -0,0 +1,170 @@
+/**
+ * Catalog Service
+ * Products, categories, filters and reviews
+ */
+
+import api from '@/lib/api';
+import { unwrapList } from '@/lib/list';
+import type { ListResponse } from '@/types/api';
+import type {
+    AdminProduct,
+    AdminProductQuery,
+    AdminProductUpdate,
+    Category,
+    CategoryPosition,
+    Product,
+    ProductDetail,
+    ProductFilterOptions,
+    ProductImage,
+    ProductImportSheet,
+    ProductQuery,
+} from '@/types/product';
+
+// Drop empty values so they don't end up as `?brand=&color=`
+const toParams = (query: object) => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+            params.append(key, String(value));
+        }
+    });
+    return params;
+};
+
+export const catalogService = {
+    getProducts: async (query: ProductQuery = {}) => {
+        const { data } = await api.get<ListResponse<Product>>('/catalog/products/', { params: toParams(query) });
+        return data;
+    },
+
+    getProduct: async (slug: string) => {
+        const { data } = await api.get<ProductDetail>(`/catalog/products/${slug}/`);
+        return data;
+    },
+
+    // Products most often ordered together with this one
+    getFrequentlyBoughtTogether: async (slug: string) => {
+        const { data } = await api.get<ListResponse<Product>>(`/catalog/products/${slug}/bought-together/`);
+        return unwrapList(data);
+    },
+
+    getFilterOptions: async (query: ProductQuery = {}) => {
+        const { data } = await api.get<ProductFilterOptions>('/catalog/products/filters/', { params: toParams(query) });
+        return data;
+    },
+
+    getCategories: async () => {
+        const { data } = await api.get<ListResponse<Category>>('/catalog/categories/');
+        return unwrapList(data);
+    },
+
+    // --- Admin ---
+
+    getAdminProducts: async (query: AdminProductQuery = {}) => {
+        const { data } = await api.get<ListResponse<AdminProduct>>('/catalog/products/admin/', { params: toParams(query) });
+        return data;
+    },
+
+    exportAdminProducts: async (query: AdminProductQuery = {}) => {
+        const params = toParams(query);
+        params.append('export', 'excel');
+        const { data } = await api.get<Blob>('/catalog/products/admin/', { params, responseType: 'blob' });
+        return data;
+    },
+
+    // Reads a CSV/XLSX in the export's column layout; nothing is saved
+    parseImportFile: async (file: File) => {
+        const formData = new FormData();
+        formData.append('file', file);
+        const { data } = await api.post<ProductImportSheet>('/catalog/products/admin/import/parse/', formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
+        return data;
+    },
+
+    getAdminProduct: async (id: string) => {
+        const { data } = await api.get<AdminProduct>(`/catalog/products/admin/${id}/`);
+        return data;
+    },
+
+    createProduct: async (formData: FormData) => {
+        const { data } = await api.post<AdminProduct>('/catalog/products/admin/', formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
+        return data;
+    },
+
+    updateProduct: async (id: string, formData: FormData) => {
+        const { data } = await api.patch<AdminProduct>(`/catalog/products/admin/${id}/`, formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
+        return data;
+    },
+
+    patchProduct: async (id: string, update: AdminProductUpdate) => {
+        const { data } = await api.patch<AdminProduct>(`/catalog/products/admin/${id}/`, update);
+        return data;
+    },
+
+    deleteProduct: async (id: string) => {
+        await api.delete(`/catalog/products/admin/${id}/`);
+    },
+
+    setPrimaryImage: async (imageId: number) => {
+        await api.post(`/catalog/products/images/${imageId}/set-primary/`);
+    },
+
+    uploadProductImage: async (productId: string, file: File, altText = '', onProgress?: (percent: number) => void) => {
+        const formData = new FormData();
+        formData.append('image', file);
+        formData.append('alt_text', altText);
+        const { data } = await api.post<ProductImage>(`/catalog/products/admin/${productId}/images/`, formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+            onUploadProgress: (event) => onProgress?.(event.total ? Math.round((event.loaded * 100) / event.total) : 0),
+        });
+        return data;
+    },
+
+    updateProductImage: async (imageId: number, update: Pick<ProductImage, 'alt_text'>) => {
+        const { data } = await api.patch<ProductImage>(`/catalog/products/images/${imageId}/`, update);
+        return data;
+    },
+
+    deleteProductImage: async (imageId: number) => {
+        await api.delete(`/catalog/products/images/${imageId}/`);
+    },
+
+    // Full gallery order, first id first
+    reorderProductImages: async (productId: string, imageIds: number[]) => {
+        await api.post(`/catalog/products/admin/${productId}/images/reorder/`, { order: imageIds });
+    },
+
+    // Includes inactive categories, which the public list hides
+    getAdminCategories: async () => {
+        const { data } = await api.get<ListResponse<Category>>('/catalog/categories/admin/');
+        return unwrapList(data);
+    },
+
+    createCategory: async (formData: FormData) => {
+        const { data } = await api.post<Category>('/catalog/categories/admin/', formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
+        return data;
+    },
+
+    updateCategory: async (id: number, formData: FormData) => {
+        const { data } = await api.patch<Category>(`/catalog/categories/admin/${id}/`, formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
+        return data;
+    },
+
+    deleteCategory: async (id: number) => {
+        await api.delete(`/catalog/categories/admin/${id}/`);
+    },
+
+    // Parent and sibling position for every category that moved
+    reorderCategories: async (positions: CategoryPosition[]) => {
+        await api.post('/catalog/categories/admin/reorder/', { positions });
+    },
+};
@@ -0,0 +1,22 @@
+/**
+ * Core Service (server)
+ */
+
+import { serverGet } from '@/lib/server-api';
+import type { SiteConfig } from '@/types/core';
+
+export const coreServerService = {
+    getConfig: (revalidate = 300) => {
+        return serverGet<SiteConfig>('/core/config/', { revalidate });
+    },
+
+    // Unreachable backend counts as "open" so crawlers are not turned away by an outage
+    isInMaintenance: async (revalidate = 300) => {
+        try {
+            const config = await serverGet<SiteConfig>('/core/config/', { revalidate });
+            return !!config?.maintenance_mode;
+        } catch {
+            return false;
+        }
+    },
+};
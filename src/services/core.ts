@@ -0,0 +1,27 @@
+/**
+ * Core Service
+ * Site configuration and team
+ */
+
+import api from '@/lib/api';
+import { unwrapList } from '@/lib/list';
+import type { ListResponse } from '@/types/api';
+import type { SiteConfig, TeamMember } from '@/types/core';
+
+export const coreService = {
+    getConfig: async () => {
+        const { data } = await api.get<SiteConfig>('/core/config/');
+        return data;
+    },
+
+    // Singleton row on the backend
+    updateConfig: async (config: Partial<SiteConfig>) => {
+        const { data } = await api.patch<SiteConfig>('/core/config/1/', config);
+        return data;
+    },
+
+    getTeam: async () => {
+        const { data } = await api.get<ListResponse<TeamMember>>('/core/team/');
+        return unwrapList(data);
+    },
+};
@@ -0,0 +1,9 @@
+export { authService } from './auth';
+export { b2bService } from './b2b';
+export { cartService } from './cart';
+export { catalogService } from './catalog';
+export { coreService } from './core';
+export { ordersService } from './orders';
+export { reviewsService } from './reviews';
+export { shippingService } from './shipping';
+export { wishlistService } from './wishlist';
@@ -0,0 +1,102 @@
+/**
+ * Orders Service
+ * Checkout, customer orders and the admin order desk
+ */
+
+import api from '@/lib/api';
+import type { ExportOptions, ListResponse } from '@/types/api';
+import type {
+    AdminOrder,
+    AdminOrderDetail,
+    AdminOrderQuery,
+    CheckoutPayload,
+    CheckoutResponse,
+    DashboardStats,
+    OrderDetail,
+    OrderSummary,
+    ReturnRequest,
+    ReturnRequestPayload,
+    ReturnRequestUpdate,
+    VNPayVerifyResponse,
+} from '@/types/order';
+
+export const ordersService = {
+    getOrders: async () => {
+        const { data } = await api.get<ListResponse<OrderSummary>>('/orders/');
+        return data;
+    },
+
+    getOrder: async (orderNumber: string) => {
+        const { data } = await api.get<OrderDetail>(`/orders/${orderNumber}/`);
+        return data;
+    },
+
+    // Only pending/confirmed orders; the backend restocks and refunds online payments
+    cancelOrder: async (orderNumber: string, reason: string) => {
+        const { data } = await api.post<OrderDetail>(`/orders/${orderNumber}/cancel/`, { reason });
+        return data;
+    },
+
+    // Photos make the request multipart
+    requestReturn: async (orderNumber: string, payload: ReturnRequestPayload) => {
+        const formData = new FormData();
+        formData.append('reason', payload.reason);
+        formData.append('description', payload.description);
+        formData.append('items', JSON.stringify(payload.items));
+        payload.images?.forEach(file => formData.append('images', file));
+
+        const { data } = await api.post<ReturnRequest>(`/orders/${orderNumber}/return/`, formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
+        return data;
+    },
+
+    checkout: async (payload: CheckoutPayload) => {
+        const { data } = await api.post<CheckoutResponse>('/checkout/', payload);
+        return data;
+    },
+
+    verifyVNPay: async (params: Record<string, string>) => {
+        const { data } = await api.post<VNPayVerifyResponse>('/payments/vnpay/verify/', params);
+        return data;
+    },
+
+    // --- Admin ---
+
+    getDashboardStats: async () => {
+        const { data } = await api.get<DashboardStats>('/admin/dashboard/');
+        return data;
+    },
+
+    getAdminOrders: async (query: AdminOrderQuery = {}) => {
+        const { data } = await api.get<ListResponse<AdminOrder>>('/admin/orders/', { params: query });
+        return data;
+    },
+
+    exportAdminOrders: async (query: AdminOrderQuery, { format, columns }: ExportOptions) => {
+        const { data } = await api.get<Blob>('/admin/orders/', {
+            params: { ...query, export: format, columns: columns.join(',') },
+            responseType: 'blob',
+        });
+        return data;
+    },
+
+    getAdminOrder: async (id: string) => {
+        const { data } = await api.get<AdminOrderDetail>(`/admin/orders/${id}/`);
+        return data;
+    },
+
+    // Goes through OrderService.update_order_status() (emails, GHN shipment for COD)
+    updateStatus: async (orderNumber: string, status: string) => {
+        await api.post(`/admin/orders/${orderNumber}/status/`, { status });
+    },
+
+    updateReturnRequest: async (orderNumber: string, update: ReturnRequestUpdate) => {
+        const { data } = await api.patch<ReturnRequest>(`/admin/orders/${orderNumber}/return/`, update);
+        return data;
+    },
+
+    updatePaymentStatus: async (orderNumber: string, paymentStatus: string) => {
+        await api.post(`/admin/orders/${orderNumber}/payment-status/`, { payment_status: paymentStatus });
+    },
+};
@@ -0,0 +1,75 @@
+/**
+ * Reviews Service
+ * Product reviews, helpful votes and moderation
+ */
+
+import api from '@/lib/api';
+import { unwrapList } from '@/lib/list';
+import type { ListResponse } from '@/types/api';
+import type {
+    AdminReview,
+    AdminReviewQuery,
+    Review,
+    ReviewEligibility,
+    ReviewPayload,
+    ReviewStatus,
+} from '@/types/product';
+
+// Photos make the request multipart
+const toFormData = (payload: Partial<ReviewPayload>) => {
+    const formData = new FormData();
+    if (payload.rating !== undefined) formData.append('rating', String(payload.rating));
+    if (payload.comment !== undefined) formData.append('comment', payload.comment);
+    payload.images?.forEach(file => formData.append('images', file));
+    payload.remove_image_ids?.forEach(id => formData.append('remove_image_ids', String(id)));
+    return formData;
+};
+
+const multipart = { headers: { 'Content-Type': 'multipart/form-data' } };
+
+export const reviewsService = {
+    getReviews: async (slug: string) => {
+        const { data } = await api.get<ListResponse<Review>>(`/social/products/${slug}/reviews/`);
+        return unwrapList(data);
+    },
+
+    getEligibility: async (slug: string) => {
+        const { data } = await api.get<ReviewEligibility>(`/social/products/${slug}/reviews/eligibility/`);
+        return data;
+    },
+
+    createReview: async (slug: string, payload: ReviewPayload) => {
+        const { data } = await api.post<Review>(`/social/products/${slug}/reviews/`, toFormData(payload), multipart);
+        return data;
+    },
+
+    updateReview: async (id: number, payload: Partial<ReviewPayload>) => {
+        const { data } = await api.patch<Review>(`/social/reviews/${id}/`, toFormData(payload), multipart);
+        return data;
+    },
+
+    deleteReview: async (id: number) => {
+        await api.delete(`/social/reviews/${id}/`);
+    },
+
+    // Toggles the current user's vote
+    toggleHelpful: async (id: number) => {
+        const { data } = await api.post<{ helpful_count: number; has_voted_helpful: boolean }>(`/social/reviews/${id}/helpful/`);
+        return data;
+    },
+
+    // --- Admin ---
+
+    getAdminReviews: async (query: AdminReviewQuery = {}) => {
+        const { data } = await api.get<ListResponse<AdminReview>>('/social/admin/reviews/', { params: query });
+        return data;
+    },
+
+    moderateReview: async (id: number, status: ReviewStatus, moderationNote?: string) => {
+        const { data } = await api.patch<AdminReview>(`/social/admin/reviews/${id}/`, {
+            status,
+            ...(moderationNote !== undefined && { moderation_note: moderationNote }),
+        });
+        return data;
+    },
+};
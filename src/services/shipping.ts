@@ -0,0 +1,34 @@
+/**
+ * Shipping Service
+ * GHN address master data, fee calculation and tracking, proxied by the backend
+ */
+
+import api from '@/lib/api';
+import type { GHNDistrict, GHNProvince, GHNTracking, GHNWard, ShippingFeeRequest, ShippingFeeResponse } from '@/types/shipping';
+
+export const shippingService = {
+    getProvinces: async () => {
+        const { data } = await api.get<GHNProvince[]>('/shipping/ghn/provinces/');
+        return data || [];
+    },
+
+    getDistricts: async (provinceId: number) => {
+        const { data } = await api.get<GHNDistrict[]>(`/shipping/ghn/districts/${provinceId}/`);
+        return data || [];
+    },
+
+    getWards: async (districtId: number) => {
+        const { data } = await api.get<GHNWard[]>(`/shipping/ghn/wards/${districtId}/`);
+        return data || [];
+    },
+
+    calculateFee: async (payload: ShippingFeeRequest) => {
+        const { data } = await api.post<ShippingFeeResponse>('/shipping/ghn/calculate-fee/', payload);
+        return data;
+    },
+
+    getTracking: async (orderCode: string) => {
+        const { data } = await api.get<GHNTracking>(`/shipping/ghn/tracking/${encodeURIComponent(orderCode)}/`);
+        return data;
+    },
+};
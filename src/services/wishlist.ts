@@ -0,0 +1,30 @@
+/**
+ * Wishlist Service
+ * Saved products for logged-in users (guests keep theirs in the store only)
+ */
+
+import api from '@/lib/api';
+import { unwrapList } from '@/lib/list';
+import type { ListResponse } from '@/types/api';
+import type { WishlistItem } from '@/types/wishlist';
+
+export const wishlistService = {
+    getWishlist: async () => {
+        const { data } = await api.get<ListResponse<WishlistItem>>('/wishlist/');
+        return unwrapList(data);
+    },
+
+    // Merges the guest list into the account and returns the combined list
+    sync: async (productIds: string[]) => {
+        const { data } = await api.post<ListResponse<WishlistItem>>('/wishlist/sync/', { product_ids: productIds });
+        return unwrapList(data);
+    },
+
+    add: async (productId: string) => {
+        await api.post('/wishlist/', { product_id: productId });
+    },
+
+    remove: async (productId: string) => {
+        await api.delete(`/wishlist/${productId}/`);
+    },
+};
@@ -5,37 +5,10 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import Cookies from 'js-cookie';
-import api from '@/lib/api';
-
-export interface User {
-    id: string;
-    email: string;
-    username: string;
-    first_name: string;
-    last_name: string;
-    phone: string;
-    avatar: string | null;
-    address: string;
-    city: string;
-    district: string;
-    ward: string;
-    // GHN Address IDs for sync
-    province_id: number | null;
-    district_id: number | null;
-    ward_code: string | null;
-    full_name: string;
-    full_address: string;
-    date_joined: string;
-    is_email_verified: boolean;
-    is_staff: boolean;
-    is_2fa_enabled: boolean;
-}
+import { authService } from '@/services/auth';
+import type { AuthTokens, LoginResponse, RegisterData, SocialAccount, User } from '@/types/auth';
 
-export interface SocialAccount {
-    provider: string;
-    uid: string;
-    created_at: string;
-}
+export type { User, SocialAccount } from '@/types/auth';
 
 interface AuthState {
     user: User | null;
@@ -46,8 +19,7 @@ interface AuthState {
     requires2FA: boolean;
     tempToken: string | null;
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    login: (email: string, password: string) => Promise<any>;
+    login: (email: string, password: string) => Promise<LoginResponse>;
     verify2FA: (tempToken: string, code: string, isBackup?: boolean) => Promise<void>;
     socialLogin: (provider: string, code: string, state?: string) => Promise<void>;
     send2FAEmail: (tempToken: string) => Promise<void>;
@@ -61,15 +33,12 @@ interface AuthState {
     setHasHydrated: (hydrated: boolean) => void;
 }
 
-interface RegisterData {
-    email: string;
-    username: string;
-    password: string;
-    password2: string;
-    first_name?: string;
-    last_name?: string;
-    phone?: string;
-}
+// Lets other stores react to a completed login (e.g. cart-store merges the guest cart)
+const notifyLogin = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('auth:login'));
+    }
+};
 
 export const useAuthStore = create<AuthState>()(
     persist(
@@ -89,20 +58,21 @@ export const useAuthStore = create<AuthState>()(
             login: async (email: string, password: string) => {
                 set({ isLoading: true });
                 try {
-                    const response = await api.post('/auth/login/', { email, password });
+                    const data = await authService.login(email, password);
 
-                    if (response.data.requires_2fa) {
-                        return response.data;
+                    if (data.requires_2fa) {
+                        return data;
                     }
 
-                    const { access, refresh } = response.data;
+                    const { access, refresh } = data as AuthTokens;
                     const isProduction = process.env.NODE_ENV === 'production';
                     Cookies.set('access_token', access, { expires: 1 / 24, sameSite: 'Strict', secure: isProduction, path: '/' }); // 1 hour
                     Cookies.set('refresh_token', refresh, { expires: 7, sameSite: 'Strict', secure: isProduction, path: '/' }); // 7 days
 
                     await get().fetchProfile();
                     set({ isAuthenticated: true });
-                    return response.data;
+                    notifyLogin();
+                    return data;
                 } finally {
                     set({ isLoading: false });
                 }
@@ -111,18 +81,14 @@ export const useAuthStore = create<AuthState>()(
             verify2FA: async (tempToken: string, code: string, isBackup: boolean = false) => {
                 set({ isLoading: true });
                 try {
-                    const payload = isBackup
-                        ? { temp_token: tempToken, backup_code: code }
-                        : { temp_token: tempToken, code };
-
-                    const response = await api.post('/auth/login/2fa/', payload);
-                    const { access, refresh } = response.data;
+                    const { access, refresh } = await authService.verify2FA(tempToken, code, isBackup);
                     const isProduction = process.env.NODE_ENV === 'production';
                     Cookies.set('access_token', access, { expires: 1 / 24, sameSite: 'Strict', secure: isProduction, path: '/' });
                     Cookies.set('refresh_token', refresh, { expires: 7, sameSite: 'Strict', secure: isProduction, path: '/' });
 
                     await get().fetchProfile();
                     set({ isAuthenticated: true });
+                    notifyLogin();
                 } finally {
                     set({ isLoading: false });
                 }
@@ -131,24 +97,25 @@ export const useAuthStore = create<AuthState>()(
             socialLogin: async (provider: string, code: string, state?: string) => {
                 set({ isLoading: true });
                 try {
-                    const response = await api.post(`/auth/social/${provider}/callback/`, { code, state });
+                    const data = await authService.socialCallback(provider, code, state);
 
-                    if (response.data.requires_2fa) {
+                    if (data.requires_2fa) {
                         set({
                             requires2FA: true,
-                            tempToken: response.data.temp_token,
+                            tempToken: data.temp_token ?? null,
                             isLoading: false
                         });
                         return;
                     }
 
-                    const { access, refresh } = response.data;
+                    const { access, refresh } = data as AuthTokens;
                     const isProduction = process.env.NODE_ENV === 'production';
                     Cookies.set('access_token', access, { expires: 1 / 24, sameSite: 'Strict', secure: isProduction, path: '/' });
                     Cookies.set('refresh_token', refresh, { expires: 7, sameSite: 'Strict', secure: isProduction, path: '/' });
 
                     await get().fetchProfile();
                     set({ isAuthenticated: true });
+                    notifyLogin();
                 } finally {
                     set({ isLoading: false });
                 }
@@ -157,7 +124,7 @@ export const useAuthStore = create<AuthState>()(
             send2FAEmail: async (tempToken: string) => {
                 set({ isLoading: true });
                 try {
-                    await api.post('/auth/2fa/send-email/', { temp_token: tempToken });
+                    await authService.send2FAEmail(tempToken);
                 } finally {
                     set({ isLoading: false });
                 }
@@ -166,13 +133,13 @@ export const useAuthStore = create<AuthState>()(
             register: async (data: RegisterData) => {
                 set({ isLoading: true });
                 try {
-                    const response = await api.post('/auth/register/', data);
-                    const { user, access, refresh } = response.data;
+                    const { user, access, refresh } = await authService.register(data);
                     const isProduction = process.env.NODE_ENV === 'production';
                     Cookies.set('access_token', access, { expires: 1 / 24, sameSite: 'Strict', secure: isProduction, path: '/' });
                     Cookies.set('refresh_token', refresh, { expires: 7, sameSite: 'Strict', secure: isProduction, path: '/' });
 
                     set({ user, isAuthenticated: true });
+                    notifyLogin();
                 } finally {
                     set({ isLoading: false });
                 }
@@ -180,8 +147,8 @@ export const useAuthStore = create<AuthState>()(
 
             fetchSocialAccounts: async () => {
                 try {
-                    const response = await api.get('/auth/social/accounts/');
-                    set({ socialAccounts: response.data });
+                    const socialAccounts = await authService.getSocialAccounts();
+                    set({ socialAccounts });
                 } catch (error) {
                     console.error("Failed to fetch social accounts", error);
                 }
@@ -190,7 +157,7 @@ export const useAuthStore = create<AuthState>()(
             disconnectSocialAccount: async (provider: string) => {
                 set({ isLoading: true });
                 try {
-                    await api.post('/auth/social/disconnect/', { provider });
+                    await authService.disconnectSocialAccount(provider);
                     await get().fetchSocialAccounts();
                 } finally {
                     set({ isLoading: false });
@@ -201,7 +168,7 @@ export const useAuthStore = create<AuthState>()(
                 try {
                     const refreshToken = Cookies.get('refresh_token');
                     if (refreshToken) {
-                        await api.post('/auth/logout/', { refresh: refreshToken });
+                        await authService.logout(refreshToken);
                     }
                 } catch (error) {
                     // Ignore errors on logout
@@ -214,15 +181,15 @@ export const useAuthStore = create<AuthState>()(
 
             fetchProfile: async () => {
                 try {
-                    const response = await api.get('/auth/profile/');
-                    set({ user: response.data, isAuthenticated: true });
+                    const user = await authService.getProfile();
+                    set({ user, isAuthenticated: true });
                 } catch (error) {
                     set({ user: null, isAuthenticated: false });
                 }
             },
 
             updateProfile: async (data: Partial<User>) => {
-                await api.patch('/auth/profile/', data);
+                await authService.updateProfile(data);
                 await get().fetchProfile();
             },
 
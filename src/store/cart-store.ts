@@ -1,62 +1,111 @@
 /**
  * Cart Store using Zustand
  * Advanced Implementation: Debounced updates, Optimistic UI, Robust Recalculations
+ * Guests get a local cart that is merged into the server cart on login.
  */
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import api from '@/lib/api';
+import { getApiError } from '@/lib/api';
+import { cartService } from '@/services/cart';
+import type { AppliedCoupon, Cart, CartItem, CartProduct, CartVariant } from '@/types/cart';
+import type { ProductDetail } from '@/types/product';
 import { useAuthStore } from './auth-store';
 
 // --- TYPES ---
 
-export interface CartItem {
-    id: number;
-    product: {
-        id: string; // Product.id is now UUID string
-        name: string;
-        slug: string;
-        price: number;
-        sale_price: number | null;
-        current_price: number;
-        primary_image: string | null;
-        stock: number;
-    };
-    quantity: number;
-    subtotal: number;
-}
+export type { CartProduct, CartVariant, CartItem, Cart, AppliedCoupon } from '@/types/cart';
+
+// Product detail pages pass the full product so guest carts can snapshot the chosen variant
+type AddableProduct = CartProduct & Partial<Pick<ProductDetail, 'variants' | 'images'>>;
 
-export interface Cart {
-    id: number;
-    items: CartItem[];
-    total_items: number;
-    subtotal: number;
+export interface CartMergeResult {
+    merged: number;
+    adjusted: string[]; // product names clamped to available stock
+    failed: string[]; // product names the server refused
 }
 
 interface CartState {
     cart: Cart | null;
+    isGuestCart: boolean;
+    isMerging: boolean;
+    coupon: AppliedCoupon | null;
+    isApplyingCoupon: boolean;
     isLoading: boolean;
-    updatingItems: Record<string, boolean>; // productId -> boolean
+    updatingItems: Record<string, boolean>; // line key -> boolean
     debounceTimers: Record<string, NodeJS.Timeout>;
     error: string | null;
 
     fetchCart: (silent?: boolean) => Promise<void>;
-    addToCart: (productId: string, quantity?: number) => Promise<void>;
-    updateQuantity: (productId: string, quantity: number) => Promise<void>;
-    removeFromCart: (productId: string) => Promise<void>;
+    addToCart: (productId: string, quantity?: number, product?: AddableProduct, variantId?: number | null) => Promise<void>;
+    updateQuantity: (lineKey: string, quantity: number) => Promise<void>;
+    removeFromCart: (lineKey: string) => Promise<void>;
     clearCart: () => Promise<void>;
+    applyCoupon: (code: string) => Promise<AppliedCoupon>;
+    removeCoupon: () => void;
+    mergeGuestCart: () => Promise<CartMergeResult | null>;
     reset: () => void;
 }
 
 // --- MODULE STATE ---
 
+const GUEST_CART_ID = 0;
 
 // --- HELPERS ---
 
+const isLoggedIn = () => useAuthStore.getState().isAuthenticated;
+
+const emptyGuestCart = (): Cart => ({ id: GUEST_CART_ID, items: [], total_items: 0, subtotal: 0 });
+
+// Local line ids only need to be unique within the guest cart
+const nextGuestItemId = (cart: Cart) => cart.items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+
+const toCartProduct = (product: CartProduct): CartProduct => ({
+    id: product.id,
+    name: product.name,
+    slug: product.slug,
+    price: product.price,
+    sale_price: product.sale_price,
+    current_price: product.current_price,
+    primary_image: product.primary_image,
+    stock: product.stock,
+});
+
+const toCartVariant = (product: AddableProduct, variantId: number): CartVariant | null => {
+    const variant = product.variants?.find(v => v.id === variantId);
+    if (!variant) return null;
+
+    const image = product.images?.find(img => variant.image_ids.includes(img.id));
+    return {
+        id: variant.id,
+        sku: variant.sku,
+        color: variant.color,
+        storage: variant.storage,
+        price: variant.price,
+        sale_price: variant.sale_price,
+        current_price: variant.current_price,
+        stock: variant.stock,
+        image: image?.image ?? null,
+    };
+};
+
+/**
+ * Identifies a cart line: the same product in two variants is two lines.
+ */
+export const cartLineKey = (productId: string, variantId?: number | null) =>
+    variantId != null ? `${productId}:${variantId}` : productId;
+
+export const getLineKey = (item: CartItem) => cartLineKey(item.product.id, item.variant?.id);
+
+// Variant price and stock win over the product's own
+export const getItemPrice = (item: CartItem) => item.variant?.current_price ?? item.product.current_price;
+
+export const getItemStock = (item: CartItem) => item.variant?.stock ?? item.product.stock;
+
 const recalculateCart = (cart: Cart): Cart => {
     const items = cart.items.map(item => ({
         ...item,
-        subtotal: item.product.current_price * item.quantity
+        subtotal: getItemPrice(item) * item.quantity
     }));
 
     const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
@@ -70,27 +119,59 @@ const recalculateCart = (cart: Cart): Cart => {
     };
 };
 
+/**
+ * Discount a coupon gives on the given subtotal.
+ * Returns 0 when the order no longer meets the coupon's minimum value.
+ */
+export const calculateDiscount = (coupon: AppliedCoupon | null, subtotal: number): number => {
+    if (!coupon || subtotal < coupon.min_order_value) return 0;
+
+    let discount = coupon.discount_type === 'percentage'
+        ? Math.round(subtotal * coupon.discount_value / 100)
+        : coupon.discount_value;
+
+    // Older persisted coupons may not have the field at all
+    if (coupon.max_discount != null) {
+        discount = Math.min(discount, coupon.max_discount);
+    }
+
+    return Math.min(discount, subtotal);
+};
+
 export const useCartStore = create<CartState>()(
     persist(
         (set, get) => ({
             cart: null,
+            isGuestCart: false,
+            isMerging: false,
+            coupon: null,
+            isApplyingCoupon: false,
             isLoading: false,
             updatingItems: {}, // Visual loading state (spinners)
             debounceTimers: {}, // Internal: Timer IDs for debouncing
             error: null,
 
             fetchCart: async (silent = false) => {
-                if (!useAuthStore.getState().isAuthenticated) {
-                    set({ cart: null, isLoading: false });
+                if (!isLoggedIn()) {
+                    // Guest cart lives only in local storage
+                    set((state) => ({ cart: state.isGuestCart ? state.cart : null, isLoading: false }));
+                    return;
+                }
+
+                // A login merge is in flight and will sync the cart itself
+                if (get().isMerging) return;
+
+                // Guest items left over from a failed merge are not on the server yet
+                if (get().isGuestCart) {
+                    await get().mergeGuestCart();
                     return;
                 }
 
                 if (!silent) set({ isLoading: true, error: null });
                 try {
-                    const response = await api.get('/cart/');
+                    const serverCart = await cartService.getCart();
 
                     set((state) => {
-                        const serverCart = response.data;
                         const currentCart = state.cart;
 
                         // Smart Merge: If user is actively updating items (debouncing), 
@@ -98,13 +179,14 @@ export const useCartStore = create<CartState>()(
                         const debouncingIds = Object.keys(state.debounceTimers || {});
 
                         if (!currentCart || debouncingIds.length === 0) {
-                            return { cart: serverCart };
+                            return { cart: serverCart, isGuestCart: false };
                         }
 
                         const mergedItems = serverCart.items.map((serverItem: CartItem) => {
                             // If this item is active, keep local version
-                            if (debouncingIds.includes(serverItem.product.id)) {
-                                const localItem = currentCart.items.find((i: CartItem) => i.product.id === serverItem.product.id);
+                            const lineKey = getLineKey(serverItem);
+                            if (debouncingIds.includes(lineKey)) {
+                                const localItem = currentCart.items.find((i: CartItem) => getLineKey(i) === lineKey);
                                 return localItem || serverItem;
                             }
                             return serverItem;
@@ -112,23 +194,55 @@ export const useCartStore = create<CartState>()(
 
                         // Recalculate totals since we might have mixed local/server items
                         const mergedCart = { ...serverCart, items: mergedItems };
-                        return { cart: recalculateCart(mergedCart) };
+                        return { cart: recalculateCart(mergedCart), isGuestCart: false };
                     });
 
-                } catch (error: any) {
-                    set({ error: error.response?.data?.message || 'Failed to fetch cart' });
+                } catch (error) {
+                    set({ error: getApiError(error, 'Failed to fetch cart').message });
                 } finally {
                     if (!silent) set({ isLoading: false });
                 }
             },
 
-            addToCart: async (productId: string, quantity: number = 1) => {
+            addToCart: async (productId: string, quantity: number = 1, product?: AddableProduct, variantId?: number | null) => {
+                if (!isLoggedIn()) {
+                    const currentCart = get().cart;
+                    const cart = get().isGuestCart && currentCart ? currentCart : emptyGuestCart();
+                    const lineKey = cartLineKey(productId, variantId);
+                    const existing = cart.items.find(i => getLineKey(i) === lineKey);
+                    const snapshot = existing?.product || (product && toCartProduct(product));
+                    const variantSnapshot = variantId != null
+                        ? existing?.variant || (product && toCartVariant(product, variantId)) || null
+                        : null;
+
+                    if (!snapshot || (variantId != null && !variantSnapshot)) {
+                        const msg = 'Failed to add to cart';
+                        set({ error: msg });
+                        throw new Error(msg);
+                    }
+
+                    const stock = variantSnapshot?.stock ?? snapshot.stock;
+                    const newQuantity = (existing?.quantity || 0) + quantity;
+                    if (newQuantity > stock) {
+                        const msg = `Only ${stock} items available`;
+                        set({ error: msg });
+                        throw new Error(msg);
+                    }
+
+                    const items = existing
+                        ? cart.items.map(i => getLineKey(i) === lineKey ? { ...i, quantity: newQuantity } : i)
+                        : [...cart.items, { id: nextGuestItemId(cart), product: snapshot, variant: variantSnapshot, quantity, subtotal: 0 }];
+
+                    set({ cart: recalculateCart({ ...cart, items }), isGuestCart: true, error: null });
+                    return;
+                }
+
                 set({ isLoading: true, error: null });
                 try {
-                    const response = await api.post('/cart/add/', { product_id: productId, quantity });
-                    set({ cart: response.data.cart });
-                } catch (error: any) {
-                    const msg = error.response?.data?.error || 'Failed to add to cart';
+                    const cart = await cartService.addItem(productId, quantity, variantId);
+                    set({ cart, isGuestCart: false });
+                } catch (error) {
+                    const msg = getApiError(error, 'Failed to add to cart').message;
                     set({ error: msg });
                     throw error;
                 } finally {
@@ -136,7 +250,7 @@ export const useCartStore = create<CartState>()(
                 }
             },
 
-            updateQuantity: async (productId: string, quantity: number) => {
+            updateQuantity: async (lineKey: string, quantity: number) => {
                 const prevCart = get().cart;
                 if (!prevCart) return;
 
@@ -144,9 +258,9 @@ export const useCartStore = create<CartState>()(
                 if (quantity < 1) return;
 
                 // 2. Validation: Check Stock
-                const item = prevCart.items.find(i => i.product.id === productId);
-                if (item && quantity > item.product.stock) {
-                    set({ error: `Only ${item.product.stock} items available` });
+                const item = prevCart.items.find(i => getLineKey(i) === lineKey);
+                if (item && quantity > getItemStock(item)) {
+                    set({ error: `Only ${getItemStock(item)} items available` });
                     return;
                 }
 
@@ -154,23 +268,29 @@ export const useCartStore = create<CartState>()(
                 let optimisticCart = {
                     ...prevCart,
                     items: prevCart.items.map(i =>
-                        i.product.id === productId ? { ...i, quantity } : i
+                        getLineKey(i) === lineKey ? { ...i, quantity } : i
                     )
                 };
                 optimisticCart = recalculateCart(optimisticCart);
 
+                // Guest cart has no server copy to sync
+                if (get().isGuestCart) {
+                    set({ cart: optimisticCart, error: null });
+                    return;
+                }
+
                 // Set optimistic state immediately
                 set({
                     cart: optimisticCart,
                     error: null,
-                    updatingItems: { ...get().updatingItems, [productId]: true } // Show spinner
+                    updatingItems: { ...get().updatingItems, [lineKey]: true } // Show spinner
                 });
 
                 // 4. Debounce API Call
-                // Clear existing timer for this product
+                // Clear existing timer for this line
                 const existingTimers = get().debounceTimers;
-                if (existingTimers[productId]) {
-                    clearTimeout(existingTimers[productId]);
+                if (existingTimers[lineKey]) {
+                    clearTimeout(existingTimers[lineKey]);
                 }
 
                 // Create new timer
@@ -178,82 +298,179 @@ export const useCartStore = create<CartState>()(
                     try {
                         const cartItemId = item ? item.id : null;
                         if (cartItemId) {
-                            await api.patch(`/cart/items/${cartItemId}/`, { quantity });
+                            await cartService.updateItem(cartItemId, quantity);
                             // Silent sync to ensure data integrity
                             await get().fetchCart(true);
                         }
-                    } catch (error: any) {
+                    } catch (error) {
                         // Revert on serious error
-                        set({ cart: prevCart, error: error.response?.data?.error || 'Failed to update' });
+                        set({ cart: prevCart, error: getApiError(error, 'Failed to update').message });
                     } finally {
                         // Clear loading state
-                        const { [productId]: _, ...rest } = get().updatingItems;
+                        const { [lineKey]: _, ...rest } = get().updatingItems;
                         set({ updatingItems: rest });
 
                         // Cleanup timer from state
                         const currentTimers = get().debounceTimers;
-                        const { [productId]: __, ...restTimers } = currentTimers;
+                        const { [lineKey]: __, ...restTimers } = currentTimers;
                         set({ debounceTimers: restTimers });
                     }
                 }, 600); // 600ms delay
 
                 // Save timer ID
-                set({ debounceTimers: { ...existingTimers, [productId]: timerId } });
+                set({ debounceTimers: { ...existingTimers, [lineKey]: timerId } });
             },
 
-            removeFromCart: async (productId: string) => {
+            removeFromCart: async (lineKey: string) => {
                 const prevCart = get().cart;
                 if (!prevCart) return;
 
-                const item = prevCart.items.find(i => i.product.id === productId);
+                const item = prevCart.items.find(i => getLineKey(i) === lineKey);
                 if (!item) return;
 
                 // 1. Optimistic Update
                 let optimisticCart = {
                     ...prevCart,
-                    items: prevCart.items.filter(i => i.product.id !== productId),
+                    items: prevCart.items.filter(i => getLineKey(i) !== lineKey),
                 };
                 optimisticCart = recalculateCart(optimisticCart);
 
+                if (get().isGuestCart) {
+                    set({ cart: optimisticCart, error: null });
+                    return;
+                }
+
                 set({
                     cart: optimisticCart,
-                    updatingItems: { ...get().updatingItems, [productId]: true },
+                    updatingItems: { ...get().updatingItems, [lineKey]: true },
                     error: null
                 });
 
 
                 try {
-                    await api.delete(`/cart/items/${item.id}/`);
+                    await cartService.removeItem(item.id);
                     // Sync
                     await get().fetchCart(true);
-                } catch (error: any) {
-                    set({ cart: prevCart, error: error.response?.data?.error || 'Failed to remove' });
+                } catch (error) {
+                    set({ cart: prevCart, error: getApiError(error, 'Failed to remove').message });
                 } finally {
-                    const { [productId]: _, ...rest } = get().updatingItems;
+                    const { [lineKey]: _, ...rest } = get().updatingItems;
                     set({ updatingItems: rest });
                 }
             },
 
             clearCart: async () => {
                 const prevCart = get().cart;
+                const prevCoupon = get().coupon;
                 // Optimistic Clear
-                set({ cart: null, isLoading: false, error: null });
+                set({ cart: null, coupon: null, isLoading: false, error: null });
+
+                if (get().isGuestCart) {
+                    set({ isGuestCart: false });
+                    return;
+                }
 
                 try {
-                    await api.post('/cart/clear/');
-                } catch (error: any) {
+                    await cartService.clear();
+                } catch (error) {
                     // Revert on error
-                    set({ cart: prevCart, error: error.response?.data?.error || 'Failed to clear cart' });
+                    set({ cart: prevCart, coupon: prevCoupon, error: getApiError(error, 'Failed to clear cart').message });
+                }
+            },
+
+            applyCoupon: async (code: string) => {
+                const normalizedCode = code.trim().toUpperCase();
+                if (!normalizedCode) {
+                    throw new Error('Please enter a promo code');
+                }
+
+                set({ isApplyingCoupon: true, error: null });
+                try {
+                    const data = await cartService.validateCoupon(normalizedCode, get().cart?.subtotal || 0);
+                    const coupon: AppliedCoupon = {
+                        ...data,
+                        discount_value: Number(data.discount_value),
+                        max_discount: data.max_discount != null ? Number(data.max_discount) : null,
+                        min_order_value: Number(data.min_order_value || 0),
+                    };
+                    set({ coupon });
+                    return coupon;
+                } catch (error) {
+                    const msg = getApiError(error, 'Invalid promo code').message;
+                    set({ coupon: null, error: msg });
+                    throw new Error(msg);
+                } finally {
+                    set({ isApplyingCoupon: false });
+                }
+            },
+
+            removeCoupon: () => {
+                set({ coupon: null });
+            },
+
+            mergeGuestCart: async () => {
+                const guestCart = get().cart;
+                if (!isLoggedIn() || !get().isGuestCart || !guestCart || get().isMerging) return null;
+
+                set({ isMerging: true, isLoading: true, error: null });
+                const result: CartMergeResult = { merged: 0, adjusted: [], failed: [] };
+
+                try {
+                    const serverCart = await cartService.getCart();
+                    const serverItems: CartItem[] = serverCart.items || [];
+
+                    // Conflict rules: quantities add up, then are clamped to the stock the server reports
+                    for (const guestItem of guestCart.items) {
+                        const serverItem = serverItems.find(i => getLineKey(i) === getLineKey(guestItem));
+                        const stock = getItemStock(serverItem ?? guestItem);
+                        const existingQuantity = serverItem?.quantity || 0;
+                        const desiredQuantity = existingQuantity + guestItem.quantity;
+                        const finalQuantity = Math.min(desiredQuantity, stock);
+
+                        if (finalQuantity < desiredQuantity) {
+                            result.adjusted.push(guestItem.product.name);
+                        }
+                        if (finalQuantity <= existingQuantity) continue;
+
+                        try {
+                            if (serverItem) {
+                                await cartService.updateItem(serverItem.id, finalQuantity);
+                            } else {
+                                await cartService.addItem(guestItem.product.id, finalQuantity, guestItem.variant?.id);
+                            }
+                            result.merged += 1;
+                        } catch {
+                            result.failed.push(guestItem.product.name);
+                        }
+                    }
+
+                    set({ isGuestCart: false, isMerging: false });
+                    await get().fetchCart(true);
+
+                    const problems = [
+                        ...(result.adjusted.length > 0 ? [`Adjusted to match available stock: ${result.adjusted.join(', ')}`] : []),
+                        ...(result.failed.length > 0 ? [`Could not be added to your cart: ${result.failed.join(', ')}`] : []),
+                    ];
+                    if (problems.length > 0) {
+                        set({ error: problems.join('. ') });
+                    }
+                    return result;
+                } catch (error) {
+                    // Keep the guest cart so the next fetchCart retries the merge
+                    set({ error: getApiError(error, 'Failed to merge cart').message });
+                    return null;
+                } finally {
+                    set({ isMerging: false, isLoading: false });
                 }
             },
 
             reset: () => {
-                set({ cart: null, error: null, isLoading: false });
+                set({ cart: null, isGuestCart: false, coupon: null, error: null, isLoading: false });
             },
         }),
         {
             name: 'cart-storage',
-            partialize: (state) => ({ cart: state.cart }),
+            partialize: (state) => ({ cart: state.cart, isGuestCart: state.isGuestCart, coupon: state.coupon }),
         }
     )
 );
@@ -265,3 +482,10 @@ useAuthStore.subscribe((state, prevState) => {
         useCartStore.getState().reset();
     }
 });
+
+// Merge the guest cart once a login completes (dispatched by auth-store)
+if (typeof window !== 'undefined') {
+    window.addEventListener('auth:login', () => {
+        useCartStore.getState().mergeGuestCart();
+    });
+}
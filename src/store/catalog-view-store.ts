@@ -0,0 +1,40 @@
+/**
+ * Collection Page Preferences Store using Zustand
+ * Remembers how the visitor likes to browse the product listing.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export type ProductViewMode = 'grid' | 'list';
+
+interface CatalogViewState {
+    viewMode: ProductViewMode;
+    infiniteScroll: boolean;
+
+    setViewMode: (viewMode: ProductViewMode) => void;
+    setInfiniteScroll: (infiniteScroll: boolean) => void;
+}
+
+export const useCatalogViewStore = create<CatalogViewState>()(
+    persist(
+        (set) => ({
+            viewMode: 'grid',
+            infiniteScroll: false,
+
+            setViewMode: (viewMode: ProductViewMode) => {
+                set({ viewMode });
+            },
+
+            setInfiniteScroll: (infiniteScroll: boolean) => {
+                set({ infiniteScroll });
+            },
+        }),
+        {
+            name: 'catalog-view-storage',
+            // The server always renders the defaults; the page rehydrates after mount
+            // so the first client render matches it
+            skipHydration: true,
+        }
+    )
+);
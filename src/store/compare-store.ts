@@ -0,0 +1,76 @@
+/**
+ * Product Comparison Store using Zustand
+ * Kept on the device only; specs are fetched fresh on the compare page.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export const MAX_COMPARE_ITEMS = 4;
+
+// --- TYPES ---
+
+export interface CompareProduct {
+    id: string;
+    name: string;
+    slug: string;
+    current_price: number;
+    primary_image: string | null;
+}
+
+export type CompareToggleResult = 'added' | 'removed' | 'full';
+
+interface CompareState {
+    items: CompareProduct[];
+
+    isInCompare: (productId: string) => boolean;
+    toggleCompare: (product: CompareProduct) => CompareToggleResult;
+    removeFromCompare: (productId: string) => void;
+    clearCompare: () => void;
+}
+
+// --- HELPERS ---
+
+const toCompareProduct = (product: CompareProduct): CompareProduct => ({
+    id: product.id,
+    name: product.name,
+    slug: product.slug,
+    current_price: product.current_price,
+    primary_image: product.primary_image,
+});
+
+export const useCompareStore = create<CompareState>()(
+    persist(
+        (set, get) => ({
+            items: [],
+
+            isInCompare: (productId: string) => {
+                return get().items.some(item => item.id === productId);
+            },
+
+            toggleCompare: (product: CompareProduct) => {
+                if (get().isInCompare(product.id)) {
+                    get().removeFromCompare(product.id);
+                    return 'removed';
+                }
+                if (get().items.length >= MAX_COMPARE_ITEMS) return 'full';
+
+                set(state => ({ items: [...state.items, toCompareProduct(product)] }));
+                return 'added';
+            },
+
+            removeFromCompare: (productId: string) => {
+                set(state => ({ items: state.items.filter(item => item.id !== productId) }));
+            },
+
+            clearCompare: () => {
+                set({ items: [] });
+            },
+        }),
+        {
+            name: 'compare-storage',
+            // Rehydrated by the compare tray after mount so server and client markup match
+            skipHydration: true,
+        }
+    )
+);
@@ -0,0 +1,63 @@
+/**
+ * Recently Viewed Products Store using Zustand
+ * Kept on the device only; shown as a rail on the product page.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Product } from '@/types/product';
+
+const MAX_RECENTLY_VIEWED = 12;
+
+interface RecentlyViewedState {
+    items: Product[];
+
+    addRecentlyViewed: (product: Product) => void;
+    clearRecentlyViewed: () => void;
+}
+
+// --- HELPERS ---
+
+// Keep the list-card fields only; details like the description would bloat localStorage
+const toListProduct = (product: Product): Product => ({
+    id: product.id,
+    name: product.name,
+    slug: product.slug,
+    price: product.price,
+    sale_price: product.sale_price,
+    current_price: product.current_price,
+    discount_percent: product.discount_percent,
+    primary_image: product.primary_image,
+    category: product.category,
+    brand: product.brand,
+    stock: product.stock,
+    is_in_stock: product.is_in_stock,
+    average_rating: product.average_rating,
+    review_count: product.review_count,
+    rating: product.rating,
+    has_variants: product.has_variants,
+});
+
+export const useRecentlyViewedStore = create<RecentlyViewedState>()(
+    persist(
+        (set) => ({
+            items: [],
+
+            addRecentlyViewed: (product: Product) => {
+                // Newest first; viewing a product again moves it to the front with fresh prices
+                set(state => ({
+                    items: [toListProduct(product), ...state.items.filter(item => item.id !== product.id)].slice(0, MAX_RECENTLY_VIEWED),
+                }));
+            },
+
+            clearRecentlyViewed: () => {
+                set({ items: [] });
+            },
+        }),
+        {
+            name: 'recently-viewed-storage',
+            // Rehydrated by RecentlyViewedTracker after mount so server and client markup match
+            skipHydration: true,
+        }
+    )
+);
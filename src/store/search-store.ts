@@ -0,0 +1,47 @@
+/**
+ * Recent Searches Store using Zustand
+ * Kept on the device only; shown in the search palette before the user types.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { normalizeSearchText } from '@/lib/search';
+
+const MAX_RECENT_SEARCHES = 6;
+
+interface SearchState {
+    recentSearches: string[];
+
+    addRecentSearch: (query: string) => void;
+    removeRecentSearch: (query: string) => void;
+    clearRecentSearches: () => void;
+}
+
+export const useSearchStore = create<SearchState>()(
+    persist(
+        (set) => ({
+            recentSearches: [],
+
+            addRecentSearch: (query: string) => {
+                const term = query.trim();
+                if (!term) return;
+                const key = normalizeSearchText(term);
+                // Newest first; "Điện thoại" and "dien thoai" count as the same search
+                set(state => ({
+                    recentSearches: [term, ...state.recentSearches.filter(q => normalizeSearchText(q) !== key)].slice(0, MAX_RECENT_SEARCHES),
+                }));
+            },
+
+            removeRecentSearch: (query: string) => {
+                set(state => ({ recentSearches: state.recentSearches.filter(q => q !== query) }));
+            },
+
+            clearRecentSearches: () => {
+                set({ recentSearches: [] });
+            },
+        }),
+        {
+            name: 'search-storage',
+        }
+    )
+);
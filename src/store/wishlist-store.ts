@@ -0,0 +1,164 @@
+/**
+ * Wishlist Store using Zustand
+ * Guests keep the list locally; logged-in users are synced with the account.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { getApiError } from '@/lib/api';
+import { wishlistService } from '@/services/wishlist';
+import type { WishlistItem, WishlistProduct } from '@/types/wishlist';
+import { useAuthStore } from './auth-store';
+import { useCartStore } from './cart-store';
+
+// --- TYPES ---
+
+interface WishlistState {
+    items: WishlistItem[];
+    isLoading: boolean;
+    error: string | null;
+
+    isInWishlist: (productId: string) => boolean;
+    fetchWishlist: () => Promise<void>;
+    syncWishlist: () => Promise<void>;
+    addToWishlist: (product: WishlistProduct) => Promise<void>;
+    removeFromWishlist: (productId: string) => Promise<void>;
+    toggleWishlist: (product: WishlistProduct) => Promise<boolean>;
+    moveToCart: (productId: string) => Promise<void>;
+    reset: () => void;
+}
+
+// --- HELPERS ---
+
+const toWishlistProduct = (product: WishlistProduct): WishlistProduct => ({
+    id: product.id,
+    name: product.name,
+    slug: product.slug,
+    price: product.price,
+    sale_price: product.sale_price,
+    current_price: product.current_price,
+    primary_image: product.primary_image,
+    stock: product.stock,
+    has_variants: product.has_variants,
+});
+
+const isLoggedIn = () => useAuthStore.getState().isAuthenticated;
+
+export const useWishlistStore = create<WishlistState>()(
+    persist(
+        (set, get) => ({
+            items: [],
+            isLoading: false,
+            error: null,
+
+            isInWishlist: (productId: string) => {
+                return get().items.some(item => item.product.id === productId);
+            },
+
+            fetchWishlist: async () => {
+                if (!isLoggedIn()) return;
+
+                set({ isLoading: true, error: null });
+                try {
+                    set({ items: await wishlistService.getWishlist() });
+                } catch (error) {
+                    set({ error: getApiError(error, 'Failed to fetch wishlist').message });
+                } finally {
+                    set({ isLoading: false });
+                }
+            },
+
+            syncWishlist: async () => {
+                if (!isLoggedIn()) return;
+
+                // Push items saved while browsing as a guest, then adopt the merged server list
+                const localIds = get().items.map(item => item.product.id);
+                set({ isLoading: true, error: null });
+                try {
+                    set({ items: await wishlistService.sync(localIds) });
+                } catch (error) {
+                    set({ error: getApiError(error, 'Failed to sync wishlist').message });
+                } finally {
+                    set({ isLoading: false });
+                }
+            },
+
+            addToWishlist: async (product: WishlistProduct) => {
+                if (get().isInWishlist(product.id)) return;
+
+                const prevItems = get().items;
+                // Optimistic Update
+                set({
+                    items: [{ product: toWishlistProduct(product), added_at: new Date().toISOString() }, ...prevItems],
+                    error: null,
+                });
+
+                if (!isLoggedIn()) return;
+
+                try {
+                    await wishlistService.add(product.id);
+                } catch (error) {
+                    const msg = getApiError(error, 'Failed to add to wishlist').message;
+                    set({ items: prevItems, error: msg });
+                    throw new Error(msg);
+                }
+            },
+
+            removeFromWishlist: async (productId: string) => {
+                const prevItems = get().items;
+                // Optimistic Update
+                set({
+                    items: prevItems.filter(item => item.product.id !== productId),
+                    error: null,
+                });
+
+                if (!isLoggedIn()) return;
+
+                try {
+                    await wishlistService.remove(productId);
+                } catch (error) {
+                    const msg = getApiError(error, 'Failed to remove from wishlist').message;
+                    set({ items: prevItems, error: msg });
+                    throw new Error(msg);
+                }
+            },
+
+            toggleWishlist: async (product: WishlistProduct) => {
+                if (get().isInWishlist(product.id)) {
+                    await get().removeFromWishlist(product.id);
+                    return false;
+                }
+                await get().addToWishlist(product);
+                return true;
+            },
+
+            moveToCart: async (productId: string) => {
+                const item = get().items.find(i => i.product.id === productId);
+                if (item?.product.has_variants) {
+                    throw new Error('Please choose an option on the product page');
+                }
+                // addToCart surfaces its own error (e.g. out of stock); keep the item saved in that case
+                await useCartStore.getState().addToCart(productId, 1, item?.product);
+                await get().removeFromWishlist(productId);
+            },
+
+            reset: () => {
+                set({ items: [], error: null, isLoading: false });
+            },
+        }),
+        {
+            name: 'wishlist-storage',
+            partialize: (state) => ({ items: state.items }),
+        }
+    )
+);
+
+// Subscribe to Auth changes: merge the guest list on login, clear it on logout
+useAuthStore.subscribe((state, prevState) => {
+    if (!prevState.isAuthenticated && state.isAuthenticated) {
+        useWishlistStore.getState().syncWishlist();
+    }
+    if (prevState.isAuthenticated && !state.isAuthenticated) {
+        useWishlistStore.getState().reset();
+    }
+});
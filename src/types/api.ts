@@ -0,0 +1,31 @@
+/**
+ * Shared API envelopes
+ */
+
+// DRF PageNumberPagination response
+export interface Paginated<T> {
+    count: number;
+    next: string | null;
+    previous: string | null;
+    results: T[];
+}
+
+// Some endpoints paginate, some return a bare array
+export type ListResponse<T> = Paginated<T> | T[];
+
+// Admin list endpoints stream a file instead of JSON when `export` is set
+export type ExportFormat = 'csv' | 'excel';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    columns: string[];
+}
+
+// Normalized shape for every failed request, whatever the backend returned
+export interface ApiError {
+    status: number | null;
+    message: string;
+    // DRF serializer errors, e.g. { phone: ['Enter a valid phone number.'] }
+    fieldErrors: Record<string, string[]>;
+    data: unknown;
+}
@@ -0,0 +1,68 @@
+export interface User {
+    id: string;
+    email: string;
+    username: string;
+    first_name: string;
+    last_name: string;
+    phone: string;
+    avatar: string | null;
+    address: string;
+    city: string;
+    district: string;
+    ward: string;
+    // GHN Address IDs for sync
+    province_id: number | null;
+    district_id: number | null;
+    ward_code: string | null;
+    full_name: string;
+    full_address: string;
+    date_joined: string;
+    is_email_verified: boolean;
+    is_staff: boolean;
+    is_2fa_enabled: boolean;
+}
+
+// Admin user list (/auth/admin/users/)
+export interface AdminUserQuery {
+    page?: number;
+    search?: string;
+}
+
+export interface SocialAccount {
+    provider: string;
+    uid: string;
+    created_at: string;
+}
+
+export interface RegisterData {
+    email: string;
+    username: string;
+    password: string;
+    password2: string;
+    first_name?: string;
+    last_name?: string;
+    phone?: string;
+}
+
+export interface AuthTokens {
+    access: string;
+    refresh: string;
+}
+
+// /auth/login/ either signs in directly or asks for a second factor
+export interface LoginResponse extends Partial<AuthTokens> {
+    user?: User;
+    requires_2fa?: boolean;
+    temp_token?: string;
+}
+
+export interface TwoFactorSetup {
+    qr_code: string;
+    secret: string;
+}
+
+export interface ChangePasswordData {
+    old_password: string;
+    new_password: string;
+    new_password2: string;
+}
@@ -0,0 +1,36 @@
+export type QuoteStatus = 'new' | 'contacted' | 'won' | 'lost';
+
+// Body of the storefront "request a quote" form
+export interface QuoteRequestPayload {
+    company_name: string;
+    contact_name: string;
+    phone: string;
+    email: string;
+    quantity: number;
+    note?: string;
+    accept_promo: boolean;
+    product_id: string | null;
+    product_name: string;
+}
+
+// Admin endpoints (/admin/b2b/quotes/)
+export interface QuoteRequest {
+    id: number;
+    company_name: string;
+    contact_name: string;
+    phone: string;
+    email: string;
+    note: string;
+    quantity: number;
+    accept_promo: boolean;
+    status: QuoteStatus;
+    product: { id: string; name: string; slug: string } | null;
+    product_name: string;
+    created_at: string;
+}
+
+export interface QuoteRequestQuery {
+    page?: number;
+    search?: string;
+    status?: string;
+}
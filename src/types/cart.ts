@@ -0,0 +1,47 @@
+export interface CartProduct {
+    id: string; // Product.id is now UUID string
+    name: string;
+    slug: string;
+    price: number;
+    sale_price: number | null;
+    current_price: number;
+    primary_image: string | null;
+    stock: number;
+}
+
+// Snapshot of the chosen ProductVariant; price and stock override the product's
+export interface CartVariant {
+    id: number;
+    sku: string;
+    color: string;
+    storage: string;
+    price: number;
+    sale_price: number | null;
+    current_price: number;
+    stock: number;
+    image: string | null;
+}
+
+export interface CartItem {
+    id: number;
+    product: CartProduct;
+    variant: CartVariant | null;
+    quantity: number;
+    subtotal: number;
+}
+
+export interface Cart {
+    id: number;
+    items: CartItem[];
+    total_items: number;
+    subtotal: number;
+}
+
+export interface AppliedCoupon {
+    code: string;
+    discount_type: 'percentage' | 'fixed';
+    discount_value: number;
+    max_discount: number | null;
+    min_order_value: number;
+    description?: string;
+}
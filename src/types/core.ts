@@ -6,3 +6,28 @@ export interface TeamMember {
     order: number;
     is_active: boolean;
 }
+
+export interface SocialLinks {
+    facebook?: string;
+    instagram?: string;
+    twitter?: string;
+    linkedin?: string;
+    youtube?: string;
+    [key: string]: string | undefined;
+}
+
+export interface SiteConfig {
+    site_name: string;
+    site_description: string;
+    contact_email: string;
+    phone_number: string;
+    address: string;
+    // Seller tax code printed on invoices
+    tax_code?: string;
+    social_links: SocialLinks;
+    maintenance_mode: boolean;
+    enable_cod: boolean;
+    enable_stripe: boolean;
+    shipping_fee_flat: number;
+    free_shipping_threshold: number;
+}
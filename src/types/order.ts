@@ -0,0 +1,174 @@
+export interface OrderItem {
+    id: number;
+    product_name: string;
+    product_image: string;
+    quantity: number;
+    price: number;
+    subtotal: number;
+    color: string | null;
+    // e.g. "Black / 256GB" when the line was a variant
+    variant_name?: string | null;
+    sku?: string | null;
+}
+
+// Shape returned by /orders/ (list)
+export interface OrderSummary {
+    id: number;
+    order_number: string;
+    total: number;
+    status: string;
+    status_display: string;
+    payment_status: string;
+    created_at: string;
+    item_count: number;
+}
+
+// Shape returned by /orders/{order_number}/
+export interface OrderDetail extends OrderSummary {
+    payment_method: string;
+    subtotal: number;
+    shipping_fee: number;
+    discount: number;
+    recipient_name: string;
+    phone: string;
+    full_address: string;
+    items: OrderItem[];
+    cancel_reason?: string;
+    return_request?: ReturnRequest | null;
+    status_history?: OrderStatusEvent[];
+    // GHN order code, set once the shipment is created
+    tracking_code?: string | null;
+}
+
+export interface OrderStatusEvent {
+    status: string;
+    status_display: string;
+    note: string;
+    created_at: string;
+    // Staff member who made the change; null for system/customer changes
+    changed_by?: string | null;
+}
+
+// Returns and refunds (only for delivered orders)
+export type ReturnRequestStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded';
+
+export type ReturnReason = 'defective' | 'wrong_item' | 'not_as_described' | 'changed_mind' | 'other';
+
+export interface ReturnRequestItem {
+    order_item: number;
+    product_name: string;
+    quantity: number;
+}
+
+export interface ReturnRequestEvent {
+    status: ReturnRequestStatus;
+    note: string;
+    created_at: string;
+}
+
+export interface ReturnRequest {
+    id: number;
+    status: ReturnRequestStatus;
+    reason: ReturnReason;
+    description: string;
+    items: ReturnRequestItem[];
+    images: { id: number; image: string }[];
+    refund_amount: number | null;
+    admin_note: string;
+    history: ReturnRequestEvent[];
+    created_at: string;
+}
+
+export interface ReturnRequestPayload {
+    reason: ReturnReason;
+    description: string;
+    items: { order_item: number; quantity: number }[];
+    images?: File[];
+}
+
+export interface ReturnRequestUpdate {
+    status: ReturnRequestStatus;
+    admin_note?: string;
+    refund_amount?: number | null;
+}
+
+// Admin endpoints (/admin/orders/)
+export interface AdminOrder {
+    id: string;
+    order_number: string;
+    status: string;
+    payment_status: string;
+    total: number;
+    item_count: number;
+    created_at: string;
+    recipient_name: string;
+}
+
+// Admin dashboard (/admin/dashboard/)
+export interface DashboardStats {
+    total_revenue: number;
+    monthly_revenue: number;
+    revenue_growth: number;
+    total_orders: number;
+    orders_growth: number;
+    total_customers: number;
+    customers_growth: number;
+    pending_orders: number;
+    recent_orders: AdminOrder[];
+}
+
+export interface AdminOrderDetail extends AdminOrder {
+    payment_method: string;
+    payment_method_display: string;
+    phone: string;
+    email: string;
+    address: string;
+    city: string;
+    district: string;
+    ward: string;
+    note: string;
+    subtotal: number;
+    shipping_fee: number;
+    discount: number;
+    items: OrderItem[];
+    cancel_reason?: string;
+    return_request?: ReturnRequest | null;
+    status_history?: OrderStatusEvent[];
+    tracking_code?: string | null;
+}
+
+export interface AdminOrderQuery {
+    page?: number;
+    search?: string;
+    status?: string;
+    payment_status?: string;
+    // YYYY-MM-DD, inclusive
+    created_after?: string;
+    created_before?: string;
+}
+
+export interface CheckoutPayload {
+    recipient_name: string;
+    phone: string;
+    address: string;
+    city: string;
+    district: string;
+    ward: string;
+    note?: string;
+    payment_method: string;
+    shipping_fee: number;
+    to_district_id: number | null;
+    to_ward_code: string | null;
+    coupon_code?: string;
+}
+
+export interface CheckoutResponse {
+    order_number: string;
+    payment_url?: string;
+}
+
+export interface VNPayVerifyResponse {
+    success: boolean;
+    order_number?: string;
+    message?: string;
+}
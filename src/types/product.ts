@@ -1,9 +1,39 @@
 export interface Category {
-    id?: number;
+    id: number;
     name: string;
-    slug?: string;
+    slug: string;
+    product_count?: number;
+    // Nesting: null for top-level categories
+    parent?: number | null;
+    description?: string;
+    image?: string | null;
+    // Position among siblings, lowest first
+    order?: number;
+    is_active?: boolean;
+}
+
+export interface CategoryNode extends Category {
+    children: CategoryNode[];
+    depth: number;
+}
+
+// One entry of the admin reorder request
+export interface CategoryPosition {
+    id: number;
+    parent: number | null;
+    order: number;
 }
 
+export interface ProductImage {
+    id: number;
+    image: string;
+    is_primary: boolean;
+    alt_text?: string;
+    // Gallery position, lowest first
+    order?: number;
+}
+
+// Shape returned by /catalog/products/ (list)
 export interface Product {
     id: string;
     name: string;
@@ -11,10 +41,163 @@ export interface Product {
     price: number;
     sale_price: number | null;
     current_price: number;
+    discount_percent: number;
     primary_image: string | null;
     category: Category;
-    rating?: number;
+    brand?: string;
+    color?: string;
     stock: number;
+    is_in_stock: boolean;
+    average_rating: number;
+    review_count: number;
+    rating?: number;
     description?: string;
     created_at?: string;
+    // Variant products must be added to the cart from the detail page
+    has_variants?: boolean;
+}
+
+// One purchasable option of a product (e.g. Black / 256GB), with its own price and stock
+export interface ProductVariant {
+    id: number;
+    sku: string;
+    color: string;
+    storage: string;
+    price: number;
+    sale_price: number | null;
+    current_price: number;
+    stock: number;
+    is_in_stock: boolean;
+    is_active: boolean;
+    // Gallery images (ProductImage ids) shown when the variant is selected
+    image_ids: number[];
+}
+
+// Shape returned by /catalog/products/{slug}/
+export interface ProductDetail extends Product {
+    description: string;
+    images: ProductImage[];
+    attributes: Record<string, string>;
+    variants?: ProductVariant[];
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'hidden';
+
+export interface ReviewImage {
+    id: number;
+    image: string;
+}
+
+export interface Review {
+    id: number;
+    user_name: string;
+    user_avatar: string | null;
+    rating: number;
+    comment: string;
+    created_at: string;
+    updated_at?: string;
+    images?: ReviewImage[];
+    helpful_count?: number;
+    has_voted_helpful?: boolean;
+    // The current user's own review; shown to them even while pending
+    is_owner?: boolean;
+    status?: ReviewStatus;
+}
+
+// Only customers with a delivered order containing the product may review it
+export interface ReviewEligibility {
+    can_review: boolean;
+    reason?: string;
+    review_id?: number | null;
+}
+
+export interface ReviewPayload {
+    rating: number;
+    comment: string;
+    images?: File[];
+    remove_image_ids?: number[];
+}
+
+// Admin endpoints (/social/admin/reviews/)
+export interface AdminReview extends Review {
+    status: ReviewStatus;
+    user_email: string;
+    product: { id: string; name: string; slug: string; primary_image: string | null };
+    moderation_note?: string;
+}
+
+export interface AdminReviewQuery {
+    search?: string;
+    status?: string;
+    rating?: number;
+    page?: number;
+}
+
+// One selectable value of a facet and how many products match it under the other filters
+export interface FacetOption {
+    value: string;
+    // null when the backend only listed the value without a count
+    count: number | null;
+}
+
+export interface ProductFilterOptions {
+    brands: FacetOption[];
+    colors: FacetOption[];
+    // Keyed by category slug
+    categories: FacetOption[];
+    // Attribute name (e.g. "RAM") -> values found in product `attributes`
+    attributes: Record<string, FacetOption[]>;
+    // Cheapest and most expensive product for the slider bounds; null when nothing matches
+    price_range: { min: number; max: number } | null;
+}
+
+// Attribute filters travel as attr_<name>=value1,value2 in both the page URL and the API query
+export type AttributeFilterKey = `attr_${string}`;
+
+export interface ProductQuery {
+    search?: string;
+    category__slug?: string;
+    ordering?: string;
+    // Comma-separated for multiple values
+    brand?: string;
+    color?: string;
+    min_price?: string | number;
+    max_price?: string | number;
+    page?: number;
+    page_size?: number;
+    [attribute: AttributeFilterKey]: string | undefined;
+}
+
+// Admin endpoints (/catalog/products/admin/)
+export interface AdminProduct extends Omit<ProductDetail, 'category'> {
+    short_description: string;
+    sku: string;
+    // Nested on reads; some older endpoints still send the bare id
+    category: Category | number | null;
+    is_active: boolean;
+    is_featured: boolean;
+}
+
+// JSON PATCH body for quick edits from the products table
+export interface AdminProductUpdate {
+    is_active?: boolean;
+    is_featured?: boolean;
+    category?: number;
+    price?: number;
+    sale_price?: number | null;
+    stock?: number;
+}
+
+// Spreadsheet rows as read by the backend, keyed by the export's column headers
+export interface ProductImportSheet {
+    columns: string[];
+    rows: Record<string, string>[];
+}
+
+export interface AdminProductQuery {
+    search?: string;
+    category?: string;
+    is_active?: string;
+    is_featured?: string;
+    page?: number;
 }
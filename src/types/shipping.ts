@@ -0,0 +1,41 @@
+// GHN master data, proxied by /shipping/ghn/
+export interface GHNProvince {
+    ProvinceID: number;
+    ProvinceName: string;
+}
+
+export interface GHNDistrict {
+    DistrictID: number;
+    DistrictName: string;
+}
+
+export interface GHNWard {
+    WardCode: string;
+    WardName: string;
+}
+
+export interface ShippingFeeRequest {
+    to_district_id: number;
+    to_ward_code: string;
+    weight: number;
+    insurance_value?: number;
+}
+
+export interface ShippingFeeResponse {
+    success: boolean;
+    total_fee: number;
+    error?: string;
+}
+
+// GHN shipment status, proxied by /shipping/ghn/tracking/{order_code}/
+export interface GHNTrackingLog {
+    status: string;
+    updated_date: string;
+}
+
+export interface GHNTracking {
+    order_code: string;
+    status: string;
+    leadtime?: string | null;
+    log: GHNTrackingLog[];
+}
@@ -0,0 +1,17 @@
+export interface WishlistProduct {
+    id: string;
+    name: string;
+    slug: string;
+    price: number;
+    sale_price: number | null;
+    current_price: number;
+    primary_image: string | null;
+    stock: number;
+    // Variant products must be added to the cart from the detail page
+    has_variants?: boolean;
+}
+
+export interface WishlistItem {
+    product: WishlistProduct;
+    added_at: string;
+}